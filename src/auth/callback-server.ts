@@ -8,6 +8,7 @@
  */
 
 import type { Server } from 'bun';
+import { getConfig } from '../config/index.js';
 
 /**
  * Result from the OAuth callback
@@ -191,12 +192,12 @@ function errorHtml(error: string, description: string): string {
  * @throws {OAuthCallbackError} If the callback contains an error
  */
 export async function startCallbackServer(config: CallbackServerConfig): Promise<CallbackResult> {
-  const port = config.port ?? parseInt(process.env.MCP_GSLIDES_CALLBACK_PORT || '8085', 10);
+  const port = config.port ?? getCallbackPort();
   const timeout = config.timeout ?? 120000; // 2 minutes default
 
   return new Promise((resolve, reject) => {
     let timeoutHandle: ReturnType<typeof setTimeout>;
-    let server: Server;
+    let server: Server<undefined>;
     let settled = false;
 
     // Cleanup function to close server and clear timeout
@@ -308,6 +309,19 @@ export async function startCallbackServer(config: CallbackServerConfig): Promise
  * @returns The full callback URL
  */
 export function getCallbackUrl(port?: number): string {
-  const actualPort = port ?? parseInt(process.env.MCP_GSLIDES_CALLBACK_PORT || '8085', 10);
+  const actualPort = port ?? getCallbackPort();
   return `http://127.0.0.1:${actualPort}/callback`;
 }
+
+/**
+ * Get the configured callback port
+ *
+ * @returns MCP_GSLIDES_CALLBACK_PORT, else oauth.callbackPort from config.json, else 8085
+ */
+export function getCallbackPort(): number {
+  const envPort = process.env.MCP_GSLIDES_CALLBACK_PORT;
+  if (envPort) {
+    return parseInt(envPort, 10);
+  }
+  return getConfig().oauth.callbackPort ?? 8085;
+}
@@ -5,6 +5,7 @@
  * Users don't need to create their own OAuth client.
  */
 
+import { getConfig, getPermissions, OAUTH_FLOWS, type OAuthFlow } from '../config/index.js';
 import { getCallbackUrl } from './callback-server.js';
 
 /**
@@ -31,6 +32,8 @@ export const OAUTH_ENDPOINTS = {
   token: 'https://oauth2.googleapis.com/token',
   /** Revocation endpoint for revoking tokens */
   revoke: 'https://oauth2.googleapis.com/revoke',
+  /** Device authorization endpoint for the device flow */
+  deviceAuthorization: 'https://oauth2.googleapis.com/device/code',
 } as const;
 
 /**
@@ -41,6 +44,33 @@ export const OAUTH_SCOPES = [
   'https://www.googleapis.com/auth/drive',
 ] as const;
 
+/**
+ * OAuth scopes requested under the read-only permission profile
+ */
+export const OAUTH_READONLY_SCOPES = [
+  'https://www.googleapis.com/auth/presentations.readonly',
+  'https://www.googleapis.com/auth/drive.readonly',
+] as const;
+
+/**
+ * Find the required scopes a grant does not cover
+ *
+ * A scope covers itself and its read-only variant, so a token granted
+ * presentations satisfies presentations.readonly.
+ *
+ * @param granted - Space-separated scopes granted to a token
+ * @param required - Scopes the server needs
+ * @returns The required scopes missing from the grant, in the order given
+ */
+export function getMissingScopes(granted: string, required: readonly string[]): string[] {
+  const grantedScopes = new Set(granted.split(/\s+/).filter((scope) => scope !== ''));
+  return required.filter(
+    (scope) =>
+      !grantedScopes.has(scope) &&
+      !(scope.endsWith('.readonly') && grantedScopes.has(scope.slice(0, -'.readonly'.length)))
+  );
+}
+
 /**
  * Bundled OAuth credentials for zero-config experience
  *
@@ -52,22 +82,79 @@ export const OAUTH_SCOPES = [
  * 1. Go to https://console.cloud.google.com/apis/credentials
  * 2. Create a new OAuth 2.0 Client ID (Desktop app type)
  * 3. Add http://127.0.0.1:8085/callback to authorized redirect URIs
- * 4. Replace the values below
+ * 4. Set MCP_GSLIDES_CLIENT_ID and MCP_GSLIDES_CLIENT_SECRET, or oauth.clientId
+ *    and oauth.clientSecret in config.json
  */
-const BUNDLED_CLIENT_ID = process.env.MCP_GSLIDES_CLIENT_ID || 'YOUR_CLIENT_ID_HERE';
-const BUNDLED_CLIENT_SECRET = process.env.MCP_GSLIDES_CLIENT_SECRET || 'YOUR_CLIENT_SECRET_HERE';
+const BUNDLED_CLIENT_ID = 'YOUR_CLIENT_ID_HERE';
+const BUNDLED_CLIENT_SECRET = 'YOUR_CLIENT_SECRET_HERE';
+
+/**
+ * Get the scopes to request when none are configured
+ *
+ * @returns Read-only scopes under the read-only permission profile, else full scopes
+ */
+function getDefaultScopes(): readonly string[] {
+  return getPermissions().profile === 'read-only' ? OAUTH_READONLY_SCOPES : OAUTH_SCOPES;
+}
 
 /**
  * Get the OAuth configuration
  *
+ * Environment variables take precedence over the configuration file. Unless
+ * scopes are configured, the read-only permission profile requests read-only
+ * scopes.
+ *
  * @param port - Optional port override for callback URL
  * @returns OAuth configuration object
+ * @throws {ConfigError} If a configuration file is invalid
  */
 export function getOAuthConfig(port?: number): OAuthConfig {
+  const { oauth } = getConfig();
   return {
-    clientId: BUNDLED_CLIENT_ID,
-    clientSecret: BUNDLED_CLIENT_SECRET,
+    clientId: process.env.MCP_GSLIDES_CLIENT_ID || oauth.clientId || BUNDLED_CLIENT_ID,
+    clientSecret:
+      process.env.MCP_GSLIDES_CLIENT_SECRET || oauth.clientSecret || BUNDLED_CLIENT_SECRET,
     redirectUri: getCallbackUrl(port),
-    scopes: [...OAUTH_SCOPES],
+    scopes: [...(oauth.scopes ?? getDefaultScopes())],
   };
 }
+
+/**
+ * Check whether a browser can be opened on this machine
+ *
+ * Over SSH, or on Linux without a graphical session (e.g. in a container),
+ * the consent screen would open where the user cannot see it, if at all.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @param platform - Operating system (default: process.platform)
+ * @returns false if the server appears to run headless
+ */
+export function isBrowserAvailable(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+): boolean {
+  if (env.SSH_CONNECTION || env.SSH_TTY) {
+    return false;
+  }
+  if (platform === 'linux' && !env.DISPLAY && !env.WAYLAND_DISPLAY) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the interactive sign-in flow to use
+ *
+ * @returns MCP_GSLIDES_OAUTH_FLOW, else oauth.flow from config.json; auto
+ *   resolves to browser, or manual when no browser is available
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getOAuthFlow(): Exclude<OAuthFlow, 'auto'> {
+  const envFlow = process.env.MCP_GSLIDES_OAUTH_FLOW?.trim().toLowerCase();
+  const flow =
+    OAUTH_FLOWS.find((candidate) => candidate === envFlow) ?? getConfig().oauth.flow ?? 'auto';
+  if (flow !== 'auto') {
+    return flow;
+  }
+  return isBrowserAvailable() ? 'browser' : 'manual';
+}
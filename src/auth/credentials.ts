@@ -0,0 +1,225 @@
+/**
+ * Non-interactive credentials
+ *
+ * Lets the server run without a browser, e.g. in CI pipelines, by signing in
+ * as a service account (optionally impersonating a Workspace user through
+ * domain-wide delegation) or by using an access token issued elsewhere, such
+ * as one exchanged through workload identity federation. Selected through
+ * environment variables, which take precedence over config.json:
+ *
+ * - MCP_GSLIDES_ACCESS_TOKEN: access token to use as is
+ * - MCP_GSLIDES_ACCESS_TOKEN_FILE: file holding an access token, re-read when Google rejects the current one
+ * - MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE: path of a service account JSON key
+ * - MCP_GSLIDES_IMPERSONATE_USER: email of the user the service account acts as
+ *
+ * Without any of them the interactive OAuth flow is used.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { JWT, OAuth2Client } from 'google-auth-library';
+import { getAuthTransportOptions } from '../clients/api-options.js';
+import { getConfig } from '../config/index.js';
+
+/**
+ * How the server obtains Google credentials
+ */
+export type AuthMethod =
+  | { type: 'oauth' }
+  | {
+      type: 'service-account';
+      /** Absolute path of the JSON key */
+      keyFile: string;
+      /** User impersonated through domain-wide delegation */
+      subject?: string;
+    }
+  | {
+      type: 'external-token';
+      /** Token given directly */
+      token?: string;
+      /** Absolute path of a file holding the token */
+      tokenFile?: string;
+    };
+
+/**
+ * Fields of a service account JSON key used for signing in
+ */
+interface ServiceAccountKey {
+  type?: string;
+  client_email?: string;
+  private_key?: string;
+  private_key_id?: string;
+}
+
+/**
+ * Read a non-empty environment variable
+ *
+ * @param name - Variable name
+ * @returns The trimmed value, or undefined if unset or empty
+ */
+function readEnv(name: string): string | undefined {
+  return process.env[name]?.trim() || undefined;
+}
+
+/**
+ * Determine how to authenticate from the environment and config.json
+ *
+ * An external access token takes precedence over a service account key,
+ * which takes precedence over the interactive OAuth flow.
+ *
+ * @returns The selected method
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getAuthMethod(): AuthMethod {
+  const config = getConfig();
+
+  const token = readEnv('MCP_GSLIDES_ACCESS_TOKEN');
+  if (token) {
+    return { type: 'external-token', token };
+  }
+
+  const tokenFile = readEnv('MCP_GSLIDES_ACCESS_TOKEN_FILE') ?? config.accessTokenFile;
+  if (tokenFile) {
+    return { type: 'external-token', tokenFile: path.resolve(tokenFile) };
+  }
+
+  const keyFile = readEnv('MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE') ?? config.serviceAccount?.keyFile;
+  if (keyFile) {
+    const subject = readEnv('MCP_GSLIDES_IMPERSONATE_USER') ?? config.serviceAccount?.subject;
+    return { type: 'service-account', keyFile: path.resolve(keyFile), ...(subject && { subject }) };
+  }
+
+  return { type: 'oauth' };
+}
+
+/**
+ * Sign in as a service account
+ *
+ * @param method - Key file and optional user to impersonate
+ * @param scopes - OAuth scopes to request; with delegation, they must be
+ *   authorized for the service account's client ID in the Admin console
+ * @returns A client holding a fresh access token, renewed automatically when it expires
+ * @throws {Error} If the key cannot be read or Google rejects it
+ */
+export async function createServiceAccountClient(
+  method: Extract<AuthMethod, { type: 'service-account' }>,
+  scopes: string[]
+): Promise<JWT> {
+  let key: ServiceAccountKey;
+  try {
+    key = JSON.parse(await fs.readFile(method.keyFile, 'utf-8')) as ServiceAccountKey;
+  } catch (error) {
+    throw new Error(
+      `Could not read the service account key at ${method.keyFile}: ${(error as Error).message}`
+    );
+  }
+
+  if (key.type !== 'service_account' || !key.client_email || !key.private_key) {
+    throw new Error(
+      `${method.keyFile} is not a service account key (expected "type": "service_account" with client_email and private_key)`
+    );
+  }
+
+  const client = new JWT({
+    email: key.client_email,
+    key: key.private_key,
+    keyId: key.private_key_id,
+    scopes,
+    subject: method.subject,
+    // Token requests go through the same proxy and CA bundle as API calls
+    transporterOptions: getAuthTransportOptions(),
+  });
+  await client.authorize();
+  return client;
+}
+
+/**
+ * Fetch a new access token for a service account client in place
+ *
+ * The token is requested on a separate client so API calls already using
+ * this one keep their current token until the new one is set.
+ *
+ * @param client - Client returned by createServiceAccountClient()
+ * @throws {Error} If Google rejects the key
+ */
+export async function refreshServiceAccountClient(client: JWT): Promise<void> {
+  const fresh = new JWT({
+    email: client.email,
+    key: client.key,
+    keyId: client.keyId,
+    scopes: client.scopes,
+    subject: client.subject,
+    transporterOptions: getAuthTransportOptions(),
+  });
+  client.setCredentials(await fresh.authorize());
+}
+
+/**
+ * Read an externally issued access token
+ *
+ * @param method - Token or token file
+ * @returns The access token
+ * @throws {Error} If the file cannot be read or is empty
+ */
+async function readAccessToken(
+  method: Extract<AuthMethod, { type: 'external-token' }>
+): Promise<string> {
+  if (method.token || !method.tokenFile) {
+    return method.token ?? '';
+  }
+
+  let token: string;
+  try {
+    token = (await fs.readFile(method.tokenFile, 'utf-8')).trim();
+  } catch (error) {
+    throw new Error(
+      `Could not read the access token file at ${method.tokenFile}: ${(error as Error).message}`
+    );
+  }
+  if (!token) {
+    throw new Error(`The access token file at ${method.tokenFile} is empty`);
+  }
+  return token;
+}
+
+/**
+ * How long a token read from a file is assumed to stay valid
+ *
+ * Its real lifetime is not known (Google's access tokens last up to an hour
+ * from whenever they were issued), so the file is read again well before.
+ */
+const EXTERNAL_TOKEN_LIFETIME_MS = 10 * 60 * 1000;
+
+/**
+ * Create a client from an externally issued access token
+ *
+ * A token given directly is used until Google rejects it. A token file is
+ * read again as the assumed lifetime runs out, and whenever Google rejects
+ * the current token (the request is then retried once), which picks up
+ * tokens rotated by whatever writes the file.
+ *
+ * @param method - Token or token file
+ * @returns A client holding the token
+ * @throws {Error} If the token file cannot be read or is empty
+ */
+export async function createExternalTokenClient(
+  method: Extract<AuthMethod, { type: 'external-token' }>
+): Promise<OAuth2Client> {
+  const client = new OAuth2Client({
+    transporterOptions: getAuthTransportOptions(),
+    forceRefreshOnFailure: true,
+  });
+
+  if (!method.tokenFile) {
+    client.setCredentials({ access_token: await readAccessToken(method) });
+    return client;
+  }
+
+  const readCredentials = async () => ({
+    access_token: await readAccessToken(method),
+    expiry_date: Date.now() + EXTERNAL_TOKEN_LIFETIME_MS,
+  });
+  client.setCredentials(await readCredentials());
+  client.refreshHandler = readCredentials;
+  return client;
+}
@@ -0,0 +1,342 @@
+/**
+ * Sign-in without a local browser
+ *
+ * Over SSH or in a container, the browser flow cannot show the consent screen
+ * to the user or receive Google's redirect on localhost. These flows instead
+ * throw a SignInRequiredError whose message tells the user what to do, so the
+ * instructions reach them through the MCP client, and finish on a later call:
+ *
+ * - device: the user enters a code at the verification URL on any device;
+ *   the first call after they approve receives the tokens
+ * - manual: the user opens the consent URL on any device and passes the URL
+ *   Google redirects to (which fails to load) to complete_sign_in
+ *
+ * Pending sign-ins are kept in memory, one per account profile.
+ */
+
+import { CodeChallengeMethod, type Credentials, OAuth2Client } from 'google-auth-library';
+import { getAuthTransportOptions } from '../clients/api-options.js';
+import { logger } from '../utils/logger.js';
+import { OAuthCallbackError, StateMismatchError } from './callback-server.js';
+import { OAUTH_ENDPOINTS, type OAuthConfig } from './config.js';
+import { generateCodeChallenge, generateCodeVerifier, generateState } from './pkce.js';
+
+/**
+ * Sign-in waiting for the user to enter a code on another device
+ */
+interface PendingDeviceSignIn {
+  flow: 'device';
+  deviceCode: string;
+  userCode: string;
+  verificationUrl: string;
+  /** Time the codes expire (ms since epoch) */
+  expiresAt: number;
+  /** Minimum time between token requests */
+  intervalMs: number;
+  /** Earliest time of the next token request (ms since epoch) */
+  nextPollAt: number;
+}
+
+/**
+ * Sign-in waiting for the user to paste the redirect URL
+ */
+interface PendingManualSignIn {
+  flow: 'manual';
+  url: string;
+  state: string;
+  codeVerifier: string;
+}
+
+type PendingSignIn = PendingDeviceSignIn | PendingManualSignIn;
+
+/**
+ * Authorization code pasted back by the user, with what is needed to redeem it
+ */
+export interface ManualSignInResponse {
+  /** Account profile the sign-in was started for */
+  account: string;
+  code: string;
+  codeVerifier: string;
+}
+
+/**
+ * Response of the device authorization endpoint
+ */
+interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  /** Google's name for the RFC 8628 verification_uri */
+  verification_url?: string;
+  verification_uri?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * Response of the token endpoint for a device code
+ */
+interface DeviceTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  token_type?: string;
+}
+
+/**
+ * Error thrown when the user must act on another device to sign in
+ *
+ * The message holds the instructions to show to the user.
+ */
+export class SignInRequiredError extends Error {
+  constructor(
+    public account: string,
+    public flow: 'device' | 'manual',
+    public url: string,
+    public userCode?: string
+  ) {
+    super(
+      flow === 'device'
+        ? `Sign-in required for account ${account}: open ${url} on any device, enter the code ${userCode}, and approve access. Then retry the call.`
+        : `Sign-in required for account ${account}: open ${url} in a browser on any device and approve access. ` +
+            'The browser is then sent to a 127.0.0.1 address that fails to load; copy that full URL from the address bar and pass it to complete_sign_in.'
+    );
+    this.name = 'SignInRequiredError';
+  }
+}
+
+/** Sign-ins waiting for the user, by account profile */
+const pendingSignIns = new Map<string, PendingSignIn>();
+
+/** Time added to the polling interval when Google asks to slow down */
+const SLOW_DOWN_INCREMENT_MS = 5000;
+
+/**
+ * Throw the instructions for a pending sign-in, also logging them so MCP
+ * clients that display log notifications show them right away
+ */
+function requireSignIn(account: string, pending: PendingSignIn): never {
+  const error =
+    pending.flow === 'device'
+      ? new SignInRequiredError(account, 'device', pending.verificationUrl, pending.userCode)
+      : new SignInRequiredError(account, 'manual', pending.url);
+  logger.warn(error.message, { account });
+  throw error;
+}
+
+/**
+ * Send a form-encoded POST request to a Google OAuth endpoint
+ */
+async function postForm<T>(url: string, fields: Record<string, string>): Promise<T> {
+  const client = new OAuth2Client({ transporterOptions: getAuthTransportOptions() });
+  const response = await client.transporter.request<T>({
+    url,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    data: new URLSearchParams(fields).toString(),
+  });
+  return response.data;
+}
+
+/**
+ * Get the OAuth error code of a failed token request, e.g. authorization_pending
+ */
+function getOAuthErrorCode(error: unknown): string | undefined {
+  const data = (error as { response?: { data?: { error?: unknown } } }).response?.data;
+  return typeof data?.error === 'string' ? data.error : undefined;
+}
+
+/**
+ * Sign in with the device flow
+ *
+ * The first call requests a device code and throws the instructions. Later
+ * calls ask Google once whether the user has approved, waiting out the
+ * polling interval if needed, and throw the same instructions until they
+ * have. Expired codes are replaced by new ones.
+ *
+ * Google accepts only some scopes in this flow, and only for OAuth clients of
+ * the "TVs and Limited Input devices" type.
+ *
+ * @param account - Account profile to sign in to
+ * @param config - OAuth client and scopes
+ * @param now - Clock (overridable for tests)
+ * @returns The tokens, once the user has approved
+ * @throws {SignInRequiredError} While the user has not approved yet
+ * @throws {OAuthCallbackError} If the user denied access or Google rejected the request
+ */
+export async function continueDeviceSignIn(
+  account: string,
+  config: OAuthConfig,
+  now: () => number = Date.now
+): Promise<Credentials> {
+  const pending = pendingSignIns.get(account);
+  if (pending?.flow !== 'device' || pending.expiresAt <= now()) {
+    return requireSignIn(account, await requestDeviceCode(account, config, now));
+  }
+
+  const wait = pending.nextPollAt - now();
+  if (wait > 0) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  let response: DeviceTokenResponse;
+  try {
+    response = await postForm<DeviceTokenResponse>(OAUTH_ENDPOINTS.token, {
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      device_code: pending.deviceCode,
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+    });
+  } catch (error) {
+    const code = getOAuthErrorCode(error);
+    if (code === 'authorization_pending' || code === 'slow_down') {
+      if (code === 'slow_down') {
+        pending.intervalMs += SLOW_DOWN_INCREMENT_MS;
+      }
+      pending.nextPollAt = now() + pending.intervalMs;
+      return requireSignIn(account, pending);
+    }
+    if (code === 'expired_token') {
+      return requireSignIn(account, await requestDeviceCode(account, config, now));
+    }
+    pendingSignIns.delete(account);
+    if (code === 'access_denied') {
+      throw new OAuthCallbackError('access_denied', 'The user denied access');
+    }
+    throw error;
+  }
+
+  pendingSignIns.delete(account);
+  return {
+    access_token: response.access_token,
+    refresh_token: response.refresh_token,
+    expiry_date: response.expires_in === undefined ? undefined : now() + response.expires_in * 1000,
+    scope: response.scope,
+  };
+}
+
+/**
+ * Request a new device code and remember it as the account's pending sign-in
+ */
+async function requestDeviceCode(
+  account: string,
+  config: OAuthConfig,
+  now: () => number
+): Promise<PendingDeviceSignIn> {
+  const response = await postForm<DeviceCodeResponse>(OAUTH_ENDPOINTS.deviceAuthorization, {
+    client_id: config.clientId,
+    scope: config.scopes.join(' '),
+  });
+
+  const intervalMs = (response.interval ?? 5) * 1000;
+  const pending: PendingDeviceSignIn = {
+    flow: 'device',
+    deviceCode: response.device_code,
+    userCode: response.user_code,
+    verificationUrl: response.verification_url ?? response.verification_uri ?? '',
+    expiresAt: now() + response.expires_in * 1000,
+    intervalMs,
+    nextPollAt: now() + intervalMs,
+  };
+  pendingSignIns.set(account, pending);
+  return pending;
+}
+
+/**
+ * Start the manual flow, or repeat its instructions if already started
+ *
+ * @param oauth2Client - Client whose redirect URI the consent screen redirects to
+ * @param account - Account profile to sign in to
+ * @param scopes - OAuth scopes to request
+ * @throws {SignInRequiredError} Always, with the consent URL
+ */
+export function requireManualSignIn(
+  oauth2Client: OAuth2Client,
+  account: string,
+  scopes: string[]
+): never {
+  const pending = pendingSignIns.get(account);
+  if (pending?.flow === 'manual') {
+    return requireSignIn(account, pending);
+  }
+
+  const codeVerifier = generateCodeVerifier();
+  const state = generateState();
+  const url = oauth2Client.generateAuthUrl({
+    access_type: 'offline', // Request refresh token
+    scope: scopes,
+    code_challenge: generateCodeChallenge(codeVerifier),
+    code_challenge_method: CodeChallengeMethod.S256,
+    state,
+    prompt: 'consent', // Force consent screen to ensure refresh token
+    include_granted_scopes: true, // Keep scopes granted earlier when asking for new ones
+  });
+
+  const started: PendingManualSignIn = { flow: 'manual', url, state, codeVerifier };
+  pendingSignIns.set(account, started);
+  return requireSignIn(account, started);
+}
+
+/**
+ * Match a pasted redirect URL or code to the manual sign-in it belongs to
+ *
+ * A full redirect URL is matched by its state parameter. A bare code can only
+ * be used while a single manual sign-in is pending. The sign-in stays pending
+ * until clearPendingSignIn() is called, so a failed exchange can be retried.
+ *
+ * @param response - The URL Google redirected to, or its code parameter
+ * @returns The code and the sign-in it completes
+ * @throws {OAuthCallbackError} If the URL carries an error, has no code, or no sign-in matches
+ * @throws {StateMismatchError} If the URL's state matches no pending sign-in
+ */
+export function takeManualSignInResponse(response: string): ManualSignInResponse {
+  const input = response.trim();
+  let code: string | null = input;
+  let state: string | null = null;
+
+  if (/^https?:\/\//i.test(input)) {
+    const params = new URL(input).searchParams;
+    const error = params.get('error');
+    if (error) {
+      throw new OAuthCallbackError(error, params.get('error_description') ?? undefined);
+    }
+    code = params.get('code');
+    state = params.get('state');
+  }
+  if (!code) {
+    throw new OAuthCallbackError('invalid_request', 'The URL has no code parameter');
+  }
+
+  const manual = [...pendingSignIns].filter(
+    (entry): entry is [string, PendingManualSignIn] => entry[1].flow === 'manual'
+  );
+  if (manual.length === 0) {
+    throw new OAuthCallbackError(
+      'invalid_request',
+      'No sign-in is waiting for a code; call a tool to start one'
+    );
+  }
+
+  if (state === null && manual.length > 1) {
+    throw new OAuthCallbackError(
+      'invalid_request',
+      'Several sign-ins are waiting; pass the full redirect URL instead of the code'
+    );
+  }
+  const match = state === null ? manual[0] : manual.find(([, pending]) => pending.state === state);
+  if (!match) {
+    throw new StateMismatchError();
+  }
+
+  const [account, pending] = match;
+  return { account, code, codeVerifier: pending.codeVerifier };
+}
+
+/**
+ * Forget the pending sign-in of an account, once completed or to start over
+ *
+ * @param account - Account profile
+ */
+export function clearPendingSignIn(account: string): void {
+  pendingSignIns.delete(account);
+}
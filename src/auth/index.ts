@@ -10,6 +10,7 @@ export {
   type CallbackResult,
   type CallbackServerConfig,
   CallbackTimeoutError,
+  getCallbackPort,
   getCallbackUrl,
   OAuthCallbackError,
   StateMismatchError,
@@ -18,15 +19,38 @@ export {
 // OAuth configuration
 export {
   getOAuthConfig,
+  getOAuthFlow,
+  isBrowserAvailable,
   OAUTH_ENDPOINTS,
+  OAUTH_READONLY_SCOPES,
   OAUTH_SCOPES,
   type OAuthConfig,
 } from './config.js';
+// Service account and external token credentials
+export {
+  type AuthMethod,
+  createExternalTokenClient,
+  createServiceAccountClient,
+  getAuthMethod,
+  refreshServiceAccountClient,
+} from './credentials.js';
+// Sign-in without a local browser
+export {
+  clearPendingSignIn,
+  continueDeviceSignIn,
+  type ManualSignInResponse,
+  requireManualSignIn,
+  SignInRequiredError,
+  takeManualSignInResponse,
+} from './headless-flow.js';
 // Primary authentication API
 export {
   AuthenticationError,
   AuthFlowCancelledError,
+  completeSignIn,
   getAuthenticatedClient,
+  refreshClientCredentials,
+  revokeToken,
   TokenRefreshFailedError,
 } from './oauth-client.js';
 
@@ -36,11 +60,23 @@ export {
   generateCodeVerifier,
   generateState,
 } from './pkce.js';
+// Token encryption at rest
+export {
+  decryptTokens,
+  type EncryptedTokenFile,
+  encryptTokens,
+  getTokenKeySource,
+  isEncryptedTokenFile,
+  TokenDecryptionError,
+  type TokenKeySource,
+} from './token-encryption.js';
 // Token storage utilities (for advanced use cases)
 export {
   areTokensExpiring,
   deleteTokens,
+  getDefaultAccount,
   getTokenPath,
+  listAccounts,
   loadTokens,
   saveTokens,
 } from './token-store.js';
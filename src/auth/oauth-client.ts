@@ -4,14 +4,38 @@
  * Provides the main entry point for authentication, handling:
  * - Token loading and validation
  * - Automatic token refresh
- * - Interactive OAuth flow when needed
+ * - Interactive OAuth flow when needed, in the browser or headless (see headless-flow.ts)
+ * - Service account and external token credentials (see credentials.ts)
+ * - Token revocation on logout
  */
 
-import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { CodeChallengeMethod, type Credentials, JWT, OAuth2Client } from 'google-auth-library';
 import open from 'open';
+import { getAuthTransportOptions } from '../clients/api-options.js';
+import { DEFAULT_ACCOUNT } from '../config/index.js';
 import type { StoredTokens } from '../types/common.js';
+import { logger } from '../utils/logger.js';
 import { startCallbackServer } from './callback-server.js';
-import { getOAuthConfig } from './config.js';
+import {
+  getMissingScopes,
+  getOAuthConfig,
+  getOAuthFlow,
+  OAUTH_ENDPOINTS,
+  type OAuthConfig,
+} from './config.js';
+import {
+  createExternalTokenClient,
+  createServiceAccountClient,
+  getAuthMethod,
+  refreshServiceAccountClient,
+} from './credentials.js';
+import {
+  clearPendingSignIn,
+  continueDeviceSignIn,
+  requireManualSignIn,
+  SignInRequiredError,
+  takeManualSignInResponse,
+} from './headless-flow.js';
 import { generateCodeChallenge, generateCodeVerifier, generateState } from './pkce.js';
 import { areTokensExpiring, loadTokens, saveTokens } from './token-store.js';
 
@@ -52,36 +76,74 @@ export class TokenRefreshFailedError extends Error {
 /**
  * Get an authenticated Google OAuth2 client
  *
- * This is the main entry point for authentication. It will:
+ * This is the main entry point for authentication. When a service account
+ * key or an external access token is configured, it is used directly.
+ * Otherwise it will:
  * 1. Check for existing valid tokens
  * 2. Refresh tokens if they're expiring soon
- * 3. Start interactive OAuth flow if no valid tokens exist
+ * 3. Start interactive OAuth flow if no valid tokens exist, or if they were
+ *    granted fewer scopes than the server now requests
  *
+ * @param account - Account profile whose tokens to use (default: the default profile)
  * @returns Authenticated OAuth2Client ready for API calls
+ * @throws {SignInRequiredError} If the user must finish signing in on another device
  * @throws {AuthenticationError} If authentication fails
  */
-export async function getAuthenticatedClient(): Promise<OAuth2Client> {
-  const config = getOAuthConfig();
-  const oauth2Client = new OAuth2Client({
-    clientId: config.clientId,
-    clientSecret: config.clientSecret,
-    redirectUri: config.redirectUri,
-  });
+export async function getAuthenticatedClient(
+  account: string = DEFAULT_ACCOUNT
+): Promise<OAuth2Client> {
+  const method = getAuthMethod();
+  if (method.type !== 'oauth' && account !== DEFAULT_ACCOUNT) {
+    throw new AuthenticationError(
+      `Account ${account} cannot be used: named accounts require Google sign-in, but a service account or access token is configured`
+    );
+  }
+  if (method.type === 'service-account') {
+    try {
+      return await createServiceAccountClient(method, getOAuthConfig().scopes);
+    } catch (error) {
+      throw new AuthenticationError(
+        'Failed to authenticate as the service account',
+        error as Error
+      );
+    }
+  }
+  if (method.type === 'external-token') {
+    try {
+      return await createExternalTokenClient(method);
+    } catch (error) {
+      throw new AuthenticationError('Failed to load the external access token', error as Error);
+    }
+  }
+
+  const oauth2Client = createOAuth2Client();
 
   // Try to load existing tokens
-  const tokens = await loadTokens();
+  const tokens = await loadTokens(account);
 
-  if (tokens) {
+  const missingScopes = tokens ? getMissingScopes(tokens.scope, getOAuthConfig().scopes) : [];
+  if (tokens && missingScopes.length > 0) {
+    // Ask for the new scopes now instead of letting API calls fail with 403
+    logger.info('Stored tokens lack required scopes; requesting consent again', {
+      account,
+      missingScopes,
+    });
+  } else if (tokens) {
     // Check if tokens are expiring soon (within 5 minutes)
     if (areTokensExpiring(tokens, 5)) {
       // Attempt to refresh
       try {
-        const refreshedTokens = await refreshAccessToken(oauth2Client, tokens.refreshToken);
+        const refreshedTokens = await refreshAccessToken(
+          oauth2Client,
+          tokens.refreshToken,
+          tokens.scope,
+          account
+        );
         setClientCredentials(oauth2Client, refreshedTokens);
         return oauth2Client;
       } catch (_error) {
         // Refresh failed - fall through to interactive flow
-        console.error('Token refresh failed, starting new OAuth flow');
+        logger.warn('Token refresh failed, starting new OAuth flow', { account });
       }
     } else {
       // Tokens are still valid
@@ -92,24 +154,161 @@ export async function getAuthenticatedClient(): Promise<OAuth2Client> {
 
   // No valid tokens - start interactive OAuth flow
   try {
-    const newTokens = await startOAuthFlow(oauth2Client);
+    const newTokens = await startOAuthFlow(oauth2Client, account);
     setClientCredentials(oauth2Client, newTokens);
     return oauth2Client;
   } catch (error) {
+    if (error instanceof SignInRequiredError) {
+      throw error;
+    }
     throw new AuthenticationError('Failed to complete OAuth authentication', error as Error);
   }
 }
 
 /**
- * Start the interactive OAuth flow
+ * Finish a manual sign-in with the URL Google redirected to
+ *
+ * @param response - The redirect URL pasted by the user, or its code parameter
+ * @returns The account profile the tokens were saved to
+ * @throws {AuthenticationError} If no sign-in matches or Google rejects the code
+ */
+export async function completeSignIn(response: string): Promise<string> {
+  try {
+    const { account, code, codeVerifier } = takeManualSignInResponse(response);
+    const { tokens } = await createOAuth2Client().getToken({ code, codeVerifier });
+    await storeSignInTokens(tokens, account, getOAuthConfig());
+    clearPendingSignIn(account);
+    return account;
+  } catch (error) {
+    throw new AuthenticationError(
+      `Failed to complete sign-in: ${(error as Error).message}`,
+      error as Error
+    );
+  }
+}
+
+/**
+ * Refresh the access token of an authenticated client in place
+ *
+ * The refresh runs on a separate OAuth2Client so API calls already using
+ * this client keep their current access token until the new one is set.
+ *
+ * @param oauth2Client - Client returned by getAuthenticatedClient()
+ * @param account - Account profile to save the new tokens to (default: the default profile)
+ * @throws {TokenRefreshFailedError} If the client has no refresh token or token file, or refresh fails
+ */
+export async function refreshClientCredentials(
+  oauth2Client: OAuth2Client,
+  account: string = DEFAULT_ACCOUNT
+): Promise<void> {
+  // Service accounts sign a new assertion instead of using a refresh token
+  if (oauth2Client instanceof JWT) {
+    try {
+      await refreshServiceAccountClient(oauth2Client);
+    } catch (error) {
+      throw new TokenRefreshFailedError(error as Error);
+    }
+    return;
+  }
+
+  const refreshToken = oauth2Client.credentials.refresh_token;
+  if (!refreshToken && oauth2Client.refreshHandler) {
+    // External access token files are read again instead
+    try {
+      oauth2Client.setCredentials(await oauth2Client.refreshHandler());
+    } catch (error) {
+      throw new TokenRefreshFailedError(error as Error);
+    }
+    return;
+  }
+  if (!refreshToken) {
+    throw new TokenRefreshFailedError();
+  }
+
+  const refreshedTokens = await refreshAccessToken(
+    createOAuth2Client(),
+    refreshToken,
+    oauth2Client.credentials.scope,
+    account
+  );
+  setClientCredentials(oauth2Client, refreshedTokens);
+}
+
+/**
+ * Revoke a token at Google so it can no longer be used
+ *
+ * Revoking a refresh token also revokes the access tokens issued from it.
+ * The token is sent in the request body rather than the URL so it does not
+ * end up in proxy logs.
+ *
+ * @param token - Refresh or access token to revoke
+ * @throws {Error} If Google cannot be reached or rejects the request
+ */
+export async function revokeToken(token: string): Promise<void> {
+  const client = new OAuth2Client({ transporterOptions: getAuthTransportOptions() });
+  await client.transporter.request({
+    url: OAUTH_ENDPOINTS.revoke,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    data: new URLSearchParams({ token }).toString(),
+  });
+}
+
+/**
+ * Create an OAuth2 client from the configured credentials
+ *
+ * @returns An OAuth2Client without tokens
+ */
+function createOAuth2Client(): OAuth2Client {
+  const config = getOAuthConfig();
+  return new OAuth2Client({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    redirectUri: config.redirectUri,
+    // Token requests go through the same proxy and CA bundle as API calls
+    transporterOptions: getAuthTransportOptions(),
+  });
+}
+
+/**
+ * Start the interactive OAuth flow configured for this machine
  *
  * @param oauth2Client - The OAuth2 client to use
+ * @param account - Account profile to save the tokens to
  * @returns The obtained tokens
+ * @throws {SignInRequiredError} If the user must finish signing in on another device
  * @throws {AuthFlowCancelledError} If user cancels or denies consent
  */
-async function startOAuthFlow(oauth2Client: OAuth2Client): Promise<StoredTokens> {
+async function startOAuthFlow(oauth2Client: OAuth2Client, account: string): Promise<StoredTokens> {
   const config = getOAuthConfig();
 
+  let tokens: Credentials;
+  switch (getOAuthFlow()) {
+    case 'device':
+      tokens = await continueDeviceSignIn(account, config);
+      break;
+    case 'manual':
+      return requireManualSignIn(oauth2Client, account, config.scopes);
+    default:
+      tokens = await runBrowserFlow(oauth2Client, account, config);
+  }
+
+  return storeSignInTokens(tokens, account, config);
+}
+
+/**
+ * Sign in through the browser, receiving the code on the local callback server
+ *
+ * @param oauth2Client - The OAuth2 client to use
+ * @param account - Account profile being signed in to, for logging
+ * @param config - OAuth client and scopes
+ * @returns The tokens returned by Google
+ */
+async function runBrowserFlow(
+  oauth2Client: OAuth2Client,
+  account: string,
+  config: OAuthConfig
+): Promise<Credentials> {
   // Generate PKCE parameters
   const codeVerifier = generateCodeVerifier();
   const codeChallenge = generateCodeChallenge(codeVerifier);
@@ -123,18 +322,19 @@ async function startOAuthFlow(oauth2Client: OAuth2Client): Promise<StoredTokens>
     code_challenge_method: CodeChallengeMethod.S256,
     state: state,
     prompt: 'consent', // Force consent screen to ensure refresh token
+    include_granted_scopes: true, // Keep scopes granted earlier when asking for new ones
   });
 
-  console.error('\nOpening browser for Google authentication...');
-  console.error('If the browser does not open automatically, visit this URL:');
-  console.error(authUrl);
-  console.error('');
+  logger.info(
+    'Opening browser for Google authentication; if it does not open automatically, visit the URL',
+    { account, url: authUrl }
+  );
 
   // Open browser for user consent
   try {
     await open(authUrl);
   } catch (_error) {
-    console.error('Failed to open browser automatically. Please visit the URL above manually.');
+    logger.warn('Failed to open browser automatically; visit the URL manually', { url: authUrl });
   }
 
   // Start callback server and wait for authorization code
@@ -147,7 +347,23 @@ async function startOAuthFlow(oauth2Client: OAuth2Client): Promise<StoredTokens>
     code: callbackResult.code,
     codeVerifier: codeVerifier,
   });
+  return tokens;
+}
 
+/**
+ * Save the tokens obtained by a sign-in
+ *
+ * @param tokens - Tokens returned by Google
+ * @param account - Account profile to save the tokens to
+ * @param config - OAuth configuration, for the scopes requested
+ * @returns The saved tokens
+ * @throws {AuthenticationError} If Google did not return a refresh token and expiry
+ */
+async function storeSignInTokens(
+  tokens: Credentials,
+  account: string,
+  config: OAuthConfig
+): Promise<StoredTokens> {
   if (!tokens.access_token || !tokens.refresh_token || !tokens.expiry_date) {
     throw new AuthenticationError('Incomplete token response from Google');
   }
@@ -161,9 +377,9 @@ async function startOAuthFlow(oauth2Client: OAuth2Client): Promise<StoredTokens>
   };
 
   // Save tokens for future use
-  await saveTokens(storedTokens);
+  await saveTokens(storedTokens, account);
 
-  console.error('Authentication successful! Tokens saved.');
+  logger.info('Authentication successful; tokens saved', { account });
 
   return storedTokens;
 }
@@ -171,14 +387,21 @@ async function startOAuthFlow(oauth2Client: OAuth2Client): Promise<StoredTokens>
 /**
  * Refresh an expired or expiring access token
  *
+ * Google often omits the scope from refresh responses, in which case the
+ * grant is unchanged and the previous scope is kept.
+ *
  * @param oauth2Client - The OAuth2 client to use
  * @param refreshToken - The refresh token
+ * @param previousScope - Scope granted to the tokens being refreshed
+ * @param account - Account profile to save the tokens to
  * @returns Updated tokens
- * @throws {TokenRefreshFailedError} If refresh fails
+ * @throws {TokenRefreshFailedError} If refresh fails or the tokens lack required scopes
  */
 async function refreshAccessToken(
   oauth2Client: OAuth2Client,
-  refreshToken: string
+  refreshToken: string,
+  previousScope: string | undefined,
+  account: string
 ): Promise<StoredTokens> {
   try {
     // Set the refresh token
@@ -189,20 +412,27 @@ async function refreshAccessToken(
     // Request new access token
     const { credentials } = await oauth2Client.refreshAccessToken();
 
-    if (!credentials.access_token || !credentials.expiry_date) {
+    const scope = credentials.scope || previousScope;
+    if (!credentials.access_token || !credentials.expiry_date || !scope) {
       throw new Error('Incomplete token response from refresh');
     }
 
+    // Ask for consent again rather than saving tokens API calls would reject
+    const missingScopes = getMissingScopes(scope, getOAuthConfig().scopes);
+    if (missingScopes.length > 0) {
+      throw new Error(`Refreshed tokens lack required scopes: ${missingScopes.join(', ')}`);
+    }
+
     // Convert to StoredTokens format
     const storedTokens: StoredTokens = {
       accessToken: credentials.access_token,
       refreshToken: credentials.refresh_token || refreshToken, // Use new refresh token if provided
       expiresAt: credentials.expiry_date,
-      scope: credentials.scope || '',
+      scope,
     };
 
     // Save refreshed tokens
-    await saveTokens(storedTokens);
+    await saveTokens(storedTokens, account);
 
     return storedTokens;
   } catch (error) {
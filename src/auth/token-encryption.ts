@@ -0,0 +1,231 @@
+/**
+ * Encryption of stored tokens at rest
+ *
+ * When a key is configured, token files are encrypted with AES-256-GCM. The
+ * key is derived from a passphrase with scrypt, or from the contents of a key
+ * file with HKDF, using a random salt per write. The authentication tag makes
+ * any change to the file, or moving it to another account profile, fail
+ * decryption instead of yielding altered tokens. Configured through
+ * environment variables, which take precedence over config.json:
+ *
+ * - MCP_GSLIDES_TOKEN_PASSPHRASE: passphrase to derive the key from (takes precedence over a key file)
+ * - MCP_GSLIDES_TOKEN_KEY_FILE: file whose contents the key is derived from
+ *
+ * Without either, tokens are stored as plaintext JSON.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdf,
+  randomBytes,
+  type ScryptOptions,
+  scrypt,
+} from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { getConfig } from '../config/index.js';
+import type { StoredTokens } from '../types/common.js';
+
+/**
+ * Where the encryption key comes from
+ */
+export type TokenKeySource =
+  | { type: 'passphrase'; passphrase: string }
+  | {
+      type: 'key-file';
+      /** Absolute path of the key file */
+      path: string;
+      /** Contents of the key file */
+      secret: Buffer;
+    };
+
+/**
+ * Key derivation function of an encrypted token file
+ */
+type TokenKdf = 'scrypt' | 'hkdf-sha256';
+
+/**
+ * Contents of an encrypted token file (binary fields are base64)
+ */
+export interface EncryptedTokenFile {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: TokenKdf;
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Error thrown when stored tokens cannot be decrypted
+ */
+export class TokenDecryptionError extends Error {
+  constructor(
+    public path: string,
+    detail: string
+  ) {
+    super(`Cannot read the token file ${path}: ${detail}`);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/** scrypt cost parameters; raising them requires a new file version */
+const SCRYPT_OPTIONS: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+/** Info string binding HKDF output to this use */
+const HKDF_INFO = 'mcp-google-slides token encryption';
+
+/**
+ * Get the configured encryption key source
+ *
+ * @returns The key source, or undefined if tokens are stored unencrypted
+ * @throws {Error} If the key file cannot be read or is empty
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export async function getTokenKeySource(): Promise<TokenKeySource | undefined> {
+  const passphrase = process.env.MCP_GSLIDES_TOKEN_PASSPHRASE;
+  if (passphrase) {
+    return { type: 'passphrase', passphrase };
+  }
+
+  const keyFile = process.env.MCP_GSLIDES_TOKEN_KEY_FILE?.trim() || getConfig().tokenKeyFile;
+  if (!keyFile) {
+    return undefined;
+  }
+
+  const keyPath = path.resolve(keyFile);
+  let secret: Buffer;
+  try {
+    secret = await fs.readFile(keyPath);
+  } catch (error) {
+    throw new Error(`Could not read the token key file at ${keyPath}: ${(error as Error).message}`);
+  }
+  if (secret.toString('utf-8').trim() === '') {
+    throw new Error(`The token key file at ${keyPath} is empty`);
+  }
+  return { type: 'key-file', path: keyPath, secret };
+}
+
+/**
+ * Check whether parsed token file contents are encrypted
+ *
+ * @param data - Parsed JSON of a token file
+ * @returns true if the file holds encrypted tokens rather than plaintext
+ */
+export function isEncryptedTokenFile(data: unknown): data is EncryptedTokenFile {
+  return typeof data === 'object' && data !== null && 'ciphertext' in data;
+}
+
+/**
+ * Encrypt tokens for storage
+ *
+ * @param tokens - The tokens to encrypt
+ * @param key - Encryption key source
+ * @param account - Account profile the tokens belong to, authenticated with them
+ * @returns The file contents to store
+ */
+export async function encryptTokens(
+  tokens: StoredTokens,
+  key: TokenKeySource,
+  account: string
+): Promise<EncryptedTokenFile> {
+  const kdf = getKdf(key);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv('aes-256-gcm', await deriveKey(key, kdf, salt), iv);
+  cipher.setAAD(Buffer.from(account, 'utf-8'));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(tokens), 'utf-8'),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    algorithm: 'aes-256-gcm',
+    kdf,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt stored tokens and verify they were not modified
+ *
+ * @param file - Contents of the encrypted token file
+ * @param key - Encryption key source, or undefined if none is configured
+ * @param account - Account profile the tokens should belong to
+ * @param tokenPath - Path of the file, for error messages
+ * @returns The decrypted tokens (not yet checked for required fields)
+ * @throws {TokenDecryptionError} If no key is configured, the key is wrong, or the file was modified
+ */
+export async function decryptTokens(
+  file: EncryptedTokenFile,
+  key: TokenKeySource | undefined,
+  account: string,
+  tokenPath: string
+): Promise<StoredTokens> {
+  if (!key) {
+    throw new TokenDecryptionError(
+      tokenPath,
+      'it is encrypted; set MCP_GSLIDES_TOKEN_PASSPHRASE or MCP_GSLIDES_TOKEN_KEY_FILE to the key it was encrypted with'
+    );
+  }
+  if (file.version !== 1 || file.algorithm !== 'aes-256-gcm') {
+    throw new TokenDecryptionError(tokenPath, 'unsupported encryption format');
+  }
+  if (file.kdf !== getKdf(key)) {
+    const expected = file.kdf === 'scrypt' ? 'a passphrase' : 'a key file';
+    throw new TokenDecryptionError(tokenPath, `it was encrypted with ${expected}`);
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      await deriveKey(key, file.kdf, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAAD(Buffer.from(account, 'utf-8'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(file.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf-8')) as StoredTokens;
+  } catch {
+    throw new TokenDecryptionError(
+      tokenPath,
+      'integrity check failed; the file was modified, belongs to another account, or was encrypted with a different key'
+    );
+  }
+}
+
+/**
+ * Get the key derivation function used for a key source
+ */
+function getKdf(key: TokenKeySource): TokenKdf {
+  return key.type === 'passphrase' ? 'scrypt' : 'hkdf-sha256';
+}
+
+/**
+ * Derive the 256-bit AES key from a key source
+ */
+function deriveKey(key: TokenKeySource, kdf: TokenKdf, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    if (kdf === 'scrypt' && key.type === 'passphrase') {
+      scrypt(key.passphrase, salt, 32, SCRYPT_OPTIONS, (error, derived) =>
+        error ? reject(error) : resolve(derived)
+      );
+    } else if (kdf === 'hkdf-sha256' && key.type === 'key-file') {
+      hkdf('sha256', key.secret, salt, HKDF_INFO, 32, (error, derived) =>
+        error ? reject(error) : resolve(Buffer.from(derived))
+      );
+    } else {
+      reject(new Error(`Key derivation ${kdf} does not match the ${key.type} key`));
+    }
+  });
+}
@@ -1,26 +1,105 @@
 /**
  * Token storage implementation for persisting OAuth credentials
+ *
+ * Each account profile has its own token file. The default profile uses the
+ * token file itself; a named profile such as "work" is stored next to it
+ * (tokens.work.json), so signing in to another Google account does not
+ * replace the existing tokens. Files are encrypted when a key is configured
+ * (see token-encryption.ts). Writing an encrypted file leaves a marker next to
+ * it (.tokens.json.encrypted), after which a plaintext file in its place is
+ * rejected rather than taken for one written before the key was configured.
+ *
+ * - MCP_GSLIDES_TOKEN_PATH: path of the default profile's token file (default: ~/.mcp-google-slides/tokens.json)
+ * - MCP_GSLIDES_ACCOUNT: account profile tools act as when they are not given one (default: default)
  */
 
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { ACCOUNT_NAME_PATTERN, DEFAULT_ACCOUNT, getConfig } from '../config/index.js';
 import type { StoredTokens } from '../types/common.js';
+import { logger } from '../utils/logger.js';
+import {
+  decryptTokens,
+  encryptTokens,
+  getTokenKeySource,
+  isEncryptedTokenFile,
+  TokenDecryptionError,
+} from './token-encryption.js';
 
 /**
- * Get the path to the token storage file
- * Supports MCP_GSLIDES_TOKEN_PATH environment variable for custom location
- * @returns Absolute path to tokens.json
+ * Get the path to the token storage file of an account profile
+ * Supports MCP_GSLIDES_TOKEN_PATH environment variable or tokenPath in config.json for custom location
+ * @param account - Account profile (default: the default profile)
+ * @returns Absolute path to tokens.json, or tokens.<account>.json for a named profile
+ * @throws {Error} If the account name is invalid
  */
-export function getTokenPath(): string {
-  const customPath = process.env.MCP_GSLIDES_TOKEN_PATH;
+export function getTokenPath(account: string = DEFAULT_ACCOUNT): string {
+  const customPath = process.env.MCP_GSLIDES_TOKEN_PATH || getConfig().tokenPath;
+  const tokenPath = customPath
+    ? path.resolve(customPath)
+    : path.join(os.homedir(), '.mcp-google-slides', 'tokens.json');
 
-  if (customPath) {
-    return path.resolve(customPath);
+  if (account === DEFAULT_ACCOUNT) {
+    return tokenPath;
   }
 
-  const homeDir = os.homedir();
-  return path.join(homeDir, '.mcp-google-slides', 'tokens.json');
+  if (!ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new Error(`Invalid account name: ${account}`);
+  }
+
+  const { dir, name, ext } = path.parse(tokenPath);
+  return path.join(dir, `${name}.${account}${ext}`);
+}
+
+/**
+ * Get the account profile tools act as by default
+ * Supports MCP_GSLIDES_ACCOUNT environment variable or account in config.json
+ * @returns The configured profile, or the default profile
+ * @throws {Error} If MCP_GSLIDES_ACCOUNT is not a valid account name
+ */
+export function getDefaultAccount(): string {
+  const account = process.env.MCP_GSLIDES_ACCOUNT?.trim();
+
+  if (account && !ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new Error(`Invalid account name in MCP_GSLIDES_ACCOUNT: ${account}`);
+  }
+
+  return account || getConfig().account || DEFAULT_ACCOUNT;
+}
+
+/**
+ * List the account profiles that have stored tokens
+ * @returns Profile names, the default profile first and the others in alphabetical order
+ */
+export async function listAccounts(): Promise<string[]> {
+  const tokenPath = getTokenPath();
+  const { dir, name, ext } = path.parse(tokenPath);
+
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const accounts = files.flatMap((file) => {
+    if (file === path.basename(tokenPath)) {
+      return [DEFAULT_ACCOUNT];
+    }
+    if (!file.startsWith(`${name}.`) || !file.endsWith(ext)) {
+      return [];
+    }
+    const account = file.slice(name.length + 1, file.length - ext.length);
+    return ACCOUNT_NAME_PATTERN.test(account) && account !== DEFAULT_ACCOUNT ? [account] : [];
+  });
+
+  return accounts.sort((a, b) =>
+    a === DEFAULT_ACCOUNT ? -1 : b === DEFAULT_ACCOUNT ? 1 : a.localeCompare(b)
+  );
 }
 
 /**
@@ -39,57 +118,138 @@ async function ensureTokenDirectory(tokenPath: string): Promise<void> {
 }
 
 /**
- * Load OAuth tokens from persistent storage
- * @returns Stored tokens if they exist, null otherwise
+ * Get the path of the marker recording that a token file was written encrypted
+ * @param tokenPath - Path to the token file
+ * @returns Path of the hidden marker file next to it
  */
-export async function loadTokens(): Promise<StoredTokens | null> {
-  const tokenPath = getTokenPath();
+function getEncryptedMarkerPath(tokenPath: string): string {
+  return path.join(path.dirname(tokenPath), `.${path.basename(tokenPath)}.encrypted`);
+}
 
+/**
+ * Check whether a token file was last written encrypted
+ * @param tokenPath - Path to the token file
+ * @returns true if the marker exists
+ */
+async function wasWrittenEncrypted(tokenPath: string): Promise<boolean> {
   try {
-    const data = await fs.readFile(tokenPath, 'utf-8');
-    const tokens = JSON.parse(data) as StoredTokens;
+    await fs.access(getEncryptedMarkerPath(tokenPath));
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    // Validate required fields
-    if (!tokens.accessToken || !tokens.refreshToken || !tokens.expiresAt || !tokens.scope) {
-      console.error('Invalid token file: missing required fields');
-      return null;
+/**
+ * Read and parse a token file
+ * @param tokenPath - Path of the file
+ * @returns The parsed contents, or undefined if the file is missing or unreadable
+ */
+async function readTokenFile(tokenPath: string): Promise<object | undefined> {
+  try {
+    const data: unknown = JSON.parse(await fs.readFile(tokenPath, 'utf-8'));
+    if (typeof data !== 'object' || data === null) {
+      throw new Error('Token file does not contain a JSON object');
     }
-
-    return tokens;
+    return data;
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       // File doesn't exist - this is normal for first-time users
-      return null;
+      return undefined;
     }
 
     // Other errors (permission issues, corrupt JSON, etc.)
-    console.error('Failed to load tokens:', error);
+    logger.warn('Failed to load tokens', { path: tokenPath, error });
+    return undefined;
+  }
+}
+
+/**
+ * Load OAuth tokens from persistent storage
+ * Decrypts encrypted files, and encrypts plaintext files written before a key was configured
+ * @param account - Account profile (default: the default profile)
+ * @returns Stored tokens if they exist, null otherwise
+ * @throws {TokenDecryptionError} If the file is encrypted and no key, the wrong key, or a modified file is found,
+ *   or if a key is configured and the file is plaintext although it was written encrypted before
+ */
+export async function loadTokens(account: string = DEFAULT_ACCOUNT): Promise<StoredTokens | null> {
+  const tokenPath = getTokenPath(account);
+
+  const data = await readTokenFile(tokenPath);
+  if (data === undefined) {
+    return null;
+  }
+
+  const key = await getTokenKeySource();
+  const encrypted = isEncryptedTokenFile(data);
+  if (key && !encrypted && (await wasWrittenEncrypted(tokenPath))) {
+    throw new TokenDecryptionError(
+      tokenPath,
+      'it holds plaintext tokens although it was written encrypted; call logout to delete it and sign in again'
+    );
+  }
+
+  const tokens = encrypted
+    ? await decryptTokens(data, key, account, tokenPath)
+    : (data as StoredTokens);
+
+  // Validate required fields
+  if (!tokens.accessToken || !tokens.refreshToken || !tokens.expiresAt || !tokens.scope) {
+    logger.warn('Ignoring invalid token file: missing required fields', { path: tokenPath });
     return null;
   }
+
+  // Encrypt files written before a key was configured
+  if (key && !encrypted) {
+    try {
+      await saveTokens(tokens, account);
+      logger.info('Encrypted stored tokens', { path: tokenPath });
+    } catch (error) {
+      logger.warn('Failed to encrypt stored tokens', { path: tokenPath, error });
+    }
+  }
+
+  return tokens;
 }
 
 /**
  * Save OAuth tokens to persistent storage
- * Sets file permissions to 0600 (owner read/write only)
+ * Sets file permissions to 0600 (owner read/write only), and encrypts the tokens when a key is configured.
+ * The encrypted marker is created after an encrypted write and removed after a plaintext one.
  * @param tokens - The tokens to persist
+ * @param account - Account profile (default: the default profile)
  */
-export async function saveTokens(tokens: StoredTokens): Promise<void> {
-  const tokenPath = getTokenPath();
+export async function saveTokens(
+  tokens: StoredTokens,
+  account: string = DEFAULT_ACCOUNT
+): Promise<void> {
+  const tokenPath = getTokenPath(account);
 
   // Ensure directory exists
   await ensureTokenDirectory(tokenPath);
 
   // Write tokens to file
-  const data = JSON.stringify(tokens, null, 2);
+  const key = await getTokenKeySource();
+  const contents = key ? await encryptTokens(tokens, key, account) : tokens;
+  const data = JSON.stringify(contents, null, 2);
   await fs.writeFile(tokenPath, data, { mode: 0o600 });
+
+  const markerPath = getEncryptedMarkerPath(tokenPath);
+  if (key) {
+    await fs.writeFile(markerPath, '', { mode: 0o600 });
+  } else {
+    await fs.rm(markerPath, { force: true });
+  }
 }
 
 /**
- * Delete stored OAuth tokens
+ * Delete stored OAuth tokens and their encrypted marker
  * Used for logout or when tokens are revoked
+ * @param account - Account profile (default: the default profile)
  */
-export async function deleteTokens(): Promise<void> {
-  const tokenPath = getTokenPath();
+export async function deleteTokens(account: string = DEFAULT_ACCOUNT): Promise<void> {
+  const tokenPath = getTokenPath(account);
+  await fs.rm(getEncryptedMarkerPath(tokenPath), { force: true });
 
   try {
     await fs.unlink(tokenPath);
@@ -0,0 +1,276 @@
+/**
+ * Network options shared by the Google API client wrappers
+ *
+ * Controls where the Slides and Drive APIs are reached, which proxy and
+ * certificate authorities are used, and how long a request may take. The
+ * same proxy, CA bundle, and timeout apply to OAuth token requests.
+ * Configurable through environment variables, which take precedence over the
+ * network section of config.json:
+ *
+ * - MCP_GSLIDES_API_ROOT_URL: root URL for both the Slides and Drive APIs (default: Google's endpoints)
+ * - MCP_GSLIDES_SLIDES_ROOT_URL: root URL for the Slides API only (overrides MCP_GSLIDES_API_ROOT_URL)
+ * - MCP_GSLIDES_DRIVE_ROOT_URL: root URL for the Drive API only (overrides MCP_GSLIDES_API_ROOT_URL)
+ * - MCP_GSLIDES_API_TIMEOUT_MS: timeout for a single request attempt, 0 to disable (default: 60000)
+ * - MCP_GSLIDES_CA_FILE: PEM bundle of certificate authorities to trust in addition to the system ones
+ * - HTTPS_PROXY / HTTP_PROXY: proxy for all requests; NO_PROXY lists hosts reached directly
+ */
+
+import { readFileSync } from 'node:fs';
+import { Agent as HttpAgent } from 'node:http';
+import { Agent as HttpsAgent } from 'node:https';
+import { rootCertificates } from 'node:tls';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { getConfig } from '../config/index.js';
+
+/**
+ * Picks the agent for a request URL
+ */
+export type AgentSelector = (url: URL) => HttpAgent;
+
+/**
+ * fetch-compatible function googleapis sends requests through
+ */
+export type FetchImplementation = (
+  input: string | URL,
+  init?: RequestInit & { timeout?: number }
+) => Promise<Response>;
+
+/**
+ * How requests reach the network
+ *
+ * Node's HTTP stack takes an agent per request; Bun's ignores agents, so
+ * requests go through its fetch, which accepts a proxy and CA bundle.
+ */
+export interface HttpTransport {
+  /** Agent for proxied or custom-CA connections on Node */
+  agent?: AgentSelector;
+  /** fetch wrapper applying the proxy, CA bundle, and timeout on Bun */
+  fetchImplementation?: FetchImplementation;
+}
+
+/**
+ * Where and how the Slides or Drive API is reached
+ */
+export interface ApiClientOptions {
+  /** Base URL of the API, with a trailing slash (default: Google's endpoint) */
+  rootUrl?: string;
+  /** Timeout for a single request attempt in milliseconds (0 or unset: none) */
+  timeoutMs?: number;
+  /** Proxy and CA handling (default: direct connections with system CAs) */
+  transport?: HttpTransport;
+}
+
+/**
+ * Network settings read from the environment and config.json
+ */
+export interface NetworkOptions {
+  /** Root URL override for the Slides API */
+  slidesRootUrl?: string;
+  /** Root URL override for the Drive API */
+  driveRootUrl?: string;
+  /** Timeout for a single request attempt in milliseconds (0 disables) */
+  timeoutMs: number;
+  /** Proxy URL for outgoing requests */
+  proxy?: string;
+  /** Hosts reached without the proxy */
+  noProxy: string[];
+  /** Path of a PEM bundle with extra trusted certificate authorities */
+  caFile?: string;
+}
+
+/**
+ * Read a non-empty string environment variable
+ *
+ * @param names - Variable names, in order of precedence
+ * @returns The first set value, trimmed
+ */
+function readStringEnv(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a root URL to end with a slash, as googleapis expects
+ *
+ * @param url - The configured URL
+ * @returns The URL with a trailing slash
+ */
+function withTrailingSlash(url: string | undefined): string | undefined {
+  return url && !url.endsWith('/') ? `${url}/` : url;
+}
+
+/**
+ * Get the network options from environment variables and config.json
+ *
+ * @returns The configured options
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getNetworkOptions(): NetworkOptions {
+  const config = getConfig().network ?? {};
+  const rootUrl = readStringEnv('MCP_GSLIDES_API_ROOT_URL');
+  const timeoutMs = parseInt(process.env.MCP_GSLIDES_API_TIMEOUT_MS ?? '', 10);
+  const noProxy = readStringEnv('NO_PROXY', 'no_proxy')?.split(',') ?? config.noProxy ?? [];
+
+  // Any root URL from the environment wins over those in the file
+  return {
+    slidesRootUrl: withTrailingSlash(
+      readStringEnv('MCP_GSLIDES_SLIDES_ROOT_URL') ??
+        rootUrl ??
+        config.slidesRootUrl ??
+        config.apiRootUrl
+    ),
+    driveRootUrl: withTrailingSlash(
+      readStringEnv('MCP_GSLIDES_DRIVE_ROOT_URL') ??
+        rootUrl ??
+        config.driveRootUrl ??
+        config.apiRootUrl
+    ),
+    timeoutMs:
+      Number.isInteger(timeoutMs) && timeoutMs >= 0 ? timeoutMs : (config.timeoutMs ?? 60000),
+    proxy: readStringEnv('HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy') ?? config.proxy,
+    noProxy: noProxy.map((rule) => rule.trim().toLowerCase()).filter((rule) => rule !== ''),
+    caFile: readStringEnv('MCP_GSLIDES_CA_FILE') ?? config.caFile,
+  };
+}
+
+/**
+ * Check whether a URL should bypass the proxy
+ *
+ * Rules are host names (matching the host and its subdomains), optionally
+ * with a leading "." or "*.", a host:port pair, or "*" for every host.
+ *
+ * @param url - The request URL
+ * @param noProxy - NO_PROXY rules
+ * @returns true if the request should go direct
+ */
+export function bypassesProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some((rule) => {
+    if (rule === '*') {
+      return true;
+    }
+    const [ruleHost = '', rulePort] = rule.replace(/^\*?\./, '').split(/:(?=\d+$)/);
+    if (rulePort && rulePort !== port) {
+      return false;
+    }
+    return host === ruleHost || host.endsWith(`.${ruleHost}`);
+  });
+}
+
+/**
+ * Read the configured CA bundle together with the system certificate authorities
+ *
+ * @param caFile - Path of the PEM bundle
+ * @returns The certificates to trust
+ * @throws {Error} If the bundle cannot be read
+ */
+function readCertificateAuthorities(caFile: string): string[] {
+  try {
+    return [...rootCertificates, readFileSync(caFile, 'utf-8')];
+  } catch (error) {
+    throw new Error(`Could not read the CA bundle at ${caFile}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Build the transport for the configured proxy and CA bundle
+ *
+ * @param options - Network options
+ * @param runtime - Runtime the server runs on (defaults to the current one)
+ * @returns The transport; empty on Node when neither a proxy nor a CA bundle is configured
+ * @throws {Error} If the CA bundle cannot be read
+ */
+export function createTransport(
+  options: NetworkOptions,
+  runtime: 'node' | 'bun' = process.versions.bun ? 'bun' : 'node'
+): HttpTransport {
+  const ca = options.caFile ? readCertificateAuthorities(options.caFile) : undefined;
+  const proxyFor = (url: URL) =>
+    options.proxy && !bypassesProxy(url, options.noProxy) ? options.proxy : undefined;
+
+  if (runtime === 'bun') {
+    return {
+      fetchImplementation: (input, init = {}) => {
+        const url = new URL(input);
+        const signals = [init.signal, init.timeout ? AbortSignal.timeout(init.timeout) : null];
+        return fetch(url, {
+          ...init,
+          proxy: proxyFor(url),
+          tls: ca && { ca },
+          signal: AbortSignal.any(signals.filter((signal) => signal != null)),
+        });
+      },
+    };
+  }
+
+  if (!options.proxy && !ca) {
+    return {};
+  }
+
+  const direct = {
+    http: new HttpAgent({ keepAlive: true }),
+    https: new HttpsAgent({ ca, keepAlive: true }),
+  };
+  const proxied = options.proxy && new HttpsProxyAgent(options.proxy, { ca, keepAlive: true });
+
+  return {
+    agent: (url) => {
+      if (proxied && proxyFor(url)) {
+        return proxied;
+      }
+      return url.protocol === 'http:' ? direct.http : direct.https;
+    },
+  };
+}
+
+let sharedTransport: { key: string; transport: HttpTransport } | undefined;
+
+/**
+ * Get the transport for the current environment, reusing it while the
+ * proxy and CA settings are unchanged so connections are pooled
+ *
+ * @param options - Network options
+ * @returns The shared transport
+ */
+function getSharedTransport(options: NetworkOptions): HttpTransport {
+  const key = JSON.stringify([options.proxy, options.noProxy, options.caFile]);
+  if (sharedTransport?.key !== key) {
+    sharedTransport = { key, transport: createTransport(options) };
+  }
+  return sharedTransport.transport;
+}
+
+/**
+ * Get the client options for one of the APIs from environment variables
+ *
+ * @param api - The API the client talks to
+ * @param options - Network options (defaults to the environment)
+ * @returns Options for SlidesClient or DriveClient
+ */
+export function getApiClientOptions(
+  api: 'slides' | 'drive',
+  options: NetworkOptions = getNetworkOptions()
+): ApiClientOptions {
+  return {
+    rootUrl: api === 'slides' ? options.slidesRootUrl : options.driveRootUrl,
+    timeoutMs: options.timeoutMs,
+    transport: getSharedTransport(options),
+  };
+}
+
+/**
+ * Get request options for OAuth token requests from environment variables
+ *
+ * @returns Timeout and transport for the OAuth2Client transporter
+ */
+export function getAuthTransportOptions(): HttpTransport & { timeout: number } {
+  const options = getNetworkOptions();
+  return { timeout: options.timeoutMs, ...getSharedTransport(options) };
+}
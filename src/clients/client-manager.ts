@@ -0,0 +1,551 @@
+/**
+ * Long-lived authenticated API clients
+ *
+ * Holds one OAuth2Client (and the Slides and Drive clients built on it) per
+ * account profile for the lifetime of the process instead of re-reading the
+ * token file on every tool call. Access tokens are refreshed in the
+ * background shortly before they expire; concurrent tool calls share a single
+ * sign-in or refresh.
+ *
+ * Tool calls act as the account named in their `account` argument, or else
+ * the active account: the one configured with MCP_GSLIDES_ACCOUNT (see
+ * token-store.ts) until switchAccount() picks another. Each MCP session (one
+ * per HTTP client) has its own active account, so switching in one session
+ * does not change the account other clients act as.
+ */
+
+import { OAuth2Client } from 'google-auth-library';
+import {
+  getAuthenticatedClient,
+  getDefaultAccount,
+  listAccounts,
+  refreshClientCredentials,
+} from '../auth/index.js';
+import { DEFAULT_ACCOUNT } from '../config/index.js';
+import { getCallContext } from '../utils/call-context.js';
+import { logger } from '../utils/logger.js';
+import { type ApiClientOptions, getApiClientOptions } from './api-options.js';
+import { DriveClient } from './drive-client.js';
+import { getPresentationCacheOptions, PresentationCache } from './presentation-cache.js';
+import { SlidesClient } from './slides-client.js';
+
+/**
+ * Dependencies and timing for the client manager
+ */
+export interface ClientManagerOptions {
+  /** Sign in to an account profile (or load its stored tokens) and return a ready client */
+  authenticate?: (account: string) => Promise<OAuth2Client>;
+  /** Refresh the access token of an account's client in place */
+  refresh?: (client: OAuth2Client, account: string) => Promise<void>;
+  /** List the account profiles with stored tokens */
+  listAccounts?: () => Promise<string[]>;
+  /** Active account at startup (default: read on first use from MCP_GSLIDES_ACCOUNT or config.json) */
+  account?: string;
+  /** Refresh this long before the access token expires (default: 5 minutes) */
+  refreshMarginMs?: number;
+  /** Clock (overridable for tests) */
+  now?: () => number;
+}
+
+/**
+ * Error thrown when a tool names an account profile that has not been added
+ */
+export class UnknownAccountError extends Error {
+  constructor(public account: string) {
+    super(`Unknown account: ${account}`);
+    this.name = 'UnknownAccountError';
+  }
+}
+
+/**
+ * Error thrown when adding an account profile that already has stored tokens
+ */
+export class AccountExistsError extends Error {
+  constructor(public account: string) {
+    super(`Account already exists: ${account}`);
+    this.name = 'AccountExistsError';
+  }
+}
+
+/**
+ * Signed-in clients of a single account profile
+ */
+class AccountSession {
+  private authPromise: Promise<OAuth2Client> | null = null;
+  /** Whether authPromise has resolved, so waiting on it cannot block on a sign-in */
+  private signedIn = false;
+  private refreshPromise: Promise<void> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private slidesClient: SlidesClient | null = null;
+  private driveClient: DriveClient | null = null;
+  private accountPromise: Promise<string | undefined> | null = null;
+  /** Presentations fetched by this account, kept apart from other accounts' */
+  private readonly cache = new PresentationCache(getPresentationCacheOptions());
+  /** Incremented on reset so in-flight sign-ins and refreshes are discarded */
+  private generation = 0;
+
+  /**
+   * Create a session
+   * @param account - Account profile the session signs in to
+   * @param options - Authentication functions and refresh timing
+   * @param emulatorUrl - Root URL of an API emulator to use instead of Google
+   */
+  constructor(
+    private readonly account: string,
+    private readonly options: Required<
+      Pick<ClientManagerOptions, 'authenticate' | 'refresh' | 'refreshMarginMs' | 'now'>
+    >,
+    private readonly emulatorUrl: string | undefined
+  ) {}
+
+  /**
+   * Get the OAuth2Client, signing in on first use
+   *
+   * Refreshes the access token first if it is about to expire (for example
+   * when the process was suspended and the background refresh did not run).
+   */
+  async getAuthClient(): Promise<OAuth2Client> {
+    const generation = this.generation;
+    const client = await this.signIn();
+
+    if (this.isExpiring(client)) {
+      try {
+        await this.refresh();
+      } catch (_error) {
+        // Refresh token no longer works - start over with a full sign-in
+        if (generation === this.generation) {
+          this.reset();
+        }
+        return this.signIn();
+      }
+    }
+
+    return client;
+  }
+
+  /**
+   * Get the SlidesClient
+   */
+  async getSlidesClient(): Promise<SlidesClient> {
+    const auth = await this.getAuthClient();
+    if (!this.slidesClient) {
+      this.slidesClient = new SlidesClient(auth, this.cache, this.getApiOptions('slides'));
+    }
+    return this.slidesClient;
+  }
+
+  /**
+   * Get the DriveClient
+   */
+  async getDriveClient(): Promise<DriveClient> {
+    const auth = await this.getAuthClient();
+    if (!this.driveClient) {
+      this.driveClient = new DriveClient(auth, this.getApiOptions('drive'));
+    }
+    return this.driveClient;
+  }
+
+  /**
+   * Get the email address of the signed-in account, looked up once per sign-in
+   *
+   * Returns undefined while a sign-in is still in progress instead of waiting for it.
+   */
+  async getAccountEmail(): Promise<string | undefined> {
+    if (!this.signedIn) {
+      return undefined;
+    }
+    if (!this.accountPromise) {
+      const generation = this.generation;
+      this.accountPromise = this.getDriveClient()
+        .then((drive) => drive.getAccountEmail())
+        .catch(() => {
+          // Look it up again next time
+          if (generation === this.generation) {
+            this.accountPromise = null;
+          }
+          return undefined;
+        });
+    }
+    return this.accountPromise;
+  }
+
+  /**
+   * Refresh the access token now, sharing the request between concurrent callers
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      const generation = this.generation;
+      this.refreshPromise = this.runRefresh(generation).finally(() => {
+        if (generation === this.generation) {
+          this.refreshPromise = null;
+        }
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Drop the clients and cached presentations; the next call signs in again
+   */
+  reset(): void {
+    this.generation++;
+    this.authPromise = null;
+    this.signedIn = false;
+    this.refreshPromise = null;
+    this.slidesClient = null;
+    this.driveClient = null;
+    this.accountPromise = null;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.cache.clear();
+  }
+
+  /**
+   * Get the network options for a client, pointing it at the emulator if one is in use
+   */
+  private getApiOptions(api: 'slides' | 'drive'): ApiClientOptions {
+    const options = getApiClientOptions(api);
+    return this.emulatorUrl ? { ...options, rootUrl: this.emulatorUrl } : options;
+  }
+
+  /**
+   * Sign in once and share the result between concurrent callers
+   */
+  private signIn(): Promise<OAuth2Client> {
+    if (!this.authPromise) {
+      const generation = this.generation;
+      const signedIn = this.emulatorUrl
+        ? createEmulatorAuthClient()
+        : this.options.authenticate(this.account);
+      this.authPromise = signedIn.then(
+        (client) => {
+          if (generation === this.generation) {
+            this.signedIn = true;
+            this.scheduleRefresh(client);
+          }
+          return client;
+        },
+        (error) => {
+          // Let the next call retry the sign-in
+          if (generation === this.generation) {
+            this.authPromise = null;
+          }
+          throw error;
+        }
+      );
+    }
+    return this.authPromise;
+  }
+
+  /**
+   * Refresh the signed-in client and schedule the next refresh
+   */
+  private async runRefresh(generation: number): Promise<void> {
+    const client = await this.signIn();
+    await this.options.refresh(client, this.account);
+    if (generation === this.generation) {
+      this.scheduleRefresh(client);
+    }
+  }
+
+  /**
+   * Schedule a background refresh ahead of the access token's expiry
+   */
+  private scheduleRefresh(client: OAuth2Client): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const expiresAt = client.credentials.expiry_date;
+    if (!expiresAt) {
+      return;
+    }
+
+    const delay = Math.max(0, expiresAt - this.options.refreshMarginMs - this.options.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((error) => {
+        // The next tool call retries the refresh or signs in again
+        logger.warn('Background token refresh failed', { account: this.account, error });
+      });
+    }, delay);
+
+    // Don't keep the process alive just to refresh tokens
+    this.refreshTimer.unref?.();
+  }
+
+  /**
+   * Check whether a client's access token expires within the refresh margin
+   */
+  private isExpiring(client: OAuth2Client): boolean {
+    const expiresAt = client.credentials.expiry_date;
+    return (
+      typeof expiresAt === 'number' &&
+      expiresAt - this.options.now() <= this.options.refreshMarginMs
+    );
+  }
+}
+
+/**
+ * Shared authenticated clients of every account profile
+ */
+export class ClientManager {
+  private readonly sessionOptions: ConstructorParameters<typeof AccountSession>[1];
+  private readonly listAccounts: () => Promise<string[]>;
+  private readonly sessions = new Map<string, AccountSession>();
+  private activeAccount: string | undefined;
+  /** Active account of each MCP session that switched accounts, keyed by its server */
+  private readonly sessionAccounts = new WeakMap<object, string>();
+  /** Root URL of an API emulator to use instead of Google */
+  private emulatorUrl: string | undefined;
+
+  /**
+   * Create a new ClientManager
+   * @param options - Authentication functions and refresh timing
+   */
+  constructor(options: ClientManagerOptions = {}) {
+    this.sessionOptions = {
+      authenticate: options.authenticate ?? getAuthenticatedClient,
+      refresh: options.refresh ?? refreshClientCredentials,
+      refreshMarginMs: options.refreshMarginMs ?? 5 * 60 * 1000,
+      now: options.now ?? Date.now,
+    };
+    this.listAccounts = options.listAccounts ?? listAccounts;
+    this.activeAccount = options.account;
+  }
+
+  /**
+   * Get the account tool calls of the current MCP session act as when they do not name one
+   *
+   * @returns The session's active account profile
+   * @throws {Error} If MCP_GSLIDES_ACCOUNT is not a valid account name
+   */
+  getActiveAccount(): string {
+    const session = getCallContext()?.server;
+    const switched = session && this.sessionAccounts.get(session);
+    if (switched) {
+      return switched;
+    }
+
+    if (this.activeAccount === undefined) {
+      this.activeAccount = getDefaultAccount();
+    }
+    return this.activeAccount;
+  }
+
+  /**
+   * Get the account the current tool call acts as
+   *
+   * @returns The account named in the call's arguments, or the active account
+   */
+  getCurrentAccount(): string {
+    return getCallContext()?.account ?? this.getActiveAccount();
+  }
+
+  /**
+   * Make an account the one tool calls act as when they do not name one
+   *
+   * Applies to the MCP session of the current tool call, or to every session
+   * without one, and lasts until the server restarts; set MCP_GSLIDES_ACCOUNT
+   * to change the account used at startup.
+   *
+   * @param account - Account profile to activate
+   * @throws {UnknownAccountError} If the account has not been added
+   */
+  async switchAccount(account: string): Promise<void> {
+    await this.assertAccountExists(account);
+
+    const session = getCallContext()?.server;
+    if (session) {
+      this.sessionAccounts.set(session, account);
+    } else {
+      this.activeAccount = account;
+    }
+  }
+
+  /**
+   * Sign in to a new account profile
+   *
+   * Runs the interactive OAuth flow and stores the tokens under the profile
+   * name. The active account does not change.
+   *
+   * @param account - Name of the new profile
+   * @throws {AccountExistsError} If the profile already has stored tokens
+   * @throws {AuthenticationError} If authentication fails
+   */
+  async addAccount(account: string): Promise<void> {
+    if ((await this.listAccounts()).includes(account)) {
+      throw new AccountExistsError(account);
+    }
+
+    try {
+      await this.getSession(account).getAuthClient();
+    } catch (error) {
+      this.reset(account);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shared OAuth2Client, signing in on first use
+   *
+   * @param account - Account profile (default: the current account)
+   * @returns Authenticated OAuth2Client
+   * @throws {UnknownAccountError} If the account has not been added
+   * @throws {AuthenticationError} If authentication fails
+   */
+  async getAuthClient(account?: string): Promise<OAuth2Client> {
+    return (await this.resolveSession(account)).getAuthClient();
+  }
+
+  /**
+   * Get the shared SlidesClient
+   *
+   * @param account - Account profile (default: the current account)
+   * @returns Authenticated SlidesClient
+   * @throws {UnknownAccountError} If the account has not been added
+   * @throws {AuthenticationError} If authentication fails
+   */
+  async getSlidesClient(account?: string): Promise<SlidesClient> {
+    return (await this.resolveSession(account)).getSlidesClient();
+  }
+
+  /**
+   * Get the shared DriveClient
+   *
+   * @param account - Account profile (default: the current account)
+   * @returns Authenticated DriveClient
+   * @throws {UnknownAccountError} If the account has not been added
+   * @throws {AuthenticationError} If authentication fails
+   */
+  async getDriveClient(account?: string): Promise<DriveClient> {
+    return (await this.resolveSession(account)).getDriveClient();
+  }
+
+  /**
+   * Get the email address of a signed-in account
+   *
+   * Looked up once per sign-in. Does not start or wait for a sign-in: returns
+   * undefined if the account is not signed in yet or the lookup fails.
+   *
+   * @param account - Account profile (default: the current account)
+   * @returns The account's email address, or undefined
+   */
+  async getAccountEmail(account: string = this.getCurrentAccount()): Promise<string | undefined> {
+    return this.sessions.get(account)?.getAccountEmail();
+  }
+
+  /**
+   * Refresh the access token now
+   *
+   * Concurrent callers share the same refresh request.
+   *
+   * @param account - Account profile (default: the current account)
+   * @throws {TokenRefreshFailedError} If refresh fails
+   */
+  async refresh(account?: string): Promise<void> {
+    return (await this.resolveSession(account)).refresh();
+  }
+
+  /**
+   * Send every API request to an emulator instead of Google
+   *
+   * Skips sign-in: the emulator accepts any access token. Drops the current
+   * clients and cached presentations of every account.
+   *
+   * @param rootUrl - Root URL of the emulator, or undefined to use Google again
+   */
+  useEmulator(rootUrl: string | undefined): void {
+    for (const account of [...this.sessions.keys()]) {
+      this.reset(account);
+    }
+    this.emulatorUrl = rootUrl;
+  }
+
+  /**
+   * Drop the shared clients of an account (e.g. after logout)
+   *
+   * The next call signs in again. The account's cached presentations are
+   * cleared with them.
+   *
+   * @param account - Account profile (default: the current account)
+   */
+  reset(account: string = this.getCurrentAccount()): void {
+    this.sessions.get(account)?.reset();
+    this.sessions.delete(account);
+  }
+
+  /**
+   * Get the session of an account, checking that a named account was added
+   */
+  private async resolveSession(account = this.getCurrentAccount()): Promise<AccountSession> {
+    if (!this.sessions.has(account)) {
+      await this.assertAccountExists(account);
+    }
+    return this.getSession(account);
+  }
+
+  /**
+   * Get the session of an account, creating it on first use
+   */
+  private getSession(account: string): AccountSession {
+    let session = this.sessions.get(account);
+    if (!session) {
+      session = new AccountSession(account, this.sessionOptions, this.emulatorUrl);
+      this.sessions.set(account, session);
+    }
+    return session;
+  }
+
+  /**
+   * Throw unless an account is the default profile or has stored tokens
+   *
+   * The default profile may sign in for the first time on any call; named
+   * profiles are created with addAccount(). The emulator accepts any account.
+   */
+  private async assertAccountExists(account: string): Promise<void> {
+    if (account === DEFAULT_ACCOUNT || this.emulatorUrl) {
+      return;
+    }
+    if (!(await this.listAccounts()).includes(account)) {
+      throw new UnknownAccountError(account);
+    }
+  }
+}
+
+/**
+ * Create a client for the API emulator, which accepts any access token
+ */
+async function createEmulatorAuthClient(): Promise<OAuth2Client> {
+  const client = new OAuth2Client();
+  client.setCredentials({ access_token: 'emulator' });
+  return client;
+}
+
+/**
+ * Process-wide client manager used by all tools
+ */
+export const clientManager = new ClientManager();
+
+/**
+ * Get the shared SlidesClient of the current account with automatic authentication
+ *
+ * @returns Authenticated SlidesClient
+ * @throws {AuthenticationError} If authentication fails
+ */
+export function createSlidesClient(): Promise<SlidesClient> {
+  return clientManager.getSlidesClient();
+}
+
+/**
+ * Get the shared DriveClient of the current account with automatic authentication
+ *
+ * @returns Authenticated DriveClient
+ * @throws {AuthenticationError} If authentication fails
+ */
+export function createDriveClient(): Promise<DriveClient> {
+  return clientManager.getDriveClient();
+}
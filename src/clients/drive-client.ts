@@ -8,7 +8,8 @@
 
 import type { OAuth2Client } from 'google-auth-library';
 import { type drive_v3, google } from 'googleapis';
-import { getAuthenticatedClient } from '../auth/index.js';
+import type { ApiClientOptions } from './api-options.js';
+import { isRateLimitError, withRetry } from './retry.js';
 import { PermissionDeniedError, QuotaExceededError } from './slides-client.js';
 
 /**
@@ -32,9 +33,18 @@ export class DriveClient {
   /**
    * Create a new DriveClient
    * @param auth - Authenticated OAuth2Client
+   * @param options - API endpoint, timeout, and proxy settings
    */
-  constructor(auth: OAuth2Client) {
-    this.drive = google.drive({ version: 'v3', auth });
+  constructor(auth: OAuth2Client, options: ApiClientOptions = {}) {
+    // Retries are handled by withRetry so the policy is shared across all calls
+    this.drive = google.drive({
+      version: 'v3',
+      auth,
+      retry: false,
+      rootUrl: options.rootUrl,
+      timeout: options.timeoutMs,
+      ...options.transport,
+    });
   }
 
   /**
@@ -44,20 +54,25 @@ export class DriveClient {
    * @param name - The name for the new presentation
    * @returns The new presentation's ID and link
    * @throws {PermissionDeniedError} If no access to the file
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
    */
   async copyPresentation(
     fileId: string,
     name: string
   ): Promise<{ presentationId: string; title: string; link: string }> {
     try {
-      const response = await this.drive.files.copy({
-        fileId,
-        requestBody: {
-          name,
-        },
-        fields: 'id, name, webViewLink',
-      });
+      // Not idempotent: a retried copy after a server error could duplicate the file
+      const response = await withRetry(
+        () =>
+          this.drive.files.copy({
+            fileId,
+            requestBody: {
+              name,
+            },
+            fields: 'id, name, webViewLink',
+          }),
+        { idempotent: false }
+      );
 
       const newId = response.data.id || '';
       return {
@@ -66,15 +81,15 @@ export class DriveClient {
         link: response.data.webViewLink || `https://docs.google.com/presentation/d/${newId}/edit`,
       };
     } catch (error: any) {
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
+        throw new QuotaExceededError();
+      }
       if (error.code === 403) {
         throw new PermissionDeniedError('Drive API - cannot copy this file');
       }
       if (error.code === 404) {
         throw new Error(`Presentation not found: ${fileId}`);
       }
-      if (error.code === 429 || error.message?.includes('quota')) {
-        throw new QuotaExceededError();
-      }
       throw error;
     }
   }
@@ -88,16 +103,18 @@ export class DriveClient {
    * @param limit - Maximum number of presentations to return (default: 10)
    * @returns Array of presentation summaries
    * @throws {PermissionDeniedError} If no access to Drive
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
    */
   async listPresentations(limit: number = 10): Promise<PresentationSummary[]> {
     try {
-      const response = await this.drive.files.list({
-        q: "mimeType='application/vnd.google-apps.presentation'",
-        pageSize: limit,
-        fields: 'files(id, name, createdTime, modifiedTime, webViewLink)',
-        orderBy: 'modifiedTime desc',
-      });
+      const response = await withRetry(() =>
+        this.drive.files.list({
+          q: "mimeType='application/vnd.google-apps.presentation'",
+          pageSize: limit,
+          fields: 'files(id, name, createdTime, modifiedTime, webViewLink)',
+          orderBy: 'modifiedTime desc',
+        })
+      );
 
       if (!response.data.files) {
         return [];
@@ -111,27 +128,28 @@ export class DriveClient {
         link: file.webViewLink || `https://docs.google.com/presentation/d/${file.id}/edit`,
       }));
     } catch (error: any) {
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
+        throw new QuotaExceededError();
+      }
       if (error.code === 403) {
         throw new PermissionDeniedError('Drive API');
       }
-      if (error.code === 429 || error.message?.includes('quota')) {
-        throw new QuotaExceededError();
-      }
       throw error;
     }
   }
-}
 
-/**
- * Create a DriveClient with automatic authentication
- *
- * This is a convenience function that handles OAuth authentication
- * and returns a ready-to-use DriveClient instance.
- *
- * @returns Authenticated DriveClient
- * @throws {AuthenticationError} If authentication fails
- */
-export async function createDriveClient(): Promise<DriveClient> {
-  const auth = await getAuthenticatedClient();
-  return new DriveClient(auth);
+  /**
+   * Get the email address of the signed-in account
+   *
+   * @returns The account's email address, or undefined if Drive does not report one
+   */
+  async getAccountEmail(): Promise<string | undefined> {
+    const response = await withRetry(() =>
+      this.drive.about.get({
+        fields: 'user(emailAddress)',
+      })
+    );
+
+    return response.data.user?.emailAddress ?? undefined;
+  }
 }
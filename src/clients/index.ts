@@ -4,14 +4,57 @@
  * Central export point for all Google API client wrappers
  */
 
-// Drive API client
-export { createDriveClient, DriveClient } from './drive-client.js';
+// API endpoint, proxy, and timeout options
+export {
+  type AgentSelector,
+  type ApiClientOptions,
+  bypassesProxy,
+  createTransport,
+  type FetchImplementation,
+  getApiClientOptions,
+  getNetworkOptions,
+  type HttpTransport,
+  type NetworkOptions,
+} from './api-options.js';
+// Shared authenticated clients
+export {
+  AccountExistsError,
+  ClientManager,
+  type ClientManagerOptions,
+  clientManager,
+  createDriveClient,
+  createSlidesClient,
+  UnknownAccountError,
+} from './client-manager.js';
 export type { PresentationSummary } from './drive-client.js';
+// Drive API client
+export { DriveClient } from './drive-client.js';
+// Presentation cache
+export {
+  type CachedPresentation,
+  getPresentationCacheOptions,
+  PresentationCache,
+  type PresentationCacheOptions,
+  presentationCache,
+} from './presentation-cache.js';
+// Retry policy
+export {
+  computeBackoffDelay,
+  getRetryAfterMs,
+  getRetryPolicy,
+  isRateLimitError,
+  isRetryableError,
+  isTimeoutError,
+  type RetryOptions,
+  type RetryPolicy,
+  withRetry,
+} from './retry.js';
 // Slides API client
 export {
-  createSlidesClient,
+  ConcurrentModificationError,
   PermissionDeniedError,
   PresentationNotFoundError,
   QuotaExceededError,
   SlidesClient,
+  type SlidesClientOptions,
 } from './slides-client.js';
@@ -0,0 +1,200 @@
+/**
+ * In-process presentation cache
+ *
+ * Most tools fetch the whole presentation just to find a slide index or a
+ * placeholder. Large decks are megabytes of JSON, so SlidesClient keeps recent
+ * presentations keyed by presentation ID and revisionId:
+ *
+ * - Within the TTL, the cached presentation is returned as-is.
+ * - After the TTL, a `fields=revisionId` request revalidates the entry and the
+ *   full presentation is only refetched when the revision changed.
+ * - Our own batchUpdate calls invalidate the entry.
+ *
+ * Configured through environment variables:
+ *
+ * - MCP_GSLIDES_CACHE_TTL_MS: how long an entry is served without revalidation (default: 30000, 0 disables caching)
+ * - MCP_GSLIDES_CACHE_MAX_ENTRIES: maximum number of cached presentations (default: 20)
+ */
+
+import type { slides_v1 } from 'googleapis';
+
+/**
+ * Cache limits
+ */
+export interface PresentationCacheOptions {
+  /** Milliseconds an entry is served without revalidation (0 disables caching) */
+  ttlMs: number;
+  /** Maximum number of cached presentations; the least recently used is evicted first */
+  maxEntries: number;
+  /** Clock (overridable for tests) */
+  now?: () => number;
+}
+
+/**
+ * Result of a cache lookup
+ */
+export interface CachedPresentation {
+  /** The cached presentation; callers must not mutate it */
+  presentation: slides_v1.Schema$Presentation;
+  /** Revision the presentation was fetched at */
+  revisionId: string;
+  /** Whether the TTL has expired and the revision should be checked */
+  stale: boolean;
+}
+
+/**
+ * Internal cache entry
+ */
+interface CacheEntry {
+  presentation: slides_v1.Schema$Presentation;
+  revisionId: string;
+  validatedAt: number;
+}
+
+/**
+ * Read cache limits from environment variables
+ *
+ * @returns The configured limits
+ */
+export function getPresentationCacheOptions(): PresentationCacheOptions {
+  const ttlMs = parseInt(process.env.MCP_GSLIDES_CACHE_TTL_MS ?? '', 10);
+  const maxEntries = parseInt(process.env.MCP_GSLIDES_CACHE_MAX_ENTRIES ?? '', 10);
+
+  return {
+    ttlMs: Number.isInteger(ttlMs) && ttlMs >= 0 ? ttlMs : 30000,
+    maxEntries: Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : 20,
+  };
+}
+
+/**
+ * Revision-aware LRU cache of presentations
+ */
+export class PresentationCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly now: () => number;
+  private generation = 0;
+
+  /**
+   * Create a new PresentationCache
+   * @param options - TTL, size limit, and clock
+   */
+  constructor(private readonly options: PresentationCacheOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Whether caching is enabled
+   */
+  get enabled(): boolean {
+    return this.options.ttlMs > 0;
+  }
+
+  /**
+   * Number of cached presentations
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Current invalidation generation
+   *
+   * Read it before fetching and pass it to set() so a fetch that raced with
+   * an invalidation does not repopulate the cache with outdated content.
+   */
+  get version(): number {
+    return this.generation;
+  }
+
+  /**
+   * Look up a presentation
+   *
+   * @param presentationId - The presentation ID
+   * @returns The cached presentation, or undefined if not cached
+   */
+  get(presentationId: string): CachedPresentation | undefined {
+    const entry = this.entries.get(presentationId);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(presentationId);
+    this.entries.set(presentationId, entry);
+
+    return {
+      presentation: entry.presentation,
+      revisionId: entry.revisionId,
+      stale: this.now() - entry.validatedAt >= this.options.ttlMs,
+    };
+  }
+
+  /**
+   * Store a freshly fetched presentation
+   *
+   * Presentations without a revisionId are not cached, since they cannot be
+   * revalidated.
+   *
+   * @param presentation - The presentation to cache
+   * @param version - Generation read before the fetch started
+   */
+  set(presentation: slides_v1.Schema$Presentation, version: number = this.generation): void {
+    const { presentationId, revisionId } = presentation;
+    if (!this.enabled || !presentationId || !revisionId || version !== this.generation) {
+      return;
+    }
+
+    this.entries.delete(presentationId);
+    this.entries.set(presentationId, { presentation, revisionId, validatedAt: this.now() });
+
+    // Evict least recently used entries (Map iterates in insertion order)
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Record that a cached presentation is still at the given revision
+   *
+   * @param presentationId - The presentation ID
+   * @param revisionId - The revision reported by the API
+   * @returns true if the cached entry matched and was renewed
+   */
+  revalidate(presentationId: string, revisionId: string | null | undefined): boolean {
+    const entry = this.entries.get(presentationId);
+    if (!entry || !revisionId || entry.revisionId !== revisionId) {
+      this.invalidate(presentationId);
+      return false;
+    }
+
+    entry.validatedAt = this.now();
+    return true;
+  }
+
+  /**
+   * Drop a presentation from the cache
+   *
+   * @param presentationId - The presentation ID
+   */
+  invalidate(presentationId: string): void {
+    this.generation++;
+    this.entries.delete(presentationId);
+  }
+
+  /**
+   * Drop every cached presentation (e.g. when the signed-in account changes)
+   */
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+  }
+}
+
+/**
+ * Process-wide cache shared by all SlidesClient instances
+ */
+export const presentationCache = new PresentationCache(getPresentationCacheOptions());
@@ -0,0 +1,339 @@
+/**
+ * Retry policy for Google API requests
+ *
+ * Retries rate-limited (429) and transient server/network failures, including
+ * timed-out attempts, with exponential backoff and full jitter, honoring
+ * Retry-After when Google sends it. Limits are configurable through environment variables:
+ *
+ * - MCP_GSLIDES_RETRY_MAX_ATTEMPTS: total attempts including the first (default: 5)
+ * - MCP_GSLIDES_RETRY_BASE_DELAY_MS: delay before the first retry (default: 500)
+ * - MCP_GSLIDES_RETRY_MAX_DELAY_MS: cap for a single delay (default: 32000)
+ * - MCP_GSLIDES_RETRY_TIME_BUDGET_MS: total time allowed across attempts (default: 60000)
+ */
+
+import { getCallContext } from '../utils/call-context.js';
+import { type LogData, logger } from '../utils/logger.js';
+
+/**
+ * Retry limits
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first (1 disables retries) */
+  maxAttempts: number;
+  /** Backoff delay before the first retry, doubled for each subsequent retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Total time budget; no retry is scheduled past it */
+  maxElapsedMs: number;
+}
+
+/**
+ * Options for a single retried operation
+ */
+export interface RetryOptions {
+  /**
+   * Whether repeating the request is safe after a server error.
+   * Non-idempotent requests (creating or copying files) are only retried
+   * when rate limited, because the first attempt may have succeeded.
+   */
+  idempotent?: boolean;
+  /** Policy override (defaults to the environment-configured policy) */
+  policy?: RetryPolicy;
+  /** Sleep implementation (overridable for tests) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random source in [0, 1) for jitter (overridable for tests) */
+  random?: () => number;
+}
+
+/**
+ * Network error codes worth retrying
+ */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENOTFOUND',
+]);
+
+/**
+ * Server status codes worth retrying
+ */
+const TRANSIENT_STATUS_CODES = new Set([500, 502, 503, 504]);
+
+/**
+ * Parse a non-negative integer environment variable
+ *
+ * @param name - Variable name
+ * @param fallback - Value used when the variable is unset or invalid
+ * @returns The parsed value
+ */
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get the retry policy from environment variables
+ *
+ * @returns The configured policy
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, readIntEnv('MCP_GSLIDES_RETRY_MAX_ATTEMPTS', 5)),
+    baseDelayMs: readIntEnv('MCP_GSLIDES_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: readIntEnv('MCP_GSLIDES_RETRY_MAX_DELAY_MS', 32000),
+    maxElapsedMs: readIntEnv('MCP_GSLIDES_RETRY_TIME_BUDGET_MS', 60000),
+  };
+}
+
+/**
+ * Fields of a googleapis (gaxios) error that the retry policy reads
+ */
+interface GaxiosLikeError {
+  /** HTTP status for API errors, or a Node error code such as ECONNRESET */
+  code?: unknown;
+  response?: { status?: unknown; headers?: unknown };
+  /** Reasons given by Google for a rejected request */
+  errors?: unknown;
+}
+
+/**
+ * Check whether a thrown value can carry googleapis error fields
+ */
+function isGaxiosLikeError(error: unknown): error is GaxiosLikeError {
+  return typeof error === 'object' && error !== null;
+}
+
+/**
+ * Get the HTTP status of a googleapis error
+ *
+ * @param error - The thrown value
+ * @returns The HTTP status, or undefined for network errors
+ */
+function getStatus(error: unknown): number | undefined {
+  if (!isGaxiosLikeError(error)) {
+    return undefined;
+  }
+  if (typeof error.response?.status === 'number') {
+    return error.response.status;
+  }
+  return typeof error.code === 'number' ? error.code : undefined;
+}
+
+/**
+ * Check whether an error is a rate-limit rejection
+ *
+ * Google reports per-user rate limits either as 429 or as 403 with a
+ * rateLimitExceeded/userRateLimitExceeded reason.
+ *
+ * @param error - The thrown value
+ * @returns true if the request was rejected for exceeding a rate limit
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status === 429) {
+    return true;
+  }
+  if (status === 403 && isGaxiosLikeError(error) && Array.isArray(error.errors)) {
+    const reasons = error.errors.map((e: unknown) => (e as { reason?: unknown } | null)?.reason);
+    return reasons.includes('rateLimitExceeded') || reasons.includes('userRateLimitExceeded');
+  }
+  return false;
+}
+
+/**
+ * Check whether an error is worth retrying
+ *
+ * @param error - The thrown value
+ * @param idempotent - Whether the request is safe to repeat after a server error
+ * @returns true if the request may succeed when retried
+ */
+export function isRetryableError(error: unknown, idempotent = true): boolean {
+  if (isRateLimitError(error)) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+
+  if (isTimeoutError(error)) {
+    return true;
+  }
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return TRANSIENT_STATUS_CODES.has(status);
+  }
+  return (
+    isGaxiosLikeError(error) &&
+    typeof error.code === 'string' &&
+    TRANSIENT_NETWORK_CODES.has(error.code)
+  );
+}
+
+/**
+ * Check whether a request attempt ran past its timeout
+ *
+ * googleapis wraps the underlying error, which is a node-fetch FetchError
+ * with a timeout type on Node and a TimeoutError DOMException on Bun.
+ *
+ * @param error - The thrown value
+ * @returns true if the request timed out
+ */
+export function isTimeoutError(error: unknown): boolean {
+  const cause = (error as { error?: unknown } | null)?.error ?? error;
+  const { name, type } = (cause ?? {}) as { name?: unknown; type?: unknown };
+  return name === 'TimeoutError' || type === 'request-timeout' || type === 'body-timeout';
+}
+
+/**
+ * Read the Retry-After header from an error response
+ *
+ * @param error - The thrown value
+ * @param now - Current time in milliseconds (for HTTP-date values)
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = isGaxiosLikeError(error) ? error.response?.headers : undefined;
+  if (typeof headers !== 'object' || headers === null) {
+    return undefined;
+  }
+  // gaxios exposes a Headers object; plain objects are accepted too
+  const value: unknown =
+    'get' in headers && typeof headers.get === 'function'
+      ? headers.get('retry-after')
+      : (headers as Record<string, unknown>)['retry-after'];
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Compute the backoff delay before a retry
+ *
+ * Uses "full jitter": a random delay between 0 and the exponential cap.
+ *
+ * @param retry - Retry number (0 for the first retry)
+ * @param policy - The retry policy
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Describe the request behind a googleapis response or error for logging
+ *
+ * @param value - The response or thrown value
+ * @returns HTTP method, URL path, and status, where available
+ */
+function describeRequest(value: unknown): LogData {
+  const {
+    config,
+    status: responseStatus,
+    response,
+  } = (value ?? {}) as {
+    config?: { method?: string; url?: string | URL };
+    status?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = responseStatus ?? response?.status;
+  let path: string | undefined;
+  try {
+    path = config?.url ? new URL(config.url).pathname : undefined;
+  } catch {
+    path = undefined;
+  }
+
+  return {
+    ...(config?.method && { method: config.method }),
+    ...(path && { path }),
+    ...(typeof status === 'number' && { status }),
+  };
+}
+
+/**
+ * Default sleep implementation
+ *
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an API request, retrying transient failures
+ *
+ * Each retry is counted on the active tool call context so it can be
+ * reported in the tool output. Every attempt is logged with its duration:
+ * at debug level, or as a warning when it is retried.
+ *
+ * @param operation - The request to run
+ * @param options - Idempotency and policy overrides
+ * @returns The request's result
+ * @throws The last error once retries are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = options.policy ?? getRetryPolicy();
+  const wait = options.sleep ?? sleep;
+  const random = options.random ?? Math.random;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptStartedAt = Date.now();
+    try {
+      const result = await operation();
+      logger.debug('Google API request', {
+        ...describeRequest(result),
+        attempt,
+        durationMs: Date.now() - attemptStartedAt,
+      });
+      return result;
+    } catch (error) {
+      const details = {
+        ...describeRequest(error),
+        attempt,
+        durationMs: Date.now() - attemptStartedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, options.idempotent ?? true)) {
+        logger.debug('Google API request failed', details);
+        throw error;
+      }
+
+      const delay = getRetryAfterMs(error) ?? computeBackoffDelay(attempt - 1, policy, random);
+      if (Date.now() - startedAt + delay > policy.maxElapsedMs) {
+        logger.debug('Google API request failed', details);
+        throw error;
+      }
+
+      logger.warn('Google API request failed; retrying', { ...details, retryInMs: delay });
+
+      const context = getCallContext();
+      if (context) {
+        context.apiRetries++;
+      }
+
+      await wait(delay);
+    }
+  }
+}
@@ -2,12 +2,17 @@
  * Google Slides API client wrapper
  *
  * Provides a high-level interface for interacting with the Google Slides API.
- * All methods use an authenticated OAuth2Client from the auth module.
+ * All methods use an authenticated OAuth2Client from the auth module and
+ * retry rate-limited and transient failures (see retry.ts). Presentations
+ * are cached by revision (see presentation-cache.ts).
  */
 
 import type { OAuth2Client } from 'google-auth-library';
 import { google, type slides_v1 } from 'googleapis';
-import { getAuthenticatedClient } from '../auth/index.js';
+import { type BatchUpdateRecord, getCallContext } from '../utils/call-context.js';
+import type { ApiClientOptions } from './api-options.js';
+import { type PresentationCache, presentationCache } from './presentation-cache.js';
+import { isRateLimitError, withRetry } from './retry.js';
 
 /**
  * Error thrown when a presentation is not found or not accessible
@@ -39,18 +44,57 @@ export class PermissionDeniedError extends Error {
   }
 }
 
+/**
+ * Error thrown when a presentation changed after the revision a write was based on
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(
+    public readonly presentationId: string,
+    public readonly expectedRevisionId: string
+  ) {
+    super(
+      `Presentation ${presentationId} was modified after revision ${expectedRevisionId}; no changes were applied`
+    );
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+/**
+ * Options for creating a SlidesClient
+ */
+export interface SlidesClientOptions extends ApiClientOptions {
+  /** Slides API to call instead of one created from auth and the other options (e.g. a stub in tests) */
+  slides?: slides_v1.Slides;
+}
+
 /**
  * Google Slides API client wrapper
  */
 export class SlidesClient {
-  private slides: slides_v1.Slides;
+  private readonly slides: slides_v1.Slides;
 
   /**
    * Create a new SlidesClient
    * @param auth - Authenticated OAuth2Client
+   * @param cache - Presentation cache (defaults to the process-wide cache)
+   * @param options - API endpoint, timeout, and proxy settings, or the Slides API to use
    */
-  constructor(auth: OAuth2Client) {
-    this.slides = google.slides({ version: 'v1', auth });
+  constructor(
+    auth: OAuth2Client,
+    private readonly cache: PresentationCache = presentationCache,
+    options: SlidesClientOptions = {}
+  ) {
+    // Retries are handled by withRetry so the policy is shared across all calls
+    this.slides =
+      options.slides ??
+      google.slides({
+        version: 'v1',
+        auth,
+        retry: false,
+        rootUrl: options.rootUrl,
+        timeout: options.timeoutMs,
+        ...options.transport,
+      });
   }
 
   /**
@@ -58,15 +102,20 @@ export class SlidesClient {
    *
    * @param title - Title for the new presentation
    * @returns Presentation data including ID and metadata
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
    */
   async createPresentation(title: string): Promise<slides_v1.Schema$Presentation> {
     try {
-      const response = await this.slides.presentations.create({
-        requestBody: {
-          title,
-        },
-      });
+      // Not idempotent: a retried create after a server error could duplicate the file
+      const response = await withRetry(
+        () =>
+          this.slides.presentations.create({
+            requestBody: {
+              title,
+            },
+          }),
+        { idempotent: false }
+      );
 
       if (!response.data) {
         throw new Error('No data returned from presentation creation');
@@ -74,7 +123,7 @@ export class SlidesClient {
 
       return response.data;
     } catch (error: any) {
-      if (error.code === 429 || error.message?.includes('quota')) {
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
         throw new QuotaExceededError();
       }
       throw error;
@@ -84,33 +133,63 @@ export class SlidesClient {
   /**
    * Get a presentation by ID
    *
+   * Served from the presentation cache when the cached revision is current.
+   * The returned object may be shared and must not be mutated.
+   *
    * @param presentationId - The ID of the presentation to retrieve
+   * @param options - Set revalidate to check the revision even within the cache TTL
    * @returns Full presentation data including all slides
    * @throws {PresentationNotFoundError} If presentation not found
    * @throws {PermissionDeniedError} If no access to presentation
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
    */
-  async getPresentation(presentationId: string): Promise<slides_v1.Schema$Presentation> {
+  async getPresentation(
+    presentationId: string,
+    options: { revalidate?: boolean } = {}
+  ): Promise<slides_v1.Schema$Presentation> {
     try {
-      const response = await this.slides.presentations.get({
-        presentationId,
-      });
+      const cached = this.cache.get(presentationId);
+      if (cached && !cached.stale && !options.revalidate) {
+        return cached.presentation;
+      }
+
+      const version = this.cache.version;
+
+      // Cheap revision check before refetching the whole deck
+      if (cached) {
+        const revision = await withRetry(() =>
+          this.slides.presentations.get({
+            presentationId,
+            fields: 'revisionId',
+          })
+        );
+        if (this.cache.revalidate(presentationId, revision.data?.revisionId)) {
+          return cached.presentation;
+        }
+      }
+
+      const response = await withRetry(() =>
+        this.slides.presentations.get({
+          presentationId,
+        })
+      );
 
       if (!response.data) {
         throw new PresentationNotFoundError(presentationId);
       }
 
+      this.cache.set(response.data, version);
       return response.data;
     } catch (error: any) {
       if (error.code === 404) {
         throw new PresentationNotFoundError(presentationId);
       }
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
+        throw new QuotaExceededError();
+      }
       if (error.code === 403) {
         throw new PermissionDeniedError(presentationId);
       }
-      if (error.code === 429 || error.message?.includes('quota')) {
-        throw new QuotaExceededError();
-      }
       throw error;
     }
   }
@@ -118,41 +197,68 @@ export class SlidesClient {
   /**
    * Execute a batch update on a presentation
    *
+   * Invalidates the cached copy of the presentation. The response's
+   * writeControl.requiredRevisionId holds the revision after the update.
+   * Server and network errors are only retried when requiredRevisionId is given.
+   *
    * @param presentationId - The ID of the presentation to update
    * @param requests - Array of update requests
+   * @param requiredRevisionId - Only apply the requests if the presentation is still at this revision
    * @returns Batch update response with replies
    * @throws {PresentationNotFoundError} If presentation not found
    * @throws {PermissionDeniedError} If no access to presentation
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
+   * @throws {ConcurrentModificationError} If the presentation is no longer at requiredRevisionId
    */
   async batchUpdate(
     presentationId: string,
-    requests: slides_v1.Schema$Request[]
+    requests: slides_v1.Schema$Request[],
+    requiredRevisionId?: string
   ): Promise<slides_v1.Schema$BatchUpdatePresentationResponse> {
+    // Record the request for the audit log of the current tool call
+    const record: BatchUpdateRecord = { presentationId, requests };
+    getCallContext()?.batchUpdates.push(record);
+
     try {
-      const response = await this.slides.presentations.batchUpdate({
-        presentationId,
-        requestBody: {
-          requests,
-        },
-      });
+      // A server error or dropped connection does not tell whether the update
+      // was applied, so only a write pinned to a revision is repeated: if the
+      // first attempt went through, the retry fails the revision check instead
+      // of applying the requests twice. Rate-limited requests are always retried.
+      const response = await withRetry(
+        () =>
+          this.slides.presentations.batchUpdate({
+            presentationId,
+            requestBody: {
+              requests,
+              ...(requiredRevisionId && { writeControl: { requiredRevisionId } }),
+            },
+          }),
+        { idempotent: Boolean(requiredRevisionId) }
+      );
 
       if (!response.data) {
         throw new Error('No data returned from batch update');
       }
 
+      record.replies = response.data.replies ?? [];
       return response.data;
     } catch (error: any) {
       if (error.code === 404) {
         throw new PresentationNotFoundError(presentationId);
       }
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
+        throw new QuotaExceededError();
+      }
       if (error.code === 403) {
         throw new PermissionDeniedError(presentationId);
       }
-      if (error.code === 429 || error.message?.includes('quota')) {
-        throw new QuotaExceededError();
+      if (requiredRevisionId && error.code === 400 && /revision/i.test(error.message ?? '')) {
+        throw new ConcurrentModificationError(presentationId, requiredRevisionId);
       }
       throw error;
+    } finally {
+      // Invalidate even on failure: a request that timed out may still have been applied
+      this.cache.invalidate(presentationId);
     }
   }
 
@@ -164,14 +270,16 @@ export class SlidesClient {
    * @returns Slide/page data
    * @throws {PresentationNotFoundError} If presentation not found
    * @throws {PermissionDeniedError} If no access to presentation
-   * @throws {QuotaExceededError} If API quota is exceeded
+   * @throws {QuotaExceededError} If API quota is still exceeded after retrying
    */
   async getSlide(presentationId: string, pageObjectId: string): Promise<slides_v1.Schema$Page> {
     try {
-      const response = await this.slides.presentations.pages.get({
-        presentationId,
-        pageObjectId,
-      });
+      const response = await withRetry(() =>
+        this.slides.presentations.pages.get({
+          presentationId,
+          pageObjectId,
+        })
+      );
 
       if (!response.data) {
         throw new Error(`Slide not found: ${pageObjectId}`);
@@ -182,27 +290,13 @@ export class SlidesClient {
       if (error.code === 404) {
         throw new PresentationNotFoundError(presentationId);
       }
+      if (isRateLimitError(error) || error.message?.includes('quota')) {
+        throw new QuotaExceededError();
+      }
       if (error.code === 403) {
         throw new PermissionDeniedError(presentationId);
       }
-      if (error.code === 429 || error.message?.includes('quota')) {
-        throw new QuotaExceededError();
-      }
       throw error;
     }
   }
 }
-
-/**
- * Create a SlidesClient with automatic authentication
- *
- * This is a convenience function that handles OAuth authentication
- * and returns a ready-to-use SlidesClient instance.
- *
- * @returns Authenticated SlidesClient
- * @throws {AuthenticationError} If authentication fails
- */
-export async function createSlidesClient(): Promise<SlidesClient> {
-  const auth = await getAuthenticatedClient();
-  return new SlidesClient(auth);
-}
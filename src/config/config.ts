@@ -0,0 +1,473 @@
+/**
+ * Central configuration file
+ *
+ * Settings are read from a user-level file and a project-level file in the
+ * working directory; keys in the project file override the user file (nested
+ * objects are merged, arrays and values replaced). Both are validated with
+ * ConfigSchema. Since the project file comes with whatever directory the
+ * server is started in, it may only set presentation settings
+ * (PROJECT_SETTINGS), never credentials, token storage, or permissions.
+ * Environment variables still take precedence over the files for the
+ * settings they cover (OAuth client, callback port, sign-in flow, token
+ * path, token key file, account, credentials, permission profile, tool
+ * lists, logging, network).
+ *
+ * - MCP_GSLIDES_CONFIG_PATH: path of the user file (default: ~/.mcp-google-slides/config.json)
+ * - MCP_GSLIDES_PROJECT_CONFIG_PATH: path of the project file (default: .mcp-google-slides.json in the working directory)
+ */
+
+import { readFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { z } from 'zod';
+import type { PredefinedLayout } from '../types/layouts.js';
+import { parseColor } from '../utils/colors.js';
+import type { LengthUnit } from '../utils/emu.js';
+
+/**
+ * Units accepted for positions and sizes
+ */
+export const LENGTH_UNITS = ['in', 'cm', 'pt', 'emu'] as const satisfies readonly LengthUnit[];
+
+/**
+ * Log levels, from most to least verbose
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Formats of log lines written to stderr
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * Ways of signing in to Google interactively
+ *
+ * - auto: the browser flow, or the manual flow when no browser is available
+ * - browser: open the consent screen and receive the code on a localhost callback
+ * - device: show a code to enter at google.com/device on any other device
+ * - manual: show the consent URL and take the redirect URL pasted back by the user
+ */
+export const OAUTH_FLOWS = ['auto', 'browser', 'device', 'manual'] as const;
+
+export type OAuthFlow = (typeof OAUTH_FLOWS)[number];
+
+/**
+ * Permission profiles, from most to least restrictive
+ *
+ * - read-only: only tools that read presentations or server state
+ * - no-delete: every tool except those that delete or overwrite content
+ * - full: every tool
+ */
+export const PERMISSION_PROFILES = ['read-only', 'no-delete', 'full'] as const;
+
+export type PermissionProfile = (typeof PERMISSION_PROFILES)[number];
+
+/**
+ * Name of the account profile stored in the token file itself
+ */
+export const DEFAULT_ACCOUNT = 'default';
+
+/**
+ * Valid account profile names: lowercase letters, digits, hyphens, and
+ * underscores, so they can be used in file names on any platform
+ */
+export const ACCOUNT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Layouts accepted as the add_slide default
+ */
+const DEFAULT_LAYOUTS = [
+  'BLANK',
+  'TITLE',
+  'TITLE_AND_BODY',
+  'TITLE_AND_TWO_COLUMNS',
+  'TITLE_ONLY',
+  'SECTION_HEADER',
+  'SECTION_TITLE_AND_DESCRIPTION',
+  'ONE_COLUMN_TEXT',
+  'MAIN_POINT',
+  'BIG_NUMBER',
+  'CAPTION_ONLY',
+] as const satisfies readonly PredefinedLayout[];
+
+/**
+ * A color accepted by parseColor
+ */
+const ColorSchema = z.string().refine(
+  (value) => {
+    try {
+      parseColor(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid color: use hex (#RRGGBB), rgb(r, g, b), or a color name' }
+);
+
+/**
+ * Default text style for new text boxes and shape text
+ */
+const TextDefaultsSchema = z
+  .object({
+    fontFamily: z.string().min(1).optional().describe('Font name, e.g. "Roboto"'),
+    fontSize: z.number().positive().optional().describe('Font size in points'),
+    color: ColorSchema.optional().describe('Text color'),
+  })
+  .strict();
+
+/**
+ * Schema of the configuration file
+ */
+export const ConfigSchema = z
+  .object({
+    oauth: z
+      .object({
+        clientId: z.string().min(1).optional().describe('Google OAuth client ID'),
+        clientSecret: z.string().min(1).optional().describe('Google OAuth client secret'),
+        callbackPort: z
+          .number()
+          .int()
+          .min(0)
+          .max(65535)
+          .optional()
+          .describe('Port for the OAuth callback server'),
+        scopes: z.array(z.string().url()).min(1).optional().describe('OAuth scopes to request'),
+        flow: z
+          .enum(OAUTH_FLOWS)
+          .optional()
+          .describe('How to sign in interactively: auto, browser, device, or manual'),
+      })
+      .strict()
+      .default({}),
+    tokenPath: z.string().min(1).optional().describe('Path of the token storage file'),
+    tokenKeyFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Path of a file whose contents the token encryption key is derived from'),
+    account: z
+      .string()
+      .regex(ACCOUNT_NAME_PATTERN)
+      .optional()
+      .describe('Account profile tools act as when they are not given one (default: default)'),
+    serviceAccount: z
+      .object({
+        keyFile: z.string().min(1).optional().describe('Path of a service account JSON key'),
+        subject: z
+          .string()
+          .email()
+          .optional()
+          .describe('User to impersonate through domain-wide delegation'),
+      })
+      .strict()
+      .optional()
+      .describe('Sign in as a service account instead of through the browser'),
+    accessTokenFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Path of a file holding an access token issued outside the server'),
+    units: z.enum(LENGTH_UNITS).default('in').describe('Units of tool positions and sizes'),
+    defaults: z
+      .object({
+        text: TextDefaultsSchema.default({}).describe('Style of text boxes created by insert_text'),
+        shape: TextDefaultsSchema.extend({
+          fillColor: ColorSchema.optional().describe('Fill color when none is given'),
+        })
+          .strict()
+          .default({})
+          .describe('Fill and text style of shapes created by create_shape'),
+        slideLayout: z
+          .enum(DEFAULT_LAYOUTS)
+          .optional()
+          .describe('Layout used by add_slide when none is given'),
+      })
+      .strict()
+      .default({}),
+    permissionProfile: z
+      .enum(PERMISSION_PROFILES)
+      .default('full')
+      .describe('Which kinds of tools may be listed and called'),
+    enabledTools: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Names of the only tools to expose (default: all the profile permits)'),
+    disabledTools: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Names of tools to hide even if the profile permits them'),
+    logging: z
+      .object({
+        level: z.enum(LOG_LEVELS).default('info').describe('Minimum level of server log messages'),
+        format: z.enum(LOG_FORMATS).default('text').describe('Format of log lines on stderr'),
+      })
+      .strict()
+      .default({}),
+    network: z
+      .object({
+        apiRootUrl: z
+          .string()
+          .url()
+          .optional()
+          .describe('Root URL for both the Slides and Drive APIs (default: Google)'),
+        slidesRootUrl: z.string().url().optional().describe('Root URL for the Slides API only'),
+        driveRootUrl: z.string().url().optional().describe('Root URL for the Drive API only'),
+        timeoutMs: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Timeout for a single request attempt, 0 to disable (default: 60000)'),
+        caFile: z
+          .string()
+          .min(1)
+          .optional()
+          .describe('PEM bundle of certificate authorities to trust besides the system ones'),
+        proxy: z.string().url().optional().describe('Proxy for all requests'),
+        noProxy: z.array(z.string().min(1)).optional().describe('Hosts reached without the proxy'),
+      })
+      .strict()
+      .optional()
+      .describe('Where and how Google APIs are reached'),
+  })
+  .strict();
+
+/**
+ * Validated configuration with defaults applied
+ */
+export type Config = z.infer<typeof ConfigSchema>;
+
+/**
+ * Configured default text style
+ */
+export type TextDefaults = z.infer<typeof TextDefaultsSchema>;
+
+/**
+ * A configuration file that was considered
+ */
+export interface ConfigSource {
+  /** Which level the file configures */
+  scope: 'user' | 'project';
+  /** Absolute path of the file */
+  path: string;
+  /** Whether the file exists and was applied */
+  loaded: boolean;
+}
+
+/**
+ * Merged configuration and the files it came from
+ */
+export interface LoadedConfig {
+  config: Config;
+  sources: ConfigSource[];
+}
+
+/**
+ * Top-level keys the project file may set
+ */
+export const PROJECT_SETTINGS = ['units', 'defaults', 'logging'] as const;
+
+/**
+ * Environment variables that take precedence over a setting in the files
+ */
+export const ENV_OVERRIDES = {
+  MCP_GSLIDES_CLIENT_ID: 'oauth.clientId',
+  MCP_GSLIDES_CLIENT_SECRET: 'oauth.clientSecret',
+  MCP_GSLIDES_CALLBACK_PORT: 'oauth.callbackPort',
+  MCP_GSLIDES_OAUTH_FLOW: 'oauth.flow',
+  MCP_GSLIDES_TOKEN_PATH: 'tokenPath',
+  MCP_GSLIDES_TOKEN_KEY_FILE: 'tokenKeyFile',
+  MCP_GSLIDES_ACCOUNT: 'account',
+  MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE: 'serviceAccount.keyFile',
+  MCP_GSLIDES_IMPERSONATE_USER: 'serviceAccount.subject',
+  MCP_GSLIDES_ACCESS_TOKEN_FILE: 'accessTokenFile',
+  MCP_GSLIDES_PERMISSION_PROFILE: 'permissionProfile',
+  MCP_GSLIDES_ENABLED_TOOLS: 'enabledTools',
+  MCP_GSLIDES_DISABLED_TOOLS: 'disabledTools',
+  MCP_GSLIDES_LOG_LEVEL: 'logging.level',
+  MCP_GSLIDES_LOG_FORMAT: 'logging.format',
+  MCP_GSLIDES_API_ROOT_URL: 'network.apiRootUrl',
+  MCP_GSLIDES_SLIDES_ROOT_URL: 'network.slidesRootUrl',
+  MCP_GSLIDES_DRIVE_ROOT_URL: 'network.driveRootUrl',
+  MCP_GSLIDES_API_TIMEOUT_MS: 'network.timeoutMs',
+  MCP_GSLIDES_CA_FILE: 'network.caFile',
+  HTTPS_PROXY: 'network.proxy',
+  https_proxy: 'network.proxy',
+  HTTP_PROXY: 'network.proxy',
+  http_proxy: 'network.proxy',
+  NO_PROXY: 'network.noProxy',
+  no_proxy: 'network.noProxy',
+} as const;
+
+/**
+ * Error thrown when a configuration file cannot be read or is invalid
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly path: string,
+    detail: string
+  ) {
+    super(`Invalid configuration file ${path}: ${detail}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Get the paths of the user and project configuration files
+ *
+ * @returns Absolute paths of both files
+ */
+export function getConfigPaths(): { user: string; project: string } {
+  const userPath = process.env.MCP_GSLIDES_CONFIG_PATH;
+  const projectPath = process.env.MCP_GSLIDES_PROJECT_CONFIG_PATH;
+
+  return {
+    user: userPath
+      ? path.resolve(userPath)
+      : path.join(os.homedir(), '.mcp-google-slides', 'config.json'),
+    project: path.resolve(projectPath || '.mcp-google-slides.json'),
+  };
+}
+
+/**
+ * Read and validate one configuration file
+ *
+ * @param filePath - Path of the file
+ * @param scope - Which level the file configures; project files may only set PROJECT_SETTINGS
+ * @returns The file's settings, or undefined if it does not exist
+ * @throws {ConfigError} If the file is unreadable, not JSON, or fails validation
+ */
+function readConfigFile(
+  filePath: string,
+  scope: ConfigSource['scope']
+): Record<string, unknown> | undefined {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new ConfigError(filePath, (error as Error).message);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(filePath, (error as Error).message);
+  }
+
+  const result = ConfigSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new ConfigError(filePath, issues.join('; '));
+  }
+
+  const settings = data as Record<string, unknown>;
+  if (scope === 'project') {
+    const allowed: readonly string[] = PROJECT_SETTINGS;
+    const forbidden = Object.keys(settings).filter((key) => !allowed.includes(key));
+    if (forbidden.length > 0) {
+      throw new ConfigError(
+        filePath,
+        `${forbidden.join(', ')} can only be set in the user configuration file or the environment`
+      );
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Merge two settings objects, nested objects key by key
+ *
+ * @param base - Lower-precedence settings
+ * @param override - Higher-precedence settings
+ * @returns The merged settings
+ */
+function mergeSettings(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value) ? mergeSettings(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Check whether a value is a JSON object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Load the user and project configuration files
+ *
+ * Missing files are skipped; defaults apply to anything neither file sets.
+ *
+ * @param paths - File paths (defaults to getConfigPaths())
+ * @returns The merged configuration and the files considered
+ * @throws {ConfigError} If either file is unreadable or invalid
+ */
+export function loadConfig(paths = getConfigPaths()): LoadedConfig {
+  const user = readConfigFile(paths.user, 'user');
+  const project =
+    paths.project === paths.user ? undefined : readConfigFile(paths.project, 'project');
+
+  return {
+    config: ConfigSchema.parse(mergeSettings(user ?? {}, project ?? {})),
+    sources: [
+      { scope: 'user', path: paths.user, loaded: user !== undefined },
+      { scope: 'project', path: paths.project, loaded: project !== undefined },
+    ],
+  };
+}
+
+let loaded: LoadedConfig | undefined;
+
+/**
+ * Get the configuration, loading the files on first use
+ *
+ * @returns The loaded configuration and its sources
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getLoadedConfig(): LoadedConfig {
+  if (!loaded) {
+    loaded = loadConfig();
+  }
+  return loaded;
+}
+
+/**
+ * Get the configuration, loading the files on first use
+ *
+ * @returns The validated configuration with defaults applied
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getConfig(): Config {
+  return getLoadedConfig().config;
+}
+
+/**
+ * Read the configuration files again (e.g. after they changed, or in tests)
+ *
+ * @returns The reloaded configuration and its sources
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function reloadConfig(): LoadedConfig {
+  loaded = undefined;
+  return getLoadedConfig();
+}
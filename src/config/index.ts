@@ -0,0 +1,31 @@
+/**
+ * Configuration exports
+ */
+
+export {
+  ACCOUNT_NAME_PATTERN,
+  type Config,
+  ConfigError,
+  ConfigSchema,
+  type ConfigSource,
+  DEFAULT_ACCOUNT,
+  ENV_OVERRIDES,
+  getConfig,
+  getConfigPaths,
+  getLoadedConfig,
+  LENGTH_UNITS,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  type LoadedConfig,
+  type LogFormat,
+  type LogLevel,
+  loadConfig,
+  OAUTH_FLOWS,
+  type OAuthFlow,
+  PERMISSION_PROFILES,
+  type PermissionProfile,
+  PROJECT_SETTINGS,
+  reloadConfig,
+  type TextDefaults,
+} from './config.js';
+export { getPermissions, type Permissions } from './permissions.js';
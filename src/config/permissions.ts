@@ -0,0 +1,63 @@
+/**
+ * Tool permissions
+ *
+ * Resolves which tools agents may list and call from the permission profile
+ * and the enabled/disabled tool lists. Environment variables take precedence
+ * over config.json:
+ *
+ * - MCP_GSLIDES_PERMISSION_PROFILE: read-only, no-delete, or full (default: full)
+ * - MCP_GSLIDES_ENABLED_TOOLS: comma-separated names of the only tools to expose (default: all)
+ * - MCP_GSLIDES_DISABLED_TOOLS: comma-separated names of tools to hide (default: none)
+ */
+
+import { getConfig, PERMISSION_PROFILES, type PermissionProfile } from './config.js';
+
+/**
+ * Effective tool permissions
+ */
+export interface Permissions {
+  /** Which kinds of tools are permitted */
+  profile: PermissionProfile;
+  /** Names of the only tools permitted, if restricted */
+  enabledTools?: string[];
+  /** Names of tools that are never permitted */
+  disabledTools?: string[];
+}
+
+/**
+ * Read a comma-separated list of tool names from the environment
+ *
+ * @param name - Variable name
+ * @returns The listed names, or undefined if the variable is unset or empty
+ */
+function readToolListEnv(name: string): string[] | undefined {
+  const names = (process.env[name] ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value !== '');
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Get the tool permissions from the environment and config.json
+ *
+ * @returns The effective permissions
+ * @throws {Error} If MCP_GSLIDES_PERMISSION_PROFILE names an unknown profile
+ * @throws {ConfigError} If a configuration file is invalid
+ */
+export function getPermissions(): Permissions {
+  const config = getConfig();
+  const profile = process.env.MCP_GSLIDES_PERMISSION_PROFILE?.trim().toLowerCase();
+
+  if (profile && !(PERMISSION_PROFILES as readonly string[]).includes(profile)) {
+    throw new Error(
+      `Unknown permission profile: ${profile} (expected ${PERMISSION_PROFILES.join(', ')})`
+    );
+  }
+
+  return {
+    profile: (profile as PermissionProfile | undefined) || config.permissionProfile,
+    enabledTools: readToolListEnv('MCP_GSLIDES_ENABLED_TOOLS') ?? config.enabledTools,
+    disabledTools: readToolListEnv('MCP_GSLIDES_DISABLED_TOOLS') ?? config.disabledTools,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Errors returned by the API emulator
+ */
+
+/**
+ * Google API status names by HTTP status
+ */
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  404: 'NOT_FOUND',
+  500: 'INTERNAL',
+};
+
+/**
+ * An error the emulator reports the way Google does: an HTTP status and a
+ * JSON body of the form `{ error: { code, message, status } }`
+ */
+export class EmulatorApiError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'EmulatorApiError';
+  }
+
+  /**
+   * Google API status name (e.g. INVALID_ARGUMENT)
+   */
+  get status(): string {
+    return STATUS_NAMES[this.code] ?? 'UNKNOWN';
+  }
+
+  /**
+   * Response body in Google's error format
+   */
+  toJSON(): { error: { code: number; message: string; status: string } } {
+    return { error: { code: this.code, message: this.message, status: this.status } };
+  }
+}
+
+/**
+ * Create a 400 error for an invalid request
+ *
+ * @param message - What is wrong with the request
+ * @returns The error to throw
+ */
+export function invalidArgument(message: string): EmulatorApiError {
+  return new EmulatorApiError(400, message);
+}
+
+/**
+ * Create a 404 error for a missing presentation, page, or file
+ *
+ * @param message - What was not found
+ * @returns The error to throw
+ */
+export function notFound(message = 'Requested entity was not found.'): EmulatorApiError {
+  return new EmulatorApiError(404, message);
+}
@@ -0,0 +1,91 @@
+/**
+ * Field masks for update requests
+ *
+ * Update requests (updateTextStyle, updateShapeProperties, ...) only touch
+ * the fields listed in their `fields` mask: listed fields are copied from
+ * the request, or cleared when the request leaves them unset. `*` replaces
+ * the whole object.
+ */
+
+import { invalidArgument } from './errors.js';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Apply the fields listed in a mask
+ *
+ * @param target - Current value (not modified)
+ * @param source - Values from the request
+ * @param fields - Comma-separated field paths (e.g. "bold,foregroundColor.opaqueColor") or "*"
+ * @returns The updated copy
+ * @throws {EmulatorApiError} If the mask is empty
+ */
+export function applyFieldMask<T extends object>(
+  target: T | undefined,
+  source: T | undefined,
+  fields: string | null | undefined
+): T {
+  const paths = (fields ?? '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field !== '');
+  if (paths.length === 0) {
+    throw invalidArgument(
+      "At least one field must be listed in 'fields'. (Use '*' to indicate all fields.)"
+    );
+  }
+
+  if (paths.includes('*')) {
+    return structuredClone(source ?? ({} as T));
+  }
+
+  const result = structuredClone(target ?? {}) as JsonObject;
+  for (const path of paths) {
+    const keys = path.split('.');
+    const value = getPath(source as JsonObject | undefined, keys);
+    setPath(result, keys, value === undefined ? undefined : structuredClone(value));
+  }
+  return result as T;
+}
+
+/**
+ * Read a nested value
+ */
+function getPath(object: JsonObject | undefined, keys: string[]): unknown {
+  let current: unknown = object;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as JsonObject)[key];
+  }
+  return current ?? undefined;
+}
+
+/**
+ * Write or delete a nested value, creating intermediate objects as needed
+ */
+function setPath(object: JsonObject, keys: string[], value: unknown): void {
+  const last = keys[keys.length - 1];
+  if (last === undefined) {
+    return;
+  }
+
+  let current = object;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (next === null || typeof next !== 'object') {
+      if (value === undefined) {
+        return;
+      }
+      current[key] = {};
+    }
+    current = current[key] as JsonObject;
+  }
+
+  if (value === undefined) {
+    delete current[last];
+  } else {
+    current[last] = value;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * In-memory Google Slides and Drive API emulator
+ *
+ * A local stand-in for the subset of the Slides and Drive REST APIs the
+ * server uses, so tools can run end to end without network access or a
+ * Google account. Selected with an environment variable:
+ *
+ * - MCP_GSLIDES_EMULATOR: set to true to start an emulator in-process and send every API request to it (default: false)
+ */
+
+export { EmulatorApiError } from './errors.js';
+export {
+  type EmulatorHandle,
+  type EmulatorOptions,
+  startEmulator,
+} from './server.js';
+export { EmulatorStore } from './store.js';
+
+/**
+ * Check whether the emulator is enabled through environment variables
+ *
+ * @returns true if MCP_GSLIDES_EMULATOR is "true" or "1"
+ */
+export function isEmulatorEnabled(): boolean {
+  const value = process.env.MCP_GSLIDES_EMULATOR?.trim().toLowerCase();
+  return value === 'true' || value === '1';
+}
@@ -0,0 +1,261 @@
+/**
+ * Default theme of presentations created by the API emulator
+ *
+ * Mirrors the "Simple Light" theme Google uses for new presentations: one
+ * master, one layout per predefined layout with its placeholders, a notes
+ * master, and a 16:9 page size. New slides copy the placeholders of their
+ * layout and get a notes page with a speaker notes shape.
+ */
+
+import type { slides_v1 } from 'googleapis';
+
+/**
+ * Placeholder of a layout
+ */
+interface PlaceholderSpec {
+  type: string;
+  index?: number;
+  /** Position and size in EMU */
+  box: [x: number, y: number, width: number, height: number];
+}
+
+/**
+ * Page width and height in EMU (10in x 5.625in)
+ */
+const PAGE_WIDTH = 9144000;
+const PAGE_HEIGHT = 5143500;
+
+const TITLE: PlaceholderSpec = { type: 'TITLE', box: [311700, 445025, 8520600, 572700] };
+const BODY: PlaceholderSpec = { type: 'BODY', box: [311700, 1152475, 8520600, 3416400] };
+
+/**
+ * Placeholders of each predefined layout
+ */
+const LAYOUTS: Record<string, PlaceholderSpec[]> = {
+  TITLE: [
+    { type: 'CENTERED_TITLE', box: [311700, 744575, 8520600, 2052600] },
+    { type: 'SUBTITLE', box: [311700, 2834125, 8520600, 792600] },
+  ],
+  SECTION_HEADER: [{ type: 'TITLE', box: [311700, 2150850, 8520600, 841800] }],
+  TITLE_AND_BODY: [TITLE, BODY],
+  TITLE_AND_TWO_COLUMNS: [
+    TITLE,
+    { type: 'BODY', index: 0, box: [311700, 1152475, 3999900, 3416400] },
+    { type: 'BODY', index: 1, box: [4832400, 1152475, 3999900, 3416400] },
+  ],
+  TITLE_ONLY: [TITLE],
+  ONE_COLUMN_TEXT: [
+    { type: 'TITLE', box: [311700, 555600, 2808000, 755700] },
+    { type: 'BODY', box: [311700, 1389600, 2808000, 3179400] },
+  ],
+  MAIN_POINT: [{ type: 'TITLE', box: [490250, 450150, 7688700, 4090800] }],
+  SECTION_TITLE_AND_DESCRIPTION: [
+    { type: 'TITLE', box: [265500, 1233175, 4045200, 1482300] },
+    { type: 'SUBTITLE', box: [265500, 2803075, 4045200, 1235100] },
+    { type: 'BODY', box: [4939500, 724075, 3837000, 3695100] },
+  ],
+  CAPTION_ONLY: [{ type: 'BODY', box: [311700, 4230575, 5998800, 605100] }],
+  BIG_NUMBER: [
+    { type: 'TITLE', box: [311700, 1106125, 8520600, 1963500] },
+    { type: 'BODY', box: [311700, 3152225, 8520600, 1300800] },
+  ],
+  BLANK: [],
+};
+
+/**
+ * Object ID of the master page
+ */
+const MASTER_ID = 'master_simple_light';
+
+/**
+ * Object ID of the notes master
+ */
+const NOTES_MASTER_ID = 'notes_master';
+
+/**
+ * Object ID of the layout page for a predefined layout
+ *
+ * @param layout - Predefined layout name (e.g. TITLE_AND_BODY)
+ * @returns The layout's object ID
+ */
+export function layoutObjectId(layout: string): string {
+  return `layout_${layout.toLowerCase()}`;
+}
+
+/**
+ * Build the pages of a new presentation, without slides
+ *
+ * @param presentationId - ID of the new presentation
+ * @param title - Presentation title
+ * @returns The presentation
+ */
+export function createEmptyPresentation(
+  presentationId: string,
+  title: string
+): slides_v1.Schema$Presentation {
+  return {
+    presentationId,
+    title,
+    locale: 'en',
+    pageSize: {
+      width: { magnitude: PAGE_WIDTH, unit: 'EMU' },
+      height: { magnitude: PAGE_HEIGHT, unit: 'EMU' },
+    },
+    slides: [],
+    masters: [
+      {
+        objectId: MASTER_ID,
+        pageType: 'MASTER',
+        masterProperties: { displayName: 'Simple Light' },
+        pageElements: [
+          placeholderElement(`${MASTER_ID}_title`, TITLE),
+          placeholderElement(`${MASTER_ID}_body`, BODY),
+        ],
+      },
+    ],
+    layouts: Object.entries(LAYOUTS).map(([name, placeholders]) => {
+      const objectId = layoutObjectId(name);
+      return {
+        objectId,
+        pageType: 'LAYOUT',
+        layoutProperties: {
+          masterObjectId: MASTER_ID,
+          name,
+          displayName: name.toLowerCase().replace(/_/g, ' '),
+        },
+        pageElements: placeholders.map((spec) =>
+          placeholderElement(
+            `${objectId}_${placeholderKey(spec)}`,
+            spec,
+            spec.type.endsWith('TITLE') ? `${MASTER_ID}_title` : `${MASTER_ID}_body`
+          )
+        ),
+      };
+    }),
+    notesMaster: {
+      objectId: NOTES_MASTER_ID,
+      pageType: 'NOTES_MASTER',
+      pageElements: [
+        placeholderElement(`${NOTES_MASTER_ID}_slide_image`, {
+          type: 'SLIDE_IMAGE',
+          box: [381175, 685800, 6096000, 3429000],
+        }),
+        placeholderElement(`${NOTES_MASTER_ID}_body`, {
+          type: 'BODY',
+          index: 1,
+          box: [685800, 4343400, 5486400, 4114800],
+        }),
+      ],
+    },
+  };
+}
+
+/**
+ * Build a slide from a layout
+ *
+ * @param slideId - Object ID of the new slide
+ * @param layout - Layout page to copy placeholders from
+ * @param placeholderId - Picks the object ID of each copied layout placeholder
+ * @param newObjectId - Generates IDs for the notes page and its shapes
+ * @returns The slide page
+ */
+export function createSlideFromLayout(
+  slideId: string,
+  layout: slides_v1.Schema$Page,
+  placeholderId: (layoutPlaceholder: slides_v1.Schema$PageElement) => string,
+  newObjectId: () => string
+): slides_v1.Schema$Page {
+  const speakerNotesObjectId = newObjectId();
+
+  return {
+    objectId: slideId,
+    pageType: 'SLIDE',
+    pageElements: (layout.pageElements ?? []).map((element) => ({
+      objectId: placeholderId(element),
+      size: structuredClone(element.size),
+      transform: structuredClone(element.transform),
+      shape: {
+        shapeType: 'TEXT_BOX',
+        placeholder: {
+          type: element.shape?.placeholder?.type,
+          ...(element.shape?.placeholder?.index && { index: element.shape.placeholder.index }),
+          parentObjectId: element.objectId,
+        },
+        shapeProperties: {},
+      },
+    })),
+    slideProperties: {
+      layoutObjectId: layout.objectId,
+      masterObjectId: layout.layoutProperties?.masterObjectId,
+      notesPage: {
+        objectId: newObjectId(),
+        pageType: 'NOTES',
+        notesProperties: { speakerNotesObjectId },
+        pageElements: [
+          {
+            objectId: newObjectId(),
+            ...geometry([381175, 685800, 6096000, 3429000]),
+            shape: {
+              shapeType: 'RECTANGLE',
+              placeholder: {
+                type: 'SLIDE_IMAGE',
+                parentObjectId: `${NOTES_MASTER_ID}_slide_image`,
+              },
+            },
+          },
+          {
+            objectId: speakerNotesObjectId,
+            ...geometry([685800, 4343400, 5486400, 4114800]),
+            shape: {
+              shapeType: 'TEXT_BOX',
+              placeholder: { type: 'BODY', index: 1, parentObjectId: `${NOTES_MASTER_ID}_body` },
+            },
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Build a placeholder shape
+ */
+function placeholderElement(
+  objectId: string,
+  spec: PlaceholderSpec,
+  parentObjectId?: string
+): slides_v1.Schema$PageElement {
+  return {
+    objectId,
+    ...geometry(spec.box),
+    shape: {
+      shapeType: 'TEXT_BOX',
+      placeholder: {
+        type: spec.type,
+        ...(spec.index && { index: spec.index }),
+        ...(parentObjectId && { parentObjectId }),
+      },
+      shapeProperties: {},
+    },
+  };
+}
+
+/**
+ * Size and transform of a box, in EMU
+ */
+function geometry([x, y, width, height]: PlaceholderSpec['box']): {
+  size: slides_v1.Schema$Size;
+  transform: slides_v1.Schema$AffineTransform;
+} {
+  return {
+    size: { width: { magnitude: width, unit: 'EMU' }, height: { magnitude: height, unit: 'EMU' } },
+    transform: { scaleX: 1, scaleY: 1, translateX: x, translateY: y, unit: 'EMU' },
+  };
+}
+
+/**
+ * Object ID suffix of a layout placeholder (e.g. body_1)
+ */
+function placeholderKey(spec: PlaceholderSpec): string {
+  return `${spec.type.toLowerCase()}_${spec.index ?? 0}`;
+}
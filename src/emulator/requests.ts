@@ -0,0 +1,779 @@
+/**
+ * batchUpdate requests of the API emulator
+ *
+ * Applies Slides API requests to a presentation the way Google does: object
+ * IDs are validated and generated, placeholders are copied from layouts,
+ * text indices follow the API's rules, and each request gets its reply.
+ * Request types the tools never send are rejected with a 400 error naming
+ * the type.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { slides_v1 } from 'googleapis';
+import { EmulatorApiError, invalidArgument } from './errors.js';
+import { applyFieldMask } from './field-mask.js';
+import { createSlideFromLayout, layoutObjectId } from './layouts.js';
+import {
+  createBullets,
+  deleteBullets,
+  deleteText,
+  insertText,
+  parseText,
+  renderText,
+  replaceAll,
+  resolveRange,
+  type TextModel,
+  updateParagraphStyle,
+  updateTextStyle,
+} from './text.js';
+
+type Request = slides_v1.Schema$Request;
+type Response = slides_v1.Schema$Response;
+type Page = slides_v1.Schema$Page;
+type PageElement = slides_v1.Schema$PageElement;
+
+/**
+ * Valid object IDs: 5-50 characters, starting with a letter, digit, or underscore
+ */
+const OBJECT_ID_PATTERN = /^[a-zA-Z0-9_][a-zA-Z0-9_\-:]{4,49}$/;
+
+/**
+ * EMU per point
+ */
+const EMU_PER_PT = 12700;
+
+/**
+ * Where a page element lives
+ */
+interface ElementLocation {
+  element: PageElement;
+  /** The array holding the element (a page's or group's children) */
+  siblings: PageElement[];
+  page: Page;
+}
+
+/**
+ * A presentation being updated, with an index of its object IDs
+ */
+class Deck {
+  private readonly ids = new Set<string>();
+  private readonly idPrefix = `g${randomBytes(4).toString('hex')}`;
+  private idCounter = 0;
+
+  constructor(readonly presentation: slides_v1.Schema$Presentation) {
+    for (const page of this.pages()) {
+      this.collectIds(page);
+    }
+  }
+
+  /**
+   * The presentation's slides (created if missing)
+   */
+  get slides(): Page[] {
+    this.presentation.slides ??= [];
+    return this.presentation.slides;
+  }
+
+  /**
+   * Reserve an object ID: the requested one after validation, or a new one
+   *
+   * @param requested - ID chosen by the client, if any
+   * @returns The reserved ID
+   * @throws {EmulatorApiError} If the requested ID is invalid or already in use
+   */
+  reserveId(requested?: string | null): string {
+    if (requested) {
+      if (!OBJECT_ID_PATTERN.test(requested)) {
+        throw invalidArgument(
+          `The object ID (${requested}) should be 5-50 characters long and start with an alphanumeric character or underscore, followed by alphanumeric characters, underscores, hyphens, or colons.`
+        );
+      }
+      if (this.ids.has(requested)) {
+        throw invalidArgument(`The object ID (${requested}) should be unique.`);
+      }
+      this.ids.add(requested);
+      return requested;
+    }
+
+    let id: string;
+    do {
+      id = `${this.idPrefix}_0_${this.idCounter++}`;
+    } while (this.ids.has(id));
+    this.ids.add(id);
+    return id;
+  }
+
+  /**
+   * Find a page by ID
+   */
+  findPage(objectId: string | null | undefined): Page | undefined {
+    return this.pages().find((page) => page.objectId === objectId);
+  }
+
+  /**
+   * Find a page element by ID, including elements inside groups
+   */
+  findElement(objectId: string | null | undefined): ElementLocation | undefined {
+    for (const page of this.pages()) {
+      const found = findIn(page.pageElements ?? [], objectId, page);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find a page element by ID, failing if it does not exist
+   *
+   * @throws {EmulatorApiError} If no element has the ID
+   */
+  requireElement(objectId: string | null | undefined): ElementLocation {
+    const found = this.findElement(objectId);
+    if (!found) {
+      throw objectNotFound(objectId);
+    }
+    return found;
+  }
+
+  /**
+   * Find a slide by ID, failing if it does not exist
+   *
+   * @throws {EmulatorApiError} If no slide has the ID
+   */
+  requireSlide(objectId: string | null | undefined): Page {
+    const slide = this.slides.find((page) => page.objectId === objectId);
+    if (!slide) {
+      throw objectNotFound(objectId);
+    }
+    return slide;
+  }
+
+  /**
+   * Release the IDs of a removed page or element and everything inside it
+   */
+  releaseIds(object: Page | PageElement): void {
+    for (const id of objectIdsIn(object)) {
+      this.ids.delete(id);
+    }
+  }
+
+  /**
+   * Every page: slides and their notes pages, layouts, masters, and the notes master
+   */
+  private pages(): Page[] {
+    return [
+      ...(this.presentation.slides ?? []).flatMap((slide) => [
+        slide,
+        ...(slide.slideProperties?.notesPage ? [slide.slideProperties.notesPage] : []),
+      ]),
+      ...(this.presentation.layouts ?? []),
+      ...(this.presentation.masters ?? []),
+      ...(this.presentation.notesMaster ? [this.presentation.notesMaster] : []),
+    ];
+  }
+
+  /**
+   * Add the IDs of a page and its elements to the index
+   */
+  private collectIds(page: Page): void {
+    for (const id of objectIdsIn(page)) {
+      this.ids.add(id);
+    }
+  }
+}
+
+/**
+ * A request handler: updates the deck and returns the request's reply
+ */
+type Handler<K extends keyof Request> = (deck: Deck, request: NonNullable<Request[K]>) => Response;
+
+/**
+ * Handlers for every supported request type
+ */
+const HANDLERS: { [K in keyof Request]?: Handler<K> } = {
+  createSlide(deck, request) {
+    const slides = deck.slides;
+    const insertionIndex = request.insertionIndex ?? slides.length;
+    if (insertionIndex < 0 || insertionIndex > slides.length) {
+      throw invalidArgument(
+        `The insertion index (${insertionIndex}) should be between 0 and the number of slides (${slides.length}).`
+      );
+    }
+
+    const reference = request.slideLayoutReference;
+    const layoutId = reference?.layoutId ?? layoutObjectId(reference?.predefinedLayout ?? 'BLANK');
+    const layout = deck.presentation.layouts?.find((page) => page.objectId === layoutId);
+    if (!layout) {
+      throw invalidArgument(
+        reference?.layoutId
+          ? `The layout (${reference.layoutId}) could not be found.`
+          : `The predefined layout (${reference?.predefinedLayout}) is not present in the current master.`
+      );
+    }
+
+    const objectId = deck.reserveId(request.objectId);
+
+    // Honor requested IDs for layout placeholders
+    const mapped = new Map<string, string>();
+    for (const mapping of request.placeholderIdMappings ?? []) {
+      const placeholder = (layout.pageElements ?? []).find((element) =>
+        mapping.layoutPlaceholderObjectId
+          ? element.objectId === mapping.layoutPlaceholderObjectId
+          : element.shape?.placeholder?.type === mapping.layoutPlaceholder?.type &&
+            (element.shape?.placeholder?.index ?? 0) === (mapping.layoutPlaceholder?.index ?? 0)
+      );
+      if (!placeholder?.objectId) {
+        throw invalidArgument(
+          `The placeholder (${mapping.layoutPlaceholderObjectId ?? mapping.layoutPlaceholder?.type}) could not be found on layout ${layoutId}.`
+        );
+      }
+      mapped.set(placeholder.objectId, deck.reserveId(mapping.objectId));
+    }
+
+    const slide = createSlideFromLayout(
+      objectId,
+      layout,
+      (placeholder) => mapped.get(placeholder.objectId ?? '') ?? deck.reserveId(),
+      () => deck.reserveId()
+    );
+    slides.splice(insertionIndex, 0, slide);
+    return { createSlide: { objectId } };
+  },
+
+  createShape(deck, request) {
+    if (!request.shapeType) {
+      throw invalidArgument('The shape type must be specified.');
+    }
+    const objectId = addElement(deck, request.objectId, request.elementProperties, {
+      shape: { shapeType: request.shapeType, shapeProperties: {} },
+    });
+    return { createShape: { objectId } };
+  },
+
+  createImage(deck, request) {
+    if (!request.url) {
+      throw invalidArgument('The image URL must be specified.');
+    }
+    const objectId = addElement(deck, request.objectId, request.elementProperties, {
+      image: { contentUrl: request.url, sourceUrl: request.url, imageProperties: {} },
+    });
+    return { createImage: { objectId } };
+  },
+
+  createLine(deck, request) {
+    const category = request.lineCategory ?? request.category ?? 'STRAIGHT';
+    const lineType =
+      category === 'BENT'
+        ? 'BENT_CONNECTOR_3'
+        : category === 'CURVED'
+          ? 'CURVED_CONNECTOR_3'
+          : 'STRAIGHT_CONNECTOR_1';
+    const objectId = addElement(deck, request.objectId, request.elementProperties, {
+      line: { lineType, lineCategory: category, lineProperties: {} },
+    });
+    return { createLine: { objectId } };
+  },
+
+  createTable(deck, request) {
+    const rows = request.rows ?? 0;
+    const columns = request.columns ?? 0;
+    if (rows < 1 || columns < 1) {
+      throw invalidArgument('A table must have at least one row and one column.');
+    }
+
+    const width = toEmu(request.elementProperties?.size?.width) || 3000000;
+    const height = toEmu(request.elementProperties?.size?.height) || 3000000;
+    const objectId = addElement(deck, request.objectId, request.elementProperties, {
+      table: {
+        rows,
+        columns,
+        tableColumns: Array.from({ length: columns }, () => ({
+          columnWidth: { magnitude: Math.round(width / columns), unit: 'EMU' },
+        })),
+        tableRows: Array.from({ length: rows }, (_, rowIndex) => ({
+          rowHeight: { magnitude: Math.round(height / rows), unit: 'EMU' },
+          tableCells: Array.from({ length: columns }, (_, columnIndex) => ({
+            location: {
+              ...(rowIndex > 0 && { rowIndex }),
+              ...(columnIndex > 0 && { columnIndex }),
+            },
+            rowSpan: 1,
+            columnSpan: 1,
+            tableCellProperties: {},
+          })),
+        })),
+      },
+    });
+    return { createTable: { objectId } };
+  },
+
+  insertText(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      insertText(model, request.insertionIndex ?? 0, request.text ?? '');
+    });
+    return {};
+  },
+
+  deleteText(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      deleteText(model, ...resolveRange(model, request.textRange));
+    });
+    return {};
+  },
+
+  updateTextStyle(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      const [start, end] = resolveRange(model, request.textRange);
+      updateTextStyle(model, start, end, request.style, request.fields);
+    });
+    return {};
+  },
+
+  updateParagraphStyle(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      const [start, end] = resolveRange(model, request.textRange);
+      updateParagraphStyle(model, start, end, request.style, request.fields);
+    });
+    return {};
+  },
+
+  createParagraphBullets(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      const [start, end] = resolveRange(model, request.textRange);
+      createBullets(model, start, end, deck.reserveId(), request.bulletPreset);
+    });
+    return {};
+  },
+
+  deleteParagraphBullets(deck, request) {
+    editText(deck, request.objectId, request.cellLocation, (model) => {
+      deleteBullets(model, ...resolveRange(model, request.textRange));
+    });
+    return {};
+  },
+
+  replaceAllText(deck, request) {
+    const search = request.containsText?.text;
+    if (!search) {
+      throw invalidArgument('The text to search for must not be empty.');
+    }
+
+    const pageIds = request.pageObjectIds?.length ? new Set(request.pageObjectIds) : undefined;
+    let occurrencesChanged = 0;
+    for (const slide of deck.slides) {
+      if (pageIds && !pageIds.has(slide.objectId ?? '')) {
+        continue;
+      }
+      for (const holder of textHolders(slide.pageElements ?? [])) {
+        const model = parseText(holder.text ?? undefined);
+        const count = replaceAll(
+          model,
+          search,
+          request.replaceText ?? '',
+          request.containsText?.matchCase ?? false
+        );
+        if (count > 0) {
+          setText(holder, model);
+          occurrencesChanged += count;
+        }
+      }
+    }
+
+    // Zero values are omitted from replies, as in API responses
+    return { replaceAllText: occurrencesChanged > 0 ? { occurrencesChanged } : {} };
+  },
+
+  deleteObject(deck, request) {
+    const slides = deck.slides;
+    const slideIndex = slides.findIndex((slide) => slide.objectId === request.objectId);
+    const slide = slides[slideIndex];
+    if (slide) {
+      slides.splice(slideIndex, 1);
+      deck.releaseIds(slide);
+      return {};
+    }
+
+    const { element, siblings } = deck.requireElement(request.objectId);
+    siblings.splice(siblings.indexOf(element), 1);
+    deck.releaseIds(element);
+    return {};
+  },
+
+  updateSlidesPosition(deck, request) {
+    const slides = deck.slides;
+    const moved = (request.slideObjectIds ?? []).map((id) => deck.requireSlide(id));
+    if (moved.length === 0 || new Set(moved).size !== moved.length) {
+      throw invalidArgument('The slide object IDs must be non-empty and unique.');
+    }
+
+    const insertionIndex = request.insertionIndex ?? 0;
+    if (insertionIndex < 0 || insertionIndex > slides.length) {
+      throw invalidArgument(
+        `The insertion index (${insertionIndex}) should be between 0 and the number of slides (${slides.length}).`
+      );
+    }
+
+    // The index refers to the arrangement before the move
+    const target = slides.slice(0, insertionIndex).filter((slide) => !moved.includes(slide)).length;
+    const remaining = slides.filter((slide) => !moved.includes(slide));
+    remaining.splice(target, 0, ...moved);
+    slides.splice(0, slides.length, ...remaining);
+    return {};
+  },
+
+  duplicateObject(deck, request) {
+    const requestedIds = request.objectIds ?? {};
+    const newId = (oldId: string | null | undefined) => deck.reserveId(requestedIds[oldId ?? '']);
+
+    const slides = deck.slides;
+    const slideIndex = slides.findIndex((slide) => slide.objectId === request.objectId);
+    const slide = slides[slideIndex];
+    if (slide) {
+      const copy = reassignIds(structuredClone(slide), newId);
+      slides.splice(slideIndex + 1, 0, copy);
+      return { duplicateObject: { objectId: copy.objectId } };
+    }
+
+    const { element, siblings } = deck.requireElement(request.objectId);
+    const copy = reassignIds(structuredClone(element), newId);
+    siblings.splice(siblings.indexOf(element) + 1, 0, copy);
+    return { duplicateObject: { objectId: copy.objectId } };
+  },
+
+  updatePageElementTransform(deck, request) {
+    const { element } = deck.requireElement(request.objectId);
+    const transform = normalizeTransform(request.transform);
+    if (request.applyMode === 'RELATIVE') {
+      element.transform = multiply(transform, normalizeTransform(element.transform));
+    } else if (request.applyMode === 'ABSOLUTE') {
+      element.transform = transform;
+    } else {
+      throw invalidArgument('The apply mode must be ABSOLUTE or RELATIVE.');
+    }
+    return {};
+  },
+
+  updatePageElementAltText(deck, request) {
+    const { element } = deck.requireElement(request.objectId);
+    if (request.title !== undefined && request.title !== null) {
+      element.title = request.title;
+    }
+    if (request.description !== undefined && request.description !== null) {
+      element.description = request.description;
+    }
+    return {};
+  },
+
+  updateShapeProperties(deck, request) {
+    const { element } = deck.requireElement(request.objectId);
+    if (!element.shape) {
+      throw invalidArgument(`The object (${request.objectId}) is not a shape.`);
+    }
+    element.shape.shapeProperties = applyFieldMask(
+      element.shape.shapeProperties ?? undefined,
+      request.shapeProperties ?? undefined,
+      request.fields
+    );
+    return {};
+  },
+
+  updatePageProperties(deck, request) {
+    const page = deck.findPage(request.objectId);
+    if (!page) {
+      throw objectNotFound(request.objectId);
+    }
+    page.pageProperties = applyFieldMask(
+      page.pageProperties ?? undefined,
+      request.pageProperties ?? undefined,
+      request.fields
+    );
+    return {};
+  },
+};
+
+/**
+ * Apply batchUpdate requests to a presentation, in order
+ *
+ * The presentation is modified in place; callers pass a copy so a failing
+ * request leaves the stored presentation unchanged.
+ *
+ * @param presentation - The presentation to update
+ * @param requests - Requests from the batchUpdate body
+ * @returns One reply per request
+ * @throws {EmulatorApiError} If a request is invalid or unsupported
+ */
+export function applyRequests(
+  presentation: slides_v1.Schema$Presentation,
+  requests: Request[]
+): Response[] {
+  const deck = new Deck(presentation);
+
+  return requests.map((request, index) => {
+    const types = Object.keys(request).filter(
+      (key) => request[key as keyof Request] !== undefined && request[key as keyof Request] !== null
+    );
+    const type = types[0];
+    if (types.length !== 1 || type === undefined) {
+      throw invalidArgument(`Invalid requests[${index}]: exactly one request type must be set.`);
+    }
+
+    const handler = HANDLERS[type as keyof Request] as
+      | ((deck: Deck, request: unknown) => Response)
+      | undefined;
+    if (!handler) {
+      throw invalidArgument(
+        `Invalid requests[${index}].${type}: The API emulator does not support this request type.`
+      );
+    }
+
+    try {
+      return handler(deck, request[type as keyof Request]);
+    } catch (error) {
+      if (error instanceof EmulatorApiError) {
+        throw new EmulatorApiError(
+          error.code,
+          `Invalid requests[${index}].${type}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Add a new element to a slide
+ */
+function addElement(
+  deck: Deck,
+  requestedId: string | null | undefined,
+  properties: slides_v1.Schema$PageElementProperties | undefined,
+  content: Omit<PageElement, 'objectId' | 'size' | 'transform'>
+): string {
+  const page = deck.requireSlide(properties?.pageObjectId);
+  const objectId = deck.reserveId(requestedId);
+
+  page.pageElements ??= [];
+  page.pageElements.push({
+    objectId,
+    ...(properties?.size && {
+      size: {
+        width: { magnitude: toEmu(properties.size.width), unit: 'EMU' },
+        height: { magnitude: toEmu(properties.size.height), unit: 'EMU' },
+      },
+    }),
+    transform: normalizeTransform(properties?.transform),
+    ...content,
+  });
+  return objectId;
+}
+
+/**
+ * Edit the text of a shape or table cell
+ */
+function editText(
+  deck: Deck,
+  objectId: string | null | undefined,
+  cellLocation: slides_v1.Schema$TableCellLocation | undefined,
+  edit: (model: TextModel) => void
+): void {
+  const { element } = deck.requireElement(objectId);
+
+  let holder: { text?: slides_v1.Schema$TextContent | null } | undefined;
+  if (element.table) {
+    if (!cellLocation) {
+      throw invalidArgument(`The cell location must be specified for table ${objectId}.`);
+    }
+    holder =
+      element.table.tableRows?.[cellLocation.rowIndex ?? 0]?.tableCells?.[
+        cellLocation.columnIndex ?? 0
+      ];
+    if (!holder) {
+      throw invalidArgument(
+        `The cell location (${cellLocation.rowIndex ?? 0}, ${cellLocation.columnIndex ?? 0}) is outside table ${objectId}.`
+      );
+    }
+  } else if (element.shape) {
+    holder = element.shape;
+  } else {
+    throw invalidArgument(`The object (${objectId}) does not support text editing.`);
+  }
+
+  const model = parseText(holder.text ?? undefined);
+  edit(model);
+  setText(holder, model);
+}
+
+/**
+ * Store edited text, removing the text field when it becomes empty
+ */
+function setText(holder: { text?: slides_v1.Schema$TextContent | null }, model: TextModel): void {
+  const text = renderText(model);
+  if (text) {
+    holder.text = text;
+  } else {
+    delete holder.text;
+  }
+}
+
+/**
+ * Shapes and table cells that hold text, including those inside groups
+ */
+function textHolders(
+  elements: PageElement[]
+): Array<{ text?: slides_v1.Schema$TextContent | null }> {
+  return elements.flatMap((element) => [
+    ...(element.shape ? [element.shape] : []),
+    ...(element.table?.tableRows ?? []).flatMap((row) => row.tableCells ?? []),
+    ...textHolders(element.elementGroup?.children ?? []),
+  ]);
+}
+
+/**
+ * Find an element among a list of elements and the groups inside it
+ */
+function findIn(
+  elements: PageElement[],
+  objectId: string | null | undefined,
+  page: Page
+): ElementLocation | undefined {
+  for (const element of elements) {
+    if (element.objectId === objectId) {
+      return { element, siblings: elements, page };
+    }
+    const found = findIn(element.elementGroup?.children ?? [], objectId, page);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * IDs of a page or element and everything inside it
+ */
+function objectIdsIn(object: Page | PageElement): string[] {
+  const ids: string[] = [];
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value !== null && typeof value === 'object') {
+      const { objectId, listId } = value as { objectId?: unknown; listId?: unknown };
+      if (typeof objectId === 'string') {
+        ids.push(objectId);
+      }
+      if (typeof listId === 'string') {
+        ids.push(listId);
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(object);
+  return ids;
+}
+
+/**
+ * Give a copied page or element (and everything inside it) new IDs
+ */
+function reassignIds<T extends Page | PageElement>(
+  copy: T,
+  newId: (oldId: string | null | undefined) => string
+): T {
+  const renamed = new Map<string, string>();
+  const rename = (id: string | null | undefined) => {
+    const key = id ?? '';
+    if (!renamed.has(key)) {
+      renamed.set(key, newId(id));
+    }
+    return renamed.get(key) ?? key;
+  };
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      if (typeof record.objectId === 'string') {
+        record.objectId = rename(record.objectId);
+      }
+      Object.values(record).forEach(visit);
+    }
+  };
+  visit(copy);
+
+  // Keep the notes page pointing at its (renamed) speaker notes shape
+  const notesProperties = (copy as Page).slideProperties?.notesPage?.notesProperties;
+  if (notesProperties?.speakerNotesObjectId) {
+    notesProperties.speakerNotesObjectId = rename(notesProperties.speakerNotesObjectId);
+  }
+  return copy;
+}
+
+/**
+ * Convert a dimension to EMU
+ */
+function toEmu(dimension: slides_v1.Schema$Dimension | undefined): number {
+  const magnitude = dimension?.magnitude ?? 0;
+  return dimension?.unit === 'PT' ? magnitude * EMU_PER_PT : magnitude;
+}
+
+/**
+ * Express a transform in EMU, defaulting to the identity
+ */
+function normalizeTransform(
+  transform: slides_v1.Schema$AffineTransform | undefined | null
+): slides_v1.Schema$AffineTransform {
+  const scale = transform?.unit === 'PT' ? EMU_PER_PT : 1;
+  return {
+    scaleX: transform?.scaleX ?? 1,
+    scaleY: transform?.scaleY ?? 1,
+    ...(transform?.shearX && { shearX: transform.shearX }),
+    ...(transform?.shearY && { shearY: transform.shearY }),
+    ...(transform?.translateX && { translateX: transform.translateX * scale }),
+    ...(transform?.translateY && { translateY: transform.translateY * scale }),
+    unit: 'EMU',
+  };
+}
+
+/**
+ * Compose two affine transforms: apply b, then a
+ */
+function multiply(
+  a: slides_v1.Schema$AffineTransform,
+  b: slides_v1.Schema$AffineTransform
+): slides_v1.Schema$AffineTransform {
+  const [aSx, aSy, aHx, aHy, aTx, aTy] = matrix(a);
+  const [bSx, bSy, bHx, bHy, bTx, bTy] = matrix(b);
+  return normalizeTransform({
+    scaleX: aSx * bSx + aHx * bHy,
+    shearX: aSx * bHx + aHx * bSy,
+    translateX: aSx * bTx + aHx * bTy + aTx,
+    shearY: aHy * bSx + aSy * bHy,
+    scaleY: aHy * bHx + aSy * bSy,
+    translateY: aHy * bTx + aSy * bTy + aTy,
+    unit: 'EMU',
+  });
+}
+
+/**
+ * Matrix entries of a transform: scaleX, scaleY, shearX, shearY, translateX, translateY
+ */
+function matrix(
+  transform: slides_v1.Schema$AffineTransform
+): [number, number, number, number, number, number] {
+  return [
+    transform.scaleX ?? 1,
+    transform.scaleY ?? 1,
+    transform.shearX ?? 0,
+    transform.shearY ?? 0,
+    transform.translateX ?? 0,
+    transform.translateY ?? 0,
+  ];
+}
+
+/**
+ * Error for a reference to an object that does not exist
+ */
+function objectNotFound(objectId: string | null | undefined): EmulatorApiError {
+  return invalidArgument(`The object (${objectId}) could not be found.`);
+}
@@ -0,0 +1,224 @@
+/**
+ * HTTP front end of the API emulator
+ *
+ * Serves the REST endpoints SlidesClient and DriveClient call, at the same
+ * paths as https://slides.googleapis.com/ and https://www.googleapis.com/, so
+ * the googleapis clients only need a different rootUrl:
+ *
+ * - POST /v1/presentations
+ * - GET  /v1/presentations/{presentationId}
+ * - POST /v1/presentations/{presentationId}:batchUpdate
+ * - GET  /v1/presentations/{presentationId}/pages/{pageObjectId}
+ * - GET  /drive/v3/files
+ * - POST /drive/v3/files/{fileId}/copy
+ * - GET  /drive/v3/about
+ *
+ * Any bearer token is accepted.
+ */
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { logger } from '../utils/logger.js';
+import { EmulatorApiError, notFound } from './errors.js';
+import { EmulatorStore } from './store.js';
+
+/**
+ * Options for starting the emulator
+ */
+export interface EmulatorOptions {
+  /** Interface to bind to (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (default: 0 for an ephemeral port) */
+  port?: number;
+  /** State to serve (default: a new, empty store) */
+  store?: EmulatorStore;
+}
+
+/**
+ * A running emulator
+ */
+export interface EmulatorHandle {
+  /** Root URL to pass to the googleapis clients, with a trailing slash */
+  url: string;
+  /** The emulator's state */
+  store: EmulatorStore;
+  /** Stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Maximum accepted request body size
+ */
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Start the emulator
+ *
+ * @param options - Host, port, and optional initial state
+ * @returns Handle with the root URL, the store, and a close function
+ */
+export async function startEmulator(options: EmulatorOptions = {}): Promise<EmulatorHandle> {
+  const store = options.store ?? new EmulatorStore();
+  const host = options.host ?? '127.0.0.1';
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(store, req)
+      .then((body) => sendJson(res, 200, body))
+      .catch((error) => {
+        if (error instanceof EmulatorApiError) {
+          sendJson(res, error.code, error.toJSON());
+          return;
+        }
+        logger.error('API emulator error', { error });
+        sendJson(res, 500, new EmulatorApiError(500, 'Internal error.').toJSON());
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+
+  return {
+    url: `http://${urlHost}:${port}/`,
+    store,
+    close: () =>
+      new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * A route: method, path pattern, and handler receiving the path parameters
+ */
+type Route = [
+  method: string,
+  path: RegExp,
+  handle: (store: EmulatorStore, params: string[], url: URL, req: http.IncomingMessage) => unknown,
+];
+
+/**
+ * Endpoints served by the emulator
+ */
+const ROUTES: Route[] = [
+  [
+    'POST',
+    /^\/v1\/presentations$/,
+    async (store, _params, _url, req) => store.createPresentation(await readJsonBody(req)),
+  ],
+  [
+    'POST',
+    /^\/v1\/presentations\/([^/]+):batchUpdate$/,
+    async (store, [presentationId = ''], _url, req) =>
+      store.batchUpdate(presentationId, await readJsonBody(req)),
+  ],
+  [
+    'GET',
+    /^\/v1\/presentations\/([^/]+)\/pages\/([^/]+)$/,
+    (store, [presentationId = '', pageObjectId = '']) =>
+      store.getPage(presentationId, pageObjectId),
+  ],
+  [
+    'GET',
+    /^\/v1\/presentations\/([^/:]+)$/,
+    (store, [presentationId = ''], url) =>
+      selectFields(store.getPresentation(presentationId), url.searchParams.get('fields')),
+  ],
+  [
+    'GET',
+    /^\/drive\/v3\/files$/,
+    (store, _params, url) => {
+      const pageSize = parseInt(url.searchParams.get('pageSize') ?? '', 10);
+      return {
+        kind: 'drive#fileList',
+        files: store.listFiles(pageSize > 0 ? pageSize : undefined),
+      };
+    },
+  ],
+  [
+    'POST',
+    /^\/drive\/v3\/files\/([^/]+)\/copy$/,
+    async (store, [fileId = ''], _url, req) => store.copyFile(fileId, await readJsonBody(req)),
+  ],
+  [
+    'GET',
+    /^\/drive\/v3\/about$/,
+    (store) => ({
+      kind: 'drive#about',
+      user: { kind: 'drive#user', emailAddress: store.accountEmail },
+    }),
+  ],
+];
+
+/**
+ * Route a request to the store
+ *
+ * @returns The JSON response body
+ * @throws {EmulatorApiError} If the route or the entity does not exist
+ */
+async function handleRequest(store: EmulatorStore, req: http.IncomingMessage): Promise<unknown> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = decodeURIComponent(url.pathname);
+  const method = req.method ?? 'GET';
+
+  for (const [routeMethod, pattern, handle] of ROUTES) {
+    const match = routeMethod === method ? path.match(pattern) : null;
+    if (match) {
+      return handle(store, match.slice(1), url, req);
+    }
+  }
+
+  throw notFound(`The API emulator does not serve ${method} ${path}.`);
+}
+
+/**
+ * Keep only the top-level fields named in a partial response field list
+ *
+ * Nested selections such as `slides(objectId)` keep the whole field.
+ */
+function selectFields<T extends object>(object: T, fields: string | null): Partial<T> {
+  if (!fields || fields.trim() === '*') {
+    return object;
+  }
+
+  const names = new Set(fields.split(',').map((field) => field.trim().split(/[(/]/)[0] ?? ''));
+  return Object.fromEntries(Object.entries(object).filter(([key]) => names.has(key))) as Partial<T>;
+}
+
+/**
+ * Read and parse a JSON request body (empty bodies parse as an empty object)
+ */
+async function readJsonBody<T>(req: http.IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new EmulatorApiError(400, 'Request body too large.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  try {
+    return (text.trim() === '' ? {} : JSON.parse(text)) as T;
+  } catch {
+    throw new EmulatorApiError(400, 'Invalid JSON payload received.');
+  }
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=UTF-8' });
+  res.end(JSON.stringify(body));
+}
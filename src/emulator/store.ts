@@ -0,0 +1,223 @@
+/**
+ * In-memory state of the API emulator
+ *
+ * Holds presentations in the Slides API's own JSON representation together
+ * with the Drive file metadata the DriveClient reads (name, timestamps).
+ * Every successful batchUpdate produces a new revision ID.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { drive_v3, slides_v1 } from 'googleapis';
+import { invalidArgument, notFound } from './errors.js';
+import { createEmptyPresentation } from './layouts.js';
+import { applyRequests } from './requests.js';
+
+/**
+ * MIME type of Google Slides files
+ */
+const PRESENTATION_MIME_TYPE = 'application/vnd.google-apps.presentation';
+
+/**
+ * A stored presentation and its Drive file
+ */
+interface StoredPresentation {
+  presentation: slides_v1.Schema$Presentation;
+  createdTime: string;
+  modifiedTime: string;
+}
+
+/**
+ * Presentations and files known to the emulator
+ */
+export class EmulatorStore {
+  private readonly presentations = new Map<string, StoredPresentation>();
+
+  /**
+   * Create a new EmulatorStore
+   * @param accountEmail - Email address reported for the signed-in user
+   * @param now - Clock (overridable for tests)
+   */
+  constructor(
+    readonly accountEmail = 'emulator@example.com',
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Create a presentation with one title slide, like presentations.create
+   *
+   * @param body - Request body; only the title is used
+   * @returns The new presentation
+   */
+  createPresentation(body: slides_v1.Schema$Presentation = {}): slides_v1.Schema$Presentation {
+    const presentationId = randomBytes(33).toString('base64url');
+    const presentation = createEmptyPresentation(
+      presentationId,
+      body.title ?? 'Untitled presentation'
+    );
+    applyRequests(presentation, [
+      { createSlide: { slideLayoutReference: { predefinedLayout: 'TITLE' } } },
+    ]);
+    presentation.revisionId = newRevisionId();
+
+    const timestamp = new Date(this.now()).toISOString();
+    this.presentations.set(presentationId, {
+      presentation,
+      createdTime: timestamp,
+      modifiedTime: timestamp,
+    });
+    return structuredClone(presentation);
+  }
+
+  /**
+   * Get a presentation, like presentations.get
+   *
+   * @param presentationId - The presentation ID
+   * @returns A copy of the presentation
+   * @throws {EmulatorApiError} If the presentation does not exist
+   */
+  getPresentation(presentationId: string): slides_v1.Schema$Presentation {
+    return structuredClone(this.require(presentationId).presentation);
+  }
+
+  /**
+   * Apply requests atomically, like presentations.batchUpdate
+   *
+   * @param presentationId - The presentation ID
+   * @param body - Requests and optional write control
+   * @returns Replies and the new revision
+   * @throws {EmulatorApiError} If the presentation does not exist, the revision
+   *   does not match, or a request is invalid (nothing is applied)
+   */
+  batchUpdate(
+    presentationId: string,
+    body: slides_v1.Schema$BatchUpdatePresentationRequest
+  ): slides_v1.Schema$BatchUpdatePresentationResponse {
+    const stored = this.require(presentationId);
+
+    const requiredRevisionId = body.writeControl?.requiredRevisionId;
+    if (requiredRevisionId && requiredRevisionId !== stored.presentation.revisionId) {
+      throw invalidArgument(
+        `The required revision ID (${requiredRevisionId}) does not match the latest revision of the presentation.`
+      );
+    }
+
+    // Work on a copy so a failing request leaves the presentation unchanged
+    const updated = structuredClone(stored.presentation);
+    const replies = applyRequests(updated, body.requests ?? []);
+    updated.revisionId = newRevisionId();
+
+    stored.presentation = updated;
+    stored.modifiedTime = new Date(this.now()).toISOString();
+    return {
+      presentationId,
+      replies,
+      writeControl: { requiredRevisionId: updated.revisionId },
+    };
+  }
+
+  /**
+   * Get a slide, layout, master, or notes page, like presentations.pages.get
+   *
+   * @param presentationId - The presentation ID
+   * @param pageObjectId - The page's object ID
+   * @returns A copy of the page
+   * @throws {EmulatorApiError} If the presentation or page does not exist
+   */
+  getPage(presentationId: string, pageObjectId: string): slides_v1.Schema$Page {
+    const { presentation } = this.require(presentationId);
+    const pages = [
+      ...(presentation.slides ?? []),
+      ...(presentation.slides ?? []).map((slide) => slide.slideProperties?.notesPage ?? {}),
+      ...(presentation.layouts ?? []),
+      ...(presentation.masters ?? []),
+      presentation.notesMaster ?? {},
+    ];
+    const page = pages.find((candidate) => candidate.objectId === pageObjectId);
+    if (!page) {
+      throw notFound();
+    }
+    return structuredClone(page);
+  }
+
+  /**
+   * Copy a presentation, like Drive files.copy
+   *
+   * Object IDs are kept, as in copies made by Drive.
+   *
+   * @param fileId - The presentation to copy
+   * @param body - Request body; only the name is used
+   * @returns The new file
+   * @throws {EmulatorApiError} If the presentation does not exist
+   */
+  copyFile(fileId: string, body: drive_v3.Schema$File = {}): drive_v3.Schema$File {
+    const source = this.require(fileId);
+    const presentationId = randomBytes(33).toString('base64url');
+    const timestamp = new Date(this.now()).toISOString();
+
+    const presentation = structuredClone(source.presentation);
+    presentation.presentationId = presentationId;
+    presentation.title = body.name ?? `Copy of ${source.presentation.title}`;
+    presentation.revisionId = newRevisionId();
+
+    this.presentations.set(presentationId, {
+      presentation,
+      createdTime: timestamp,
+      modifiedTime: timestamp,
+    });
+    return this.toFile(presentationId);
+  }
+
+  /**
+   * List presentations, most recently modified first, like Drive files.list
+   *
+   * @param pageSize - Maximum number of files (default: 100)
+   * @returns The files
+   */
+  listFiles(pageSize = 100): drive_v3.Schema$File[] {
+    return [...this.presentations.entries()]
+      .sort(([, a], [, b]) => b.modifiedTime.localeCompare(a.modifiedTime))
+      .slice(0, pageSize)
+      .map(([id]) => this.toFile(id));
+  }
+
+  /**
+   * Remove every presentation
+   */
+  clear(): void {
+    this.presentations.clear();
+  }
+
+  /**
+   * Drive metadata of a presentation
+   */
+  private toFile(presentationId: string): drive_v3.Schema$File {
+    const stored = this.require(presentationId);
+    return {
+      kind: 'drive#file',
+      id: presentationId,
+      name: stored.presentation.title,
+      mimeType: PRESENTATION_MIME_TYPE,
+      createdTime: stored.createdTime,
+      modifiedTime: stored.modifiedTime,
+      webViewLink: `https://docs.google.com/presentation/d/${presentationId}/edit`,
+    };
+  }
+
+  /**
+   * Look up a presentation, failing with 404 like the API
+   */
+  private require(presentationId: string): StoredPresentation {
+    const stored = this.presentations.get(presentationId);
+    if (!stored) {
+      throw notFound(`Requested entity was not found.`);
+    }
+    return stored;
+  }
+}
+
+/**
+ * Generate an opaque revision ID
+ */
+function newRevisionId(): string {
+  return randomBytes(16).toString('base64url');
+}
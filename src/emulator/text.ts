@@ -0,0 +1,438 @@
+/**
+ * Text model of the API emulator
+ *
+ * Shapes and table cells hold their text as a flat string plus one style per
+ * UTF-16 code unit and one entry per paragraph, the same indices the Slides
+ * API uses. Like the API, non-empty text always ends with a newline that
+ * cannot be deleted, and every newline ends a paragraph.
+ *
+ * The model is converted from and to the API's textElements representation
+ * (a paragraphMarker followed by textRuns for each paragraph) on every edit.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import { invalidArgument } from './errors.js';
+import { applyFieldMask } from './field-mask.js';
+
+/**
+ * One paragraph's properties
+ */
+interface Paragraph {
+  style: slides_v1.Schema$ParagraphStyle;
+  bullet?: slides_v1.Schema$Bullet;
+}
+
+/**
+ * Editable text of a shape or table cell
+ */
+export interface TextModel {
+  /** Empty, or ending with a newline */
+  text: string;
+  /** Style of each character */
+  styles: slides_v1.Schema$TextStyle[];
+  /** One entry per newline in text */
+  paragraphs: Paragraph[];
+  /** Bullet lists referenced by paragraphs */
+  lists: Record<string, slides_v1.Schema$List>;
+}
+
+/**
+ * Glyphs shown for the first nesting level of each bullet preset family
+ */
+const BULLET_GLYPHS: Array<[prefix: string, glyph: string]> = [
+  ['NUMBERED_DIGIT', '1.'],
+  ['NUMBERED_UPPERALPHA', 'A.'],
+  ['NUMBERED_ALPHA', 'a.'],
+  ['NUMBERED_UPPERROMAN', 'I.'],
+  ['NUMBERED_ROMAN', 'i.'],
+  ['BULLET_CHECKBOX', '☐'],
+  ['BULLET_ARROW', '➔'],
+  ['BULLET_STAR', '★'],
+  ['BULLET_DIAMOND', '◆'],
+  ['BULLET_LEFTTRIANGLE', '◀'],
+];
+
+/**
+ * Read the API representation of text into the editable model
+ *
+ * @param content - Text content of a shape or cell (undefined if it has none)
+ * @returns The text model
+ */
+export function parseText(content: slides_v1.Schema$TextContent | undefined): TextModel {
+  const model: TextModel = {
+    text: '',
+    styles: [],
+    paragraphs: [],
+    lists: structuredClone(content?.lists ?? {}),
+  };
+
+  for (const element of content?.textElements ?? []) {
+    if (element.paragraphMarker) {
+      model.paragraphs.push({
+        style: structuredClone(element.paragraphMarker.style ?? {}),
+        ...(element.paragraphMarker.bullet && {
+          bullet: structuredClone(element.paragraphMarker.bullet),
+        }),
+      });
+    }
+
+    const run = element.textRun ?? element.autoText;
+    if (run?.content) {
+      model.text += run.content;
+      for (let i = 0; i < run.content.length; i++) {
+        model.styles.push(structuredClone(run.style ?? {}));
+      }
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Write the model back in the API representation
+ *
+ * Adjacent characters with the same style form one textRun. Zero indices are
+ * omitted, as in API responses.
+ *
+ * @param model - The text model
+ * @returns Text content, or undefined if the text is empty
+ */
+export function renderText(model: TextModel): slides_v1.Schema$TextContent | undefined {
+  if (model.text === '') {
+    return undefined;
+  }
+
+  const textElements: slides_v1.Schema$TextElement[] = [];
+  let start = 0;
+  for (const paragraph of model.paragraphs) {
+    const end = model.text.indexOf('\n', start) + 1;
+    if (end === 0) {
+      break;
+    }
+
+    textElements.push({
+      ...indexRange(start, end),
+      paragraphMarker: {
+        style: paragraph.style,
+        ...(paragraph.bullet && { bullet: paragraph.bullet }),
+      },
+    });
+
+    let runStart = start;
+    for (let i = start + 1; i <= end; i++) {
+      if (i === end || !sameStyle(model.styles[i], model.styles[runStart])) {
+        textElements.push({
+          ...indexRange(runStart, i),
+          textRun: { content: model.text.slice(runStart, i), style: model.styles[runStart] ?? {} },
+        });
+        runStart = i;
+      }
+    }
+
+    start = end;
+  }
+
+  const lists = Object.keys(model.lists).length > 0 ? { lists: model.lists } : {};
+  return { textElements, ...lists };
+}
+
+/**
+ * Resolve a text range against the current text
+ *
+ * @param model - The text model
+ * @param range - Range from the request (ALL when omitted)
+ * @returns Start and end indexes
+ * @throws {EmulatorApiError} If the range lies outside the text
+ */
+export function resolveRange(
+  model: TextModel,
+  range: slides_v1.Schema$Range | undefined
+): [start: number, end: number] {
+  const length = model.text.length;
+  const type = range?.type ?? 'ALL';
+
+  if (type === 'ALL') {
+    return [0, length];
+  }
+
+  const start = range?.startIndex ?? 0;
+  const end = type === 'FROM_START_INDEX' ? length : (range?.endIndex ?? 0);
+  if (type !== 'FIXED_RANGE' && type !== 'FROM_START_INDEX') {
+    throw invalidArgument(`Unknown range type: ${type}`);
+  }
+  if (start < 0 || start > end) {
+    throw invalidArgument(
+      `The start index (${start}) must be less than or equal to the end index (${end}).`
+    );
+  }
+  if (end > length) {
+    throw invalidArgument(
+      `The end index (${end}) should not be greater than the existing text length (${length}).`
+    );
+  }
+  return [start, end];
+}
+
+/**
+ * Insert text, splitting paragraphs at newlines
+ *
+ * @param model - The text model (modified in place)
+ * @param index - Insertion index
+ * @param text - Text to insert
+ * @throws {EmulatorApiError} If the index is past the final newline
+ */
+export function insertText(model: TextModel, index: number, text: string): void {
+  if (text === '') {
+    return;
+  }
+
+  if (model.text === '') {
+    if (index !== 0) {
+      throw invalidArgument(
+        `The insertion index (${index}) should not be greater than the existing text length (0).`
+      );
+    }
+    model.text = '\n';
+    model.styles = [{}];
+    model.paragraphs = [{ style: {} }];
+  } else if (index < 0 || index >= model.text.length) {
+    throw invalidArgument(
+      `The insertion index (${index}) must be within the existing text (0-${model.text.length - 1}).`
+    );
+  }
+
+  // Inserted characters take the style of the character before them
+  const style = model.styles[index > 0 ? index - 1 : index] ?? {};
+  const paragraphIndex = countNewlines(model.text.slice(0, index));
+  const paragraph = model.paragraphs[paragraphIndex] ?? { style: {} };
+
+  model.text = model.text.slice(0, index) + text + model.text.slice(index);
+  model.styles.splice(index, 0, ...Array.from(text, () => structuredClone(style)));
+  model.paragraphs.splice(
+    paragraphIndex,
+    0,
+    ...Array.from({ length: countNewlines(text) }, () => structuredClone(paragraph))
+  );
+}
+
+/**
+ * Delete text, merging paragraphs whose newline is removed
+ *
+ * The final newline is kept unless the whole text is deleted.
+ *
+ * @param model - The text model (modified in place)
+ * @param start - First index to delete
+ * @param end - Index after the last character to delete
+ */
+export function deleteText(model: TextModel, start: number, end: number): void {
+  if (start === 0 && end >= model.text.length) {
+    model.text = '';
+    model.styles = [];
+    model.paragraphs = [];
+    return;
+  }
+
+  const last = Math.min(end, model.text.length - 1);
+  if (start >= last) {
+    return;
+  }
+
+  // A deleted newline merges its paragraph into the next one
+  const firstParagraph = countNewlines(model.text.slice(0, start));
+  model.paragraphs.splice(firstParagraph, countNewlines(model.text.slice(start, last)));
+  model.text = model.text.slice(0, start) + model.text.slice(last);
+  model.styles.splice(start, last - start);
+}
+
+/**
+ * Update the style of the characters in a range
+ *
+ * @param model - The text model (modified in place)
+ * @param start - First index
+ * @param end - Index after the last character
+ * @param style - Style values from the request
+ * @param fields - Field mask
+ */
+export function updateTextStyle(
+  model: TextModel,
+  start: number,
+  end: number,
+  style: slides_v1.Schema$TextStyle | undefined,
+  fields: string | null | undefined
+): void {
+  for (let i = start; i < end; i++) {
+    model.styles[i] = applyFieldMask(model.styles[i], style, fields);
+  }
+}
+
+/**
+ * Update the style of every paragraph overlapping a range
+ *
+ * @param model - The text model (modified in place)
+ * @param start - First index
+ * @param end - Index after the last character
+ * @param style - Paragraph style values from the request
+ * @param fields - Field mask
+ */
+export function updateParagraphStyle(
+  model: TextModel,
+  start: number,
+  end: number,
+  style: slides_v1.Schema$ParagraphStyle | undefined,
+  fields: string | null | undefined
+): void {
+  for (const paragraph of paragraphsInRange(model, start, end)) {
+    paragraph.style = applyFieldMask(paragraph.style, style, fields);
+  }
+}
+
+/**
+ * Add bullets to every paragraph overlapping a range
+ *
+ * @param model - The text model (modified in place)
+ * @param start - First index
+ * @param end - Index after the last character
+ * @param listId - ID of the new list
+ * @param preset - Bullet preset from the request
+ */
+export function createBullets(
+  model: TextModel,
+  start: number,
+  end: number,
+  listId: string,
+  preset: string | null | undefined
+): void {
+  const glyph =
+    BULLET_GLYPHS.find(([prefix]) => preset?.startsWith(prefix))?.[1] ??
+    (preset?.startsWith('NUMBERED') ? '1.' : '●');
+
+  model.lists[listId] = { listId, nestingLevel: { 0: { bulletStyle: {} } } };
+  for (const paragraph of paragraphsInRange(model, start, end)) {
+    paragraph.bullet = { listId, glyph, bulletStyle: {} };
+  }
+}
+
+/**
+ * Remove bullets from every paragraph overlapping a range
+ *
+ * @param model - The text model (modified in place)
+ * @param start - First index
+ * @param end - Index after the last character
+ */
+export function deleteBullets(model: TextModel, start: number, end: number): void {
+  for (const paragraph of paragraphsInRange(model, start, end)) {
+    delete paragraph.bullet;
+  }
+
+  // Drop lists no paragraph refers to any more
+  const used = new Set(model.paragraphs.map((paragraph) => paragraph.bullet?.listId));
+  for (const listId of Object.keys(model.lists)) {
+    if (!used.has(listId)) {
+      delete model.lists[listId];
+    }
+  }
+}
+
+/**
+ * Replace every occurrence of a string
+ *
+ * Replacements take the style of the first character they replace.
+ *
+ * @param model - The text model (modified in place)
+ * @param search - Text to find
+ * @param replacement - Replacement text
+ * @param matchCase - Whether the search is case sensitive
+ * @returns Number of occurrences replaced
+ */
+export function replaceAll(
+  model: TextModel,
+  search: string,
+  replacement: string,
+  matchCase: boolean
+): number {
+  if (search === '') {
+    return 0;
+  }
+
+  const haystack = matchCase ? model.text : model.text.toLowerCase();
+  const needle = matchCase ? search : search.toLowerCase();
+  const positions: number[] = [];
+  for (
+    let i = haystack.indexOf(needle);
+    i !== -1;
+    i = haystack.indexOf(needle, i + needle.length)
+  ) {
+    positions.push(i);
+  }
+
+  // Replace from the end so earlier positions stay valid
+  for (const position of positions.reverse()) {
+    const style = model.styles[position] ?? {};
+    const end = position + search.length;
+    const removedParagraphs = countNewlines(model.text.slice(position, end));
+    const paragraphIndex = countNewlines(model.text.slice(0, position));
+    const paragraph = model.paragraphs[paragraphIndex] ?? { style: {} };
+
+    model.text = model.text.slice(0, position) + replacement + model.text.slice(end);
+    model.styles.splice(
+      position,
+      search.length,
+      ...Array.from(replacement, () => structuredClone(style))
+    );
+    model.paragraphs.splice(
+      paragraphIndex,
+      removedParagraphs,
+      ...Array.from({ length: countNewlines(replacement) }, () => structuredClone(paragraph))
+    );
+  }
+
+  return positions.length;
+}
+
+/**
+ * Paragraphs overlapping a range (the paragraph containing start for an empty range)
+ */
+function paragraphsInRange(model: TextModel, start: number, end: number): Paragraph[] {
+  const first = countNewlines(model.text.slice(0, start));
+  const last = countNewlines(model.text.slice(0, Math.max(start, end - 1)));
+  return model.paragraphs.slice(first, last + 1);
+}
+
+/**
+ * Count the newlines in a string
+ */
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * startIndex and endIndex, omitting zero values like the API does
+ */
+function indexRange(start: number, end: number): { startIndex?: number; endIndex: number } {
+  return start > 0 ? { startIndex: start, endIndex: end } : { endIndex: end };
+}
+
+/**
+ * Compare two text styles, ignoring key order
+ */
+function sameStyle(
+  a: slides_v1.Schema$TextStyle | undefined,
+  b: slides_v1.Schema$TextStyle | undefined
+): boolean {
+  return canonicalJson(a ?? {}) === canonicalJson(b ?? {});
+}
+
+/**
+ * Serialize a value with object keys sorted
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item !== null && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
@@ -5,181 +5,94 @@
  *
  * An MCP server that enables LLMs to create and manage Google Slides presentations
  * with zero-config OAuth authentication.
+ *
+ * Runs over stdio by default. Pass --transport http (or set
+ * MCP_GSLIDES_TRANSPORT=http) to serve several clients over HTTP. Set
+ * MCP_GSLIDES_EMULATOR=true to run against an in-memory API emulator instead
+ * of Google.
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { parseArgs } from 'node:util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import {
-  addSlide,
-  authTools,
-  contentTools,
-  createBullets,
-  createPresentation,
-  createShape,
-  createTable,
-  deleteSlide,
-  duplicatePresentation,
-  formatParagraph,
-  formatText,
-  formattingTools,
-  getPresentation,
-  getSlide,
-  insertImage,
-  insertText,
-  listPresentations,
-  logout,
-  presentationTools,
-  reorderSlides,
-  replaceText,
-  setSpeakerNotes,
-  slideTools,
-} from './tools/index.js';
+import { clientManager } from './clients/index.js';
+import { isEmulatorEnabled, startEmulator } from './emulator/index.js';
+import { createServer } from './server.js';
+import { getHttpTransportConfig, startHttpTransport } from './transports/http.js';
+import { logger } from './utils/logger.js';
 
 /**
- * MCP Server instance
+ * Supported transports
  */
-const server = new Server(
-  {
-    name: 'mcp-google-slides',
-    version: '0.1.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+type TransportKind = 'stdio' | 'http';
 
 /**
- * List all available tools
+ * Parse command line flags
+ *
+ * @returns The selected transport and HTTP overrides
+ * @throws {Error} If an unknown flag or transport is given
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function parseCliOptions(): {
+  transport: TransportKind;
+  host?: string;
+  port?: number;
+} {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+
+  const transport = values.transport ?? process.env.MCP_GSLIDES_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport} (expected "stdio" or "http")`);
+  }
+
   return {
-    tools: [...presentationTools, ...slideTools, ...contentTools, ...formattingTools, ...authTools],
+    transport,
+    host: values.host,
+    port: values.port !== undefined ? parseInt(values.port, 10) : undefined,
   };
-});
+}
 
 /**
- * Handle tool execution requests
+ * Start the server
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    let result: unknown;
-
-    switch (name) {
-      case 'create_presentation':
-        result = await createPresentation(args as any);
-        break;
-
-      case 'get_presentation':
-        result = await getPresentation(args as any);
-        break;
-
-      case 'list_presentations':
-        result = await listPresentations(args as any);
-        break;
-
-      case 'duplicate_presentation':
-        result = await duplicatePresentation(args as any);
-        break;
-
-      case 'add_slide':
-        result = await addSlide(args as any);
-        break;
-
-      case 'get_slide':
-        result = await getSlide(args as any);
-        break;
-
-      case 'delete_slide':
-        result = await deleteSlide(args as any);
-        break;
-
-      case 'reorder_slides':
-        result = await reorderSlides(args as any);
-        break;
-
-      case 'insert_text':
-        result = await insertText(args as any);
-        break;
-
-      case 'insert_image':
-        result = await insertImage(args as any);
-        break;
-
-      case 'create_shape':
-        result = await createShape(args as any);
-        break;
-
-      case 'create_table':
-        result = await createTable(args as any);
-        break;
-
-      case 'set_speaker_notes':
-        result = await setSpeakerNotes(args as any);
-        break;
-
-      case 'replace_text':
-        result = await replaceText(args as any);
-        break;
-
-      case 'format_text':
-        result = await formatText(args as any);
-        break;
-
-      case 'format_paragraph':
-        result = await formatParagraph(args as any);
-        break;
+async function main() {
+  const options = parseCliOptions();
 
-      case 'create_bullets':
-        result = await createBullets(args as any);
-        break;
+  if (isEmulatorEnabled()) {
+    const emulator = await startEmulator();
+    clientManager.useEmulator(emulator.url);
+    logger.info('Using the Google API emulator; no requests go to Google', { url: emulator.url });
+  }
 
-      case 'logout':
-        result = await logout(args as any);
-        break;
+  if (options.transport === 'http') {
+    const config = getHttpTransportConfig({ host: options.host, port: options.port });
+    const handle = await startHttpTransport(createServer, config);
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    logger.info('MCP Google Slides server listening', { url: handle.url });
+    if (!config.authToken) {
+      logger.warn('MCP_GSLIDES_HTTP_TOKEN is not set; HTTP requests are not authenticated');
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
+    const shutdown = () => {
+      handle.close().finally(() => process.exit(0));
     };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
   }
-});
 
-/**
- * Start the server
- */
-async function main() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer({ forwardProcessLogs: true }).connect(transport);
 
-  // Log to stderr since stdout is used for MCP communication
-  console.error('MCP Google Slides server running on stdio');
+  logger.info('MCP Google Slides server running on stdio');
 }
 
 main().catch((error) => {
-  console.error('Fatal error in main():', error);
+  logger.error('Fatal error in main()', { error });
   process.exit(1);
 });
@@ -0,0 +1,27 @@
+/**
+ * MCP Prompts Export
+ *
+ * Parameterized prompt templates for common deck-building workflows.
+ */
+
+import { buildPitchDeckPrompt } from './pitch-deck.js';
+import { PromptRegistry } from './registry.js';
+import { restyleDeckPrompt } from './restyle-deck.js';
+import { summarizePresentationPrompt } from './summarize-presentation.js';
+
+export { BuildPitchDeckArgumentsSchema, buildPitchDeckPrompt } from './pitch-deck.js';
+export * from './registry.js';
+export { RestyleDeckArgumentsSchema, restyleDeckPrompt } from './restyle-deck.js';
+export {
+  SummarizePresentationArgumentsSchema,
+  summarizePresentationPrompt,
+} from './summarize-presentation.js';
+
+/**
+ * Registry of every prompt exposed by the server
+ */
+export const promptRegistry = new PromptRegistry([
+  buildPitchDeckPrompt,
+  summarizePresentationPrompt,
+  restyleDeckPrompt,
+]);
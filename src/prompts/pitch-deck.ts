@@ -0,0 +1,54 @@
+/**
+ * build_pitch_deck prompt
+ *
+ * Guides the LLM through building a pitch deck from scratch with the slide,
+ * content, and formatting tools.
+ */
+
+import { z } from 'zod';
+import { definePrompt } from './registry.js';
+
+/**
+ * Arguments for the build_pitch_deck prompt
+ */
+export const BuildPitchDeckArgumentsSchema = z.object({
+  company: z.string().min(1).describe('Company or product being pitched'),
+  audience: z.string().optional().describe('Who the pitch is for (e.g., "seed investors")'),
+  slideCount: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number')
+    .optional()
+    .describe('Target number of slides (default: 10)'),
+  keyPoints: z.string().optional().describe('Facts, metrics, or messages that must appear'),
+});
+
+/**
+ * MCP prompt definition for build_pitch_deck
+ */
+export const buildPitchDeckPrompt = definePrompt({
+  name: 'build_pitch_deck',
+  title: 'Build a pitch deck',
+  description: 'Create a new pitch deck presentation slide by slide',
+  arguments: BuildPitchDeckArgumentsSchema,
+  render: (args) => {
+    const slideCount = args.slideCount || '10';
+    const audience = args.audience || 'investors';
+
+    return [
+      `Build a ${slideCount}-slide pitch deck for ${args.company}, aimed at ${audience}.`,
+      ...(args.keyPoints ? ['', `Make sure the deck covers: ${args.keyPoints}`] : []),
+      '',
+      'Suggested structure: title, problem, solution, product, market size, business model, traction, competition, team, and the ask. Merge or drop sections to hit the target slide count.',
+      '',
+      'Workflow:',
+      `1. Call create_presentation with a title such as "${args.company} Pitch".`,
+      '2. For each slide, call add_slide with a layout that fits the content: TITLE for the opening slide, SECTION_HEADER for transitions, TITLE_AND_BODY for most content, BIG_NUMBER for headline metrics, and TITLE_AND_TWO_COLUMNS for comparisons.',
+      '3. add_slide returns the slide ID and its placeholders. Fill the TITLE (or CENTERED_TITLE) placeholder and the BODY placeholder with insert_text, passing placeholderId.',
+      '4. Put one idea per line in BODY text, separated by "\\n", then call create_bullets on the body placeholder.',
+      '5. Use format_text on titles for emphasis (bold, larger fontSize) and keep styling consistent across slides.',
+      '6. Add talking points to each slide with set_speaker_notes.',
+      '',
+      'Keep slide text short: a headline and at most five bullets per slide. Finish by calling get_presentation and summarizing the deck with its link.',
+    ].join('\n');
+  },
+});
@@ -0,0 +1,153 @@
+/**
+ * Prompt registry
+ *
+ * Prompts are parameterized message templates that expand into orchestration
+ * guidance for the LLM. Like tools, each prompt declares its arguments once as
+ * a zod object; the registry derives the MCP argument list from it and
+ * validates arguments before rendering.
+ */
+
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+import { type ToolInputIssue, toInputIssues } from '../tools/registry.js';
+
+/**
+ * Shape of a prompt's arguments (values are always strings on the wire)
+ */
+type PromptArgumentsShape = z.ZodRawShape;
+
+/**
+ * A single MCP prompt: metadata, arguments, and renderer
+ */
+export interface PromptDefinition<TShape extends PromptArgumentsShape = PromptArgumentsShape> {
+  /** Prompt name as exposed over MCP (snake_case) */
+  name: string;
+  /** Short title shown in client prompt pickers */
+  title: string;
+  /** Description of what the prompt helps with */
+  description: string;
+  /** Zod object describing the prompt arguments */
+  arguments: z.ZodObject<TShape>;
+  /** Expand validated arguments into the user-facing instructions */
+  render(args: z.infer<z.ZodObject<TShape>>): string;
+}
+
+/**
+ * Error thrown when a prompt is requested with missing or invalid arguments
+ */
+export class PromptArgumentsError extends Error {
+  constructor(
+    public promptName: string,
+    public issues: ToolInputIssue[]
+  ) {
+    super(
+      `Invalid arguments for prompt ${promptName}: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'PromptArgumentsError';
+  }
+}
+
+/**
+ * Error thrown when a prompt name is not registered
+ */
+export class UnknownPromptError extends Error {
+  constructor(promptName: string) {
+    super(`Unknown prompt: ${promptName}`);
+    this.name = 'UnknownPromptError';
+  }
+}
+
+/**
+ * Declare a prompt definition
+ *
+ * Identity function that exists to infer the renderer's argument type.
+ *
+ * @param definition - The prompt definition
+ * @returns The same definition, fully typed
+ */
+export function definePrompt<TShape extends PromptArgumentsShape>(
+  definition: PromptDefinition<TShape>
+): PromptDefinition<TShape> {
+  return definition;
+}
+
+/**
+ * Registry of MCP prompts keyed by name
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  /**
+   * Create a registry, optionally pre-populated with prompts
+   * @param prompts - Prompt definitions to register
+   */
+  constructor(prompts: readonly PromptDefinition[] = []) {
+    for (const prompt of prompts) {
+      this.register(prompt);
+    }
+  }
+
+  /**
+   * Register a prompt
+   *
+   * @param prompt - The prompt definition
+   * @throws {Error} If a prompt with the same name is already registered
+   */
+  register(prompt: PromptDefinition): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
+    }
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  /**
+   * List all registered prompts in MCP ListPrompts format
+   *
+   * @returns Prompt descriptors with their arguments
+   */
+  list(): Prompt[] {
+    return [...this.prompts.values()].map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: Object.entries(prompt.arguments.shape).map(([name, schema]) => ({
+        name,
+        description: schema.description,
+        required: !schema.isOptional(),
+      })),
+    }));
+  }
+
+  /**
+   * Validate arguments and render a prompt
+   *
+   * @param name - The prompt name
+   * @param args - Raw arguments from the MCP request
+   * @returns A single user message containing the expanded instructions
+   * @throws {UnknownPromptError} If the prompt is not registered
+   * @throws {PromptArgumentsError} If the arguments fail validation
+   */
+  get(name: string, args: Record<string, string> | undefined): GetPromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new UnknownPromptError(name);
+    }
+
+    const parsed = prompt.arguments.safeParse(args ?? {});
+    if (!parsed.success) {
+      throw new PromptArgumentsError(name, toInputIssues(parsed.error));
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: prompt.render(parsed.data) },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * restyle_deck prompt
+ *
+ * Guides the LLM through applying brand fonts and colors to an existing deck.
+ */
+
+import { z } from 'zod';
+import { definePrompt } from './registry.js';
+
+/**
+ * Arguments for the restyle_deck prompt
+ */
+export const RestyleDeckArgumentsSchema = z.object({
+  presentationId: z.string().min(1).describe('The presentation to restyle'),
+  headingFont: z.string().optional().describe('Font family for titles (e.g., "Montserrat")'),
+  bodyFont: z.string().optional().describe('Font family for body text (e.g., "Open Sans")'),
+  primaryColor: z.string().optional().describe('Brand color for titles (hex or color name)'),
+  accentColor: z.string().optional().describe('Accent color for highlights (hex or color name)'),
+  guidelines: z.string().optional().describe('Any other brand rules to follow'),
+});
+
+/**
+ * MCP prompt definition for restyle_deck
+ */
+export const restyleDeckPrompt = definePrompt({
+  name: 'restyle_deck',
+  title: 'Restyle deck to brand',
+  description: 'Apply brand fonts, colors, and spacing to every slide of a presentation',
+  arguments: RestyleDeckArgumentsSchema,
+  render: (args) => {
+    const brand = [
+      args.headingFont && `- Heading font: ${args.headingFont}`,
+      args.bodyFont && `- Body font: ${args.bodyFont}`,
+      args.primaryColor && `- Primary color (titles): ${args.primaryColor}`,
+      args.accentColor && `- Accent color (highlights): ${args.accentColor}`,
+      args.guidelines && `- Guidelines: ${args.guidelines}`,
+    ].filter(Boolean);
+
+    return [
+      `Restyle the Google Slides presentation ${args.presentationId} to match our brand.`,
+      '',
+      'Brand:',
+      ...(brand.length > 0
+        ? brand
+        : ['- No brand values were given; ask for them before editing.']),
+      '',
+      'Workflow:',
+      '1. Call get_presentation to list the slides.',
+      '2. For each slide, call get_slide to find its elements. Title placeholders are reported as "Placeholder: TITLE" or "Placeholder: CENTERED_TITLE"; everything else with text is body content.',
+      '3. Call format_text on each title with the heading font and primary color, and on each body element with the body font. Omit range to style all of the text.',
+      '4. Call format_paragraph on body elements for consistent alignment and spacing (for example spaceAfter: 6, lineSpacing: 115).',
+      '5. Use the accent color sparingly, with format_text on a specific range, for key numbers or calls to action.',
+      '',
+      'Only change styling: do not rewrite, delete, or reorder content. Finish with a short report of what was changed on each slide.',
+    ].join('\n');
+  },
+});
@@ -0,0 +1,54 @@
+/**
+ * summarize_presentation prompt
+ *
+ * Asks the LLM to read an existing presentation and summarize it.
+ */
+
+import { z } from 'zod';
+import { presentationUri } from '../resources/uri.js';
+import { definePrompt } from './registry.js';
+
+/**
+ * Arguments for the summarize_presentation prompt
+ */
+export const SummarizePresentationArgumentsSchema = z.object({
+  presentationId: z.string().min(1).describe('The presentation to summarize'),
+  focus: z
+    .string()
+    .optional()
+    .describe('What the summary should emphasize (e.g., "decisions and action items")'),
+  length: z
+    .enum(['short', 'medium', 'detailed'])
+    .optional()
+    .describe('Summary length: short, medium, or detailed (default: medium)'),
+});
+
+const LENGTH_GUIDANCE = {
+  short: 'three to five sentences',
+  medium: 'one paragraph of overview followed by a bullet per section',
+  detailed: 'a bullet per slide, including key numbers and speaker-note context',
+} as const;
+
+/**
+ * MCP prompt definition for summarize_presentation
+ */
+export const summarizePresentationPrompt = definePrompt({
+  name: 'summarize_presentation',
+  title: 'Summarize a presentation',
+  description: 'Read a presentation and summarize its content and speaker notes',
+  arguments: SummarizePresentationArgumentsSchema,
+  render: (args) => {
+    const length = LENGTH_GUIDANCE[args.length ?? 'medium'];
+
+    return [
+      `Summarize the Google Slides presentation ${args.presentationId}.`,
+      '',
+      `Read the resource ${presentationUri(args.presentationId)}, which contains the title, text, and speaker notes of every slide. If resources are unavailable, call get_presentation to list the slides, then get_slide for each slide ID.`,
+      '',
+      `Write ${length}.`,
+      ...(args.focus ? [`Emphasize: ${args.focus}.`] : []),
+      'Mention the presentation title and slide count, and call out anything that looks unfinished (empty placeholders, slides without text).',
+      'Do not modify the presentation.',
+    ].join('\n');
+  },
+});
@@ -0,0 +1,158 @@
+/**
+ * Presentation content extraction
+ *
+ * Converts raw Slides API pages into compact outlines (titles, text, and
+ * speaker notes) suitable for attaching to an LLM conversation as context.
+ */
+
+import type { slides_v1 } from 'googleapis';
+
+/**
+ * Text content of a single slide
+ */
+export interface SlideContent {
+  slideId: string;
+  /** 0-based position in the presentation (omitted when read individually) */
+  index?: number;
+  /** Text of the title placeholder, if any */
+  title?: string;
+  /** Text of every other text-bearing element, in page order */
+  text: string[];
+  /** Speaker notes, if any */
+  notes?: string;
+}
+
+/**
+ * Outline of a whole presentation
+ */
+export interface PresentationOutline {
+  presentationId: string;
+  title: string;
+  revisionId?: string;
+  slideCount: number;
+  slides: SlideContent[];
+  link: string;
+}
+
+const TITLE_PLACEHOLDER_TYPES = new Set(['TITLE', 'CENTERED_TITLE']);
+
+/**
+ * Concatenate the text runs of a text body
+ *
+ * @param text - The text content of a shape or table cell
+ * @returns The plain text, trimmed
+ */
+export function extractText(text: slides_v1.Schema$TextContent | undefined): string {
+  return (text?.textElements ?? [])
+    .map((element) => element.textRun?.content ?? element.autoText?.content ?? '')
+    .join('')
+    .trim();
+}
+
+/**
+ * Collect the text of a table, one line per row with cells separated by " | "
+ *
+ * @param table - The table element
+ * @returns The table text, or an empty string if every cell is empty
+ */
+function extractTableText(table: slides_v1.Schema$Table): string {
+  const rows = (table.tableRows ?? []).map((row) =>
+    (row.tableCells ?? []).map((cell) => extractText(cell.text)).join(' | ')
+  );
+  return rows.some((row) => row.replace(/[|\s]/g, '') !== '') ? rows.join('\n') : '';
+}
+
+/**
+ * Collect the text of a list of page elements, recursing into groups
+ *
+ * @param elements - The page elements
+ * @param summary - Accumulator for title and text
+ */
+function collectText(
+  elements: slides_v1.Schema$PageElement[],
+  summary: { title?: string; text: string[] }
+): void {
+  for (const element of elements) {
+    if (element.shape) {
+      const content = extractText(element.shape.text);
+      if (!content) continue;
+
+      const placeholderType = element.shape.placeholder?.type;
+      if (!summary.title && placeholderType && TITLE_PLACEHOLDER_TYPES.has(placeholderType)) {
+        summary.title = content;
+      } else {
+        summary.text.push(content);
+      }
+    } else if (element.table) {
+      const content = extractTableText(element.table);
+      if (content) {
+        summary.text.push(content);
+      }
+    } else if (element.elementGroup?.children) {
+      collectText(element.elementGroup.children, summary);
+    }
+  }
+}
+
+/**
+ * Extract the speaker notes of a slide
+ *
+ * @param slide - The slide page
+ * @returns The speaker notes text, or undefined if there are none
+ */
+export function extractSpeakerNotes(slide: slides_v1.Schema$Page): string | undefined {
+  const notesPage = slide.slideProperties?.notesPage;
+  const notesObjectId = notesPage?.notesProperties?.speakerNotesObjectId;
+  if (!notesObjectId) {
+    return undefined;
+  }
+
+  const notesShape = notesPage?.pageElements?.find((element) => element.objectId === notesObjectId);
+  const notes = extractText(notesShape?.shape?.text);
+  return notes || undefined;
+}
+
+/**
+ * Summarize the content of a single slide
+ *
+ * @param slide - The slide page
+ * @returns The slide's title, text, and notes
+ */
+export function summarizeSlide(slide: slides_v1.Schema$Page): SlideContent {
+  const summary: { title?: string; text: string[] } = { text: [] };
+  collectText(slide.pageElements ?? [], summary);
+
+  const notes = extractSpeakerNotes(slide);
+
+  return {
+    slideId: slide.objectId || '',
+    ...(summary.title && { title: summary.title }),
+    text: summary.text,
+    ...(notes && { notes }),
+  };
+}
+
+/**
+ * Build the outline of a presentation
+ *
+ * @param presentation - The full presentation
+ * @returns Presentation metadata plus per-slide content
+ */
+export function buildPresentationOutline(
+  presentation: slides_v1.Schema$Presentation
+): PresentationOutline {
+  const presentationId = presentation.presentationId || '';
+  const slides = (presentation.slides ?? []).map((slide, index) => {
+    const { slideId, ...content } = summarizeSlide(slide);
+    return { slideId, index, ...content };
+  });
+
+  return {
+    presentationId,
+    title: presentation.title || 'Untitled presentation',
+    ...(presentation.revisionId && { revisionId: presentation.revisionId }),
+    slideCount: slides.length,
+    slides,
+    link: `https://docs.google.com/presentation/d/${presentationId}/edit`,
+  };
+}
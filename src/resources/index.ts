@@ -0,0 +1,115 @@
+/**
+ * MCP resources
+ *
+ * Exposes presentations and individual slides as readable resources so
+ * clients can attach a deck as context without spending tool calls.
+ */
+
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createDriveClient, createSlidesClient } from '../clients/index.js';
+import { buildPresentationOutline, summarizeSlide } from './content.js';
+import { parseResourceUri, presentationUri, RESOURCE_URI_TEMPLATES } from './uri.js';
+
+// Content extraction
+export {
+  buildPresentationOutline,
+  extractSpeakerNotes,
+  extractText,
+  type PresentationOutline,
+  type SlideContent,
+  summarizeSlide,
+} from './content.js';
+// URI helpers
+export {
+  InvalidResourceUriError,
+  parseResourceUri,
+  presentationUri,
+  RESOURCE_SCHEME,
+  RESOURCE_URI_TEMPLATES,
+  type ResourceTarget,
+  slideUri,
+} from './uri.js';
+
+/**
+ * Maximum number of presentations advertised by resources/list
+ */
+const RESOURCE_LIST_LIMIT = 50;
+
+/**
+ * MIME type of every resource body
+ */
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Resource templates advertised by resources/templates/list
+ */
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: RESOURCE_URI_TEMPLATES.presentation,
+    name: 'Presentation outline',
+    description: 'Title, text, and speaker notes of every slide in a presentation',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: RESOURCE_URI_TEMPLATES.slide,
+    name: 'Slide content',
+    description: 'Title, text, and speaker notes of a single slide',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+/**
+ * List presentations as concrete resources
+ *
+ * @returns One resource per recently modified presentation
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function listResources(): Promise<Resource[]> {
+  const client = await createDriveClient();
+  const presentations = await client.listPresentations(RESOURCE_LIST_LIMIT);
+
+  return presentations.map((presentation) => ({
+    uri: presentationUri(presentation.presentationId),
+    name: presentation.title,
+    description: `Google Slides presentation (modified ${presentation.modifiedTime})`,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+}
+
+/**
+ * Read a presentation or slide resource
+ *
+ * @param uri - A gslides:// presentation or slide URI
+ * @returns The resource contents as JSON text
+ * @throws {InvalidResourceUriError} If the URI is malformed
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {PermissionDeniedError} If no access to presentation
+ */
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const target = parseResourceUri(uri);
+  const client = await createSlidesClient();
+
+  let body: unknown;
+  if (target.kind === 'presentation') {
+    const presentation = await client.getPresentation(target.presentationId);
+    body = buildPresentationOutline(presentation);
+  } else {
+    const slide = await client.getSlide(target.presentationId, target.slideId);
+    body = { presentationId: target.presentationId, ...summarizeSlide(slide) };
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: JSON.stringify(body, null, 2),
+      },
+    ],
+  };
+}
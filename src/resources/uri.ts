@@ -0,0 +1,87 @@
+/**
+ * Resource URI helpers
+ *
+ * Presentations and slides are addressed with gslides:// URIs:
+ * - gslides://presentation/{presentationId}
+ * - gslides://presentation/{presentationId}/slide/{slideId}
+ */
+
+/**
+ * URI scheme used for all resources exposed by this server
+ */
+export const RESOURCE_SCHEME = 'gslides';
+
+/**
+ * RFC 6570 URI templates for the resources exposed by this server
+ */
+export const RESOURCE_URI_TEMPLATES = {
+  presentation: `${RESOURCE_SCHEME}://presentation/{presentationId}`,
+  slide: `${RESOURCE_SCHEME}://presentation/{presentationId}/slide/{slideId}`,
+} as const;
+
+/**
+ * A parsed resource URI
+ */
+export type ResourceTarget =
+  | { kind: 'presentation'; presentationId: string }
+  | { kind: 'slide'; presentationId: string; slideId: string };
+
+/**
+ * Error thrown when a URI does not identify a presentation or slide
+ */
+export class InvalidResourceUriError extends Error {
+  constructor(uri: string) {
+    super(`Invalid resource URI: ${uri}`);
+    this.name = 'InvalidResourceUriError';
+  }
+}
+
+const RESOURCE_URI_PATTERN = new RegExp(
+  `^${RESOURCE_SCHEME}://presentation/([^/]+)(?:/slide/([^/]+))?/?$`
+);
+
+/**
+ * Build the URI for a presentation resource
+ *
+ * @param presentationId - The presentation ID
+ * @returns The presentation resource URI
+ */
+export function presentationUri(presentationId: string): string {
+  return `${RESOURCE_SCHEME}://presentation/${encodeURIComponent(presentationId)}`;
+}
+
+/**
+ * Build the URI for a slide resource
+ *
+ * @param presentationId - The presentation ID
+ * @param slideId - The slide object ID
+ * @returns The slide resource URI
+ */
+export function slideUri(presentationId: string, slideId: string): string {
+  return `${presentationUri(presentationId)}/slide/${encodeURIComponent(slideId)}`;
+}
+
+/**
+ * Parse a resource URI into the presentation (and optionally slide) it identifies
+ *
+ * @param uri - The resource URI
+ * @returns The parsed target
+ * @throws {InvalidResourceUriError} If the URI is not a gslides:// presentation or slide URI
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+  const match = RESOURCE_URI_PATTERN.exec(uri);
+  if (!match?.[1]) {
+    throw new InvalidResourceUriError(uri);
+  }
+
+  try {
+    const presentationId = decodeURIComponent(match[1]);
+    if (match[2]) {
+      return { kind: 'slide', presentationId, slideId: decodeURIComponent(match[2]) };
+    }
+    return { kind: 'presentation', presentationId };
+  } catch {
+    // Malformed percent-encoding
+    throw new InvalidResourceUriError(uri);
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * MCP server factory
+ *
+ * Builds a fully wired MCP Server instance (tools, resources, prompts).
+ * Transports that serve several clients create one instance per session.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  type LoggingLevel,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { clientManager } from './clients/index.js';
+import type { LogLevel } from './config/index.js';
+import { PromptArgumentsError, promptRegistry, UnknownPromptError } from './prompts/index.js';
+import {
+  InvalidResourceUriError,
+  listResources,
+  readResource,
+  resourceTemplates,
+} from './resources/index.js';
+import { auditLog, type ToolError, toolRegistry, toToolError } from './tools/index.js';
+import {
+  type CallContext,
+  createCallContext,
+  getCallContext,
+  runWithCallContext,
+} from './utils/call-context.js';
+import { isLevelEnabled, logger } from './utils/logger.js';
+
+/**
+ * MCP logging level for each server log level
+ */
+const MCP_LOGGING_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * Map an MCP logging level onto the nearest server log level
+ *
+ * @param level - Level requested by the client
+ * @returns The server log level
+ */
+function fromMcpLoggingLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case 'debug':
+      return 'debug';
+    case 'info':
+    case 'notice':
+      return 'info';
+    case 'warning':
+      return 'warn';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Append a finished tool call to the audit log
+ *
+ * Failures to write the log are reported on stderr but never fail the call.
+ *
+ * @param context - Context of the finished call
+ * @param startedAt - Time the call started (ms since epoch)
+ * @param error - Error returned to the client, if the call failed
+ */
+async function recordToolCall(
+  context: CallContext,
+  startedAt: number,
+  error?: ToolError
+): Promise<void> {
+  const readOnly = toolRegistry.get(context.toolName)?.annotations?.readOnlyHint ?? false;
+  if (!auditLog.shouldRecord(readOnly)) {
+    return;
+  }
+
+  const input = context.input as { presentationId?: unknown } | undefined;
+  const presentationId =
+    typeof input?.presentationId === 'string'
+      ? input.presentationId
+      : context.batchUpdates[0]?.presentationId;
+
+  try {
+    await auditLog.record({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: context.toolName,
+      profile: clientManager.getCurrentAccount(),
+      account: await clientManager.getAccountEmail(),
+      presentationId,
+      input: context.input,
+      ...(context.batchUpdates.length > 0 && { batchUpdates: context.batchUpdates }),
+      durationMs: Date.now() - startedAt,
+      success: !error,
+      ...(error && { error: { code: error.code, message: error.message } }),
+    });
+  } catch (writeError) {
+    logger.error('Failed to write audit log', { error: writeError });
+  }
+}
+
+/**
+ * Options for creating an MCP server
+ */
+export interface ServerOptions {
+  /**
+   * Also send the client log entries logged outside any tool call, such as
+   * startup messages and background token refreshes. Only for transports
+   * serving a single client (stdio), since the logger is shared by the process.
+   */
+  forwardProcessLogs?: boolean;
+}
+
+/**
+ * Create a new MCP server with all request handlers registered
+ *
+ * @param options - Which log entries the client is sent
+ * @returns A server ready to be connected to a transport
+ */
+export function createServer(options: ServerOptions = {}): Server {
+  const server = new Server(
+    {
+      name: 'mcp-google-slides',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  // Forward log entries to the client as notifications, starting at the
+  // configured level until the client picks its own. Entries of tool calls
+  // go only to the client that made the call: they can hold sign-in URLs and
+  // device codes, and an HTTP transport serves several clients.
+  let clientLogLevel = logger.getSettings().level;
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = fromMcpLoggingLevel(request.params.level);
+    return {};
+  });
+
+  const unsubscribe = logger.subscribe((entry) => {
+    if (!isLevelEnabled(entry.level, clientLogLevel)) {
+      return;
+    }
+    // Subscribers run synchronously, so this is the context the entry was logged in
+    const context = getCallContext();
+    if (context ? context.server !== server : !options.forwardProcessLogs) {
+      return;
+    }
+    const { level, timestamp: _timestamp, ...data } = entry;
+    server
+      .sendLoggingMessage({ level: MCP_LOGGING_LEVELS[level], logger: 'mcp-google-slides', data })
+      .catch(() => {
+        // Not connected yet or already closed; stderr still has the entry
+      });
+  });
+  server.onclose = unsubscribe;
+
+  // List all available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: toolRegistry.list(),
+    };
+  });
+
+  // Handle tool execution requests
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const context = createCallContext(name, server);
+    const startedAt = Date.now();
+
+    // Report retried Google API requests so agents can see when they are being throttled
+    const retryInfo = () => (context.apiRetries > 0 ? { apiRetries: context.apiRetries } : {});
+
+    // Run everything in the call context so log entries carry its correlation ID
+    return runWithCallContext(context, async () => {
+      logger.debug('Tool call started');
+
+      try {
+        const result = await toolRegistry.call(name, args);
+        await recordToolCall(context, startedAt);
+        logger.info('Tool call completed', { durationMs: Date.now() - startedAt, ...retryInfo() });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ ...(result as object), ...retryInfo() }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const toolError = toToolError(error);
+        await recordToolCall(context, startedAt, toolError);
+        logger.warn('Tool call failed', {
+          durationMs: Date.now() - startedAt,
+          code: toolError.code,
+          error: toolError.message,
+          ...retryInfo(),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: toolError, ...retryInfo() }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+  });
+
+  // List presentations as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: await listResources(),
+    };
+  });
+
+  // List resource templates for presentations and slides
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  // Read a presentation or slide resource
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      return await readResource(request.params.uri);
+    } catch (error) {
+      if (error instanceof InvalidResourceUriError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  // List all available prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: promptRegistry.list(),
+    };
+  });
+
+  // Expand a prompt with its arguments
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return promptRegistry.get(request.params.name, request.params.arguments);
+    } catch (error) {
+      if (error instanceof UnknownPromptError || error instanceof PromptArgumentsError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,353 @@
+/**
+ * Persistent audit log of tool invocations
+ *
+ * Every tool call is appended as one JSON line to audit.jsonl, next to
+ * tokens.json, with its validated input, the batchUpdate requests it sent, the
+ * replies, its duration, and the account it acted as. When the file grows past
+ * the size limit it is rotated to audit.1.jsonl, audit.2.jsonl, and so on;
+ * the oldest file is dropped. Sign-in secrets (authorization codes, redirect
+ * URLs, passphrases) are always redacted.
+ *
+ * Configured through environment variables:
+ *
+ * - MCP_GSLIDES_AUDIT_LOG: which calls to record: all, mutations, or off (default: all)
+ * - MCP_GSLIDES_AUDIT_PATH: log file location (default: audit.jsonl next to tokens.json)
+ * - MCP_GSLIDES_AUDIT_MAX_BYTES: size at which the log is rotated (default: 10485760)
+ * - MCP_GSLIDES_AUDIT_MAX_FILES: rotated files kept besides the current one (default: 5)
+ * - MCP_GSLIDES_AUDIT_REDACT: comma-separated values to redact: text, urls, replies (default: none)
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { slides_v1 } from 'googleapis';
+import { getTokenPath } from '../../auth/index.js';
+import type { BatchUpdateRecord } from '../../utils/index.js';
+
+/**
+ * Which tool calls are recorded
+ */
+export type AuditMode = 'all' | 'mutations' | 'off';
+
+/**
+ * Values that can be redacted from recorded inputs and requests
+ */
+export type AuditRedaction = 'text' | 'urls' | 'replies';
+
+/**
+ * One recorded tool call
+ */
+export interface AuditEntry {
+  /** Time the call started (ISO 8601) */
+  timestamp: string;
+  /** Tool that was invoked */
+  tool: string;
+  /** Account profile the call acted as */
+  profile?: string;
+  /** Email address of the signed-in Google account, when known */
+  account?: string;
+  /** Presentation the call targeted, when any */
+  presentationId?: string;
+  /** Arguments after schema validation (absent if validation failed) */
+  input?: unknown;
+  /** batchUpdates sent during the call, in order */
+  batchUpdates?: BatchUpdateRecord[];
+  /** Call duration in milliseconds */
+  durationMs: number;
+  /** Whether the call succeeded */
+  success: boolean;
+  /** Error returned to the client, if the call failed */
+  error?: { code: string; message: string };
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditQuery {
+  /** Only calls made as this account profile */
+  profile?: string;
+  presentationId?: string;
+  tool?: string;
+  /** Only entries at or after this time */
+  since?: Date;
+  /** Only entries at or before this time */
+  until?: Date;
+  /** Maximum number of entries to return */
+  limit: number;
+}
+
+/**
+ * Audit log settings
+ */
+export interface AuditLogOptions {
+  mode: AuditMode;
+  /** Path of the current log file */
+  filePath: string;
+  /** Size in bytes at which the log is rotated */
+  maxBytes: number;
+  /** Rotated files kept besides the current one */
+  maxFiles: number;
+  redact: AuditRedaction[];
+}
+
+const REDACTED = '[redacted]';
+
+/**
+ * Input and request fields holding slide text (data: create_table cell contents)
+ */
+const TEXT_KEYS = new Set(['text', 'notes', 'replaceText', 'data']);
+
+/**
+ * Input and request fields holding URLs
+ */
+const URL_KEYS = new Set(['url', 'imageUrl', 'sourceUrl', 'contentUrl']);
+
+/**
+ * Input fields holding sign-in secrets, redacted whatever the configured redactions
+ */
+const SECRET_KEYS = new Set(['redirectUrl', 'code', 'passphrase']);
+
+/**
+ * Read audit log settings from environment variables
+ *
+ * @returns The configured settings
+ */
+export function getAuditLogOptions(): AuditLogOptions {
+  const mode = process.env.MCP_GSLIDES_AUDIT_LOG?.trim().toLowerCase();
+  const maxBytes = parseInt(process.env.MCP_GSLIDES_AUDIT_MAX_BYTES ?? '', 10);
+  const maxFiles = parseInt(process.env.MCP_GSLIDES_AUDIT_MAX_FILES ?? '', 10);
+  const redact = (process.env.MCP_GSLIDES_AUDIT_REDACT ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value): value is AuditRedaction => ['text', 'urls', 'replies'].includes(value));
+
+  return {
+    mode: mode === 'mutations' || mode === 'off' ? mode : 'all',
+    filePath: process.env.MCP_GSLIDES_AUDIT_PATH
+      ? path.resolve(process.env.MCP_GSLIDES_AUDIT_PATH)
+      : path.join(path.dirname(getTokenPath()), 'audit.jsonl'),
+    maxBytes: Number.isInteger(maxBytes) && maxBytes > 0 ? maxBytes : 10 * 1024 * 1024,
+    maxFiles: Number.isInteger(maxFiles) && maxFiles >= 0 ? maxFiles : 5,
+    redact,
+  };
+}
+
+/**
+ * Append-only JSONL audit log with size-based rotation
+ */
+export class AuditLog {
+  /** Serializes writes so concurrent calls never interleave or race a rotation */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new AuditLog
+   * @param options - Log settings
+   */
+  constructor(private readonly options: AuditLogOptions) {}
+
+  /**
+   * Whether any calls are being recorded
+   */
+  get enabled(): boolean {
+    return this.options.mode !== 'off';
+  }
+
+  /**
+   * Whether a call to a tool should be recorded
+   *
+   * @param readOnly - Whether the tool only reads data
+   * @returns true if the call belongs in the log
+   */
+  shouldRecord(readOnly: boolean): boolean {
+    return this.options.mode === 'all' || (this.options.mode === 'mutations' && !readOnly);
+  }
+
+  /**
+   * Append an entry, redacting configured values
+   *
+   * @param entry - The tool call to record
+   */
+  record(entry: AuditEntry): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    const line = `${JSON.stringify(this.redact(entry))}\n`;
+    const write = this.queue.then(() => this.append(line));
+    // Keep the queue going after a failed write; the caller sees the failure
+    this.queue = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Read recorded entries, newest first
+   *
+   * @param query - Filters and limit
+   * @returns Matching entries
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.queue;
+
+    const since = query.since?.getTime() ?? Number.NEGATIVE_INFINITY;
+    const until = query.until?.getTime() ?? Number.POSITIVE_INFINITY;
+    const results: AuditEntry[] = [];
+
+    // Current file first, then rotated files from newest to oldest
+    for (let index = 0; index <= this.options.maxFiles; index++) {
+      const lines = (await this.readLines(this.fileAt(index))).reverse();
+      for (const line of lines) {
+        const entry = parseEntry(line);
+        if (!entry) {
+          continue;
+        }
+
+        const time = Date.parse(entry.timestamp);
+        if (
+          time < since ||
+          time > until ||
+          (query.profile && entry.profile !== query.profile) ||
+          (query.presentationId && entry.presentationId !== query.presentationId) ||
+          (query.tool && entry.tool !== query.tool)
+        ) {
+          continue;
+        }
+
+        results.push(entry);
+        if (results.length >= query.limit) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Path of the current file (0) or a rotated file (1 = newest)
+   */
+  private fileAt(index: number): string {
+    if (index === 0) {
+      return this.options.filePath;
+    }
+
+    const { dir, name, ext } = path.parse(this.options.filePath);
+    return path.join(dir, `${name}.${index}${ext}`);
+  }
+
+  /**
+   * Append a line, rotating first if it would push the file past the size limit
+   */
+  private async append(line: string): Promise<void> {
+    const filePath = this.options.filePath;
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+    const size = await fs
+      .stat(filePath)
+      .then((stats) => stats.size)
+      .catch(() => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.options.maxBytes) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(filePath, line, { mode: 0o600 });
+  }
+
+  /**
+   * Shift every file up one index, dropping the oldest
+   */
+  private async rotate(): Promise<void> {
+    const { maxFiles } = this.options;
+    if (maxFiles === 0) {
+      await fs.rm(this.fileAt(0), { force: true });
+      return;
+    }
+
+    await fs.rm(this.fileAt(maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      await fs.rename(this.fileAt(index), this.fileAt(index + 1)).catch((error) => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      });
+    }
+  }
+
+  /**
+   * Read the non-empty lines of a file (none if it does not exist)
+   */
+  private async readLines(filePath: string): Promise<string[]> {
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      return data.split('\n').filter((line) => line.trim() !== '');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the sign-in secret and configured redactions to an entry
+   */
+  private redact(entry: AuditEntry): AuditEntry {
+    const { redact } = this.options;
+    const keys = new Set([
+      ...SECRET_KEYS,
+      ...(redact.includes('text') ? TEXT_KEYS : []),
+      ...(redact.includes('urls') ? URL_KEYS : []),
+    ]);
+    const dropReplies = redact.includes('replies');
+
+    return {
+      ...entry,
+      input: redactValue(entry.input, keys),
+      batchUpdates: entry.batchUpdates?.map((batch) => ({
+        presentationId: batch.presentationId,
+        requests: redactValue(batch.requests, keys) as slides_v1.Schema$Request[],
+        ...(!dropReplies && batch.replies && { replies: batch.replies }),
+      })),
+    };
+  }
+}
+
+/**
+ * Replace the values of the given keys anywhere in a JSON value
+ *
+ * @param value - Value to copy
+ * @param keys - Property names whose values are replaced
+ * @returns A redacted copy
+ */
+function redactValue(value: unknown, keys: Set<string>): unknown {
+  if (keys.size === 0 || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, keys));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      keys.has(key) && item !== undefined ? REDACTED : redactValue(item, keys),
+    ])
+  );
+}
+
+/**
+ * Parse one log line, skipping lines that are not valid entries
+ */
+function parseEntry(line: string): AuditEntry | undefined {
+  try {
+    const entry = JSON.parse(line) as AuditEntry;
+    return typeof entry?.tool === 'string' && typeof entry.timestamp === 'string'
+      ? entry
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Process-wide audit log shared by all tool calls
+ */
+export const auditLog = new AuditLog(getAuditLogOptions());
@@ -0,0 +1,92 @@
+/**
+ * get_audit_log tool implementation
+ *
+ * Reads the persistent audit log of tool calls made as the current account,
+ * filtered by presentation, tool, and time range.
+ */
+
+import { z } from 'zod';
+import { clientManager } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
+import { type AuditEntry, auditLog } from './audit-log.js';
+
+/**
+ * Input schema for get_audit_log tool
+ */
+export const GetAuditLogInputSchema = z.object({
+  presentationId: z.string().optional().describe('Only calls that targeted this presentation'),
+  tool: z.string().optional().describe('Only calls to this tool (e.g. "delete_slide")'),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only calls made at or after this time (ISO 8601)'),
+  until: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only calls made at or before this time (ISO 8601)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe('Maximum number of entries to return (default: 50)'),
+});
+
+export type GetAuditLogInput = z.input<typeof GetAuditLogInputSchema>;
+
+/**
+ * Output interface for get_audit_log tool
+ */
+export interface GetAuditLogOutput {
+  /** Whether tool calls are currently being recorded */
+  enabled: boolean;
+  /** Matching entries, newest first */
+  entries: AuditEntry[];
+  totalCount: number;
+}
+
+/**
+ * Read recorded tool calls made as the current account, newest first
+ *
+ * @param input - Tool input with optional filters
+ * @returns Matching audit log entries
+ */
+export async function getAuditLog(input: GetAuditLogInput = {}): Promise<GetAuditLogOutput> {
+  // Validate input
+  const validatedInput = GetAuditLogInputSchema.parse(input);
+
+  const entries = await auditLog.query({
+    profile: clientManager.getCurrentAccount(),
+    presentationId: validatedInput.presentationId,
+    tool: validatedInput.tool,
+    since: validatedInput.since ? new Date(validatedInput.since) : undefined,
+    until: validatedInput.until ? new Date(validatedInput.until) : undefined,
+    limit: validatedInput.limit,
+  });
+
+  return {
+    enabled: auditLog.enabled,
+    entries,
+    totalCount: entries.length,
+  };
+}
+
+/**
+ * MCP tool definition for get_audit_log
+ */
+export const getAuditLogTool = defineTool({
+  name: 'get_audit_log',
+  description:
+    'Read the audit log of tool calls made by this server as the current account (inputs, generated requests, replies, duration, account), ' +
+    'filtered by presentation, tool, and time range. Newest entries first.',
+  inputSchema: GetAuditLogInputSchema,
+  annotations: {
+    title: 'Get audit log',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: getAuditLog,
+});
@@ -0,0 +1,51 @@
+/**
+ * Audit tools
+ *
+ * Persistent log of tool calls and the MCP tool that queries it.
+ */
+
+import {
+  type AuditEntry,
+  AuditLog,
+  type AuditLogOptions,
+  type AuditMode,
+  type AuditQuery,
+  type AuditRedaction,
+  auditLog,
+  getAuditLogOptions,
+} from './audit-log.js';
+import {
+  type GetAuditLogInput,
+  GetAuditLogInputSchema,
+  type GetAuditLogOutput,
+  getAuditLog,
+  getAuditLogTool,
+} from './get-audit-log.js';
+
+/**
+ * Export all audit tool implementations
+ */
+export { AuditLog, auditLog, getAuditLog, getAuditLogOptions };
+
+/**
+ * Export all audit tool types
+ */
+export type {
+  AuditEntry,
+  AuditLogOptions,
+  AuditMode,
+  AuditQuery,
+  AuditRedaction,
+  GetAuditLogInput,
+  GetAuditLogOutput,
+};
+
+/**
+ * Export all audit tool schemas
+ */
+export { GetAuditLogInputSchema };
+
+/**
+ * MCP tool definitions for auditing
+ */
+export const auditTools = [getAuditLogTool];
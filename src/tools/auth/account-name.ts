@@ -0,0 +1,16 @@
+/**
+ * Account profile names in tool arguments
+ */
+
+import { z } from 'zod';
+import { ACCOUNT_NAME_PATTERN } from '../../config/index.js';
+
+/**
+ * Name of an account profile
+ */
+export const AccountNameSchema = z
+  .string()
+  .regex(
+    ACCOUNT_NAME_PATTERN,
+    'Account names use up to 32 lowercase letters, digits, hyphens, and underscores'
+  );
@@ -0,0 +1,78 @@
+/**
+ * add_account tool implementation
+ *
+ * Signs in to another Google account and stores its credentials under a new
+ * profile name, next to the existing accounts.
+ */
+
+import { z } from 'zod';
+import { clientManager } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
+import { AccountNameSchema } from './account-name.js';
+
+/**
+ * Input schema for add_account tool
+ */
+export const AddAccountInputSchema = z.object({
+  name: AccountNameSchema.describe('Name of the new profile, e.g. "work" or "client-acme"'),
+});
+
+export type AddAccountInput = z.infer<typeof AddAccountInputSchema>;
+
+/**
+ * Output interface for add_account tool
+ */
+export interface AddAccountOutput {
+  success: true;
+  /** Name of the new profile */
+  account: string;
+  /** Email address of the Google account signed in to, when known */
+  email?: string;
+  message: string;
+}
+
+/**
+ * Sign in to a new account profile
+ *
+ * Opens the Google consent screen in the browser. The active account does
+ * not change.
+ *
+ * @param input - Tool input with the profile name
+ * @returns The new profile and its email address
+ * @throws {AccountExistsError} If the profile already has stored credentials
+ * @throws {AuthenticationError} If authentication fails
+ */
+export async function addAccount(input: AddAccountInput): Promise<AddAccountOutput> {
+  // Validate input
+  const { name } = AddAccountInputSchema.parse(input);
+
+  await clientManager.addAccount(name);
+  const email = await clientManager.getAccountEmail(name);
+
+  return {
+    success: true,
+    account: name,
+    ...(email && { email }),
+    message: `Signed in as account ${name}. Pass account: "${name}" to a tool, or call switch_account to use it by default.`,
+  };
+}
+
+/**
+ * MCP tool definition for add_account
+ */
+export const addAccountTool = defineTool({
+  name: 'add_account',
+  description:
+    'Sign in to another Google account and store its credentials under a new profile name, keeping the existing accounts. ' +
+    'Opens the Google consent screen in the browser; when the server has no browser, it fails with SIGN_IN_REQUIRED and instructions for the user, and the account is added once they finish signing in. ' +
+    'The active account does not change; use switch_account or the account argument to act as the new account.',
+  inputSchema: AddAccountInputSchema,
+  annotations: {
+    title: 'Add account',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: addAccount,
+});
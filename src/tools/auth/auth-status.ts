@@ -0,0 +1,175 @@
+/**
+ * auth_status tool implementation
+ *
+ * Reports which Google account an account profile is signed in to, the
+ * scopes its credentials were granted, and when the access token expires,
+ * without starting a sign-in.
+ */
+
+import { JWT } from 'google-auth-library';
+import { z } from 'zod';
+import { getMissingScopes, getOAuthConfig } from '../../auth/config.js';
+import { type AuthMethod, getAuthMethod } from '../../auth/credentials.js';
+import { areTokensExpiring, loadTokens } from '../../auth/token-store.js';
+import { clientManager } from '../../clients/index.js';
+import { DEFAULT_ACCOUNT, getPermissions, type PermissionProfile } from '../../config/index.js';
+import { defineTool } from '../registry.js';
+
+/**
+ * Input schema for auth_status tool (no parameters required)
+ */
+export const AuthStatusInputSchema = z.object({});
+
+export type AuthStatusInput = z.infer<typeof AuthStatusInputSchema>;
+
+/**
+ * Output interface for auth_status tool
+ */
+export interface AuthStatusOutput {
+  /** Account profile reported on: the active account unless the account argument names another */
+  account: string;
+  /** Account tools act as when not given one */
+  activeAccount: string;
+  /** How the server obtains credentials */
+  method: AuthMethod['type'];
+  /** Permission profile limiting the available tools */
+  permissionProfile: PermissionProfile;
+  /** Whether credentials are available without signing in */
+  signedIn: boolean;
+  /** Email address of the Google account, when known */
+  email?: string;
+  /** Scopes granted to the credentials, when known */
+  scopes: string[];
+  /** Requested scopes the stored credentials lack; the next tool call asks for consent to them */
+  missingScopes: string[];
+  /** When the current access token expires (ISO 8601), if known */
+  expiresAt?: string;
+  message: string;
+}
+
+/**
+ * Status fields that depend on how the account signs in
+ */
+type CredentialStatus = Omit<
+  AuthStatusOutput,
+  'account' | 'activeAccount' | 'method' | 'permissionProfile'
+>;
+
+/**
+ * Split a space-separated scope string
+ */
+function splitScopes(scope: string | undefined): string[] {
+  return (scope ?? '').split(/\s+/).filter((value) => value !== '');
+}
+
+/**
+ * Report the status of an account signed in with the OAuth flow
+ *
+ * The account's clients are only signed in here when the stored access token
+ * is still valid and covers the requested scopes, so that looking up the
+ * email address never refreshes tokens or opens the consent screen.
+ */
+async function getOAuthStatus(account: string): Promise<CredentialStatus> {
+  const tokens = await loadTokens(account);
+  if (!tokens) {
+    return {
+      signedIn: false,
+      scopes: [],
+      missingScopes: [],
+      message:
+        account === DEFAULT_ACCOUNT
+          ? 'Not signed in. The next tool call starts the Google sign-in.'
+          : `No credentials are stored for account ${account}. Use add_account to sign in to it.`,
+    };
+  }
+
+  const missingScopes = getMissingScopes(tokens.scope, getOAuthConfig().scopes);
+  if (missingScopes.length === 0 && !areTokensExpiring(tokens, 5)) {
+    await clientManager.getAuthClient(account);
+  }
+  const email = await clientManager.getAccountEmail(account);
+  const signedInAs = `Signed in${email ? ` as ${email}` : ''}.`;
+
+  return {
+    signedIn: true,
+    ...(email && { email }),
+    scopes: splitScopes(tokens.scope),
+    missingScopes,
+    expiresAt: new Date(tokens.expiresAt).toISOString(),
+    message:
+      missingScopes.length > 0
+        ? `${signedInAs} The stored credentials lack scopes the server now requests (${missingScopes.join(', ')}); the next tool call asks for consent to them.`
+        : `${signedInAs} The access token is refreshed automatically before it expires.`,
+  };
+}
+
+/**
+ * Report the status of a service account or external access token
+ *
+ * These sign in without user interaction, so the client is always created.
+ */
+async function getNonInteractiveStatus(
+  account: string,
+  method: Exclude<AuthMethod['type'], 'oauth'>
+): Promise<CredentialStatus> {
+  const client = await clientManager.getAuthClient(account);
+  const email = await clientManager.getAccountEmail(account);
+  const expiryDate = client.credentials.expiry_date;
+  const source = method === 'service-account' ? 'a service account' : 'an external access token';
+
+  return {
+    signedIn: true,
+    ...(email && { email }),
+    // Service accounts are granted the scopes they request; external tokens do not say
+    scopes:
+      client instanceof JWT ? [client.scopes ?? []].flat() : splitScopes(client.credentials.scope),
+    missingScopes: [],
+    ...(expiryDate && { expiresAt: new Date(expiryDate).toISOString() }),
+    message: `Signed in with ${source}${email ? ` as ${email}` : ''}.`,
+  };
+}
+
+/**
+ * Report the sign-in status of the current account
+ *
+ * @param input - Tool input (no parameters required)
+ * @returns The account, its email address, granted scopes, and token expiry
+ * @throws {AuthenticationError} If a service account or external token cannot be loaded
+ */
+export async function authStatus(input: AuthStatusInput): Promise<AuthStatusOutput> {
+  // Validate input (no-op since schema is empty, but maintains consistency)
+  AuthStatusInputSchema.parse(input);
+
+  const account = clientManager.getCurrentAccount();
+  const method = getAuthMethod().type;
+  const status =
+    method === 'oauth'
+      ? await getOAuthStatus(account)
+      : await getNonInteractiveStatus(account, method);
+
+  return {
+    account,
+    activeAccount: clientManager.getActiveAccount(),
+    method,
+    permissionProfile: getPermissions().profile,
+    ...status,
+  };
+}
+
+/**
+ * MCP tool definition for auth_status
+ */
+export const authStatusTool = defineTool({
+  name: 'auth_status',
+  description:
+    'Show which Google account the active account profile (or the one named by the account argument) is signed in to: ' +
+    'its email address, the scopes granted, when the access token expires, how the server signs in, and the permission profile. ' +
+    'Never starts a sign-in. missingScopes lists scopes the server now requests that the stored credentials lack; the next tool call asks for consent to them.',
+  inputSchema: AuthStatusInputSchema,
+  annotations: {
+    title: 'Authentication status',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: authStatus,
+});
@@ -0,0 +1,81 @@
+/**
+ * complete_sign_in tool implementation
+ *
+ * Finishes a manual (headless) sign-in with the URL Google redirected the
+ * user's browser to after they approved access.
+ */
+
+import { z } from 'zod';
+import { completeSignIn as completeManualSignIn } from '../../auth/oauth-client.js';
+import { clientManager } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
+
+/**
+ * Input schema for complete_sign_in tool
+ */
+export const CompleteSignInInputSchema = z.object({
+  redirectUrl: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'The full URL of the page Google redirected to after approving access (it starts with http://127.0.0.1 and fails to load), or just its code parameter'
+    ),
+});
+
+export type CompleteSignInInput = z.infer<typeof CompleteSignInInputSchema>;
+
+/**
+ * Output interface for complete_sign_in tool
+ */
+export interface CompleteSignInOutput {
+  success: true;
+  /** Account profile the credentials were stored for */
+  account: string;
+  message: string;
+}
+
+/**
+ * Exchange the pasted redirect URL for tokens and store them
+ *
+ * @param input - Tool input with the redirect URL
+ * @returns The account profile that was signed in to
+ * @throws {AuthenticationError} If no sign-in is waiting for the URL or Google rejects the code
+ */
+export async function completeSignIn(input: CompleteSignInInput): Promise<CompleteSignInOutput> {
+  // Validate input
+  const { redirectUrl } = CompleteSignInInputSchema.parse(input);
+
+  const account = await completeManualSignIn(redirectUrl);
+
+  // The next call signs in again with the stored tokens
+  clientManager.reset(account);
+
+  return {
+    success: true,
+    account,
+    message: `Signed in as account ${account}. Retry the call that asked you to sign in.`,
+  };
+}
+
+/**
+ * MCP tool definition for complete_sign_in
+ */
+export const completeSignInTool = defineTool({
+  name: 'complete_sign_in',
+  description:
+    'Finish signing in to Google when the server cannot open a browser. ' +
+    'After a tool fails with SIGN_IN_REQUIRED and the user approves access at the URL it gave, they are redirected to a 127.0.0.1 address that fails to load; pass that full URL here. ' +
+    'Not needed when the error asks to enter a code on another device; retry the call instead.',
+  inputSchema: CompleteSignInInputSchema,
+  annotations: {
+    title: 'Complete sign-in',
+    // Only stores credentials, like the sign-in any read-only tool may start,
+    // so it stays available under the read-only permission profile
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: completeSignIn,
+});
@@ -1,38 +1,99 @@
 /**
  * Authentication management tools
  *
- * MCP tools for managing OAuth credentials.
+ * MCP tools for managing OAuth credentials and account profiles.
  */
 
-import { type LogoutInput, LogoutInputSchema, type LogoutOutput, logout } from './logout.js';
+import { AccountNameSchema } from './account-name.js';
+import {
+  type AddAccountInput,
+  AddAccountInputSchema,
+  type AddAccountOutput,
+  addAccount,
+  addAccountTool,
+} from './add-account.js';
+import {
+  type AuthStatusInput,
+  AuthStatusInputSchema,
+  type AuthStatusOutput,
+  authStatus,
+  authStatusTool,
+} from './auth-status.js';
+import {
+  type CompleteSignInInput,
+  CompleteSignInInputSchema,
+  type CompleteSignInOutput,
+  completeSignIn,
+  completeSignInTool,
+} from './complete-sign-in.js';
+import {
+  type AccountSummary,
+  type ListAccountsInput,
+  ListAccountsInputSchema,
+  type ListAccountsOutput,
+  listAccounts,
+  listAccountsTool,
+} from './list-accounts.js';
+import {
+  type LogoutInput,
+  LogoutInputSchema,
+  type LogoutOutput,
+  logout,
+  logoutTool,
+} from './logout.js';
+import {
+  type SwitchAccountInput,
+  SwitchAccountInputSchema,
+  type SwitchAccountOutput,
+  switchAccount,
+  switchAccountTool,
+} from './switch-account.js';
 
 /**
  * Export all auth tool implementations
  */
-export { logout };
+export { addAccount, authStatus, completeSignIn, listAccounts, logout, switchAccount };
 
 /**
  * Export all auth tool types
  */
-export type { LogoutInput, LogoutOutput };
+export type {
+  AccountSummary,
+  AddAccountInput,
+  AddAccountOutput,
+  AuthStatusInput,
+  AuthStatusOutput,
+  CompleteSignInInput,
+  CompleteSignInOutput,
+  ListAccountsInput,
+  ListAccountsOutput,
+  LogoutInput,
+  LogoutOutput,
+  SwitchAccountInput,
+  SwitchAccountOutput,
+};
 
 /**
  * Export all auth tool schemas
  */
-export { LogoutInputSchema };
+export {
+  AccountNameSchema,
+  AddAccountInputSchema,
+  AuthStatusInputSchema,
+  CompleteSignInInputSchema,
+  ListAccountsInputSchema,
+  LogoutInputSchema,
+  SwitchAccountInputSchema,
+};
 
 /**
  * MCP tool definitions for authentication management
  */
 export const authTools = [
-  {
-    name: 'logout',
-    description:
-      'Clear stored Google OAuth credentials. Use this to switch to a different Google account. The next tool call will trigger a new authentication flow.',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      required: [],
-    },
-  },
-] as const;
+  authStatusTool,
+  listAccountsTool,
+  switchAccountTool,
+  addAccountTool,
+  completeSignInTool,
+  logoutTool,
+];
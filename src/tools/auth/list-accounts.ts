@@ -0,0 +1,79 @@
+/**
+ * list_accounts tool implementation
+ *
+ * Lists the Google account profiles with stored credentials and which one
+ * tools act as by default.
+ */
+
+import { z } from 'zod';
+import { listAccounts as listStoredAccounts } from '../../auth/token-store.js';
+import { clientManager } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
+
+/**
+ * Input schema for list_accounts tool (no parameters required)
+ */
+export const ListAccountsInputSchema = z.object({});
+
+export type ListAccountsInput = z.infer<typeof ListAccountsInputSchema>;
+
+/**
+ * A stored account profile
+ */
+export interface AccountSummary {
+  /** Profile name, passed as the account argument of any tool */
+  name: string;
+  /** Whether tools act as this account when not given one */
+  active: boolean;
+  /** Email address of the Google account, if it was used since the server started */
+  email?: string;
+}
+
+/**
+ * Output interface for list_accounts tool
+ */
+export interface ListAccountsOutput {
+  /** Account tools act as when not given one */
+  activeAccount: string;
+  accounts: AccountSummary[];
+}
+
+/**
+ * List the stored account profiles
+ *
+ * @param input - Tool input (no parameters required)
+ * @returns The profiles and the active account
+ */
+export async function listAccounts(input: ListAccountsInput): Promise<ListAccountsOutput> {
+  // Validate input (no-op since schema is empty, but maintains consistency)
+  ListAccountsInputSchema.parse(input);
+
+  const activeAccount = clientManager.getActiveAccount();
+  const names = await listStoredAccounts();
+
+  const accounts = await Promise.all(
+    names.map(async (name) => {
+      const email = await clientManager.getAccountEmail(name);
+      return { name, active: name === activeAccount, ...(email && { email }) };
+    })
+  );
+
+  return { activeAccount, accounts };
+}
+
+/**
+ * MCP tool definition for list_accounts
+ */
+export const listAccountsTool = defineTool({
+  name: 'list_accounts',
+  description:
+    'List the Google account profiles with stored credentials and the active account that tools act as by default. ' +
+    'Pass a profile name as the account argument of any tool to act as that account for one call.',
+  inputSchema: ListAccountsInputSchema,
+  annotations: {
+    title: 'List accounts',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: listAccounts,
+});
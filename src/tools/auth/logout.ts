@@ -1,47 +1,163 @@
 /**
  * logout tool implementation
  *
- * Clears stored OAuth tokens to enable re-authentication with a different Google account.
+ * Revokes the refresh token of an account profile at Google and clears the
+ * stored OAuth tokens to enable re-authentication with a different Google
+ * account.
  */
 
 import { z } from 'zod';
-import { deleteTokens } from '../../auth/token-store.js';
+import { clearPendingSignIn } from '../../auth/headless-flow.js';
+import { revokeToken } from '../../auth/oauth-client.js';
+import { deleteTokens, loadTokens } from '../../auth/token-store.js';
+import { clientManager } from '../../clients/index.js';
+import { DEFAULT_ACCOUNT } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { defineTool } from '../registry.js';
+import { undoJournal } from '../undo/journal.js';
 
 /**
- * Input schema for logout tool (no parameters required)
+ * Input schema for logout tool
  */
-export const LogoutInputSchema = z.object({});
+export const LogoutInputSchema = z.object({
+  revoke: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Revoke the refresh token at Google so it stops working everywhere (default: true). Local credentials are cleared even if this fails, e.g. when offline'
+    ),
+});
 
-export type LogoutInput = z.infer<typeof LogoutInputSchema>;
+export type LogoutInput = z.input<typeof LogoutInputSchema>;
 
 /**
  * Output interface for logout tool
  */
 export interface LogoutOutput {
   success: true;
+  /** Account profile that was logged out */
+  account: string;
+  /** Whether Google confirmed the refresh token was revoked */
+  revoked: boolean;
+  /** Why revocation failed, if it was attempted and did not succeed */
+  revocationError?: string;
   message: string;
 }
 
 /**
- * Clear stored Google OAuth credentials
+ * Result of trying to revoke an account's refresh token
+ */
+interface RevocationResult {
+  revoked: boolean;
+  error?: string;
+}
+
+/**
+ * Revoke the stored refresh token of an account at Google
+ *
+ * @param account - Account profile whose token to revoke
+ * @returns Whether the token was revoked, and why not if revocation failed
+ */
+async function revokeStoredToken(account: string): Promise<RevocationResult> {
+  try {
+    const tokens = await loadTokens(account);
+    if (!tokens) {
+      return { revoked: false };
+    }
+    await revokeToken(tokens.refreshToken);
+    return { revoked: true };
+  } catch (error) {
+    logger.warn('Failed to revoke the refresh token', { account, error });
+    return { revoked: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Describe the revocation outcome for the logout message
+ */
+function describeRevocation(revoke: boolean, result: RevocationResult): string {
+  if (result.revoked) {
+    return ' The refresh token was revoked at Google.';
+  }
+  if (result.error) {
+    return ' The refresh token could not be revoked at Google and stays valid until you remove this app at https://myaccount.google.com/permissions.';
+  }
+  return revoke ? '' : ' The refresh token was not revoked at Google.';
+}
+
+/**
+ * Revoke and clear stored Google OAuth credentials
  *
- * Use this to switch to a different Google account. The next tool call
- * will trigger a new authentication flow.
+ * Logs out the account the call acts as (the active account unless the
+ * account argument names another). For the default profile, the next tool
+ * call will trigger a new authentication flow; a named profile is removed,
+ * and tools act as the default profile if it was the active one.
  *
- * @param _input - Tool input (unused, no parameters required)
- * @returns Success confirmation with message
+ * @param input - Tool input with the optional revoke flag
+ * @returns Success confirmation with the revocation outcome
  * @throws {Error} If token file deletion fails (except for file not found)
  */
-export async function logout(_input: LogoutInput): Promise<LogoutOutput> {
-  // Validate input (no-op since schema is empty, but maintains consistency)
-  LogoutInputSchema.parse(_input);
+export async function logout(input: LogoutInput): Promise<LogoutOutput> {
+  // Validate input
+  const { revoke } = LogoutInputSchema.parse(input);
+
+  const account = clientManager.getCurrentAccount();
+
+  // Revoke at Google first, while the refresh token can still be read
+  const revocation: RevocationResult = revoke
+    ? await revokeStoredToken(account)
+    : { revoked: false };
+  const outcome = {
+    revoked: revocation.revoked,
+    ...(revocation.error && { revocationError: revocation.error }),
+  };
+  const revocationNote = describeRevocation(revoke, revocation);
+
+  // Delete stored tokens, and drop a headless sign-in still waiting for the user
+  await deleteTokens(account);
+  clearPendingSignIn(account);
 
-  // Delete stored tokens
-  await deleteTokens();
+  // Drop the signed-in clients, cached presentations, and undo history of the account
+  clientManager.reset(account);
+  undoJournal.clear(account);
+
+  if (account === DEFAULT_ACCOUNT) {
+    return {
+      success: true,
+      account,
+      ...outcome,
+      message: `Logged out successfully. Your stored credentials have been cleared.${revocationNote} The next tool call will prompt you to authenticate with Google.`,
+    };
+  }
+
+  if (clientManager.getActiveAccount() === account) {
+    await clientManager.switchAccount(DEFAULT_ACCOUNT);
+  }
 
   return {
     success: true,
-    message:
-      'Logged out successfully. Your stored credentials have been cleared. The next tool call will prompt you to authenticate with Google.',
+    account,
+    ...outcome,
+    message: `Logged out of account ${account} and removed its stored credentials.${revocationNote} Tools act as account ${clientManager.getActiveAccount()} unless given another account; use add_account to sign in to ${account} again.`,
   };
 }
+
+/**
+ * MCP tool definition for logout
+ */
+export const logoutTool = defineTool({
+  name: 'logout',
+  description:
+    'Revoke and clear stored Google OAuth credentials of the active account, or of the one named by the account argument. ' +
+    'The refresh token is revoked at Google unless revoke is false; local credentials are cleared even if revocation fails. ' +
+    'Use this to sign in to a different Google account: for the default account, the next tool call will trigger a new authentication flow; a named account is removed.',
+  inputSchema: LogoutInputSchema,
+  annotations: {
+    title: 'Log out',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: logout,
+});
@@ -0,0 +1,72 @@
+/**
+ * switch_account tool implementation
+ *
+ * Changes the account profile that tools act as when not given one.
+ */
+
+import { z } from 'zod';
+import { clientManager } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
+import { AccountNameSchema } from './account-name.js';
+
+/**
+ * Input schema for switch_account tool
+ */
+export const SwitchAccountInputSchema = z.object({
+  name: AccountNameSchema.describe('Profile to make active, as shown by list_accounts'),
+});
+
+export type SwitchAccountInput = z.infer<typeof SwitchAccountInputSchema>;
+
+/**
+ * Output interface for switch_account tool
+ */
+export interface SwitchAccountOutput {
+  success: true;
+  /** Account tools now act as when not given one */
+  activeAccount: string;
+  message: string;
+}
+
+/**
+ * Make an account profile the active one
+ *
+ * The choice lasts until the server restarts; MCP_GSLIDES_ACCOUNT sets the
+ * account used at startup.
+ *
+ * @param input - Tool input with the profile name
+ * @returns Success confirmation with the new active account
+ * @throws {UnknownAccountError} If the profile has not been added
+ */
+export async function switchAccount(input: SwitchAccountInput): Promise<SwitchAccountOutput> {
+  // Validate input
+  const { name } = SwitchAccountInputSchema.parse(input);
+
+  await clientManager.switchAccount(name);
+
+  return {
+    success: true,
+    activeAccount: name,
+    message: `Tools now act as account ${name} unless given another account.`,
+  };
+}
+
+/**
+ * MCP tool definition for switch_account
+ */
+export const switchAccountTool = defineTool({
+  name: 'switch_account',
+  description:
+    'Make a stored Google account profile the active one, so tools act as it when not given an account argument. ' +
+    'Use list_accounts to see the profiles and add_account to sign in to a new one. ' +
+    'Applies to this client session only and lasts until the server restarts.',
+  inputSchema: SwitchAccountInputSchema,
+  annotations: {
+    title: 'Switch account',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: switchAccount,
+});
@@ -0,0 +1,437 @@
+/**
+ * apply_operations tool implementation
+ *
+ * Compiles an ordered list of high-level operations into a single atomic
+ * batchUpdate, reusing the request builders of the individual tools.
+ *
+ * Operations can name their result with `id` and later operations can refer
+ * to it in ID arguments (slideId, objectId, placeholderId, slideIds):
+ *
+ * - `$name` - the slide, shape, table, image, or text box the operation created
+ * - `$name.placeholders.TYPE` - a placeholder of a slide created by add_slide
+ *   (e.g. `$intro.placeholders.TITLE`); append `.N` for the Nth placeholder of
+ *   that type, e.g. `$cols.placeholders.BODY.1`
+ *
+ * Placeholder IDs are assigned up front through the createSlide request's
+ * placeholderIdMappings, so every reference is known before the batch runs.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import { z } from 'zod';
+import { createSlidesClient } from '../../clients/index.js';
+import { buildCreateShapeRequests, CreateShapeInputSchema } from '../content/create-shape.js';
+import { buildCreateTableRequests, CreateTableInputSchema } from '../content/create-table.js';
+import { buildInsertImageRequests, InsertImageInputSchema } from '../content/insert-image.js';
+import { buildInsertTextRequests, InsertTextInputSchema } from '../content/insert-text.js';
+import { buildReplaceTextRequests, ReplaceTextInputSchema } from '../content/replace-text.js';
+import {
+  buildCreateBulletsRequests,
+  CreateBulletsInputSchema,
+} from '../formatting/create-bullets.js';
+import {
+  buildFormatParagraphRequests,
+  FormatParagraphInputSchema,
+} from '../formatting/format-paragraph.js';
+import { buildFormatTextRequests, FormatTextInputSchema } from '../formatting/format-text.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
+import {
+  AddSlideInputSchema,
+  buildAddSlideRequests,
+  resolveSlideLayout,
+} from '../slides/add-slide.js';
+import { buildDeleteSlideRequests, DeleteSlideInputSchema } from '../slides/delete-slide.js';
+import { buildReorderSlidesRequests, ReorderSlidesInputSchema } from '../slides/reorder-slides.js';
+
+/**
+ * Fields removed from tool inputs to form operations (they apply to the whole batch)
+ */
+const BATCH_LEVEL_FIELDS = {
+  presentationId: true,
+  dryRun: true,
+  expectedRevisionId: true,
+} as const;
+
+/**
+ * Arguments that may hold a symbolic reference
+ */
+const REFERENCE_FIELDS = new Set(['slideId', 'objectId', 'placeholderId', 'slideIds']);
+
+/**
+ * Pattern of a symbolic reference: $name, $name.placeholders.TYPE, or $name.placeholders.TYPE.N
+ */
+const REFERENCE_PATTERN = /^\$([A-Za-z_][A-Za-z0-9_]*)(?:\.placeholders\.([A-Z_]+)(?:\.(\d+))?)?$/;
+
+/**
+ * Name an operation's result can be referenced by
+ */
+const OperationIdSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must start with a letter or underscore')
+  .optional()
+  .describe('Name for referencing the object this operation creates as "$name"');
+
+/**
+ * Schema for a single high-level operation
+ */
+const OperationSchema = z.discriminatedUnion('op', [
+  AddSlideInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('add_slide'),
+    id: OperationIdSchema,
+  }),
+  DeleteSlideInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('delete_slide'),
+    id: OperationIdSchema,
+  }),
+  ReorderSlidesInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('reorder_slides'),
+    id: OperationIdSchema,
+  }),
+  InsertTextInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('insert_text'),
+    id: OperationIdSchema,
+  }),
+  InsertImageInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('insert_image'),
+    id: OperationIdSchema,
+  }),
+  CreateShapeInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('create_shape'),
+    id: OperationIdSchema,
+  }),
+  CreateTableInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('create_table'),
+    id: OperationIdSchema,
+  }),
+  ReplaceTextInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('replace_text'),
+    id: OperationIdSchema,
+  }),
+  FormatTextInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('format_text'),
+    id: OperationIdSchema,
+  }),
+  FormatParagraphInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('format_paragraph'),
+    id: OperationIdSchema,
+  }),
+  CreateBulletsInputSchema.omit(BATCH_LEVEL_FIELDS).extend({
+    op: z.literal('create_bullets'),
+    id: OperationIdSchema,
+  }),
+]);
+
+export type Operation = z.infer<typeof OperationSchema>;
+
+/**
+ * Input schema for apply_operations tool
+ */
+export const ApplyOperationsInputSchema = z.object({
+  presentationId: z.string().describe('The presentation ID'),
+  operations: z
+    .array(OperationSchema)
+    .min(1)
+    .max(100)
+    .describe(
+      'Operations to apply in order. Each has an "op" (tool name) plus that tool\'s arguments without presentationId. ' +
+        'Name results with "id" and reference them in slideId/objectId/placeholderId/slideIds as "$name" or "$name.placeholders.TITLE".'
+    ),
+  ...MutationOptionsSchema.shape,
+});
+
+export type ApplyOperationsInput = z.infer<typeof ApplyOperationsInputSchema>;
+
+/**
+ * Output interface for apply_operations tool
+ */
+export interface ApplyOperationsOutput extends RevisionOutput {
+  applied: true;
+  operationCount: number;
+  requestCount: number;
+  /** Object ID of every named reference (e.g. "intro", "intro.placeholders.TITLE") */
+  references: Record<string, string>;
+}
+
+/**
+ * Error thrown when an operation list cannot be compiled
+ */
+export class OperationCompileError extends Error {
+  constructor(
+    public readonly operationIndex: number,
+    message: string
+  ) {
+    super(`Operation ${operationIndex}: ${message}`);
+    this.name = 'OperationCompileError';
+  }
+}
+
+/**
+ * Placeholder reference key, e.g. "intro.placeholders.BODY.1"
+ *
+ * @param name - The add_slide operation's id
+ * @param type - Placeholder type
+ * @param index - Index among placeholders of the same type
+ * @returns The reference key
+ */
+function placeholderKey(name: string, type: string, index: number): string {
+  return index === 0 ? `${name}.placeholders.${type}` : `${name}.placeholders.${type}.${index}`;
+}
+
+/**
+ * Collect the placeholders each named add_slide operation must expose
+ *
+ * @param operations - The operations
+ * @returns Placeholder type and index lists keyed by operation id
+ */
+function collectPlaceholderReferences(
+  operations: Operation[]
+): Map<string, Array<{ type: string; index: number }>> {
+  const needed = new Map<string, Array<{ type: string; index: number }>>();
+
+  for (const op of operations) {
+    for (const [field, value] of Object.entries(op)) {
+      if (!REFERENCE_FIELDS.has(field)) continue;
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        const match = typeof item === 'string' ? REFERENCE_PATTERN.exec(item) : null;
+        if (!match?.[1] || !match[2]) continue;
+
+        const list = needed.get(match[1]) ?? [];
+        const index = match[3] ? parseInt(match[3], 10) : 0;
+        if (!list.some((p) => p.type === match[2] && p.index === index)) {
+          list.push({ type: match[2], index });
+        }
+        needed.set(match[1], list);
+      }
+    }
+  }
+
+  return needed;
+}
+
+/**
+ * Replace symbolic references in an operation's ID arguments
+ *
+ * @param op - The operation
+ * @param operationIndex - Position of the operation (for error messages)
+ * @param references - References defined by earlier operations
+ * @returns The operation with references resolved
+ * @throws {OperationCompileError} If a reference is unknown
+ */
+function resolveReferences<T extends Operation>(
+  op: T,
+  operationIndex: number,
+  references: Record<string, string>
+): T {
+  const resolve = (value: unknown): unknown => {
+    if (typeof value !== 'string' || !value.startsWith('$')) {
+      return value;
+    }
+
+    const match = REFERENCE_PATTERN.exec(value);
+    if (!match?.[1]) {
+      throw new OperationCompileError(operationIndex, `Invalid reference: ${value}`);
+    }
+
+    const key = match[2]
+      ? placeholderKey(match[1], match[2], match[3] ? parseInt(match[3], 10) : 0)
+      : match[1];
+    const objectId = references[key];
+    if (!objectId) {
+      throw new OperationCompileError(
+        operationIndex,
+        `Unknown reference ${value} (references must point to earlier operations)`
+      );
+    }
+    return objectId;
+  };
+
+  const resolved: Record<string, unknown> = { ...op };
+  for (const field of REFERENCE_FIELDS) {
+    const value = resolved[field];
+    if (value !== undefined) {
+      resolved[field] = Array.isArray(value) ? value.map(resolve) : resolve(value);
+    }
+  }
+  return resolved as T;
+}
+
+/**
+ * Build the requests for one operation
+ *
+ * @param op - The operation with references resolved
+ * @returns The requests and the ID of the object the operation creates or targets
+ */
+function buildOperationRequests(op: Operation): {
+  objectId?: string;
+  requests: slides_v1.Schema$Request[];
+} {
+  switch (op.op) {
+    case 'add_slide': {
+      const { slideId, requests } = buildAddSlideRequests(op);
+      return { objectId: slideId, requests };
+    }
+    case 'delete_slide':
+      return buildDeleteSlideRequests(op);
+    case 'reorder_slides':
+      return buildReorderSlidesRequests(op);
+    case 'insert_text':
+      return buildInsertTextRequests(op);
+    case 'insert_image': {
+      const { imageId, requests } = buildInsertImageRequests(op);
+      return { objectId: imageId, requests };
+    }
+    case 'create_shape': {
+      const { shapeId, requests } = buildCreateShapeRequests(op);
+      return { objectId: shapeId, requests };
+    }
+    case 'create_table': {
+      const { tableId, requests } = buildCreateTableRequests(op);
+      return { objectId: tableId, requests };
+    }
+    case 'replace_text':
+      return { objectId: op.objectId, ...buildReplaceTextRequests(op) };
+    case 'format_text':
+      return { objectId: op.objectId, ...buildFormatTextRequests(op) };
+    case 'format_paragraph':
+      return { objectId: op.objectId, ...buildFormatParagraphRequests(op) };
+    case 'create_bullets':
+      return { objectId: op.objectId, ...buildCreateBulletsRequests(op) };
+  }
+}
+
+/**
+ * Compile operations into batchUpdate requests
+ *
+ * @param operations - Validated operations in order
+ * @returns The requests and the object ID of every named reference
+ * @throws {OperationCompileError} If an id is reused or a reference cannot be resolved
+ * @throws {Error} If an operation's arguments are inconsistent (same checks as the tool)
+ */
+export function compileOperations(operations: Operation[]): {
+  requests: slides_v1.Schema$Request[];
+  references: Record<string, string>;
+} {
+  const placeholderReferences = collectPlaceholderReferences(operations);
+  const references: Record<string, string> = {};
+  const requests: slides_v1.Schema$Request[] = [];
+
+  operations.forEach((rawOp, index) => {
+    const op = resolveReferences(rawOp, index, references);
+
+    if (op.id && op.id in references) {
+      throw new OperationCompileError(index, `Duplicate id: ${op.id}`);
+    }
+
+    // Assign IDs to the placeholders later operations refer to
+    const placeholders = op.id ? (placeholderReferences.get(op.id) ?? []) : [];
+    if (placeholders.length > 0 && (op.op !== 'add_slide' || !resolveSlideLayout(op.layout))) {
+      throw new OperationCompileError(
+        index,
+        `Placeholders of "${op.id}" are referenced, but it is not an add_slide operation with a layout`
+      );
+    }
+
+    let built: ReturnType<typeof buildOperationRequests>;
+    try {
+      built = buildOperationRequests(op);
+    } catch (error) {
+      throw new OperationCompileError(index, (error as Error).message);
+    }
+
+    if (op.id) {
+      const name = op.id;
+      if (!built.objectId) {
+        throw new OperationCompileError(index, `${op.op} does not produce an object to reference`);
+      }
+      references[name] = built.objectId;
+
+      // Placeholder IDs derive from the generated slide ID
+      const createSlide = built.requests[0]?.createSlide;
+      if (createSlide && placeholders.length > 0) {
+        createSlide.placeholderIdMappings = placeholders.map(
+          ({ type, index: placeholderIndex }) => {
+            const objectId = `${built.objectId}_${type}_${placeholderIndex}`;
+            references[placeholderKey(name, type, placeholderIndex)] = objectId;
+            return { layoutPlaceholder: { type, index: placeholderIndex }, objectId };
+          }
+        );
+      }
+    }
+
+    requests.push(...built.requests);
+  });
+
+  return { requests, references };
+}
+
+/**
+ * Apply several operations to a presentation in one atomic batchUpdate
+ *
+ * @param input - Tool input containing presentation ID and operations
+ * @returns Counts and the object IDs of named references
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ * @throws {OperationCompileError} If the operations cannot be compiled
+ */
+export async function applyOperations(
+  input: ApplyOperationsInput
+): Promise<ApplyOperationsOutput | (DryRunOutput & Pick<ApplyOperationsOutput, 'references'>)> {
+  // Validate input
+  const validatedInput = ApplyOperationsInputSchema.parse(input);
+
+  // Compile every operation into one request list
+  const { requests, references } = compileOperations(validatedInput.operations);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return { ...dryRunResult(requests), references };
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
+  // Execute the batch update (all operations succeed or none do)
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
+
+  // Return the result
+  return {
+    applied: true,
+    operationCount: validatedInput.operations.length,
+    requestCount: requests.length,
+    references,
+    revisionId: revisionIdOf(response),
+  };
+}
+
+/**
+ * MCP tool definition for apply_operations
+ */
+export const applyOperationsTool = defineTool({
+  name: 'apply_operations',
+  description:
+    'Apply several slide operations (add_slide, insert_text, create_shape, format_text, create_bullets, ...) atomically in one request. ' +
+    'Later operations can reference objects created by earlier ones, e.g. "$intro" or "$intro.placeholders.TITLE".',
+  inputSchema: ApplyOperationsInputSchema,
+  annotations: {
+    title: 'Apply operations',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: applyOperations,
+});
@@ -0,0 +1,122 @@
+/**
+ * batch_update tool implementation
+ *
+ * Escape hatch for changes the curated tools don't cover: sends raw Slides
+ * API requests to batchUpdate after validating them against the request
+ * types in request-schema.ts, and returns the API's replies.
+ *
+ * Deployments that only want the curated tools can remove it with
+ * MCP_GSLIDES_DISABLE_BATCH_UPDATE=true.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import { z } from 'zod';
+import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
+import { SlidesRequestSchema, SUPPORTED_REQUEST_TYPES } from './request-schema.js';
+
+/**
+ * Input schema for batch_update tool
+ */
+export const BatchUpdateInputSchema = z.object({
+  presentationId: z.string().describe('The ID of the presentation to update'),
+  requests: z
+    .array(SlidesRequestSchema)
+    .min(1)
+    .max(500)
+    .describe(
+      'Slides API requests applied in order, each an object with exactly one request type key ' +
+        `(supported: ${SUPPORTED_REQUEST_TYPES.join(', ')})`
+    ),
+  ...MutationOptionsSchema.shape,
+});
+
+export type BatchUpdateInput = z.infer<typeof BatchUpdateInputSchema>;
+
+/**
+ * Output from batch_update tool
+ */
+export interface BatchUpdateOutput extends RevisionOutput {
+  /** Number of requests applied */
+  requestCount: number;
+  /** One reply per request, in order (empty objects for requests without a reply) */
+  replies: slides_v1.Schema$Response[];
+}
+
+/**
+ * Check whether the batch_update tool is enabled
+ *
+ * @returns false when MCP_GSLIDES_DISABLE_BATCH_UPDATE is "true" or "1"
+ */
+export function isBatchUpdateEnabled(): boolean {
+  const value = process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE?.trim().toLowerCase();
+  return value !== 'true' && value !== '1';
+}
+
+/**
+ * Apply raw Slides API requests to a presentation
+ *
+ * @param input - Tool input containing presentation ID and requests
+ * @returns The replies returned by the API
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {PermissionDeniedError} If user lacks edit access
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function batchUpdate(
+  input: BatchUpdateInput
+): Promise<BatchUpdateOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = BatchUpdateInputSchema.parse(input);
+  const requests = validatedInput.requests as slides_v1.Schema$Request[];
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
+  // Execute the batch update (all requests succeed or none do)
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
+
+  // Return the result
+  return {
+    requestCount: requests.length,
+    replies: response.replies ?? [],
+    revisionId: revisionIdOf(response),
+  };
+}
+
+/**
+ * MCP tool definition for batch_update
+ */
+export const batchUpdateTool = defineTool({
+  name: 'batch_update',
+  description:
+    'Send raw Google Slides API batchUpdate requests for changes the other tools do not cover. ' +
+    'Requests are validated before sending and applied atomically; returns the API replies.',
+  inputSchema: BatchUpdateInputSchema,
+  annotations: {
+    title: 'Batch update (raw requests)',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: batchUpdate,
+});
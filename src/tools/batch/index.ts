@@ -0,0 +1,68 @@
+/**
+ * Batch tools
+ *
+ * MCP tools that apply several changes to a presentation in one request.
+ */
+
+import {
+  type ApplyOperationsInput,
+  ApplyOperationsInputSchema,
+  type ApplyOperationsOutput,
+  applyOperations,
+  applyOperationsTool,
+  compileOperations,
+  type Operation,
+  OperationCompileError,
+} from './apply-operations.js';
+import {
+  type BatchUpdateInput,
+  BatchUpdateInputSchema,
+  type BatchUpdateOutput,
+  batchUpdate,
+  batchUpdateTool,
+  isBatchUpdateEnabled,
+} from './batch-update.js';
+import {
+  type SlidesRequest,
+  SlidesRequestSchema,
+  SUPPORTED_REQUEST_TYPES,
+} from './request-schema.js';
+
+/**
+ * Export all batch tool implementations
+ */
+export {
+  applyOperations,
+  batchUpdate,
+  compileOperations,
+  isBatchUpdateEnabled,
+  OperationCompileError,
+  SUPPORTED_REQUEST_TYPES,
+};
+
+/**
+ * Export all batch tool types
+ */
+export type {
+  ApplyOperationsInput,
+  ApplyOperationsOutput,
+  BatchUpdateInput,
+  BatchUpdateOutput,
+  Operation,
+  SlidesRequest,
+};
+
+/**
+ * Export all batch tool schemas
+ */
+export { ApplyOperationsInputSchema, BatchUpdateInputSchema, SlidesRequestSchema };
+
+/**
+ * MCP tool definitions for batch operations
+ *
+ * batch_update is left out when disabled through MCP_GSLIDES_DISABLE_BATCH_UPDATE.
+ */
+export const batchTools = [
+  applyOperationsTool,
+  ...(isBatchUpdateEnabled() ? [batchUpdateTool] : []),
+];
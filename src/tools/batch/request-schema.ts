@@ -0,0 +1,365 @@
+/**
+ * Zod model of the Slides API batchUpdate requests accepted by batch_update
+ *
+ * Each request is an object with exactly one supported request type as its
+ * key. Identifiers, geometry, ranges, and field masks are validated here;
+ * nested style and property objects (textStyle, shapeProperties, ...) are
+ * passed through for the API to validate against the field mask.
+ */
+
+import { z } from 'zod';
+
+const ObjectIdSchema = z.string().min(1).describe('Object ID');
+
+/**
+ * Object IDs chosen by the caller must follow the API's format rules
+ */
+const NewObjectIdSchema = z
+  .string()
+  .regex(
+    /^[a-zA-Z0-9_][a-zA-Z0-9_\-:]{4,49}$/,
+    'Must be 5-50 characters: letters, digits, "_", "-", or ":" (not starting with "-" or ":")'
+  )
+  .optional()
+  .describe('ID for the new object (generated by the API when omitted)');
+
+const FieldsSchema = z.string().min(1).describe('Field mask, e.g. "bold,fontSize" or "*"');
+
+const PropertiesSchema = z.record(z.unknown());
+
+const DimensionSchema = z
+  .object({
+    magnitude: z.number(),
+    unit: z.enum(['EMU', 'PT']),
+  })
+  .strict();
+
+const SizeSchema = z
+  .object({
+    width: DimensionSchema.optional(),
+    height: DimensionSchema.optional(),
+  })
+  .strict();
+
+const AffineTransformSchema = z
+  .object({
+    scaleX: z.number().optional(),
+    scaleY: z.number().optional(),
+    shearX: z.number().optional(),
+    shearY: z.number().optional(),
+    translateX: z.number().optional(),
+    translateY: z.number().optional(),
+    unit: z.enum(['EMU', 'PT']),
+  })
+  .strict();
+
+const PageElementPropertiesSchema = z
+  .object({
+    pageObjectId: ObjectIdSchema,
+    size: SizeSchema.optional(),
+    transform: AffineTransformSchema.optional(),
+  })
+  .strict();
+
+const RangeSchema = z
+  .object({
+    type: z.enum(['ALL', 'FIXED_RANGE', 'FROM_START_INDEX']),
+    startIndex: z.number().int().nonnegative().optional(),
+    endIndex: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .refine(
+    (range) =>
+      range.type !== 'FIXED_RANGE' ||
+      (range.startIndex !== undefined && range.endIndex !== undefined),
+    { message: 'FIXED_RANGE requires startIndex and endIndex' }
+  )
+  .refine((range) => range.type !== 'FROM_START_INDEX' || range.startIndex !== undefined, {
+    message: 'FROM_START_INDEX requires startIndex',
+  });
+
+const TableCellLocationSchema = z
+  .object({
+    rowIndex: z.number().int().nonnegative(),
+    columnIndex: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const TableRangeSchema = z
+  .object({
+    location: TableCellLocationSchema,
+    rowSpan: z.number().int().positive(),
+    columnSpan: z.number().int().positive(),
+  })
+  .strict();
+
+const LayoutPlaceholderSchema = z
+  .object({
+    type: z.string().min(1),
+    index: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+/**
+ * Schemas of every supported request type, keyed by request name
+ */
+const REQUEST_TYPES = {
+  createSlide: z
+    .object({
+      objectId: NewObjectIdSchema,
+      insertionIndex: z.number().int().nonnegative().optional(),
+      slideLayoutReference: z
+        .object({
+          predefinedLayout: z.string().optional(),
+          layoutId: z.string().optional(),
+        })
+        .strict()
+        .optional(),
+      placeholderIdMappings: z
+        .array(
+          z
+            .object({
+              objectId: NewObjectIdSchema,
+              layoutPlaceholder: LayoutPlaceholderSchema.optional(),
+              layoutPlaceholderObjectId: z.string().optional(),
+            })
+            .strict()
+        )
+        .optional(),
+    })
+    .strict(),
+  createShape: z
+    .object({
+      objectId: NewObjectIdSchema,
+      shapeType: z.string().min(1),
+      elementProperties: PageElementPropertiesSchema,
+    })
+    .strict(),
+  createTable: z
+    .object({
+      objectId: NewObjectIdSchema,
+      rows: z.number().int().positive(),
+      columns: z.number().int().positive(),
+      elementProperties: PageElementPropertiesSchema,
+    })
+    .strict(),
+  createImage: z
+    .object({
+      objectId: NewObjectIdSchema,
+      url: z.string().url(),
+      elementProperties: PageElementPropertiesSchema,
+    })
+    .strict(),
+  createLine: z
+    .object({
+      objectId: NewObjectIdSchema,
+      category: z.enum(['STRAIGHT', 'BENT', 'CURVED']).optional(),
+      lineCategory: z.enum(['STRAIGHT', 'BENT', 'CURVED']).optional(),
+      elementProperties: PageElementPropertiesSchema,
+    })
+    .strict(),
+  duplicateObject: z
+    .object({
+      objectId: ObjectIdSchema,
+      objectIds: z.record(z.string()).optional(),
+    })
+    .strict(),
+  deleteObject: z.object({ objectId: ObjectIdSchema }).strict(),
+  insertText: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      text: z.string(),
+      insertionIndex: z.number().int().nonnegative().optional(),
+    })
+    .strict(),
+  deleteText: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      textRange: RangeSchema,
+    })
+    .strict(),
+  replaceAllText: z
+    .object({
+      replaceText: z.string(),
+      containsText: z
+        .object({
+          text: z.string().min(1),
+          matchCase: z.boolean().optional(),
+        })
+        .strict(),
+      pageObjectIds: z.array(ObjectIdSchema).optional(),
+    })
+    .strict(),
+  updateTextStyle: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      textRange: RangeSchema.optional(),
+      style: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updateParagraphStyle: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      textRange: RangeSchema.optional(),
+      style: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  createParagraphBullets: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      textRange: RangeSchema.optional(),
+      bulletPreset: z.string().optional(),
+    })
+    .strict(),
+  deleteParagraphBullets: z
+    .object({
+      objectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema.optional(),
+      textRange: RangeSchema.optional(),
+    })
+    .strict(),
+  updateShapeProperties: z
+    .object({
+      objectId: ObjectIdSchema,
+      shapeProperties: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updateImageProperties: z
+    .object({
+      objectId: ObjectIdSchema,
+      imageProperties: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updateLineProperties: z
+    .object({
+      objectId: ObjectIdSchema,
+      lineProperties: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updatePageProperties: z
+    .object({
+      objectId: ObjectIdSchema,
+      pageProperties: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updateTableCellProperties: z
+    .object({
+      objectId: ObjectIdSchema,
+      tableRange: TableRangeSchema.optional(),
+      tableCellProperties: PropertiesSchema,
+      fields: FieldsSchema,
+    })
+    .strict(),
+  updatePageElementTransform: z
+    .object({
+      objectId: ObjectIdSchema,
+      transform: AffineTransformSchema,
+      applyMode: z.enum(['RELATIVE', 'ABSOLUTE']),
+    })
+    .strict(),
+  updatePageElementAltText: z
+    .object({
+      objectId: ObjectIdSchema,
+      title: z.string().optional(),
+      description: z.string().optional(),
+    })
+    .strict(),
+  updateSlidesPosition: z
+    .object({
+      slideObjectIds: z.array(ObjectIdSchema).min(1),
+      insertionIndex: z.number().int().nonnegative(),
+    })
+    .strict(),
+  insertTableRows: z
+    .object({
+      tableObjectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema,
+      insertBelow: z.boolean().optional(),
+      number: z.number().int().positive().optional(),
+    })
+    .strict(),
+  insertTableColumns: z
+    .object({
+      tableObjectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema,
+      insertRight: z.boolean().optional(),
+      number: z.number().int().positive().optional(),
+    })
+    .strict(),
+  deleteTableRow: z
+    .object({
+      tableObjectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema,
+    })
+    .strict(),
+  deleteTableColumn: z
+    .object({
+      tableObjectId: ObjectIdSchema,
+      cellLocation: TableCellLocationSchema,
+    })
+    .strict(),
+  mergeTableCells: z
+    .object({
+      objectId: ObjectIdSchema,
+      tableRange: TableRangeSchema,
+    })
+    .strict(),
+  unmergeTableCells: z
+    .object({
+      objectId: ObjectIdSchema,
+      tableRange: TableRangeSchema,
+    })
+    .strict(),
+  groupObjects: z
+    .object({
+      groupObjectId: NewObjectIdSchema,
+      childrenObjectIds: z.array(ObjectIdSchema).min(2),
+    })
+    .strict(),
+  ungroupObjects: z
+    .object({
+      objectIds: z.array(ObjectIdSchema).min(1),
+    })
+    .strict(),
+  replaceImage: z
+    .object({
+      imageObjectId: ObjectIdSchema,
+      url: z.string().url(),
+      imageReplaceMethod: z.enum(['CENTER_INSIDE', 'CENTER_CROP']).optional(),
+    })
+    .strict(),
+};
+
+/**
+ * Names of the supported request types
+ */
+export const SUPPORTED_REQUEST_TYPES = Object.keys(REQUEST_TYPES) as Array<
+  keyof typeof REQUEST_TYPES
+>;
+
+/**
+ * A single batchUpdate request: exactly one supported request type
+ */
+export const SlidesRequestSchema = z
+  .object(
+    Object.fromEntries(
+      Object.entries(REQUEST_TYPES).map(([name, schema]) => [name, schema.optional()])
+    ) as { [K in keyof typeof REQUEST_TYPES]: z.ZodOptional<(typeof REQUEST_TYPES)[K]> }
+  )
+  .strict()
+  .refine((request) => Object.values(request).filter((value) => value !== undefined).length === 1, {
+    message: 'Each request must contain exactly one request type',
+  });
+
+export type SlidesRequest = z.infer<typeof SlidesRequestSchema>;
@@ -0,0 +1,33 @@
+/**
+ * Configuration tools
+ *
+ * MCP tool that reports the settings loaded from config.json files.
+ */
+
+import {
+  type GetConfigInput,
+  GetConfigInputSchema,
+  type GetConfigOutput,
+  getConfig,
+  getConfigTool,
+} from './get-config.js';
+
+/**
+ * Export all configuration tool implementations
+ */
+export { getConfig };
+
+/**
+ * Export all configuration tool types
+ */
+export type { GetConfigInput, GetConfigOutput };
+
+/**
+ * Export all configuration tool schemas
+ */
+export { GetConfigInputSchema };
+
+/**
+ * MCP tool definitions for configuration
+ */
+export const configTools = [getConfigTool];
@@ -4,11 +4,24 @@
  * Creates a shape on a slide with optional fill color and text.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { getConfig } from '../../config/index.js';
 import type { Position } from '../../types/common.js';
 import { parseColor } from '../../utils/colors.js';
-import { inchesToEmu } from '../../utils/emu.js';
+import { toEmu } from '../../utils/emu.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
+import { buildDefaultTextStyleRequest } from './text-defaults.js';
 
 /**
  * Input schema for create_shape tool
@@ -53,14 +66,20 @@ export const CreateShapeInputSchema = z.object({
     .describe('The type of shape to create'),
   position: z
     .object({
-      x: z.number().describe('Left edge in inches'),
-      y: z.number().describe('Top edge in inches'),
-      width: z.number().describe('Width in inches'),
-      height: z.number().describe('Height in inches'),
+      x: z.number().describe('Left edge in inches (or the units set in config.json)'),
+      y: z.number().describe('Top edge in inches (or the units set in config.json)'),
+      width: z.number().describe('Width in inches (or the units set in config.json)'),
+      height: z.number().describe('Height in inches (or the units set in config.json)'),
     })
     .describe('Position and size for the shape'),
-  fillColor: z.string().optional().describe("Fill color as hex (e.g., '#FF5733') or color name"),
+  fillColor: z
+    .string()
+    .optional()
+    .describe(
+      "Fill color as hex (e.g., '#FF5733') or color name. Omit for the configured default."
+    ),
   text: z.string().optional().describe('Optional text to place inside the shape'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type CreateShapeInput = z.infer<typeof CreateShapeInputSchema>;
@@ -68,7 +87,7 @@ export type CreateShapeInput = z.infer<typeof CreateShapeInputSchema>;
 /**
  * Output interface for create_shape tool
  */
-export interface CreateShapeOutput {
+export interface CreateShapeOutput extends RevisionOutput {
   shapeId: string;
 }
 
@@ -87,37 +106,34 @@ function generateObjectId(): string {
 }
 
 /**
- * Create a shape on a slide
+ * Build the requests that create a shape
  *
- * @param input - Tool input containing presentation ID, slide ID, shape type, position, optional fill color and text
- * @returns Shape ID
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
- * @throws {ColorParseError} If fill color format is invalid
+ * @param input - Slide, shape type, position, and optional fill color and text
+ * @returns The generated shape ID and the requests
  */
-export async function createShape(input: CreateShapeInput): Promise<CreateShapeOutput> {
-  // Validate input
-  const validatedInput = CreateShapeInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildCreateShapeRequests(input: RequestBuilderInput<CreateShapeInput>): {
+  shapeId: string;
+  requests: slides_v1.Schema$Request[];
+} {
   // Generate unique object ID for the shape
   const shapeId = generateObjectId();
-  const position: Position = validatedInput.position;
+  const position: Position = input.position;
 
-  // Convert position from inches to EMU
+  // Convert position from the configured units to EMU
+  const {
+    units,
+    defaults: { shape: defaults },
+  } = getConfig();
   const sizeEmu = {
-    width: { magnitude: inchesToEmu(position.width), unit: 'EMU' },
-    height: { magnitude: inchesToEmu(position.height), unit: 'EMU' },
+    width: { magnitude: toEmu(position.width, units), unit: 'EMU' },
+    height: { magnitude: toEmu(position.height, units), unit: 'EMU' },
   };
 
   const transformEmu = {
     scaleX: 1,
     scaleY: 1,
-    translateX: inchesToEmu(position.x),
-    translateY: inchesToEmu(position.y),
+    translateX: toEmu(position.x, units),
+    translateY: toEmu(position.y, units),
     unit: 'EMU',
   };
 
@@ -125,9 +141,9 @@ export async function createShape(input: CreateShapeInput): Promise<CreateShapeO
   const createShapeRequest: any = {
     createShape: {
       objectId: shapeId,
-      shapeType: validatedInput.shapeType,
+      shapeType: input.shapeType,
       elementProperties: {
-        pageObjectId: validatedInput.slideId,
+        pageObjectId: input.slideId,
         size: sizeEmu,
         transform: transformEmu,
       },
@@ -137,9 +153,10 @@ export async function createShape(input: CreateShapeInput): Promise<CreateShapeO
   // Collect all requests to batch
   const requests: any[] = [createShapeRequest];
 
-  // Add fill color if provided
-  if (validatedInput.fillColor) {
-    const rgbColor = parseColor(validatedInput.fillColor);
+  // Add fill color if provided, else the default from config.json
+  const fillColor = input.fillColor ?? defaults.fillColor;
+  if (fillColor) {
+    const rgbColor = parseColor(fillColor);
 
     const updateShapePropertiesRequest = {
       updateShapeProperties: {
@@ -161,23 +178,82 @@ export async function createShape(input: CreateShapeInput): Promise<CreateShapeO
   }
 
   // Add text if provided
-  if (validatedInput.text) {
+  if (input.text) {
     const insertTextRequest = {
       insertText: {
         objectId: shapeId,
-        text: validatedInput.text,
+        text: input.text,
         insertionIndex: 0,
       },
     };
 
     requests.push(insertTextRequest);
+
+    // Apply the default text style from config.json
+    const styleRequest = buildDefaultTextStyleRequest(shapeId, defaults);
+    if (styleRequest) {
+      requests.push(styleRequest);
+    }
+  }
+
+  return { shapeId, requests };
+}
+
+/**
+ * Create a shape on a slide
+ *
+ * @param input - Tool input containing presentation ID, slide ID, shape type, position, optional fill color and text
+ * @returns Shape ID
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ * @throws {ColorParseError} If fill color format is invalid
+ */
+export async function createShape(
+  input: CreateShapeInput
+): Promise<CreateShapeOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = CreateShapeInputSchema.parse(input);
+
+  // Build the requests
+  const { shapeId, requests } = buildCreateShapeRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
   }
 
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the shape ID
   return {
     shapeId,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for create_shape
+ */
+export const createShapeTool = defineTool({
+  name: 'create_shape',
+  description: 'Create a shape on a slide',
+  inputSchema: CreateShapeInputSchema,
+  annotations: {
+    title: 'Create shape',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: createShape,
+});
@@ -4,10 +4,22 @@
  * Creates a table on a slide with optional data population.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { getConfig } from '../../config/index.js';
 import type { Position } from '../../types/common.js';
-import { inchesToEmu } from '../../utils/emu.js';
+import { toEmu } from '../../utils/emu.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for create_table tool
@@ -19,16 +31,17 @@ export const CreateTableInputSchema = z.object({
   columns: z.number().int().min(1).max(20).describe('Number of columns (1-20)'),
   position: z
     .object({
-      x: z.number().describe('Left edge in inches'),
-      y: z.number().describe('Top edge in inches'),
-      width: z.number().describe('Width in inches'),
-      height: z.number().describe('Height in inches'),
+      x: z.number().describe('Left edge in inches (or the units set in config.json)'),
+      y: z.number().describe('Top edge in inches (or the units set in config.json)'),
+      width: z.number().describe('Width in inches (or the units set in config.json)'),
+      height: z.number().describe('Height in inches (or the units set in config.json)'),
     })
     .describe('Position and size for the table'),
   data: z
     .array(z.array(z.string()))
     .optional()
     .describe('Table data as 2D array of strings (row-major order)'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type CreateTableInput = z.infer<typeof CreateTableInputSchema>;
@@ -36,7 +49,7 @@ export type CreateTableInput = z.infer<typeof CreateTableInputSchema>;
 /**
  * Output interface for create_table tool
  */
-export interface CreateTableOutput {
+export interface CreateTableOutput extends RevisionOutput {
   tableId: string;
 }
 
@@ -55,54 +68,47 @@ function generateObjectId(): string {
 }
 
 /**
- * Create a table on a slide
+ * Build the requests that create and populate a table
  *
- * @param input - Tool input containing presentation ID, slide ID, rows, columns, position, and optional data
- * @returns Table ID
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param input - Slide, dimensions, position, and optional cell data
+ * @returns The generated table ID and the requests
  */
-export async function createTable(input: CreateTableInput): Promise<CreateTableOutput> {
-  // Validate input
-  const validatedInput = CreateTableInputSchema.parse(input);
-
+export function buildCreateTableRequests(input: RequestBuilderInput<CreateTableInput>): {
+  tableId: string;
+  requests: slides_v1.Schema$Request[];
+} {
   // Validate data dimensions if provided
-  if (validatedInput.data) {
-    if (validatedInput.data.length > validatedInput.rows) {
-      throw new Error(
-        `Data has ${validatedInput.data.length} rows but table has ${validatedInput.rows} rows`
-      );
+  if (input.data) {
+    if (input.data.length > input.rows) {
+      throw new Error(`Data has ${input.data.length} rows but table has ${input.rows} rows`);
     }
 
-    for (let i = 0; i < validatedInput.data.length; i++) {
-      const row = validatedInput.data[i];
-      if (row && row.length > validatedInput.columns) {
+    for (let i = 0; i < input.data.length; i++) {
+      const row = input.data[i];
+      if (row && row.length > input.columns) {
         throw new Error(
-          `Data row ${i} has ${row.length} columns but table has ${validatedInput.columns} columns`
+          `Data row ${i} has ${row.length} columns but table has ${input.columns} columns`
         );
       }
     }
   }
 
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
   // Generate unique object ID for the table
   const tableId = generateObjectId();
-  const position: Position = validatedInput.position;
+  const position: Position = input.position;
 
-  // Convert position from inches to EMU
+  // Convert position from the configured units to EMU
+  const { units } = getConfig();
   const sizeEmu = {
-    width: { magnitude: inchesToEmu(position.width), unit: 'EMU' },
-    height: { magnitude: inchesToEmu(position.height), unit: 'EMU' },
+    width: { magnitude: toEmu(position.width, units), unit: 'EMU' },
+    height: { magnitude: toEmu(position.height, units), unit: 'EMU' },
   };
 
   const transformEmu = {
     scaleX: 1,
     scaleY: 1,
-    translateX: inchesToEmu(position.x),
-    translateY: inchesToEmu(position.y),
+    translateX: toEmu(position.x, units),
+    translateY: toEmu(position.y, units),
     unit: 'EMU',
   };
 
@@ -110,10 +116,10 @@ export async function createTable(input: CreateTableInput): Promise<CreateTableO
   const createTableRequest: any = {
     createTable: {
       objectId: tableId,
-      rows: validatedInput.rows,
-      columns: validatedInput.columns,
+      rows: input.rows,
+      columns: input.columns,
       elementProperties: {
-        pageObjectId: validatedInput.slideId,
+        pageObjectId: input.slideId,
         size: sizeEmu,
         transform: transformEmu,
       },
@@ -124,16 +130,12 @@ export async function createTable(input: CreateTableInput): Promise<CreateTableO
   const requests: any[] = [createTableRequest];
 
   // Add InsertTextRequest for each cell with data
-  if (validatedInput.data) {
-    for (let rowIndex = 0; rowIndex < validatedInput.data.length; rowIndex++) {
-      const row = validatedInput.data[rowIndex];
+  if (input.data) {
+    for (let rowIndex = 0; rowIndex < input.data.length; rowIndex++) {
+      const row = input.data[rowIndex];
       if (!row) continue; // Skip undefined rows
 
-      for (
-        let colIndex = 0;
-        colIndex < row.length && colIndex < validatedInput.columns;
-        colIndex++
-      ) {
+      for (let colIndex = 0; colIndex < row.length && colIndex < input.columns; colIndex++) {
         const cellText = row[colIndex];
         if (cellText) {
           // Skip empty strings
@@ -155,11 +157,63 @@ export async function createTable(input: CreateTableInput): Promise<CreateTableO
     }
   }
 
+  return { tableId, requests };
+}
+
+/**
+ * Create a table on a slide
+ *
+ * @param input - Tool input containing presentation ID, slide ID, rows, columns, position, and optional data
+ * @returns Table ID
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function createTable(
+  input: CreateTableInput
+): Promise<CreateTableOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = CreateTableInputSchema.parse(input);
+
+  // Build the requests
+  const { tableId, requests } = buildCreateTableRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the table ID
   return {
     tableId,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for create_table
+ */
+export const createTableTool = defineTool({
+  name: 'create_table',
+  description: 'Create a table on a slide',
+  inputSchema: CreateTableInputSchema,
+  annotations: {
+    title: 'Create table',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: createTable,
+});
@@ -4,10 +4,22 @@
  * Inserts an image from a URL onto a slide.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { getConfig } from '../../config/index.js';
 import type { Position } from '../../types/common.js';
-import { inchesToEmu } from '../../utils/emu.js';
+import { toEmu } from '../../utils/emu.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for insert_image tool
@@ -18,13 +30,14 @@ export const InsertImageInputSchema = z.object({
   imageUrl: z.string().url().describe('URL of the image to insert (must be publicly accessible)'),
   position: z
     .object({
-      x: z.number().describe('Left edge in inches'),
-      y: z.number().describe('Top edge in inches'),
-      width: z.number().describe('Width in inches'),
-      height: z.number().describe('Height in inches'),
+      x: z.number().describe('Left edge in inches (or the units set in config.json)'),
+      y: z.number().describe('Top edge in inches (or the units set in config.json)'),
+      width: z.number().describe('Width in inches (or the units set in config.json)'),
+      height: z.number().describe('Height in inches (or the units set in config.json)'),
     })
     .describe('Position and size for the image'),
   altText: z.string().optional().describe('Alt text for accessibility'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type InsertImageInput = z.infer<typeof InsertImageInputSchema>;
@@ -32,7 +45,7 @@ export type InsertImageInput = z.infer<typeof InsertImageInputSchema>;
 /**
  * Output interface for insert_image tool
  */
-export interface InsertImageOutput {
+export interface InsertImageOutput extends RevisionOutput {
   imageId: string;
   actualSize: {
     width: number;
@@ -55,37 +68,31 @@ function generateObjectId(): string {
 }
 
 /**
- * Insert an image from a URL onto a slide
+ * Build the requests that insert an image
  *
- * @param input - Tool input containing presentation ID, slide ID, image URL, position, and optional alt text
- * @returns Image ID and actual size in inches
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
- * @throws {Error} If image URL is not accessible
+ * @param input - Slide, image URL, and position
+ * @returns The generated image ID and the requests
  */
-export async function insertImage(input: InsertImageInput): Promise<InsertImageOutput> {
-  // Validate input
-  const validatedInput = InsertImageInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildInsertImageRequests(input: RequestBuilderInput<InsertImageInput>): {
+  imageId: string;
+  requests: slides_v1.Schema$Request[];
+} {
   // Generate unique object ID for the image
   const imageId = generateObjectId();
-  const position: Position = validatedInput.position;
+  const position: Position = input.position;
 
-  // Convert position from inches to EMU
+  // Convert position from the configured units to EMU
+  const { units } = getConfig();
   const sizeEmu = {
-    width: { magnitude: inchesToEmu(position.width), unit: 'EMU' },
-    height: { magnitude: inchesToEmu(position.height), unit: 'EMU' },
+    width: { magnitude: toEmu(position.width, units), unit: 'EMU' },
+    height: { magnitude: toEmu(position.height, units), unit: 'EMU' },
   };
 
   const transformEmu = {
     scaleX: 1,
     scaleY: 1,
-    translateX: inchesToEmu(position.x),
-    translateY: inchesToEmu(position.y),
+    translateX: toEmu(position.x, units),
+    translateY: toEmu(position.y, units),
     unit: 'EMU',
   };
 
@@ -93,25 +100,78 @@ export async function insertImage(input: InsertImageInput): Promise<InsertImageO
   const request = {
     createImage: {
       objectId: imageId,
-      url: validatedInput.imageUrl,
+      url: input.imageUrl,
       elementProperties: {
-        pageObjectId: validatedInput.slideId,
+        pageObjectId: input.slideId,
         size: sizeEmu,
         transform: transformEmu,
       },
     },
   };
 
+  return { imageId, requests: [request] };
+}
+
+/**
+ * Insert an image from a URL onto a slide
+ *
+ * @param input - Tool input containing presentation ID, slide ID, image URL, position, and optional alt text
+ * @returns Image ID and actual size in inches
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ * @throws {Error} If image URL is not accessible
+ */
+export async function insertImage(
+  input: InsertImageInput
+): Promise<InsertImageOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = InsertImageInputSchema.parse(input);
+
+  // Build the requests
+  const { imageId, requests } = buildInsertImageRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, [request]);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result with the specified dimensions
   // Note: The API doesn't return the actual image dimensions, so we return what was requested
   return {
     imageId,
     actualSize: {
-      width: position.width,
-      height: position.height,
+      width: validatedInput.position.width,
+      height: validatedInput.position.height,
     },
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for insert_image
+ */
+export const insertImageTool = defineTool({
+  name: 'insert_image',
+  description: 'Insert an image onto a slide from a URL',
+  inputSchema: InsertImageInputSchema,
+  annotations: {
+    title: 'Insert image',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: insertImage,
+});
@@ -4,10 +4,23 @@
  * Inserts text into a placeholder or creates a new text box on a slide.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { getConfig } from '../../config/index.js';
 import type { Position } from '../../types/common.js';
-import { inchesToEmu } from '../../utils/emu.js';
+import { toEmu } from '../../utils/emu.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool, ToolInputValidationError } from '../registry.js';
+import { buildDefaultTextStyleRequest } from './text-defaults.js';
 
 /**
  * Input schema for insert_text tool
@@ -22,13 +35,14 @@ export const InsertTextInputSchema = z.object({
     .describe('ID of an existing placeholder to fill. If omitted, creates a text box.'),
   position: z
     .object({
-      x: z.number().describe('Left edge in inches'),
-      y: z.number().describe('Top edge in inches'),
-      width: z.number().describe('Width in inches'),
-      height: z.number().describe('Height in inches'),
+      x: z.number().describe('Left edge in inches (or the units set in config.json)'),
+      y: z.number().describe('Top edge in inches (or the units set in config.json)'),
+      width: z.number().describe('Width in inches (or the units set in config.json)'),
+      height: z.number().describe('Height in inches (or the units set in config.json)'),
     })
     .optional()
     .describe('Position for new text box (ignored if placeholderId provided)'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type InsertTextInput = z.infer<typeof InsertTextInputSchema>;
@@ -36,7 +50,7 @@ export type InsertTextInput = z.infer<typeof InsertTextInputSchema>;
 /**
  * Output interface for insert_text tool
  */
-export interface InsertTextOutput {
+export interface InsertTextOutput extends RevisionOutput {
   objectId: string;
   insertedText: string;
 }
@@ -56,23 +70,18 @@ function generateObjectId(): string {
 }
 
 /**
- * Insert text into a placeholder or create a text box
+ * Build the requests that insert text into a placeholder or a new text box
  *
- * @param input - Tool input containing presentation ID, slide ID, text, and optional placeholder ID or position
- * @returns Object ID and inserted text
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param input - Text and target placeholder or text box position
+ * @returns The text box or placeholder ID and the requests
+ * @throws {ToolInputValidationError} If neither placeholderId nor position is given
  */
-export async function insertText(input: InsertTextInput): Promise<InsertTextOutput> {
-  // Validate input
-  const validatedInput = InsertTextInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildInsertTextRequests(input: RequestBuilderInput<InsertTextInput>): {
+  objectId: string;
+  requests: slides_v1.Schema$Request[];
+} {
   // Determine the mode: placeholder or text box
-  const isPlaceholderMode = !!validatedInput.placeholderId;
+  const isPlaceholderMode = !!input.placeholderId;
 
   // Build requests based on mode
   const requests: any[] = [];
@@ -80,35 +89,38 @@ export async function insertText(input: InsertTextInput): Promise<InsertTextOutp
 
   if (isPlaceholderMode) {
     // Mode 1: Insert text into existing placeholder
-    objectId = validatedInput.placeholderId!;
+    objectId = input.placeholderId!;
 
     requests.push({
       insertText: {
         objectId,
-        text: validatedInput.text,
+        text: input.text,
         insertionIndex: 0,
       },
     });
   } else {
     // Mode 2: Create a text box and insert text
-    if (!validatedInput.position) {
-      throw new Error('Position is required when placeholderId is not provided');
+    if (!input.position) {
+      throw new ToolInputValidationError('insert_text', [
+        { path: 'position', message: 'Required when placeholderId is not provided' },
+      ]);
     }
 
     objectId = generateObjectId();
-    const position: Position = validatedInput.position;
+    const position: Position = input.position;
 
-    // Convert position from inches to EMU
+    // Convert position from the configured units to EMU
+    const { units } = getConfig();
     const sizeEmu = {
-      width: { magnitude: inchesToEmu(position.width), unit: 'EMU' },
-      height: { magnitude: inchesToEmu(position.height), unit: 'EMU' },
+      width: { magnitude: toEmu(position.width, units), unit: 'EMU' },
+      height: { magnitude: toEmu(position.height, units), unit: 'EMU' },
     };
 
     const transformEmu = {
       scaleX: 1,
       scaleY: 1,
-      translateX: inchesToEmu(position.x),
-      translateY: inchesToEmu(position.y),
+      translateX: toEmu(position.x, units),
+      translateY: toEmu(position.y, units),
       unit: 'EMU',
     };
 
@@ -118,7 +130,7 @@ export async function insertText(input: InsertTextInput): Promise<InsertTextOutp
         objectId,
         shapeType: 'TEXT_BOX',
         elementProperties: {
-          pageObjectId: validatedInput.slideId,
+          pageObjectId: input.slideId,
           size: sizeEmu,
           transform: transformEmu,
         },
@@ -129,18 +141,74 @@ export async function insertText(input: InsertTextInput): Promise<InsertTextOutp
     requests.push({
       insertText: {
         objectId,
-        text: validatedInput.text,
+        text: input.text,
         insertionIndex: 0,
       },
     });
+
+    // Apply the default text style from config.json
+    const styleRequest = buildDefaultTextStyleRequest(objectId, getConfig().defaults.text);
+    if (styleRequest && input.text) {
+      requests.push(styleRequest);
+    }
   }
 
+  return { objectId, requests };
+}
+
+/**
+ * Insert text into a placeholder or create a text box
+ *
+ * @param input - Tool input containing presentation ID, slide ID, text, and optional placeholder ID or position
+ * @returns Object ID and inserted text
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function insertText(input: InsertTextInput): Promise<InsertTextOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = InsertTextInputSchema.parse(input);
+
+  // Build the requests
+  const { objectId, requests } = buildInsertTextRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result
   return {
     objectId,
     insertedText: validatedInput.text,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for insert_text
+ */
+export const insertTextTool = defineTool({
+  name: 'insert_text',
+  description: 'Insert text into a slide placeholder or create a text box',
+  inputSchema: InsertTextInputSchema,
+  annotations: {
+    title: 'Insert text',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: insertText,
+});
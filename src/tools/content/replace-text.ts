@@ -5,8 +5,19 @@
  * Uses DeleteTextRequest to clear existing content, then InsertTextRequest to add new text.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for replace_text tool
@@ -15,6 +26,7 @@ export const ReplaceTextInputSchema = z.object({
   presentationId: z.string().describe('The presentation ID'),
   objectId: z.string().describe('The ID of the text box or shape containing text to replace'),
   text: z.string().describe('The new text content to set'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type ReplaceTextInput = z.infer<typeof ReplaceTextInputSchema>;
@@ -22,33 +34,26 @@ export type ReplaceTextInput = z.infer<typeof ReplaceTextInputSchema>;
 /**
  * Output interface for replace_text tool
  */
-export interface ReplaceTextOutput {
+export interface ReplaceTextOutput extends RevisionOutput {
   objectId: string;
   replacedText: string;
 }
 
 /**
- * Replace all text in an existing text box or shape
+ * Build the requests that replace all text in a shape
  *
- * @param input - Tool input containing presentation ID, object ID, and new text
- * @returns Object ID and the new text
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param input - Target object and new text
+ * @returns The requests
  */
-export async function replaceText(input: ReplaceTextInput): Promise<ReplaceTextOutput> {
-  // Validate input
-  const validatedInput = ReplaceTextInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildReplaceTextRequests(input: RequestBuilderInput<ReplaceTextInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
   // Build requests: first delete all existing text, then insert new text
   const requests: any[] = [
     // Delete all existing text
     {
       deleteText: {
-        objectId: validatedInput.objectId,
+        objectId: input.objectId,
         textRange: {
           type: 'ALL',
         },
@@ -57,19 +62,71 @@ export async function replaceText(input: ReplaceTextInput): Promise<ReplaceTextO
     // Insert new text
     {
       insertText: {
-        objectId: validatedInput.objectId,
-        text: validatedInput.text,
+        objectId: input.objectId,
+        text: input.text,
         insertionIndex: 0,
       },
     },
   ];
 
+  return { requests };
+}
+
+/**
+ * Replace all text in an existing text box or shape
+ *
+ * @param input - Tool input containing presentation ID, object ID, and new text
+ * @returns Object ID and the new text
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function replaceText(
+  input: ReplaceTextInput
+): Promise<ReplaceTextOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = ReplaceTextInputSchema.parse(input);
+
+  // Build the requests
+  const { requests } = buildReplaceTextRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result
   return {
     objectId: validatedInput.objectId,
     replacedText: validatedInput.text,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for replace_text
+ */
+export const replaceTextTool = defineTool({
+  name: 'replace_text',
+  description: 'Replace all text in an existing text box or shape with new text',
+  inputSchema: ReplaceTextInputSchema,
+  annotations: {
+    title: 'Replace text',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: replaceText,
+});
@@ -6,6 +6,15 @@
 
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for set_speaker_notes tool
@@ -14,6 +23,7 @@ export const SetSpeakerNotesInputSchema = z.object({
   presentationId: z.string().describe('The presentation ID'),
   slideId: z.string().describe('The slide to add notes to'),
   notes: z.string().describe('The speaker notes content (plain text or simple formatting)'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type SetSpeakerNotesInput = z.infer<typeof SetSpeakerNotesInputSchema>;
@@ -21,7 +31,7 @@ export type SetSpeakerNotesInput = z.infer<typeof SetSpeakerNotesInputSchema>;
 /**
  * Output interface for set_speaker_notes tool
  */
-export interface SetSpeakerNotesOutput {
+export interface SetSpeakerNotesOutput extends RevisionOutput {
   updated: true;
   notesLength: number;
 }
@@ -48,7 +58,9 @@ export class SpeakerNotesNotFoundError extends Error {
  * @throws {SpeakerNotesNotFoundError} If speaker notes shape not found
  * @throws {QuotaExceededError} If API quota is exceeded
  */
-export async function setSpeakerNotes(input: SetSpeakerNotesInput): Promise<SetSpeakerNotesOutput> {
+export async function setSpeakerNotes(
+  input: SetSpeakerNotesInput
+): Promise<SetSpeakerNotesOutput | DryRunOutput> {
   // Validate input
   const validatedInput = SetSpeakerNotesInputSchema.parse(input);
 
@@ -88,12 +100,40 @@ export async function setSpeakerNotes(input: SetSpeakerNotesInput): Promise<SetS
     },
   });
 
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result
   return {
     updated: true,
     notesLength: validatedInput.notes.length,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for set_speaker_notes
+ */
+export const setSpeakerNotesTool = defineTool({
+  name: 'set_speaker_notes',
+  description: 'Add or update speaker notes for a slide',
+  inputSchema: SetSpeakerNotesInputSchema,
+  annotations: {
+    title: 'Set speaker notes',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: setSpeakerNotes,
+});
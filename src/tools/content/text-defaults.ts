@@ -0,0 +1,52 @@
+/**
+ * Default text style from config.json
+ *
+ * insert_text and create_shape apply the configured font and color to the
+ * text of the boxes and shapes they create. Placeholders keep the style of
+ * their layout.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import type { TextDefaults } from '../../config/index.js';
+import { parseColor } from '../../utils/colors.js';
+
+/**
+ * Build the request that applies a default text style to all text of a new object
+ *
+ * @param objectId - The text box or shape
+ * @param defaults - Configured font family, size, and color
+ * @returns The updateTextStyle request, or undefined if no default is set
+ */
+export function buildDefaultTextStyleRequest(
+  objectId: string,
+  defaults: TextDefaults
+): slides_v1.Schema$Request | undefined {
+  const style: slides_v1.Schema$TextStyle = {};
+  const fields: string[] = [];
+
+  if (defaults.fontFamily !== undefined) {
+    style.fontFamily = defaults.fontFamily;
+    fields.push('fontFamily');
+  }
+  if (defaults.fontSize !== undefined) {
+    style.fontSize = { magnitude: defaults.fontSize, unit: 'PT' };
+    fields.push('fontSize');
+  }
+  if (defaults.color !== undefined) {
+    style.foregroundColor = { opaqueColor: { rgbColor: parseColor(defaults.color) } };
+    fields.push('foregroundColor');
+  }
+
+  if (fields.length === 0) {
+    return undefined;
+  }
+
+  return {
+    updateTextStyle: {
+      objectId,
+      textRange: { type: 'ALL' },
+      style,
+      fields: fields.join(','),
+    },
+  };
+}
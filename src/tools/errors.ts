@@ -0,0 +1,202 @@
+/**
+ * Structured tool errors
+ *
+ * Maps the errors thrown by tools, API clients, and the auth module onto a
+ * stable, machine-readable payload so agents can decide whether to retry,
+ * re-authenticate, or fix their input without parsing error messages.
+ */
+
+import { ZodError } from 'zod';
+import {
+  AuthenticationError,
+  AuthFlowCancelledError,
+  SignInRequiredError,
+  TokenDecryptionError,
+  TokenRefreshFailedError,
+} from '../auth/index.js';
+import {
+  AccountExistsError,
+  ConcurrentModificationError,
+  PermissionDeniedError,
+  PresentationNotFoundError,
+  QuotaExceededError,
+  UnknownAccountError,
+} from '../clients/index.js';
+import { ColorParseError } from '../utils/colors.js';
+import { OperationCompileError } from './batch/apply-operations.js';
+import {
+  type ToolInputIssue,
+  ToolInputValidationError,
+  ToolNotPermittedError,
+  toInputIssues,
+  UnknownToolError,
+} from './registry.js';
+import { UndoUnavailableError } from './undo/undo-last.js';
+
+/**
+ * Stable error codes returned in tool error payloads
+ */
+export type ToolErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'UNKNOWN_TOOL'
+  | 'TOOL_NOT_PERMITTED'
+  | 'PRESENTATION_NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'QUOTA_EXCEEDED'
+  | 'CONCURRENT_MODIFICATION'
+  | 'UNDO_UNAVAILABLE'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'ACCOUNT_EXISTS'
+  | 'SIGN_IN_REQUIRED'
+  | 'AUTHENTICATION_FAILED'
+  | 'AUTH_FLOW_CANCELLED'
+  | 'TOKEN_REFRESH_FAILED'
+  | 'TOKEN_DECRYPTION_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Machine-readable description of a failed tool call
+ */
+export interface ToolError {
+  /** Stable error code */
+  code: ToolErrorCode;
+  /** Human-readable error message */
+  message: string;
+  /** Whether repeating the same call unchanged may succeed */
+  retryable: boolean;
+  /** Suggested next step for the caller */
+  hint: string;
+  /** Offending arguments, for input errors */
+  issues?: ToolInputIssue[];
+}
+
+/**
+ * Static properties of each error code
+ */
+const ERROR_DETAILS: Record<ToolErrorCode, { retryable: boolean; hint: string }> = {
+  INVALID_ARGUMENTS: {
+    retryable: false,
+    hint: 'Fix the arguments listed in issues and call the tool again.',
+  },
+  UNKNOWN_TOOL: {
+    retryable: false,
+    hint: 'Call tools/list to see the available tools.',
+  },
+  TOOL_NOT_PERMITTED: {
+    retryable: false,
+    hint: "The server's permission profile or tool lists do not allow this tool. Call tools/list to see the permitted tools.",
+  },
+  PRESENTATION_NOT_FOUND: {
+    retryable: false,
+    hint: 'Check the presentation ID; use list_presentations to find presentations this app can access.',
+  },
+  PERMISSION_DENIED: {
+    retryable: false,
+    hint: 'The signed-in account cannot access this file. Use a presentation created by this app or sign in with another account.',
+  },
+  QUOTA_EXCEEDED: {
+    retryable: true,
+    hint: 'Google API quota was exceeded. Wait a minute before retrying.',
+  },
+  CONCURRENT_MODIFICATION: {
+    retryable: false,
+    hint: 'The presentation was edited after the expected revision. Call get_presentation to review the current content and revisionId, then retry with the new revisionId (or force: true for undo_last).',
+  },
+  UNDO_UNAVAILABLE: {
+    retryable: false,
+    hint: 'These changes cannot be undone automatically. Restore earlier content from File > Version history in Google Slides.',
+  },
+  ACCOUNT_NOT_FOUND: {
+    retryable: false,
+    hint: 'Call list_accounts to see the stored accounts, or add_account to sign in to a new one.',
+  },
+  ACCOUNT_EXISTS: {
+    retryable: false,
+    hint: 'Pass the account argument or call switch_account to use it. To sign in to it again, call logout with the account argument first.',
+  },
+  SIGN_IN_REQUIRED: {
+    retryable: true,
+    hint: 'Show the message to the user. Once they have approved access, retry the call; if the message asks for the redirect URL, pass it to complete_sign_in first.',
+  },
+  AUTHENTICATION_FAILED: {
+    retryable: true,
+    hint: 'Complete the Google sign-in in the browser window, then retry. Call logout first to start over. With a service account or access token, check the key or token named in the message.',
+  },
+  AUTH_FLOW_CANCELLED: {
+    retryable: true,
+    hint: 'The Google consent screen was cancelled. Retry and approve access to continue.',
+  },
+  TOKEN_REFRESH_FAILED: {
+    retryable: true,
+    hint: 'The stored credentials are no longer valid. Call logout, then retry to sign in again.',
+  },
+  TOKEN_DECRYPTION_FAILED: {
+    retryable: false,
+    hint: 'The stored token file could not be decrypted. Set the passphrase or key file it was encrypted with, or call logout to delete it and sign in again.',
+  },
+  INTERNAL_ERROR: {
+    retryable: false,
+    hint: 'An unexpected error occurred. Check the arguments and the server logs.',
+  },
+};
+
+/**
+ * Determine the error code for a thrown value
+ *
+ * @param error - The thrown value
+ * @returns The matching error code
+ */
+function classifyError(error: unknown): ToolErrorCode {
+  if (
+    error instanceof ToolInputValidationError ||
+    error instanceof ZodError ||
+    error instanceof ColorParseError ||
+    error instanceof OperationCompileError
+  ) {
+    return 'INVALID_ARGUMENTS';
+  }
+  if (error instanceof UnknownToolError) return 'UNKNOWN_TOOL';
+  if (error instanceof ToolNotPermittedError) return 'TOOL_NOT_PERMITTED';
+  if (error instanceof PresentationNotFoundError) return 'PRESENTATION_NOT_FOUND';
+  if (error instanceof PermissionDeniedError) return 'PERMISSION_DENIED';
+  if (error instanceof QuotaExceededError) return 'QUOTA_EXCEEDED';
+  if (error instanceof ConcurrentModificationError) return 'CONCURRENT_MODIFICATION';
+  if (error instanceof UndoUnavailableError) return 'UNDO_UNAVAILABLE';
+  if (error instanceof UnknownAccountError) return 'ACCOUNT_NOT_FOUND';
+  if (error instanceof AccountExistsError) return 'ACCOUNT_EXISTS';
+  if (error instanceof TokenRefreshFailedError) return 'TOKEN_REFRESH_FAILED';
+  if (error instanceof TokenDecryptionError) return 'TOKEN_DECRYPTION_FAILED';
+  if (error instanceof SignInRequiredError) return 'SIGN_IN_REQUIRED';
+  if (error instanceof AuthFlowCancelledError) return 'AUTH_FLOW_CANCELLED';
+  if (error instanceof AuthenticationError) {
+    return error.cause instanceof AuthFlowCancelledError
+      ? 'AUTH_FLOW_CANCELLED'
+      : 'AUTHENTICATION_FAILED';
+  }
+  return 'INTERNAL_ERROR';
+}
+
+/**
+ * Convert a thrown value into a structured tool error
+ *
+ * @param error - The thrown value
+ * @returns The structured error
+ */
+export function toToolError(error: unknown): ToolError {
+  const code = classifyError(error);
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  let issues: ToolInputIssue[] | undefined;
+  if (error instanceof ToolInputValidationError) {
+    issues = error.issues;
+  } else if (error instanceof ZodError) {
+    issues = toInputIssues(error);
+  }
+
+  return {
+    code,
+    message,
+    ...ERROR_DETAILS[code],
+    ...(issues && { issues }),
+  };
+}
@@ -4,8 +4,19 @@
  * Converts text paragraphs into bulleted or numbered lists.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Text range schema for bullet creation
@@ -46,6 +57,7 @@ export const CreateBulletsInputSchema = z.object({
     .default('BULLET_DISC_CIRCLE_SQUARE')
     .describe('Preset bullet/number style (determines appearance at all nesting levels)'),
   range: TextRangeSchema.optional().describe('Range to apply bullets to. Omit for all text.'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type CreateBulletsInput = z.infer<typeof CreateBulletsInputSchema>;
@@ -53,7 +65,7 @@ export type CreateBulletsInput = z.infer<typeof CreateBulletsInputSchema>;
 /**
  * Output interface for create_bullets tool
  */
-export interface CreateBulletsOutput {
+export interface CreateBulletsOutput extends RevisionOutput {
   applied: true;
   objectId: string;
   paragraphCount: number;
@@ -98,6 +110,30 @@ function estimateParagraphCount(): number {
   return -1;
 }
 
+/**
+ * Build the requests that create bullets
+ *
+ * @param input - Target object, bullet preset, and optional range
+ * @returns The requests
+ */
+export function buildCreateBulletsRequests(input: RequestBuilderInput<CreateBulletsInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
+  // Build text range
+  const textRange = buildTextRange(input.range);
+
+  // Build the CreateParagraphBulletsRequest
+  const request = {
+    createParagraphBullets: {
+      objectId: input.objectId,
+      textRange,
+      bulletPreset: input.bulletPreset,
+    },
+  };
+
+  return { requests: [request] };
+}
+
 /**
  * Create bulleted or numbered list from text paragraphs
  *
@@ -107,27 +143,30 @@ function estimateParagraphCount(): number {
  * @throws {PresentationNotFoundError} If presentation not found
  * @throws {QuotaExceededError} If API quota is exceeded
  */
-export async function createBullets(input: CreateBulletsInput): Promise<CreateBulletsOutput> {
+export async function createBullets(
+  input: CreateBulletsInput
+): Promise<CreateBulletsOutput | DryRunOutput> {
   // Validate input
   const validatedInput = CreateBulletsInputSchema.parse(input);
 
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
+  // Build the requests
+  const { requests } = buildCreateBulletsRequests(validatedInput);
 
-  // Build text range
-  const textRange = buildTextRange(validatedInput.range);
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
 
-  // Build the CreateParagraphBulletsRequest
-  const request = {
-    createParagraphBullets: {
-      objectId: validatedInput.objectId,
-      textRange,
-      bulletPreset: validatedInput.bulletPreset,
-    },
-  };
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
 
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, [request]);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Estimate paragraph count for output
   const paragraphCount = estimateParagraphCount();
@@ -137,5 +176,23 @@ export async function createBullets(input: CreateBulletsInput): Promise<CreateBu
     applied: true,
     objectId: validatedInput.objectId,
     paragraphCount,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for create_bullets
+ */
+export const createBulletsTool = defineTool({
+  name: 'create_bullets',
+  description: 'Create a bulleted or numbered list from text paragraphs',
+  inputSchema: CreateBulletsInputSchema,
+  annotations: {
+    title: 'Create bullets',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: createBullets,
+});
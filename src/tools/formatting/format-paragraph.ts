@@ -4,8 +4,19 @@
  * Applies paragraph-level formatting to text within a shape or text box.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Text range schema for paragraph formatting
@@ -47,6 +58,7 @@ export const FormatParagraphInputSchema = z.object({
   objectId: z.string().describe('ID of the shape/text box'),
   style: ParagraphStyleSchema.describe('Paragraph style to apply'),
   range: TextRangeSchema.optional().describe('Range to format. Omit to format all paragraphs.'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type FormatParagraphInput = z.infer<typeof FormatParagraphInputSchema>;
@@ -54,7 +66,7 @@ export type FormatParagraphInput = z.infer<typeof FormatParagraphInputSchema>;
 /**
  * Output interface for format_paragraph tool
  */
-export interface FormatParagraphOutput {
+export interface FormatParagraphOutput extends RevisionOutput {
   formatted: true;
   objectId: string;
   paragraphCount: number;
@@ -174,42 +186,69 @@ function estimateParagraphCount(): number {
 }
 
 /**
- * Apply paragraph-level formatting to text
+ * Build the requests that apply paragraph formatting
  *
- * @param input - Tool input containing presentation ID, object ID, style, and optional range
- * @returns Formatting result
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param input - Target object, style, and optional range
+ * @returns The requests
  */
-export async function formatParagraph(input: FormatParagraphInput): Promise<FormatParagraphOutput> {
-  // Validate input
-  const validatedInput = FormatParagraphInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildFormatParagraphRequests(input: RequestBuilderInput<FormatParagraphInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
   // Generate field mask
-  const fields = generateFieldMask(validatedInput.style);
+  const fields = generateFieldMask(input.style);
 
   // Build text range
-  const textRange = buildTextRange(validatedInput.range);
+  const textRange = buildTextRange(input.range);
 
   // Build style object
-  const style = buildStyleObject(validatedInput.style);
+  const style = buildStyleObject(input.style);
 
   // Build the UpdateParagraphStyleRequest
   const request = {
     updateParagraphStyle: {
-      objectId: validatedInput.objectId,
+      objectId: input.objectId,
       textRange,
       style,
       fields,
     },
   };
 
+  return { requests: [request] };
+}
+
+/**
+ * Apply paragraph-level formatting to text
+ *
+ * @param input - Tool input containing presentation ID, object ID, style, and optional range
+ * @returns Formatting result
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function formatParagraph(
+  input: FormatParagraphInput
+): Promise<FormatParagraphOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = FormatParagraphInputSchema.parse(input);
+
+  // Build the requests
+  const { requests } = buildFormatParagraphRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, [request]);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Estimate paragraph count for output
   const paragraphCount = estimateParagraphCount();
@@ -219,5 +258,23 @@ export async function formatParagraph(input: FormatParagraphInput): Promise<Form
     formatted: true,
     objectId: validatedInput.objectId,
     paragraphCount,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for format_paragraph
+ */
+export const formatParagraphTool = defineTool({
+  name: 'format_paragraph',
+  description: 'Apply paragraph formatting (alignment, spacing, indentation)',
+  inputSchema: FormatParagraphInputSchema,
+  annotations: {
+    title: 'Format paragraph',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: formatParagraph,
+});
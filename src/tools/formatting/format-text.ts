@@ -4,9 +4,20 @@
  * Applies character-level formatting to text within a shape or text box.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
 import { parseColor } from '../../utils/colors.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Text range schema
@@ -39,6 +50,7 @@ export const FormatTextInputSchema = z.object({
   objectId: z.string().describe('ID of the shape/text box containing the text'),
   style: TextStyleSchema.describe('Text style to apply'),
   range: TextRangeSchema.optional().describe('Text range to format. Omit to format all text.'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type FormatTextInput = z.infer<typeof FormatTextInputSchema>;
@@ -46,7 +58,7 @@ export type FormatTextInput = z.infer<typeof FormatTextInputSchema>;
 /**
  * Output interface for format_text tool
  */
-export interface FormatTextOutput {
+export interface FormatTextOutput extends RevisionOutput {
   formatted: true;
   objectId: string;
   styledCharacters: number;
@@ -191,42 +203,67 @@ function estimateCharacterCount(range?: z.infer<typeof TextRangeSchema>): number
 }
 
 /**
- * Apply character-level formatting to text
+ * Build the requests that apply character formatting
  *
- * @param input - Tool input containing presentation ID, object ID, style, and optional range
- * @returns Formatting result
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param input - Target object, style, and optional range
+ * @returns The requests
  */
-export async function formatText(input: FormatTextInput): Promise<FormatTextOutput> {
-  // Validate input
-  const validatedInput = FormatTextInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
-
+export function buildFormatTextRequests(input: RequestBuilderInput<FormatTextInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
   // Generate field mask
-  const fields = generateFieldMask(validatedInput.style);
+  const fields = generateFieldMask(input.style);
 
   // Build text range
-  const textRange = buildTextRange(validatedInput.range);
+  const textRange = buildTextRange(input.range);
 
   // Build style object
-  const style = buildStyleObject(validatedInput.style);
+  const style = buildStyleObject(input.style);
 
   // Build the UpdateTextStyleRequest
   const request = {
     updateTextStyle: {
-      objectId: validatedInput.objectId,
+      objectId: input.objectId,
       textRange,
       style,
       fields,
     },
   };
 
+  return { requests: [request] };
+}
+
+/**
+ * Apply character-level formatting to text
+ *
+ * @param input - Tool input containing presentation ID, object ID, style, and optional range
+ * @returns Formatting result
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function formatText(input: FormatTextInput): Promise<FormatTextOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = FormatTextInputSchema.parse(input);
+
+  // Build the requests
+  const { requests } = buildFormatTextRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
+
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, [request]);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Estimate character count for output
   const charCount = estimateCharacterCount(validatedInput.range);
@@ -236,5 +273,23 @@ export async function formatText(input: FormatTextInput): Promise<FormatTextOutp
     formatted: true,
     objectId: validatedInput.objectId,
     styledCharacters: charCount,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for format_text
+ */
+export const formatTextTool = defineTool({
+  name: 'format_text',
+  description: 'Apply formatting (font, size, color, bold, etc.) to text',
+  inputSchema: FormatTextInputSchema,
+  annotations: {
+    title: 'Format text',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: formatText,
+});
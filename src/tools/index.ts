@@ -4,13 +4,57 @@
  * Centralized export for all MCP tool implementations.
  */
 
+import { getPermissions } from '../config/index.js';
+import { auditTools } from './audit/index.js';
+import { authTools } from './auth/index.js';
+import { batchTools } from './batch/index.js';
+import { configTools } from './config/index.js';
+import { contentTools } from './content/index.js';
+import { formattingTools } from './formatting/index.js';
+import { presentationTools } from './presentations/index.js';
+import { ToolRegistry } from './registry.js';
+import { slideTools } from './slides/index.js';
+import { undoTools } from './undo/index.js';
+
+// Audit log and tool
+export * from './audit/index.js';
 // Authentication management tools
 export * from './auth/index.js';
+// Batch tools
+export * from './batch/index.js';
+// Configuration tool
+export * from './config/index.js';
 // Content insertion tools
 export * from './content/index.js';
+// Structured tool errors
+export * from './errors.js';
 // Text formatting tools
 export * from './formatting/index.js';
+// Dry-run support for mutating tools
+export * from './mutation.js';
 // Presentation management tools
 export * from './presentations/index.js';
+// Tool registry
+export * from './registry.js';
 // Slide operation tools
 export * from './slides/index.js';
+// Undo journal and tool
+export * from './undo/index.js';
+
+/**
+ * Registry of every tool exposed by the server, limited by the configured permissions
+ */
+export const toolRegistry = new ToolRegistry(
+  [
+    ...presentationTools,
+    ...slideTools,
+    ...contentTools,
+    ...formattingTools,
+    ...batchTools,
+    ...undoTools,
+    ...auditTools,
+    ...configTools,
+    ...authTools,
+  ],
+  getPermissions()
+);
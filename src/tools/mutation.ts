@@ -0,0 +1,254 @@
+/**
+ * Shared options for tools that modify a presentation
+ *
+ * Every tool that sends a batchUpdate accepts these options. With
+ * `dryRun: true` the tool returns the exact requests it would send, with a
+ * human-readable summary, and leaves the presentation untouched so a
+ * reviewer can approve the change first.
+ *
+ * With `expectedRevisionId` (the revisionId returned by get_presentation or
+ * get_slide) the change is only applied if nobody edited the deck since that
+ * revision; otherwise the tool fails with ConcurrentModificationError.
+ *
+ * Changes are applied through applyMutation, which records their inverse in
+ * the undo journal for undo_last.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import { z } from 'zod';
+import { clientManager, type SlidesClient } from '../clients/index.js';
+import { getCallContext } from '../utils/call-context.js';
+import { invertRequests, needsSnapshot } from './undo/inverse.js';
+import { undoJournal } from './undo/journal.js';
+
+/**
+ * Options accepted by every mutating tool
+ */
+export const MutationOptionsSchema = z.object({
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      'Return the batchUpdate requests and a summary without changing the presentation (default: false)'
+    ),
+  expectedRevisionId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Only apply the change if the presentation is still at this revisionId (from get_presentation or get_slide)'
+    ),
+});
+
+export type MutationOptions = z.infer<typeof MutationOptionsSchema>;
+
+/**
+ * Tool input as consumed by a request builder: everything except the target
+ * presentation and the mutation options
+ */
+export type RequestBuilderInput<T> = Omit<T, 'presentationId' | keyof MutationOptions>;
+
+/**
+ * Output of a mutating tool called with dryRun
+ */
+export interface DryRunOutput {
+  dryRun: true;
+  /** One line per request describing its effect */
+  summary: string[];
+  /** The requests that would be sent to SlidesClient.batchUpdate */
+  requests: slides_v1.Schema$Request[];
+}
+
+/**
+ * Revision reported by a mutating tool after applying its change
+ */
+export interface RevisionOutput {
+  /** Revision of the presentation after the change; pass as expectedRevisionId to chain edits */
+  revisionId?: string;
+}
+
+/**
+ * Extract the presentation's new revision from a batchUpdate response
+ *
+ * @param response - The batchUpdate response
+ * @returns The revision ID, or undefined if the API did not report one
+ */
+export function revisionIdOf(
+  response: slides_v1.Schema$BatchUpdatePresentationResponse
+): string | undefined {
+  return response.writeControl?.requiredRevisionId ?? undefined;
+}
+
+/**
+ * Maximum length of quoted text in summaries
+ */
+const MAX_QUOTED_TEXT = 40;
+
+/**
+ * Quote text for a summary, truncating long values
+ *
+ * @param text - The text to quote
+ * @returns The quoted text
+ */
+function quote(text: string | null | undefined): string {
+  const value = text ?? '';
+  const truncated =
+    value.length > MAX_QUOTED_TEXT ? `${value.slice(0, MAX_QUOTED_TEXT - 1)}…` : value;
+  return JSON.stringify(truncated);
+}
+
+/**
+ * Describe a text range
+ *
+ * @param range - The API text range
+ * @returns Description such as "all text" or "characters 0-5"
+ */
+function describeRange(range: slides_v1.Schema$Range | undefined): string {
+  switch (range?.type) {
+    case 'FIXED_RANGE':
+      return `characters ${range.startIndex ?? 0}-${range.endIndex}`;
+    case 'FROM_START_INDEX':
+      return `text from character ${range.startIndex ?? 0}`;
+    default:
+      return 'all text';
+  }
+}
+
+/**
+ * Describe the target of a text request, including the table cell if any
+ *
+ * @param objectId - The shape or table ID
+ * @param cell - Optional table cell location
+ * @returns Description of the target
+ */
+function describeTextTarget(
+  objectId: string | null | undefined,
+  cell: slides_v1.Schema$TableCellLocation | undefined
+): string {
+  return cell
+    ? `cell (${cell.rowIndex ?? 0}, ${cell.columnIndex ?? 0}) of ${objectId}`
+    : `${objectId}`;
+}
+
+/**
+ * Describe a single batchUpdate request
+ *
+ * @param request - The request
+ * @returns One-line human-readable description
+ */
+export function describeRequest(request: slides_v1.Schema$Request): string {
+  if (request.createSlide) {
+    const { objectId, insertionIndex, slideLayoutReference } = request.createSlide;
+    const layout = slideLayoutReference?.predefinedLayout;
+    const where = insertionIndex != null ? `at index ${insertionIndex}` : 'at the end';
+    return `Create slide ${objectId}${layout ? ` with layout ${layout}` : ''} ${where}`;
+  }
+  if (request.deleteObject) {
+    return `Delete ${request.deleteObject.objectId}`;
+  }
+  if (request.updateSlidesPosition) {
+    const { slideObjectIds, insertionIndex } = request.updateSlidesPosition;
+    return `Move slides ${(slideObjectIds ?? []).join(', ')} to index ${insertionIndex}`;
+  }
+  if (request.insertText) {
+    const { objectId, cellLocation, text } = request.insertText;
+    return `Insert ${quote(text)} into ${describeTextTarget(objectId, cellLocation)}`;
+  }
+  if (request.deleteText) {
+    const { objectId, cellLocation, textRange } = request.deleteText;
+    return `Delete ${describeRange(textRange)} in ${describeTextTarget(objectId, cellLocation)}`;
+  }
+  if (request.createShape) {
+    const { objectId, shapeType, elementProperties } = request.createShape;
+    return `Create ${shapeType} ${objectId} on ${elementProperties?.pageObjectId}`;
+  }
+  if (request.createTable) {
+    const { objectId, rows, columns, elementProperties } = request.createTable;
+    return `Create ${rows}x${columns} table ${objectId} on ${elementProperties?.pageObjectId}`;
+  }
+  if (request.createImage) {
+    const { objectId, url, elementProperties } = request.createImage;
+    return `Insert image ${objectId} from ${url} on ${elementProperties?.pageObjectId}`;
+  }
+  if (request.updateShapeProperties) {
+    const { objectId, fields } = request.updateShapeProperties;
+    return `Update ${fields} of ${objectId}`;
+  }
+  if (request.updateTextStyle) {
+    const { objectId, cellLocation, textRange, fields } = request.updateTextStyle;
+    return `Set text style (${fields}) on ${describeRange(textRange)} in ${describeTextTarget(objectId, cellLocation)}`;
+  }
+  if (request.updateParagraphStyle) {
+    const { objectId, cellLocation, textRange, fields } = request.updateParagraphStyle;
+    return `Set paragraph style (${fields}) on ${describeRange(textRange)} in ${describeTextTarget(objectId, cellLocation)}`;
+  }
+  if (request.createParagraphBullets) {
+    const { objectId, cellLocation, textRange, bulletPreset } = request.createParagraphBullets;
+    return `Apply ${bulletPreset} bullets to ${describeRange(textRange)} in ${describeTextTarget(objectId, cellLocation)}`;
+  }
+
+  // Fall back to the request type for anything without a dedicated description
+  const [kind] = Object.keys(request);
+  return `${kind ?? 'Unknown'} request`;
+}
+
+/**
+ * Build the output of a dry run
+ *
+ * @param requests - The requests the tool would send
+ * @returns Requests and their summary
+ */
+export function dryRunResult(requests: slides_v1.Schema$Request[]): DryRunOutput {
+  return {
+    dryRun: true,
+    summary: requests.map(describeRequest),
+    requests,
+  };
+}
+
+/**
+ * Apply a tool's requests and record their inverse in the undo journal
+ *
+ * Reads the presentation first (revalidating any cached copy) when the
+ * inverse depends on its current content, e.g. to restore deleted text.
+ *
+ * @param client - Authenticated Slides client
+ * @param presentationId - The presentation to update
+ * @param requests - The requests to apply
+ * @param expectedRevisionId - Only apply the requests if the presentation is still at this revision
+ * @returns Batch update response with replies
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {PermissionDeniedError} If no access to presentation
+ * @throws {QuotaExceededError} If API quota is exceeded
+ * @throws {ConcurrentModificationError} If the presentation is no longer at expectedRevisionId
+ */
+export async function applyMutation(
+  client: SlidesClient,
+  presentationId: string,
+  requests: slides_v1.Schema$Request[],
+  expectedRevisionId?: string
+): Promise<slides_v1.Schema$BatchUpdatePresentationResponse> {
+  const before =
+    undoJournal.enabled && needsSnapshot(requests)
+      ? await client.getPresentation(presentationId, { revalidate: true })
+      : undefined;
+
+  const response = await client.batchUpdate(presentationId, requests, expectedRevisionId);
+
+  if (undoJournal.enabled) {
+    const inverse = invertRequests(requests, response.replies ?? [], before);
+    undoJournal.record(presentationId, {
+      inverse: inverse.requests,
+      unsupported: inverse.unsupported,
+      notRestored: inverse.notRestored,
+      toolName: getCallContext()?.toolName ?? 'unknown',
+      account: clientManager.getCurrentAccount(),
+      summary: requests.map(describeRequest),
+      baseRevisionId: before?.revisionId ?? undefined,
+      revisionId: revisionIdOf(response),
+      recordedAt: Date.now(),
+    });
+  }
+
+  return response;
+}
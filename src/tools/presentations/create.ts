@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for create_presentation tool
@@ -56,3 +57,20 @@ export async function createPresentation(
     link: `https://docs.google.com/presentation/d/${presentation.presentationId}/edit`,
   };
 }
+
+/**
+ * MCP tool definition for create_presentation
+ */
+export const createPresentationTool = defineTool({
+  name: 'create_presentation',
+  description: 'Create a new Google Slides presentation',
+  inputSchema: CreatePresentationInputSchema,
+  annotations: {
+    title: 'Create presentation',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: createPresentation,
+});
@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { createDriveClient } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for duplicate_presentation tool
@@ -57,3 +58,21 @@ export async function duplicatePresentation(
     link: result.link,
   };
 }
+
+/**
+ * MCP tool definition for duplicate_presentation
+ */
+export const duplicatePresentationTool = defineTool({
+  name: 'duplicate_presentation',
+  description:
+    'Duplicate an existing presentation to create a new copy. Preserves all styling, layouts, and content.',
+  inputSchema: DuplicatePresentationInputSchema,
+  annotations: {
+    title: 'Duplicate presentation',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: duplicatePresentation,
+});
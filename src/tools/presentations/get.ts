@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for get_presentation tool
@@ -29,6 +30,8 @@ export interface GetPresentationOutput {
     elements: number;
   }>;
   link: string;
+  /** Current revision, usable as expectedRevisionId */
+  revisionId?: string;
 }
 
 /**
@@ -69,5 +72,21 @@ export async function getPresentation(input: GetPresentationInput): Promise<GetP
     slideCount: slides.length,
     slides,
     link: `https://docs.google.com/presentation/d/${presentation.presentationId}/edit`,
+    ...(presentation.revisionId && { revisionId: presentation.revisionId }),
   };
 }
+
+/**
+ * MCP tool definition for get_presentation
+ */
+export const getPresentationTool = defineTool({
+  name: 'get_presentation',
+  description: 'Get details of a Google Slides presentation',
+  inputSchema: GetPresentationInputSchema,
+  annotations: {
+    title: 'Get presentation',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: getPresentation,
+});
@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { createDriveClient, type PresentationSummary } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for list_presentations tool
@@ -57,3 +58,18 @@ export async function listPresentations(
     totalCount: presentations.length,
   };
 }
+
+/**
+ * MCP tool definition for list_presentations
+ */
+export const listPresentationsTool = defineTool({
+  name: 'list_presentations',
+  description: 'List Google Slides presentations created by this app',
+  inputSchema: ListPresentationsInputSchema,
+  annotations: {
+    title: 'List presentations',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: listPresentations,
+});
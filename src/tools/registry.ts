@@ -0,0 +1,333 @@
+/**
+ * Tool registry
+ *
+ * Single source of truth for MCP tool wiring. Each tool module declares its
+ * name, zod input schema, handler, and annotations once via defineTool();
+ * the registry derives the JSON Schema advertised by ListTools from the zod
+ * schema and validates arguments before dispatching to the handler.
+ *
+ * Every tool also accepts an optional `account` argument naming the account
+ * profile the call acts as. The registry removes it before validating the
+ * tool's own arguments and records it in the call context.
+ */
+
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { Permissions } from '../config/index.js';
+import { createCallContext, getCallContext, runWithCallContext } from '../utils/call-context.js';
+import { logger } from '../utils/logger.js';
+import { AccountNameSchema } from './auth/account-name.js';
+
+/**
+ * A single MCP tool: metadata, input schema, and implementation
+ */
+export interface ToolDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny, TOutput = unknown> {
+  /** Tool name as exposed over MCP (snake_case) */
+  name: string;
+  /** Human-readable description shown to the LLM */
+  description: string;
+  /** Zod schema for the tool arguments */
+  inputSchema: TSchema;
+  /** Behavioral hints (read-only, destructive, idempotent, ...) */
+  annotations?: ToolAnnotations;
+  /** Tool implementation, called with validated input */
+  handler(input: z.infer<TSchema>): Promise<TOutput>;
+}
+
+/**
+ * Arguments accepted by every tool in addition to its own
+ */
+const CommonArgumentsSchema = z.object({
+  account: AccountNameSchema.optional().describe(
+    'Account profile to act as (default: the active account; see list_accounts)'
+  ),
+});
+
+/**
+ * A single field-level validation problem
+ */
+export interface ToolInputIssue {
+  /** Dotted path to the offending argument (empty for the root object) */
+  path: string;
+  /** Description of what is wrong with the argument */
+  message: string;
+}
+
+/**
+ * Error thrown when a tool is called with arguments that fail schema validation
+ */
+export class ToolInputValidationError extends Error {
+  constructor(
+    public toolName: string,
+    public issues: ToolInputIssue[]
+  ) {
+    super(`Invalid arguments for ${toolName}: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'ToolInputValidationError';
+  }
+}
+
+/**
+ * Error thrown when a registered tool is called but the permissions forbid it
+ */
+export class ToolNotPermittedError extends Error {
+  constructor(
+    public toolName: string,
+    reason: string
+  ) {
+    super(`Tool ${toolName} is not permitted: ${reason}`);
+    this.name = 'ToolNotPermittedError';
+  }
+}
+
+/**
+ * Error thrown when a tool name is not registered
+ */
+export class UnknownToolError extends Error {
+  constructor(toolName: string) {
+    super(`Unknown tool: ${toolName}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+/**
+ * Declare a tool definition
+ *
+ * Identity function that exists to infer the handler's input type from the schema.
+ *
+ * @param definition - The tool definition
+ * @returns The same definition, fully typed
+ */
+export function defineTool<TSchema extends z.ZodTypeAny, TOutput>(
+  definition: ToolDefinition<TSchema, TOutput>
+): ToolDefinition<TSchema, TOutput> {
+  return definition;
+}
+
+/**
+ * Format a validation issue for inclusion in an error message
+ *
+ * @param issue - The issue to format
+ * @returns "path: message", or just the message for root-level issues
+ */
+function formatIssue(issue: ToolInputIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Convert a zod error into field-level issues
+ *
+ * @param error - The zod error from a failed parse
+ * @returns One issue per problem, with dotted argument paths
+ */
+export function toInputIssues(error: z.ZodError): ToolInputIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Convert a zod schema into the JSON Schema object advertised by ListTools
+ *
+ * @param schema - Zod schema for the tool arguments
+ * @returns JSON Schema with a top-level object type
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    target: 'jsonSchema7',
+  }) as Record<string, unknown>;
+
+  return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * Add the arguments every tool accepts to a tool's advertised JSON Schema
+ *
+ * @param schema - JSON Schema of the tool's own arguments
+ * @returns The schema with the common arguments added as optional properties
+ */
+function withCommonArguments(schema: Tool['inputSchema']): Tool['inputSchema'] {
+  return {
+    ...schema,
+    properties: { ...schema.properties, ...toJsonSchema(CommonArgumentsSchema).properties },
+  };
+}
+
+/**
+ * Separate the account argument from a tool's own arguments
+ *
+ * @param toolName - Name of the tool being called
+ * @param args - Raw arguments from the MCP request
+ * @returns The validated account, if given, and the remaining arguments
+ * @throws {ToolInputValidationError} If the account name is invalid
+ */
+function splitAccountArgument(
+  toolName: string,
+  args: unknown
+): { account?: string; input: unknown } {
+  if (typeof args !== 'object' || args === null || !('account' in args)) {
+    return { input: args };
+  }
+
+  const { account, ...input } = args as Record<string, unknown>;
+  const parsed = CommonArgumentsSchema.safeParse({ account });
+  if (!parsed.success) {
+    throw new ToolInputValidationError(toolName, toInputIssues(parsed.error));
+  }
+  return { account: parsed.data.account, input };
+}
+
+/**
+ * Explain why the permissions forbid a tool
+ *
+ * A tool is permitted only if its profile allows it, it is in enabledTools
+ * (when set), and it is not in disabledTools. The profile is judged from the
+ * tool's annotations: read-only admits tools with readOnlyHint, no-delete
+ * excludes tools with destructiveHint.
+ *
+ * @param tool - The tool definition
+ * @param permissions - The effective permissions
+ * @returns The reason the tool is forbidden, or undefined if it is permitted
+ */
+export function getDenialReason(
+  tool: ToolDefinition,
+  permissions: Permissions
+): string | undefined {
+  if (permissions.disabledTools?.includes(tool.name)) {
+    return 'it is listed in disabledTools';
+  }
+  if (permissions.enabledTools && !permissions.enabledTools.includes(tool.name)) {
+    return 'it is not listed in enabledTools';
+  }
+  if (permissions.profile === 'read-only' && tool.annotations?.readOnlyHint !== true) {
+    return 'the read-only permission profile allows only tools that do not make changes';
+  }
+  if (permissions.profile === 'no-delete' && tool.annotations?.destructiveHint === true) {
+    return 'the no-delete permission profile blocks tools that delete or overwrite content';
+  }
+  return undefined;
+}
+
+/**
+ * Registry of MCP tools keyed by name
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  /**
+   * Create a registry, optionally pre-populated with tools
+   *
+   * Tool names in the permission lists that match no tool are reported on
+   * stderr so typos are noticed.
+   *
+   * @param tools - Tool definitions to register
+   * @param permissions - Which tools may be listed and called (default: all)
+   */
+  constructor(
+    tools: readonly ToolDefinition[] = [],
+    private permissions: Permissions = { profile: 'full' }
+  ) {
+    for (const tool of tools) {
+      this.register(tool);
+    }
+
+    const listed = [...(permissions.enabledTools ?? []), ...(permissions.disabledTools ?? [])];
+    const unknown = listed.filter((name) => !this.tools.has(name));
+    if (unknown.length > 0) {
+      logger.warn('Unknown tools in the tool permission lists', { tools: unknown });
+    }
+  }
+
+  /**
+   * Register a tool
+   *
+   * @param tool - The tool definition
+   * @throws {Error} If a tool with the same name is already registered
+   */
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Look up a tool by name
+   *
+   * @param name - The tool name
+   * @returns The tool definition, or undefined if not registered
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Check whether the permissions allow a tool to be listed and called
+   *
+   * @param tool - The tool definition
+   * @returns true if the tool is permitted
+   */
+  isPermitted(tool: ToolDefinition): boolean {
+    return getDenialReason(tool, this.permissions) === undefined;
+  }
+
+  /**
+   * List the permitted tools in MCP ListTools format
+   *
+   * @returns Tool descriptors with JSON Schema input schemas
+   */
+  list(): Tool[] {
+    return [...this.tools.values()]
+      .filter((tool) => this.isPermitted(tool))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: withCommonArguments(toJsonSchema(tool.inputSchema)),
+        ...(tool.annotations && { annotations: tool.annotations }),
+      }));
+  }
+
+  /**
+   * Validate arguments and invoke a tool
+   *
+   * Runs in a new call context unless called within one, so the account
+   * argument always applies.
+   *
+   * @param name - The tool name
+   * @param args - Raw arguments from the MCP request
+   * @returns The tool's result
+   * @throws {UnknownToolError} If the tool is not registered
+   * @throws {ToolNotPermittedError} If the permissions forbid the tool
+   * @throws {ToolInputValidationError} If the arguments fail schema validation
+   */
+  async call(name: string, args: unknown): Promise<unknown> {
+    const context = getCallContext();
+    if (!context) {
+      return runWithCallContext(createCallContext(name), () => this.call(name, args));
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+
+    const denialReason = getDenialReason(tool, this.permissions);
+    if (denialReason) {
+      throw new ToolNotPermittedError(name, denialReason);
+    }
+
+    const { account, input } = splitAccountArgument(name, args ?? {});
+    const parsed = tool.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ToolInputValidationError(name, toInputIssues(parsed.error));
+    }
+
+    // Expose the validated arguments to the audit log, and the account to the API clients
+    context.input = parsed.data;
+    context.account = account;
+
+    return tool.handler(parsed.data);
+  }
+}
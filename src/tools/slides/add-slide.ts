@@ -4,8 +4,20 @@
  * Adds a new slide to a presentation with the specified layout.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { getConfig } from '../../config/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for add_slide tool
@@ -27,13 +39,16 @@ export const AddSlideInputSchema = z.object({
       'CAPTION_ONLY',
     ])
     .optional()
-    .describe('The predefined layout to use. Omit to create a blank slide without a layout reference.'),
+    .describe(
+      'The predefined layout to use. Omit for the layout set in config.json, or a blank slide without a layout reference.'
+    ),
   insertionIndex: z
     .number()
     .int()
     .nonnegative()
     .optional()
     .describe('Position to insert the slide (0-based). Omit to add at end.'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type AddSlideInput = z.infer<typeof AddSlideInputSchema>;
@@ -41,7 +56,7 @@ export type AddSlideInput = z.infer<typeof AddSlideInputSchema>;
 /**
  * Output interface for add_slide tool
  */
-export interface AddSlideOutput {
+export interface AddSlideOutput extends RevisionOutput {
   slideId: string;
   index: number;
   placeholders: Array<{
@@ -65,45 +80,83 @@ function generateObjectId(): string {
 }
 
 /**
- * Add a new slide to a presentation
+ * Get the layout a new slide uses
  *
- * @param input - Tool input containing presentation ID, layout, and optional insertion index
- * @returns Slide ID, index, and placeholders
- * @throws {AuthenticationError} If authentication fails
- * @throws {PresentationNotFoundError} If presentation not found
- * @throws {QuotaExceededError} If API quota is exceeded
+ * @param layout - The requested layout
+ * @returns The requested layout, else the default from config.json, else undefined
  */
-export async function addSlide(input: AddSlideInput): Promise<AddSlideOutput> {
-  // Validate input
-  const validatedInput = AddSlideInputSchema.parse(input);
-
-  // Create authenticated Slides API client
-  const client = await createSlidesClient();
+export function resolveSlideLayout(layout: AddSlideInput['layout']): AddSlideInput['layout'] {
+  return layout ?? getConfig().defaults.slideLayout;
+}
 
+/**
+ * Build the requests that add a slide
+ *
+ * @param input - Layout and optional insertion index
+ * @returns The generated slide ID and the requests
+ */
+export function buildAddSlideRequests(input: RequestBuilderInput<AddSlideInput>): {
+  slideId: string;
+  requests: slides_v1.Schema$Request[];
+} {
   // Generate a unique object ID for the slide
   const slideId = generateObjectId();
 
   // Build the CreateSlideRequest
   const createSlideRequest: any = {
     objectId: slideId,
-    insertionIndex: validatedInput.insertionIndex,
+    insertionIndex: input.insertionIndex,
   };
 
-  // Only add slideLayoutReference if a layout is specified
-  if (validatedInput.layout) {
+  // Only add slideLayoutReference if a layout is specified or configured
+  const layout = resolveSlideLayout(input.layout);
+  if (layout) {
     createSlideRequest.slideLayoutReference = {
-      predefinedLayout: validatedInput.layout,
+      predefinedLayout: layout,
     };
   }
 
-  const requests = [
-    {
-      createSlide: createSlideRequest,
-    },
-  ];
+  return {
+    slideId,
+    requests: [
+      {
+        createSlide: createSlideRequest,
+      },
+    ],
+  };
+}
+
+/**
+ * Add a new slide to a presentation
+ *
+ * @param input - Tool input containing presentation ID, layout, and optional insertion index
+ * @returns Slide ID, index, and placeholders
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function addSlide(input: AddSlideInput): Promise<AddSlideOutput | DryRunOutput> {
+  // Validate input
+  const validatedInput = AddSlideInputSchema.parse(input);
+
+  // Build the CreateSlideRequest
+  const { slideId, requests } = buildAddSlideRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
+
+  // Create authenticated Slides API client
+  const client = await createSlidesClient();
 
   // Execute the batch update
-  const response = await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Extract the CreateSlideResponse from the replies
   const createSlideReply = response.replies?.[0]?.createSlide;
@@ -138,5 +191,23 @@ export async function addSlide(input: AddSlideInput): Promise<AddSlideOutput> {
       ? (presentation.slides?.findIndex((s) => s.objectId === slideId) ?? -1)
       : -1,
     placeholders,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for add_slide
+ */
+export const addSlideTool = defineTool({
+  name: 'add_slide',
+  description: 'Add a new slide to a presentation',
+  inputSchema: AddSlideInputSchema,
+  annotations: {
+    title: 'Add slide',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: addSlide,
+});
@@ -4,8 +4,19 @@
  * Removes a slide from a presentation.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool, ToolInputValidationError } from '../registry.js';
 
 /**
  * Input schema for delete_slide tool
@@ -13,6 +24,7 @@ import { createSlidesClient } from '../../clients/index.js';
 export const DeleteSlideInputSchema = z.object({
   presentationId: z.string().describe('The presentation ID'),
   slideId: z.string().describe('The ID of the slide to delete'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type DeleteSlideInput = z.infer<typeof DeleteSlideInputSchema>;
@@ -20,11 +32,32 @@ export type DeleteSlideInput = z.infer<typeof DeleteSlideInputSchema>;
 /**
  * Output interface for delete_slide tool
  */
-export interface DeleteSlideOutput {
+export interface DeleteSlideOutput extends RevisionOutput {
   deleted: true;
   remainingSlides: number;
 }
 
+/**
+ * Build the requests that delete a slide
+ *
+ * @param input - The slide to delete
+ * @returns The requests
+ */
+export function buildDeleteSlideRequests(input: RequestBuilderInput<DeleteSlideInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
+  // Build the DeleteObjectRequest
+  return {
+    requests: [
+      {
+        deleteObject: {
+          objectId: input.slideId,
+        },
+      },
+    ],
+  };
+}
+
 /**
  * Delete a slide from a presentation
  *
@@ -33,9 +66,11 @@ export interface DeleteSlideOutput {
  * @throws {AuthenticationError} If authentication fails
  * @throws {PresentationNotFoundError} If presentation not found
  * @throws {QuotaExceededError} If API quota is exceeded
- * @throws {Error} If attempting to delete the only slide in the presentation
+ * @throws {ToolInputValidationError} If the slide does not exist or is the only one in the presentation
  */
-export async function deleteSlide(input: DeleteSlideInput): Promise<DeleteSlideOutput> {
+export async function deleteSlide(
+  input: DeleteSlideInput
+): Promise<DeleteSlideOutput | DryRunOutput> {
   // Validate input
   const validatedInput = DeleteSlideInputSchema.parse(input);
 
@@ -47,7 +82,9 @@ export async function deleteSlide(input: DeleteSlideInput): Promise<DeleteSlideO
   const slideCount = presentation.slides?.length ?? 0;
 
   if (slideCount <= 1) {
-    throw new Error('Cannot delete the only slide in the presentation');
+    throw new ToolInputValidationError('delete_slide', [
+      { path: 'slideId', message: 'Cannot delete the only slide in the presentation' },
+    ]);
   }
 
   // Verify the slide exists in the presentation
@@ -56,24 +93,48 @@ export async function deleteSlide(input: DeleteSlideInput): Promise<DeleteSlideO
   );
 
   if (!slideExists) {
-    throw new Error(`Slide not found: ${validatedInput.slideId}`);
+    throw new ToolInputValidationError('delete_slide', [
+      { path: 'slideId', message: `Slide not found: ${validatedInput.slideId}` },
+    ]);
   }
 
-  // Build the DeleteObjectRequest
-  const requests = [
-    {
-      deleteObject: {
-        objectId: validatedInput.slideId,
-      },
-    },
-  ];
+  // Build the requests
+  const { requests } = buildDeleteSlideRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
 
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result
   return {
     deleted: true,
     remainingSlides: slideCount - 1,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for delete_slide
+ */
+export const deleteSlideTool = defineTool({
+  name: 'delete_slide',
+  description: 'Delete a slide from a presentation',
+  inputSchema: DeleteSlideInputSchema,
+  annotations: {
+    title: 'Delete slide',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: deleteSlide,
+});
@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import { defineTool } from '../registry.js';
 
 /**
  * Input schema for get_slide tool
@@ -28,13 +29,15 @@ export interface GetSlideOutput {
     type: string;
     description?: string;
   }>;
+  /** Revision of the presentation, usable as expectedRevisionId */
+  revisionId?: string;
 }
 
 /**
  * Get details about a specific slide
  *
  * @param input - Tool input containing presentation ID and slide ID
- * @returns Slide object ID, index, and elements
+ * @returns Slide object ID, index, elements, and the presentation's revision
  * @throws {AuthenticationError} If authentication fails
  * @throws {PresentationNotFoundError} If presentation or slide not found
  * @throws {QuotaExceededError} If API quota is exceeded
@@ -122,5 +125,21 @@ export async function getSlide(input: GetSlideInput): Promise<GetSlideOutput> {
     objectId: slide.objectId || validatedInput.slideId,
     index: slideIndex,
     elements,
+    ...(presentation.revisionId && { revisionId: presentation.revisionId }),
   };
 }
+
+/**
+ * MCP tool definition for get_slide
+ */
+export const getSlideTool = defineTool({
+  name: 'get_slide',
+  description: 'Get details about a specific slide',
+  inputSchema: GetSlideInputSchema,
+  annotations: {
+    title: 'Get slide',
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: getSlide,
+});
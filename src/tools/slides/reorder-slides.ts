@@ -4,8 +4,19 @@
  * Changes the order of slides in a presentation.
  */
 
+import type { slides_v1 } from 'googleapis';
 import { z } from 'zod';
 import { createSlidesClient } from '../../clients/index.js';
+import {
+  applyMutation,
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RequestBuilderInput,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool, ToolInputValidationError } from '../registry.js';
 
 /**
  * Input schema for reorder_slides tool
@@ -14,6 +25,7 @@ export const ReorderSlidesInputSchema = z.object({
   presentationId: z.string().describe('The presentation ID'),
   slideIds: z.array(z.string()).min(1).describe('Slide IDs in their new order'),
   insertionIndex: z.number().int().nonnegative().describe('New starting position for the slides'),
+  ...MutationOptionsSchema.shape,
 });
 
 export type ReorderSlidesInput = z.infer<typeof ReorderSlidesInputSchema>;
@@ -21,10 +33,32 @@ export type ReorderSlidesInput = z.infer<typeof ReorderSlidesInputSchema>;
 /**
  * Output interface for reorder_slides tool
  */
-export interface ReorderSlidesOutput {
+export interface ReorderSlidesOutput extends RevisionOutput {
   reordered: true;
 }
 
+/**
+ * Build the requests that move slides
+ *
+ * @param input - Slide IDs in their new order and the target index
+ * @returns The requests
+ */
+export function buildReorderSlidesRequests(input: RequestBuilderInput<ReorderSlidesInput>): {
+  requests: slides_v1.Schema$Request[];
+} {
+  // Build the UpdateSlidesPositionRequest
+  return {
+    requests: [
+      {
+        updateSlidesPosition: {
+          slideObjectIds: input.slideIds,
+          insertionIndex: input.insertionIndex,
+        },
+      },
+    ],
+  };
+}
+
 /**
  * Reorder slides in a presentation
  *
@@ -33,9 +67,11 @@ export interface ReorderSlidesOutput {
  * @throws {AuthenticationError} If authentication fails
  * @throws {PresentationNotFoundError} If presentation not found
  * @throws {QuotaExceededError} If API quota is exceeded
- * @throws {Error} If any slide ID is invalid or index is out of range
+ * @throws {ToolInputValidationError} If any slide ID is invalid or the index is out of range
  */
-export async function reorderSlides(input: ReorderSlidesInput): Promise<ReorderSlidesOutput> {
+export async function reorderSlides(
+  input: ReorderSlidesInput
+): Promise<ReorderSlidesOutput | DryRunOutput> {
   // Validate input
   const validatedInput = ReorderSlidesInputSchema.parse(input);
 
@@ -48,35 +84,62 @@ export async function reorderSlides(input: ReorderSlidesInput): Promise<ReorderS
 
   // Validate insertion index
   if (validatedInput.insertionIndex > slideCount) {
-    throw new Error(
-      `Invalid insertion index: ${validatedInput.insertionIndex}. Presentation has ${slideCount} slides.`
-    );
+    throw new ToolInputValidationError('reorder_slides', [
+      {
+        path: 'insertionIndex',
+        message: `Must be at most ${slideCount}, the number of slides in the presentation`,
+      },
+    ]);
   }
 
   // Validate all slide IDs exist in the presentation
   const presentationSlideIds = new Set(presentation.slides?.map((slide) => slide.objectId) ?? []);
 
-  for (const slideId of validatedInput.slideIds) {
-    if (!presentationSlideIds.has(slideId)) {
-      throw new Error(`Slide not found: ${slideId}`);
-    }
+  const missing = validatedInput.slideIds.flatMap((slideId, index) =>
+    presentationSlideIds.has(slideId)
+      ? []
+      : [{ path: `slideIds.${index}`, message: `Slide not found: ${slideId}` }]
+  );
+  if (missing.length > 0) {
+    throw new ToolInputValidationError('reorder_slides', missing);
   }
 
-  // Build the UpdateSlidesPositionRequest
-  const requests = [
-    {
-      updateSlidesPosition: {
-        slideObjectIds: validatedInput.slideIds,
-        insertionIndex: validatedInput.insertionIndex,
-      },
-    },
-  ];
+  // Build the requests
+  const { requests } = buildReorderSlidesRequests(validatedInput);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return dryRunResult(requests);
+  }
 
   // Execute the batch update
-  await client.batchUpdate(validatedInput.presentationId, requests);
+  const response = await applyMutation(
+    client,
+    validatedInput.presentationId,
+    requests,
+    validatedInput.expectedRevisionId
+  );
 
   // Return the result
   return {
     reordered: true,
+    revisionId: revisionIdOf(response),
   };
 }
+
+/**
+ * MCP tool definition for reorder_slides
+ */
+export const reorderSlidesTool = defineTool({
+  name: 'reorder_slides',
+  description: 'Reorder slides in a presentation',
+  inputSchema: ReorderSlidesInputSchema,
+  annotations: {
+    title: 'Reorder slides',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: reorderSlides,
+});
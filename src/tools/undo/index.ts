@@ -0,0 +1,35 @@
+/**
+ * Undo tools
+ *
+ * Journal of recent changes and the MCP tool that reverts them.
+ */
+
+import { getUndoJournalMaxEntries, type UndoEntry, UndoJournal, undoJournal } from './journal.js';
+import {
+  type UndoLastInput,
+  UndoLastInputSchema,
+  type UndoLastOutput,
+  UndoUnavailableError,
+  undoLast,
+  undoLastTool,
+} from './undo-last.js';
+
+/**
+ * Export all undo tool implementations
+ */
+export { getUndoJournalMaxEntries, UndoJournal, undoJournal, UndoUnavailableError, undoLast };
+
+/**
+ * Export all undo tool types
+ */
+export type { UndoEntry, UndoLastInput, UndoLastOutput };
+
+/**
+ * Export all undo tool schemas
+ */
+export { UndoLastInputSchema };
+
+/**
+ * MCP tool definitions for undo
+ */
+export const undoTools = [undoLastTool];
@@ -0,0 +1,873 @@
+/**
+ * Inverse batchUpdate requests for the undo journal
+ *
+ * Works on the raw requests a tool sends, so every tool (including
+ * apply_operations and batch_update) gets undo support from one place:
+ *
+ * - Created objects are deleted again.
+ * - Deleted slides and page elements are recreated with their original IDs
+ *   from a snapshot of the presentation taken before the change: layout,
+ *   placeholders, shapes, images, tables, lines, text, and text styles.
+ *   Videos, charts, groups, and speaker notes are reported as not restored.
+ * - Inserted text is deleted, deleted or replaced text is reinserted with
+ *   its run styles, and style, property, transform, and slide order changes
+ *   are set back to their previous values.
+ *
+ * Requests without an inverse (e.g. groupObjects) are reported as
+ * unsupported, which makes the whole action non-undoable. So are requests
+ * whose inverse reads the snapshot after an earlier request in the same batch
+ * changed the same content (e.g. deleting text inserted just before), since
+ * the snapshot no longer describes what they changed.
+ */
+
+import type { slides_v1 } from 'googleapis';
+
+type Request = slides_v1.Schema$Request;
+
+/**
+ * Inverse of a batchUpdate
+ */
+export interface InverseRequests {
+  /** Requests that revert the change, in the order they must be applied */
+  requests: Request[];
+  /** Request types that could not be inverted */
+  unsupported: string[];
+  /** Objects the inverse cannot fully restore */
+  notRestored: string[];
+}
+
+/**
+ * Request types that create an object with the requested (or a generated) ID
+ */
+const CREATE_REQUESTS = [
+  'createSlide',
+  'createShape',
+  'createTable',
+  'createImage',
+  'createLine',
+] as const;
+
+/**
+ * Request types whose inverse does not depend on the presentation's content
+ */
+const SNAPSHOT_FREE_REQUESTS = new Set<string>([
+  ...CREATE_REQUESTS,
+  'duplicateObject',
+  'insertText',
+  'createParagraphBullets',
+]);
+
+/**
+ * Shape properties restored on recreated shapes
+ */
+const RESTORED_SHAPE_PROPERTIES = ['shapeBackgroundFill', 'outline', 'contentAlignment'] as const;
+
+/**
+ * Text target of a request: a shape, or a cell of a table
+ */
+interface TextTarget {
+  objectId: string;
+  cellLocation?: slides_v1.Schema$TableCellLocation;
+}
+
+/**
+ * Slides and page elements of a presentation by object ID
+ */
+interface PresentationIndex {
+  slides: Map<string, { slide: slides_v1.Schema$Page; index: number }>;
+  elements: Map<string, { element: slides_v1.Schema$PageElement; pageObjectId: string }>;
+}
+
+/**
+ * Pre-existing content changed by the requests applied so far in a batch
+ */
+interface ChangedContent {
+  /** Objects edited or deleted */
+  objects: Set<string>;
+  /** Whether a replaceAllText may have changed any text */
+  allText: boolean;
+  /** Whether slides were moved or deleted */
+  slideOrder: boolean;
+}
+
+/**
+ * Check whether computing the inverse of requests needs the presentation's current content
+ *
+ * @param requests - The requests about to be sent
+ * @returns true if a snapshot must be read before applying them
+ */
+export function needsSnapshot(requests: Request[]): boolean {
+  return requests.some((request) => !SNAPSHOT_FREE_REQUESTS.has(requestKind(request)));
+}
+
+/**
+ * Compute the requests that revert an applied batchUpdate
+ *
+ * @param requests - The requests that were applied
+ * @param replies - The replies returned by the API
+ * @param before - The presentation before the change (required if needsSnapshot)
+ * @returns The inverse requests and anything that cannot be reverted
+ */
+export function invertRequests(
+  requests: Request[],
+  replies: slides_v1.Schema$Response[],
+  before?: slides_v1.Schema$Presentation
+): InverseRequests {
+  const index = indexPresentation(before);
+  const unsupported = new Set<string>();
+  const notRestored: string[] = [];
+  const created = new Set<string>();
+  const deletedAfterCreation = new Set<string>();
+  const changed: ChangedContent = { objects: new Set(), allText: false, slideOrder: false };
+  const inverses: Request[][] = [];
+
+  requests.forEach((request, i) => {
+    const kind = requestKind(request);
+    const target = targetObjectId(request);
+
+    // Objects created in this batch are deleted as a whole, so edits to them need no inverse
+    if (target && created.has(target)) {
+      if (request.deleteObject) {
+        deletedAfterCreation.add(target);
+      }
+      return;
+    }
+
+    const createdId = createdObjectId(request, replies[i]);
+    if (createdId !== undefined) {
+      created.add(createdId);
+      for (const mapping of request.createSlide?.placeholderIdMappings ?? []) {
+        if (mapping.objectId) created.add(mapping.objectId);
+      }
+      inverses.push([{ deleteObject: { objectId: createdId } }]);
+      return;
+    }
+
+    const stale = readsChangedContent(request, index, changed);
+    recordChange(request, index, changed);
+
+    const inverse = stale ? undefined : invertRequest(request, index, notRestored);
+    if (inverse === undefined) {
+      unsupported.add(kind);
+      return;
+    }
+    inverses.push(inverse);
+  });
+
+  // Undo the last request first
+  const inverseRequests = inverses
+    .reverse()
+    .flat()
+    .filter(
+      (request) =>
+        !request.deleteObject?.objectId || !deletedAfterCreation.has(request.deleteObject.objectId)
+    );
+
+  return { requests: inverseRequests, unsupported: [...unsupported], notRestored };
+}
+
+/**
+ * Check whether a request's inverse would read content changed earlier in the batch
+ *
+ * @param request - The request to invert
+ * @param index - The presentation before the batch
+ * @param changed - Content changed by the earlier requests
+ * @returns true if the snapshot no longer describes what the request changes
+ */
+function readsChangedContent(
+  request: Request,
+  index: PresentationIndex,
+  changed: ChangedContent
+): boolean {
+  if (SNAPSHOT_FREE_REQUESTS.has(requestKind(request))) {
+    return false;
+  }
+  if (request.replaceAllText) {
+    return changed.allText || changed.objects.size > 0;
+  }
+  if (request.updateSlidesPosition) {
+    return changed.slideOrder;
+  }
+
+  const target = targetObjectId(request);
+  if (changed.allText) {
+    return true;
+  }
+  if (target === undefined) {
+    return false;
+  }
+  if (changed.objects.has(target)) {
+    return true;
+  }
+
+  // A deleted slide is recreated with the content of all its page elements
+  return (
+    request.deleteObject !== undefined &&
+    index.slides.has(target) &&
+    [...changed.objects].some((id) => index.elements.get(id)?.pageObjectId === target)
+  );
+}
+
+/**
+ * Record the content an applied request changed
+ */
+function recordChange(request: Request, index: PresentationIndex, changed: ChangedContent): void {
+  const target = targetObjectId(request);
+  if (target !== undefined) {
+    changed.objects.add(target);
+  }
+  if (request.replaceAllText) {
+    changed.allText = true;
+  }
+  if (
+    request.updateSlidesPosition ||
+    (request.deleteObject && target && index.slides.has(target))
+  ) {
+    changed.slideOrder = true;
+  }
+}
+
+/**
+ * Get the type of a request (its only key)
+ */
+function requestKind(request: Request): string {
+  return Object.keys(request)[0] ?? 'unknown';
+}
+
+/**
+ * Get the object a request edits, if any
+ */
+function targetObjectId(request: Request): string | undefined {
+  const body = Object.values(request)[0] as Record<string, unknown> | undefined;
+  const id = body?.objectId ?? body?.tableObjectId ?? body?.imageObjectId;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Get the ID of the object a creation request created
+ *
+ * @returns The ID, or undefined if the request does not create an object
+ */
+function createdObjectId(
+  request: Request,
+  reply: slides_v1.Schema$Response | undefined
+): string | undefined {
+  for (const kind of CREATE_REQUESTS) {
+    const create = request[kind];
+    if (create) {
+      return reply?.[kind]?.objectId ?? create.objectId ?? undefined;
+    }
+  }
+  if (request.duplicateObject) {
+    return reply?.duplicateObject?.objectId ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Invert a request that does not create an object
+ *
+ * @returns The inverse requests, or undefined if the request cannot be inverted
+ */
+function invertRequest(
+  request: Request,
+  index: PresentationIndex,
+  notRestored: string[]
+): Request[] | undefined {
+  if (request.insertText) {
+    const { objectId, cellLocation, text, insertionIndex } = request.insertText;
+    if (!objectId) return undefined;
+    if (!text) return [];
+    const start = insertionIndex ?? 0;
+    return [
+      {
+        deleteText: {
+          ...textTarget(objectId, cellLocation),
+          textRange: { type: 'FIXED_RANGE', startIndex: start, endIndex: start + text.length },
+        },
+      },
+    ];
+  }
+
+  if (request.createParagraphBullets) {
+    const { objectId, cellLocation, textRange } = request.createParagraphBullets;
+    if (!objectId) return undefined;
+    return [
+      {
+        deleteParagraphBullets: {
+          ...textTarget(objectId, cellLocation),
+          ...(textRange && { textRange }),
+        },
+      },
+    ];
+  }
+
+  if (request.deleteObject?.objectId) {
+    const { objectId } = request.deleteObject;
+    const slide = index.slides.get(objectId);
+    if (slide) {
+      return buildRestoreSlideRequests(slide.slide, slide.index, notRestored);
+    }
+    const element = index.elements.get(objectId);
+    if (element) {
+      return buildRestoreElementRequests(element.element, element.pageObjectId, notRestored);
+    }
+    return undefined;
+  }
+
+  if (request.updateSlidesPosition) {
+    // Move every slide back to its previous index, first to last
+    return [...index.slides.values()].map(({ slide, index: slideIndex }) => ({
+      updateSlidesPosition: {
+        slideObjectIds: [slide.objectId ?? ''],
+        insertionIndex: slideIndex,
+      },
+    }));
+  }
+
+  if (request.deleteText) {
+    const { objectId, cellLocation, textRange } = request.deleteText;
+    const text = objectId ? findText(index, objectId, cellLocation) : undefined;
+    if (!objectId || !text) return undefined;
+    const [start, end] = resolveRange(textRange, editableLength(text));
+    return buildRestoreTextRequests(textTarget(objectId, cellLocation), text, start, end);
+  }
+
+  if (request.replaceAllText) {
+    return invertReplaceAllText(request.replaceAllText, index);
+  }
+
+  if (request.updateTextStyle) {
+    const { objectId, cellLocation, textRange, fields } = request.updateTextStyle;
+    const text = objectId ? findText(index, objectId, cellLocation) : undefined;
+    if (!objectId || !text || !fields) return undefined;
+    const [start, end] = resolveRange(textRange, plainText(text).length);
+    return overlapping(text, start, end, (element) => element.textRun).map(
+      ({ element, startIndex, endIndex }) => ({
+        updateTextStyle: {
+          ...textTarget(objectId, cellLocation),
+          textRange: { type: 'FIXED_RANGE', startIndex, endIndex },
+          style: element.textRun?.style ?? {},
+          fields,
+        },
+      })
+    );
+  }
+
+  if (request.updateParagraphStyle) {
+    const { objectId, cellLocation, textRange, fields } = request.updateParagraphStyle;
+    const text = objectId ? findText(index, objectId, cellLocation) : undefined;
+    if (!objectId || !text || !fields) return undefined;
+    const [start, end] = resolveRange(textRange, plainText(text).length);
+    return overlapping(text, start, end, (element) => element.paragraphMarker).map(
+      ({ element }) => ({
+        updateParagraphStyle: {
+          ...textTarget(objectId, cellLocation),
+          textRange: {
+            type: 'FIXED_RANGE',
+            startIndex: element.startIndex ?? 0,
+            endIndex: element.endIndex ?? 0,
+          },
+          style: element.paragraphMarker?.style ?? {},
+          fields,
+        },
+      })
+    );
+  }
+
+  if (request.updateShapeProperties) {
+    const { objectId, fields } = request.updateShapeProperties;
+    const shape = objectId ? index.elements.get(objectId)?.element.shape : undefined;
+    if (!objectId || !shape || !fields) return undefined;
+    return [
+      { updateShapeProperties: { objectId, shapeProperties: shape.shapeProperties ?? {}, fields } },
+    ];
+  }
+
+  if (request.updateImageProperties) {
+    const { objectId, fields } = request.updateImageProperties;
+    const image = objectId ? index.elements.get(objectId)?.element.image : undefined;
+    if (!objectId || !image || !fields) return undefined;
+    return [
+      { updateImageProperties: { objectId, imageProperties: image.imageProperties ?? {}, fields } },
+    ];
+  }
+
+  if (request.updateLineProperties) {
+    const { objectId, fields } = request.updateLineProperties;
+    const line = objectId ? index.elements.get(objectId)?.element.line : undefined;
+    if (!objectId || !line || !fields) return undefined;
+    return [
+      { updateLineProperties: { objectId, lineProperties: line.lineProperties ?? {}, fields } },
+    ];
+  }
+
+  if (request.updatePageProperties) {
+    const { objectId, fields } = request.updatePageProperties;
+    const slide = objectId ? index.slides.get(objectId)?.slide : undefined;
+    if (!objectId || !slide || !fields) return undefined;
+    return [
+      { updatePageProperties: { objectId, pageProperties: slide.pageProperties ?? {}, fields } },
+    ];
+  }
+
+  if (request.updatePageElementTransform) {
+    const { objectId } = request.updatePageElementTransform;
+    const element = objectId ? index.elements.get(objectId)?.element : undefined;
+    if (!objectId || !element?.transform) return undefined;
+    return [
+      {
+        updatePageElementTransform: {
+          objectId,
+          transform: element.transform,
+          applyMode: 'ABSOLUTE',
+        },
+      },
+    ];
+  }
+
+  if (request.updatePageElementAltText) {
+    const { objectId } = request.updatePageElementAltText;
+    const element = objectId ? index.elements.get(objectId)?.element : undefined;
+    if (!objectId || !element) return undefined;
+    return [
+      {
+        updatePageElementAltText: {
+          objectId,
+          title: element.title ?? '',
+          description: element.description ?? '',
+        },
+      },
+    ];
+  }
+
+  return undefined;
+}
+
+/**
+ * Invert a replaceAllText request by restoring each replaced occurrence
+ */
+function invertReplaceAllText(
+  request: slides_v1.Schema$ReplaceAllTextRequest,
+  index: PresentationIndex
+): Request[] | undefined {
+  const search = request.containsText?.text;
+  if (!search) return undefined;
+  const replacement = request.replaceText ?? '';
+  const matchCase = request.containsText?.matchCase ?? false;
+  const pages = request.pageObjectIds?.length ? new Set(request.pageObjectIds) : undefined;
+
+  const requests: Request[] = [];
+  for (const { target, text, pageObjectId } of textTargets(index)) {
+    if (pages && !pages.has(pageObjectId)) continue;
+
+    const content = plainText(text);
+    const positions = findOccurrences(content, search, matchCase);
+    const delta = replacement.length - search.length;
+
+    // Restore the last occurrence first so earlier positions stay valid
+    for (let k = positions.length - 1; k >= 0; k--) {
+      const original = positions[k] ?? 0;
+      const position = original + k * delta;
+      if (replacement.length > 0) {
+        requests.push({
+          deleteText: {
+            ...target,
+            textRange: {
+              type: 'FIXED_RANGE',
+              startIndex: position,
+              endIndex: position + replacement.length,
+            },
+          },
+        });
+      }
+      requests.push({
+        insertText: {
+          ...target,
+          text: content.slice(original, original + search.length),
+          insertionIndex: position,
+        },
+      });
+    }
+  }
+  return requests;
+}
+
+/**
+ * Build the requests that recreate a deleted slide
+ *
+ * @param slide - The slide as it was before deletion
+ * @param insertionIndex - The slide's previous index
+ * @param notRestored - Collects content that cannot be recreated
+ * @returns The requests
+ */
+export function buildRestoreSlideRequests(
+  slide: slides_v1.Schema$Page,
+  insertionIndex: number,
+  notRestored: string[]
+): Request[] {
+  const slideId = slide.objectId ?? '';
+  const elements = slide.pageElements ?? [];
+  const isPlaceholder = (element: slides_v1.Schema$PageElement) =>
+    Boolean(element.shape?.placeholder?.parentObjectId);
+
+  // Recreate placeholders with their original IDs through the slide's layout
+  const layoutId = slide.slideProperties?.layoutObjectId;
+  const requests: Request[] = [
+    {
+      createSlide: {
+        objectId: slideId,
+        insertionIndex,
+        ...(layoutId && { slideLayoutReference: { layoutId } }),
+        placeholderIdMappings: elements.filter(isPlaceholder).map((element) => ({
+          objectId: element.objectId,
+          layoutPlaceholderObjectId: element.shape?.placeholder?.parentObjectId,
+        })),
+      },
+    },
+  ];
+
+  for (const element of elements) {
+    if (isPlaceholder(element) && element.objectId) {
+      if (element.transform) {
+        requests.push({
+          updatePageElementTransform: {
+            objectId: element.objectId,
+            transform: element.transform,
+            applyMode: 'ABSOLUTE',
+          },
+        });
+      }
+      requests.push(
+        ...buildRestoreAllTextRequests({ objectId: element.objectId }, element.shape?.text)
+      );
+    } else {
+      requests.push(...buildRestoreElementRequests(element, slideId, notRestored));
+    }
+  }
+
+  const background = slide.pageProperties?.pageBackgroundFill;
+  if (background?.solidFill && background.propertyState !== 'INHERIT') {
+    requests.push({
+      updatePageProperties: {
+        objectId: slideId,
+        pageProperties: { pageBackgroundFill: { solidFill: background.solidFill } },
+        fields: 'pageBackgroundFill.solidFill',
+      },
+    });
+  }
+
+  const notesId = slide.slideProperties?.notesPage?.notesProperties?.speakerNotesObjectId;
+  const notes = (slide.slideProperties?.notesPage?.pageElements ?? []).find(
+    (element) => element.objectId === notesId
+  );
+  if (plainText(notes?.shape?.text).trim()) {
+    notRestored.push(`speaker notes of ${slideId}`);
+  }
+
+  return requests;
+}
+
+/**
+ * Build the requests that recreate a deleted page element
+ *
+ * @param element - The element as it was before deletion
+ * @param pageObjectId - The page the element was on
+ * @param notRestored - Collects content that cannot be recreated
+ * @returns The requests
+ */
+export function buildRestoreElementRequests(
+  element: slides_v1.Schema$PageElement,
+  pageObjectId: string,
+  notRestored: string[]
+): Request[] {
+  const objectId = element.objectId ?? '';
+  const elementProperties = {
+    pageObjectId,
+    ...(element.size && { size: element.size }),
+    ...(element.transform && { transform: element.transform }),
+  };
+  const requests: Request[] = [];
+
+  if (element.shape && !element.shape.placeholder) {
+    requests.push({
+      createShape: {
+        objectId,
+        shapeType: element.shape.shapeType ?? 'TEXT_BOX',
+        elementProperties,
+      },
+    });
+
+    const properties = element.shape.shapeProperties ?? {};
+    const fields = RESTORED_SHAPE_PROPERTIES.filter((field) => properties[field] !== undefined);
+    if (fields.length > 0) {
+      requests.push({
+        updateShapeProperties: {
+          objectId,
+          shapeProperties: Object.fromEntries(fields.map((field) => [field, properties[field]])),
+          fields: fields.join(','),
+        },
+      });
+    }
+
+    requests.push(...buildRestoreAllTextRequests({ objectId }, element.shape.text));
+  } else if (element.image && (element.image.sourceUrl || element.image.contentUrl)) {
+    requests.push({
+      createImage: {
+        objectId,
+        url: element.image.sourceUrl ?? element.image.contentUrl,
+        elementProperties,
+      },
+    });
+  } else if (element.table) {
+    requests.push({
+      createTable: {
+        objectId,
+        rows: element.table.rows,
+        columns: element.table.columns,
+        elementProperties,
+      },
+    });
+    (element.table.tableRows ?? []).forEach((row, rowIndex) => {
+      (row.tableCells ?? []).forEach((cell, columnIndex) => {
+        requests.push(
+          ...buildRestoreAllTextRequests(
+            { objectId, cellLocation: { rowIndex, columnIndex } },
+            cell.text
+          )
+        );
+      });
+    });
+  } else if (element.line) {
+    requests.push({
+      createLine: {
+        objectId,
+        category: element.line.lineCategory ?? 'STRAIGHT',
+        elementProperties,
+      },
+    });
+  } else {
+    notRestored.push(objectId);
+    return [];
+  }
+
+  if (element.title || element.description) {
+    requests.push({
+      updatePageElementAltText: {
+        objectId,
+        title: element.title ?? '',
+        description: element.description ?? '',
+      },
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Build the requests that restore all text of an emptied shape or cell
+ */
+function buildRestoreAllTextRequests(
+  target: TextTarget,
+  text: slides_v1.Schema$TextContent | undefined
+): Request[] {
+  return text ? buildRestoreTextRequests(target, text, 0, editableLength(text)) : [];
+}
+
+/**
+ * Build the requests that reinsert a deleted span of text with its run styles
+ *
+ * @param target - The shape or table cell
+ * @param text - The text content before deletion
+ * @param start - Start of the deleted span
+ * @param end - End of the deleted span (exclusive)
+ * @returns The requests
+ */
+function buildRestoreTextRequests(
+  target: TextTarget,
+  text: slides_v1.Schema$TextContent,
+  start: number,
+  end: number
+): Request[] {
+  const content = plainText(text).slice(start, end);
+  if (!content) {
+    return [];
+  }
+
+  const requests: Request[] = [{ insertText: { ...target, text: content, insertionIndex: start } }];
+  for (const { element, startIndex, endIndex } of overlapping(text, start, end, (e) => e.textRun)) {
+    const style = element.textRun?.style;
+    if (style && Object.keys(style).length > 0) {
+      requests.push({
+        updateTextStyle: {
+          ...target,
+          textRange: { type: 'FIXED_RANGE', startIndex, endIndex },
+          style,
+          fields: Object.keys(style).join(','),
+        },
+      });
+    }
+  }
+  return requests;
+}
+
+/**
+ * Index the slides and page elements of a presentation
+ */
+function indexPresentation(
+  presentation: slides_v1.Schema$Presentation | undefined
+): PresentationIndex {
+  const index: PresentationIndex = { slides: new Map(), elements: new Map() };
+
+  const addElements = (
+    elements: slides_v1.Schema$PageElement[] | undefined,
+    pageObjectId: string
+  ) => {
+    for (const element of elements ?? []) {
+      if (element.objectId) {
+        index.elements.set(element.objectId, { element, pageObjectId });
+      }
+      addElements(element.elementGroup?.children, pageObjectId);
+    }
+  };
+
+  (presentation?.slides ?? []).forEach((slide, slideIndex) => {
+    if (!slide.objectId) return;
+    index.slides.set(slide.objectId, { slide, index: slideIndex });
+    addElements(slide.pageElements, slide.objectId);
+    const notesPage = slide.slideProperties?.notesPage;
+    addElements(notesPage?.pageElements, notesPage?.objectId ?? slide.objectId);
+  });
+
+  return index;
+}
+
+/**
+ * List every shape and table cell with text on the slides
+ */
+function textTargets(
+  index: PresentationIndex
+): Array<{ target: TextTarget; text: slides_v1.Schema$TextContent; pageObjectId: string }> {
+  const targets: Array<{
+    target: TextTarget;
+    text: slides_v1.Schema$TextContent;
+    pageObjectId: string;
+  }> = [];
+
+  for (const [objectId, { element, pageObjectId }] of index.elements) {
+    if (!index.slides.has(pageObjectId)) continue;
+
+    if (element.shape?.text) {
+      targets.push({ target: { objectId }, text: element.shape.text, pageObjectId });
+    }
+    (element.table?.tableRows ?? []).forEach((row, rowIndex) => {
+      (row.tableCells ?? []).forEach((cell, columnIndex) => {
+        if (cell.text) {
+          targets.push({
+            target: { objectId, cellLocation: { rowIndex, columnIndex } },
+            text: cell.text,
+            pageObjectId,
+          });
+        }
+      });
+    });
+  }
+  return targets;
+}
+
+/**
+ * Find the text of a shape or table cell
+ */
+function findText(
+  index: PresentationIndex,
+  objectId: string,
+  cellLocation: slides_v1.Schema$TableCellLocation | undefined
+): slides_v1.Schema$TextContent | undefined {
+  const element = index.elements.get(objectId)?.element;
+  if (cellLocation) {
+    return element?.table?.tableRows?.[cellLocation.rowIndex ?? 0]?.tableCells?.[
+      cellLocation.columnIndex ?? 0
+    ]?.text;
+  }
+  return element?.shape?.text;
+}
+
+/**
+ * Build a text target, omitting the cell location when there is none
+ */
+function textTarget(
+  objectId: string,
+  cellLocation: slides_v1.Schema$TableCellLocation | undefined
+): TextTarget {
+  return { objectId, ...(cellLocation && { cellLocation }) };
+}
+
+/**
+ * Concatenate the text of a text content
+ */
+function plainText(text: slides_v1.Schema$TextContent | undefined): string {
+  return (text?.textElements ?? [])
+    .map((element) => element.textRun?.content ?? element.autoText?.content ?? '')
+    .join('');
+}
+
+/**
+ * Length of the text that can be deleted (everything but the final newline)
+ */
+function editableLength(text: slides_v1.Schema$TextContent): number {
+  const content = plainText(text);
+  return content.endsWith('\n') ? content.length - 1 : content.length;
+}
+
+/**
+ * Resolve a text range to start and end indexes
+ *
+ * @param range - The API range (defaults to all text)
+ * @param length - Length of the text the range applies to
+ * @returns Start and exclusive end, clamped to the text
+ */
+function resolveRange(range: slides_v1.Schema$Range | undefined, length: number): [number, number] {
+  switch (range?.type) {
+    case 'FIXED_RANGE':
+      return [Math.min(range.startIndex ?? 0, length), Math.min(range.endIndex ?? length, length)];
+    case 'FROM_START_INDEX':
+      return [Math.min(range.startIndex ?? 0, length), length];
+    default:
+      return [0, length];
+  }
+}
+
+/**
+ * Find the text elements of one kind that overlap a span, clipped to it
+ */
+function overlapping(
+  text: slides_v1.Schema$TextContent,
+  start: number,
+  end: number,
+  select: (element: slides_v1.Schema$TextElement) => unknown
+): Array<{ element: slides_v1.Schema$TextElement; startIndex: number; endIndex: number }> {
+  return (text.textElements ?? [])
+    .filter(select)
+    .map((element) => ({
+      element,
+      startIndex: Math.max(element.startIndex ?? 0, start),
+      endIndex: Math.min(element.endIndex ?? 0, end),
+    }))
+    .filter(({ startIndex, endIndex }) => startIndex < endIndex);
+}
+
+/**
+ * Find non-overlapping occurrences of a string, left to right
+ */
+function findOccurrences(content: string, search: string, matchCase: boolean): number[] {
+  const haystack = matchCase ? content : content.toLowerCase();
+  const needle = matchCase ? search : search.toLowerCase();
+  const positions: number[] = [];
+
+  let position = haystack.indexOf(needle);
+  while (position !== -1) {
+    positions.push(position);
+    position = haystack.indexOf(needle, position + needle.length);
+  }
+  return positions;
+}
@@ -0,0 +1,163 @@
+/**
+ * Per-presentation undo journal
+ *
+ * Every change applied by a mutating tool is recorded with the requests that
+ * revert it (see inverse.ts), newest last. undo_last pops entries off the end
+ * and applies their inverses.
+ *
+ * The journal lives in memory for the lifetime of the server process.
+ * Configured through environment variables:
+ *
+ * - MCP_GSLIDES_UNDO_MAX_ENTRIES: actions kept per presentation (default: 20, 0 disables the journal)
+ */
+
+import type { slides_v1 } from 'googleapis';
+
+/**
+ * One recorded action
+ */
+export interface UndoEntry {
+  /** Tool that applied the change */
+  toolName: string;
+  /** Account profile the change was applied as */
+  account: string;
+  /** One line per request of the original change */
+  summary: string[];
+  /** Requests that revert the change, in the order they must be applied */
+  inverse: slides_v1.Schema$Request[];
+  /** Request types that could not be inverted; the entry cannot be undone if non-empty */
+  unsupported: string[];
+  /** Objects the inverse cannot fully restore (e.g. videos on a deleted slide) */
+  notRestored: string[];
+  /** Revision of the presentation before the change, when it was read */
+  baseRevisionId?: string;
+  /** Revision of the presentation after the change */
+  revisionId?: string;
+  /** Time the change was applied (ms since epoch) */
+  recordedAt: number;
+}
+
+/**
+ * Read the journal size from environment variables
+ *
+ * @returns Actions kept per presentation (0 disables the journal)
+ */
+export function getUndoJournalMaxEntries(): number {
+  const maxEntries = parseInt(process.env.MCP_GSLIDES_UNDO_MAX_ENTRIES ?? '', 10);
+  return Number.isInteger(maxEntries) && maxEntries >= 0 ? maxEntries : 20;
+}
+
+/**
+ * In-memory journal of recent actions, keyed by presentation ID
+ */
+export class UndoJournal {
+  private readonly entries = new Map<string, UndoEntry[]>();
+
+  /**
+   * Create a new UndoJournal
+   * @param maxEntries - Actions kept per presentation; the oldest is dropped first
+   */
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Whether changes are being recorded
+   */
+  get enabled(): boolean {
+    return this.maxEntries > 0;
+  }
+
+  /**
+   * Record an applied change
+   *
+   * @param presentationId - The presentation that was changed
+   * @param entry - The change and its inverse
+   */
+  record(presentationId: string, entry: UndoEntry): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entries = this.entries.get(presentationId) ?? [];
+    entries.push(entry);
+    if (entries.length > this.maxEntries) {
+      entries.splice(0, entries.length - this.maxEntries);
+    }
+    this.entries.set(presentationId, entries);
+  }
+
+  /**
+   * Get the most recent entries without removing them
+   *
+   * @param presentationId - The presentation ID
+   * @param count - Maximum number of entries to return
+   * @param account - Only return actions applied as this account profile (default: all)
+   * @returns Entries, newest first
+   */
+  peek(presentationId: string, count: number, account?: string): UndoEntry[] {
+    const entries = this.entries.get(presentationId) ?? [];
+    return entries
+      .filter((entry) => account === undefined || entry.account === account)
+      .slice(-count)
+      .reverse();
+  }
+
+  /**
+   * Remove the most recent entries after they were undone
+   *
+   * @param presentationId - The presentation ID
+   * @param count - Number of entries to remove
+   * @param account - Only remove actions applied as this account profile (default: all)
+   */
+  pop(presentationId: string, count: number, account?: string): void {
+    const entries = this.entries.get(presentationId);
+    if (!entries) {
+      return;
+    }
+
+    const popped = new Set(this.peek(presentationId, count, account));
+    const kept = entries.filter((entry) => !popped.has(entry));
+    if (kept.length === 0) {
+      this.entries.delete(presentationId);
+    } else {
+      this.entries.set(presentationId, kept);
+    }
+  }
+
+  /**
+   * Number of recorded actions for a presentation
+   *
+   * @param presentationId - The presentation ID
+   * @param account - Only count actions applied as this account profile (default: all)
+   * @returns Number of entries
+   */
+  size(presentationId: string, account?: string): number {
+    const entries = this.entries.get(presentationId) ?? [];
+    return entries.filter((entry) => account === undefined || entry.account === account).length;
+  }
+
+  /**
+   * Forget recorded actions (e.g. when an account logs out)
+   *
+   * @param account - Only forget actions applied as this account profile (default: all)
+   */
+  clear(account?: string): void {
+    if (account === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [presentationId, entries] of this.entries) {
+      const kept = entries.filter((entry) => entry.account !== account);
+      if (kept.length === 0) {
+        this.entries.delete(presentationId);
+      } else {
+        this.entries.set(presentationId, kept);
+      }
+    }
+  }
+}
+
+/**
+ * Process-wide journal shared by all tools
+ */
+export const undoJournal = new UndoJournal(getUndoJournalMaxEntries());
@@ -0,0 +1,171 @@
+/**
+ * undo_last tool implementation
+ *
+ * Reverts the most recent changes this server made to a presentation as the
+ * current account by applying the inverses recorded in the undo journal,
+ * newest first, in one atomic batchUpdate. Changes made as other accounts are
+ * left to those accounts.
+ */
+
+import type { slides_v1 } from 'googleapis';
+import { z } from 'zod';
+import { clientManager, createSlidesClient } from '../../clients/index.js';
+import {
+  type DryRunOutput,
+  dryRunResult,
+  MutationOptionsSchema,
+  type RevisionOutput,
+  revisionIdOf,
+} from '../mutation.js';
+import { defineTool } from '../registry.js';
+import { undoJournal } from './journal.js';
+
+/**
+ * Error thrown when the requested actions cannot be undone automatically
+ */
+export class UndoUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UndoUnavailableError';
+  }
+}
+
+/**
+ * Input schema for undo_last tool
+ */
+export const UndoLastInputSchema = z.object({
+  presentationId: z.string().describe('The presentation to undo changes in'),
+  steps: z
+    .number()
+    .int()
+    .min(1)
+    .default(1)
+    .describe('Number of recent actions to undo, newest first (default: 1)'),
+  force: z
+    .boolean()
+    .optional()
+    .describe(
+      'Undo even if the presentation was edited elsewhere since the recorded actions (default: false)'
+    ),
+  dryRun: MutationOptionsSchema.shape.dryRun,
+});
+
+export type UndoLastInput = z.input<typeof UndoLastInputSchema>;
+
+/**
+ * Output from undo_last tool
+ */
+export interface UndoLastOutput extends RevisionOutput {
+  /** Number of actions undone */
+  undone: number;
+  /** The undone actions, newest first */
+  actions: Array<{ toolName: string; summary: string[] }>;
+  /** Objects that could not be fully restored */
+  notRestored?: string[];
+  /** Actions of the current account still recorded for this presentation */
+  remaining: number;
+}
+
+/**
+ * Undo the most recent actions applied to a presentation
+ *
+ * @param input - Tool input containing presentation ID and number of steps
+ * @returns The undone actions
+ * @throws {UndoUnavailableError} If nothing is recorded or an action cannot be undone
+ * @throws {ConcurrentModificationError} If the presentation changed since the last recorded action
+ * @throws {AuthenticationError} If authentication fails
+ * @throws {PresentationNotFoundError} If presentation not found
+ * @throws {QuotaExceededError} If API quota is exceeded
+ */
+export async function undoLast(
+  input: UndoLastInput
+): Promise<UndoLastOutput | (DryRunOutput & Pick<UndoLastOutput, 'actions'>)> {
+  // Validate input
+  const validatedInput = UndoLastInputSchema.parse(input);
+  const { presentationId, force } = validatedInput;
+  const account = clientManager.getCurrentAccount();
+
+  // Collect the requested actions of the current account, newest first
+  const entries = undoJournal.peek(presentationId, validatedInput.steps, account);
+  const newest = entries[0];
+  if (!newest) {
+    throw new UndoUnavailableError(
+      `No recorded actions to undo for presentation ${presentationId} as account ${account}`
+    );
+  }
+
+  const blocked = entries.findIndex((entry) => entry.unsupported.length > 0);
+  if (blocked !== -1) {
+    const entry = entries[blocked];
+    throw new UndoUnavailableError(
+      `Action ${blocked + 1} (${entry?.toolName}) cannot be undone: unsupported ${entry?.unsupported.join(', ')} requests` +
+        (blocked > 0 ? `; at most ${blocked} action(s) can be undone` : '')
+    );
+  }
+
+  // Check that nobody else edited the deck between the recorded actions
+  if (!force) {
+    for (let i = 0; i + 1 < entries.length; i++) {
+      const { baseRevisionId } = entries[i] ?? {};
+      const { revisionId } = entries[i + 1] ?? {};
+      if (baseRevisionId && revisionId && baseRevisionId !== revisionId) {
+        throw new UndoUnavailableError(
+          `The presentation was edited between actions ${i + 1} and ${i + 2}; undo fewer steps or pass force: true`
+        );
+      }
+    }
+  }
+
+  const actions = entries.map(({ toolName, summary }) => ({ toolName, summary }));
+  const requests: slides_v1.Schema$Request[] = entries.flatMap((entry) => entry.inverse);
+  const notRestored = entries.flatMap((entry) => entry.notRestored);
+
+  // Preview the requests without applying them
+  if (validatedInput.dryRun) {
+    return { ...dryRunResult(requests), actions };
+  }
+
+  let revisionId: string | undefined;
+  if (requests.length > 0) {
+    // Create authenticated Slides API client
+    const client = await createSlidesClient();
+
+    // Apply every inverse atomically, unless the deck changed after the newest action
+    const response = await client.batchUpdate(
+      presentationId,
+      requests,
+      force ? undefined : newest.revisionId
+    );
+    revisionId = revisionIdOf(response);
+  }
+
+  undoJournal.pop(presentationId, entries.length, account);
+
+  // Return the result
+  return {
+    undone: entries.length,
+    actions,
+    ...(notRestored.length > 0 && { notRestored }),
+    remaining: undoJournal.size(presentationId, account),
+    revisionId,
+  };
+}
+
+/**
+ * MCP tool definition for undo_last
+ */
+export const undoLastTool = defineTool({
+  name: 'undo_last',
+  description:
+    'Undo the most recent changes this server made to a presentation (e.g. a deleted slide, replaced text, or reordered slides). ' +
+    'Fails if the presentation was edited elsewhere since, unless force is set.',
+  inputSchema: UndoLastInputSchema,
+  annotations: {
+    title: 'Undo last actions',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: undoLast,
+});
@@ -0,0 +1,287 @@
+/**
+ * HTTP transport for serving several MCP clients from one process
+ *
+ * Serves the Streamable HTTP transport on /mcp and the legacy HTTP+SSE
+ * transport on /sse (stream) and /messages (client-to-server messages) for
+ * older clients. Every session gets its own MCP Server instance so protocol
+ * state never leaks between agents.
+ *
+ * Uses node:http because the SDK's HTTP transports operate on Node's
+ * IncomingMessage/ServerResponse.
+ */
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Configuration for the HTTP transport
+ */
+export interface HttpTransportConfig {
+  /** Interface to bind to (default: 127.0.0.1) */
+  host: string;
+  /** Port to listen on (default: 3000, 0 for an ephemeral port) */
+  port: number;
+  /** Bearer token required on every request; unauthenticated when omitted */
+  authToken?: string;
+}
+
+/**
+ * A running HTTP transport
+ */
+export interface HttpTransportHandle {
+  /** Base URL the server is reachable at */
+  url: string;
+  /** Number of open MCP sessions across both transports */
+  sessionCount(): number;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Path of the Streamable HTTP endpoint
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Paths of the legacy HTTP+SSE endpoints
+ */
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/**
+ * Maximum accepted JSON-RPC request body size
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Read HTTP transport configuration from environment variables
+ *
+ * @param overrides - Values from CLI flags, which take precedence over the environment
+ * @returns The resolved configuration
+ * @throws {Error} If the port is not a valid number
+ */
+export function getHttpTransportConfig(
+  overrides: Partial<HttpTransportConfig> = {}
+): HttpTransportConfig {
+  const port = overrides.port ?? parseInt(process.env.MCP_GSLIDES_HTTP_PORT || '3000', 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${port}`);
+  }
+
+  return {
+    host: overrides.host ?? process.env.MCP_GSLIDES_HTTP_HOST ?? '127.0.0.1',
+    port,
+    authToken: overrides.authToken ?? (process.env.MCP_GSLIDES_HTTP_TOKEN || undefined),
+  };
+}
+
+/**
+ * Check the Authorization header against the configured bearer token
+ *
+ * @param header - The Authorization header value
+ * @param expectedToken - The configured token
+ * @returns true if the header carries the expected token
+ */
+export function isAuthorized(header: string | undefined, expectedToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match?.[1]) {
+    return false;
+  }
+
+  // Constant-time comparison to avoid leaking the token through timing
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(expectedToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Write a JSON-RPC error response
+ *
+ * @param res - The HTTP response
+ * @param status - HTTP status code
+ * @param message - Error message
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @param req - The HTTP request
+ * @returns The parsed body
+ * @throws {Error} If the body is too large or not valid JSON
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Start the HTTP transport
+ *
+ * @param createServer - Factory producing a fresh MCP server per session
+ * @param config - Host, port, and optional bearer token
+ * @returns Handle with the listening URL and a close function
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  config: HttpTransportConfig
+): Promise<HttpTransportHandle> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  /**
+   * Handle a request to the Streamable HTTP endpoint
+   */
+  async function handleStreamableRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      // GET opens the server-to-client stream, DELETE ends the session
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Missing or unknown session ID');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, `Invalid request body: ${(error as Error).message}`);
+      return;
+    }
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing or unknown session ID');
+      return;
+    }
+
+    // New session: one transport and one MCP server per client
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableSessions.delete(transport.sessionId);
+      }
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy SSE stream
+   */
+  async function handleSseStream(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sseSessions.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+    };
+
+    await createServer().connect(transport);
+  }
+
+  /**
+   * Deliver a client message to a legacy SSE session
+   */
+  async function handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendJsonRpcError(res, 400, 'Missing or unknown session ID');
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (config.authToken && !isAuthorized(req.headers.authorization, config.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_ENDPOINT) {
+      handled = handleStreamableRequest(req, res);
+    } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+      handled = handleSseStream(res);
+    } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      sendJsonRpcError(res, 404, 'Not Found');
+      return;
+    }
+
+    handled.catch((error) => {
+      logger.error('HTTP transport error', { error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+
+  return {
+    url: `http://${host}:${port}`,
+    sessionCount: () => streamableSessions.size + sseSessions.size,
+    close: async () => {
+      const transports = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.allSettled(transports.map((transport) => transport.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
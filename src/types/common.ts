@@ -20,7 +20,7 @@ export interface StoredTokens {
 }
 
 /**
- * Position and size specification (in inches)
+ * Position and size specification (in inches, or the units set in config.json)
  */
 export interface Position {
   /** X coordinate (left edge) in inches */
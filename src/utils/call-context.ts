@@ -0,0 +1,85 @@
+/**
+ * Per-tool-call context
+ *
+ * Tracks state that belongs to a single tool invocation (such as its
+ * correlation ID, the account it acts as, how many Google API requests had
+ * to be retried, or the batchUpdates it sent) without threading it through
+ * every function signature. Backed by AsyncLocalStorage, so code running
+ * inside a tool call can reach its context across awaits.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { slides_v1 } from 'googleapis';
+
+/**
+ * A batchUpdate sent during a tool call
+ */
+export interface BatchUpdateRecord {
+  presentationId: string;
+  requests: slides_v1.Schema$Request[];
+  /** Replies returned by the API (absent if the request failed) */
+  replies?: slides_v1.Schema$Response[];
+}
+
+/**
+ * State collected while a tool call runs
+ */
+export interface CallContext {
+  /** Correlation ID attached to log entries of this call */
+  callId: string;
+  /** Name of the tool being invoked */
+  toolName: string;
+  /** Number of Google API requests retried during this call */
+  apiRetries: number;
+  /** Arguments after schema validation (set by the tool registry) */
+  input?: unknown;
+  /** Account profile named in the call's arguments (set by the tool registry) */
+  account?: string;
+  /** batchUpdates sent during this call, in order */
+  batchUpdates: BatchUpdateRecord[];
+  /**
+   * MCP server that received the call; only its client is sent the call's
+   * log entries, and switch_account only changes its active account
+   */
+  server?: object;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Create an empty context for a tool call
+ *
+ * @param toolName - Name of the tool being invoked
+ * @param server - MCP server that received the call, if any
+ * @returns A fresh context
+ */
+export function createCallContext(toolName: string, server?: object): CallContext {
+  return {
+    callId: randomUUID(),
+    toolName,
+    apiRetries: 0,
+    batchUpdates: [],
+    ...(server && { server }),
+  };
+}
+
+/**
+ * Run a function with the given call context active
+ *
+ * @param context - The context to make current
+ * @param fn - The function to run
+ * @returns The function's result
+ */
+export function runWithCallContext<T>(context: CallContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the tool call currently running
+ *
+ * @returns The active context, or undefined outside of a tool call
+ */
+export function getCallContext(): CallContext | undefined {
+  return storage.getStore();
+}
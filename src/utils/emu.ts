@@ -65,3 +65,46 @@ export function cmToEmu(cm: number): number {
 export function emuToCm(emu: number): number {
   return emu / EMU_PER_CM;
 }
+
+/**
+ * Length units accepted by toEmu and fromEmu
+ */
+export type LengthUnit = 'in' | 'cm' | 'pt' | 'emu';
+
+/**
+ * Converts a length in the given unit to EMU
+ * @param value - Value in the given unit
+ * @param unit - Unit of the value
+ * @returns Value in EMU
+ */
+export function toEmu(value: number, unit: LengthUnit): number {
+  switch (unit) {
+    case 'in':
+      return inchesToEmu(value);
+    case 'cm':
+      return cmToEmu(value);
+    case 'pt':
+      return pointsToEmu(value);
+    case 'emu':
+      return Math.round(value);
+  }
+}
+
+/**
+ * Converts EMU to a length in the given unit
+ * @param emu - Value in EMU
+ * @param unit - Unit to convert to
+ * @returns Value in the given unit
+ */
+export function fromEmu(emu: number, unit: LengthUnit): number {
+  switch (unit) {
+    case 'in':
+      return emuToInches(emu);
+    case 'cm':
+      return emuToCm(emu);
+    case 'pt':
+      return emuToPoints(emu);
+    case 'emu':
+      return emu;
+  }
+}
@@ -2,6 +2,14 @@
  * Utility function exports
  */
 
+// Per-tool-call context
+export {
+  type BatchUpdateRecord,
+  type CallContext,
+  createCallContext,
+  getCallContext,
+  runWithCallContext,
+} from './call-context.js';
 // Color parsing utilities
 export {
   ColorParseError,
@@ -21,6 +29,21 @@ export {
   emuToCm,
   emuToInches,
   emuToPoints,
+  fromEmu,
   inchesToEmu,
+  type LengthUnit,
   pointsToEmu,
+  toEmu,
 } from './emu.js';
+// Structured logging
+export {
+  formatLogEntry,
+  getLoggerSettings,
+  isLevelEnabled,
+  type LogData,
+  type LogEntry,
+  Logger,
+  type LoggerSettings,
+  type LogSubscriber,
+  logger,
+} from './logger.js';
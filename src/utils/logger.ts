@@ -0,0 +1,232 @@
+/**
+ * Structured, leveled logging
+ *
+ * Writes log entries to stderr (stdout carries the stdio transport) as text
+ * or JSON lines, and hands every entry to subscribers such as connected MCP
+ * clients. Entries logged while a tool call runs carry its correlation ID and
+ * tool name. Environment variables take precedence over `logging` in
+ * config.json:
+ *
+ * - MCP_GSLIDES_LOG_LEVEL: minimum level written to stderr: debug, info, warn, or error (default: info)
+ * - MCP_GSLIDES_LOG_FORMAT: text or json (default: text)
+ */
+
+import {
+  getConfig,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  type LogFormat,
+  type LogLevel,
+} from '../config/config.js';
+import { getCallContext } from './call-context.js';
+
+/**
+ * Structured details attached to a log entry
+ */
+export type LogData = Record<string, unknown>;
+
+/**
+ * A single log entry
+ */
+export interface LogEntry {
+  /** ISO 8601 time the entry was logged */
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  /** Correlation ID of the tool call the entry was logged in */
+  callId?: string;
+  /** Tool the entry was logged in */
+  tool?: string;
+  /** Structured details */
+  data?: LogData;
+}
+
+/**
+ * Receives every log entry, regardless of the stderr level
+ */
+export type LogSubscriber = (entry: LogEntry) => void;
+
+/**
+ * Where and how log entries are written
+ */
+export interface LoggerSettings {
+  /** Minimum level written */
+  level: LogLevel;
+  format: LogFormat;
+}
+
+/**
+ * Check whether an entry of one level passes a minimum level
+ *
+ * @param level - Level of the entry
+ * @param minimum - Minimum level to pass
+ * @returns true if the entry is at least as severe as the minimum
+ */
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Read a setting from the environment if it is one of the allowed values
+ *
+ * @param name - Variable name
+ * @param allowed - Accepted values
+ * @returns The value, or undefined if unset or not allowed
+ */
+function readEnumEnv<T extends string>(name: string, allowed: readonly T[]): T | undefined {
+  const value = process.env[name]?.trim().toLowerCase();
+  return allowed.find((candidate) => candidate === value);
+}
+
+/**
+ * Get the logger settings from the environment and config.json
+ *
+ * An invalid configuration file falls back to the defaults here; the error
+ * is reported by whatever loads the configuration for its own settings.
+ *
+ * @returns The configured settings
+ */
+export function getLoggerSettings(): LoggerSettings {
+  let logging: Partial<LoggerSettings> = {};
+  try {
+    logging = getConfig().logging;
+  } catch {
+    // Reported when the configuration is loaded elsewhere
+  }
+
+  return {
+    level: readEnumEnv('MCP_GSLIDES_LOG_LEVEL', LOG_LEVELS) ?? logging.level ?? 'info',
+    format: readEnumEnv('MCP_GSLIDES_LOG_FORMAT', LOG_FORMATS) ?? logging.format ?? 'text',
+  };
+}
+
+/**
+ * Convert log data into JSON-safe values, expanding errors
+ *
+ * @param _key - Property name (unused)
+ * @param value - Property value
+ * @returns The value to serialize
+ */
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+/**
+ * Format an entry as a single line
+ *
+ * @param entry - The entry to format
+ * @param format - Output format
+ * @returns The line, without a trailing newline
+ */
+export function formatLogEntry(entry: LogEntry, format: LogFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(entry, serializeValue);
+  }
+
+  const call = entry.callId ? ` [${entry.tool} ${entry.callId}]` : '';
+  const details = Object.entries(entry.data ?? {}).map(([key, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value, serializeValue);
+    return ` ${key}=${text}`;
+  });
+  return `${entry.timestamp} ${entry.level.toUpperCase()}${call} ${entry.message}${details.join('')}`;
+}
+
+/**
+ * Leveled logger with subscribers
+ */
+export class Logger {
+  private subscribers = new Set<LogSubscriber>();
+  private settings?: LoggerSettings;
+
+  /**
+   * Create a logger
+   *
+   * @param write - Writes one formatted line (default: stderr)
+   * @param settings - Level and format (default: read on first use from the environment and config.json)
+   */
+  constructor(
+    private write: (line: string) => void = (line) => process.stderr.write(`${line}\n`),
+    settings?: LoggerSettings
+  ) {
+    this.settings = settings;
+  }
+
+  /**
+   * Get the level and format in use
+   *
+   * @returns The settings, read on first use if not given
+   */
+  getSettings(): LoggerSettings {
+    if (!this.settings) {
+      this.settings = getLoggerSettings();
+    }
+    return this.settings;
+  }
+
+  /**
+   * Receive every entry logged from now on
+   *
+   * @param subscriber - Called synchronously with each entry; must not throw
+   * @returns A function that removes the subscriber
+   */
+  subscribe(subscriber: LogSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Log an entry
+   *
+   * @param level - Severity of the entry
+   * @param message - What happened
+   * @param data - Structured details
+   */
+  log(level: LogLevel, message: string, data?: LogData): void {
+    const context = getCallContext();
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(context && { callId: context.callId, tool: context.toolName }),
+      ...(data && { data }),
+    };
+
+    const settings = this.getSettings();
+    if (isLevelEnabled(level, settings.level)) {
+      this.write(formatLogEntry(entry, settings.format));
+    }
+    for (const subscriber of this.subscribers) {
+      subscriber(entry);
+    }
+  }
+
+  /** Log details useful when diagnosing problems */
+  debug(message: string, data?: LogData): void {
+    this.log('debug', message, data);
+  }
+
+  /** Log a routine event */
+  info(message: string, data?: LogData): void {
+    this.log('info', message, data);
+  }
+
+  /** Log a problem the server recovered from */
+  warn(message: string, data?: LogData): void {
+    this.log('warn', message, data);
+  }
+
+  /** Log a failure */
+  error(message: string, data?: LogData): void {
+    this.log('error', message, data);
+  }
+}
+
+/**
+ * Server-wide logger
+ */
+export const logger = new Logger();
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for service account and external token credentials
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { generateKeyPairSync } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { JWT } from 'google-auth-library';
+import {
+  createExternalTokenClient,
+  createServiceAccountClient,
+  getAuthMethod,
+} from '../../src/auth/credentials.js';
+import { getAuthenticatedClient, refreshClientCredentials } from '../../src/auth/oauth-client.js';
+import { reloadConfig } from '../../src/config/index.js';
+
+const ENV_NAMES = [
+  'MCP_GSLIDES_ACCESS_TOKEN',
+  'MCP_GSLIDES_ACCESS_TOKEN_FILE',
+  'MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE',
+  'MCP_GSLIDES_IMPERSONATE_USER',
+  'MCP_GSLIDES_CONFIG_PATH',
+  'MCP_GSLIDES_PROJECT_CONFIG_PATH',
+];
+
+const SCOPES = ['https://www.googleapis.com/auth/presentations'];
+
+describe('credentials', () => {
+  const originalFetch = globalThis.fetch;
+  let testDir: string;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-test-'));
+    process.env.MCP_GSLIDES_CONFIG_PATH = path.join(testDir, 'config.json');
+    process.env.MCP_GSLIDES_PROJECT_CONFIG_PATH = path.join(testDir, 'project.json');
+    reloadConfig();
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+    reloadConfig();
+  });
+
+  /**
+   * Write a service account key with a freshly generated private key
+   */
+  async function writeServiceAccountKey(): Promise<string> {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const keyFile = path.join(testDir, 'key.json');
+    await fs.writeFile(
+      keyFile,
+      JSON.stringify({
+        type: 'service_account',
+        client_email: 'reports@example.iam.gserviceaccount.com',
+        private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+        private_key_id: 'key-1',
+      })
+    );
+    return keyFile;
+  }
+
+  /**
+   * Answer token requests with numbered access tokens, recording the JWT claims sent
+   */
+  function stubTokenEndpoint(): Array<Record<string, unknown>> {
+    const claims: Array<Record<string, unknown>> = [];
+    globalThis.fetch = Object.assign(
+      async (_input: unknown, init?: RequestInit) => {
+        const assertion = new URLSearchParams(String(init?.body)).get('assertion') ?? '';
+        const payload = assertion.split('.')[1] ?? '';
+        claims.push(JSON.parse(Buffer.from(payload, 'base64url').toString()));
+        return Response.json({
+          access_token: `sa-token-${claims.length}`,
+          token_type: 'Bearer',
+          expires_in: 3600,
+        });
+      },
+      { preconnect: originalFetch.preconnect }
+    );
+    return claims;
+  }
+
+  describe('getAuthMethod', () => {
+    test('uses the interactive flow by default', () => {
+      expect(getAuthMethod()).toEqual({ type: 'oauth' });
+    });
+
+    test('selects a service account from config.json with the environment taking precedence', async () => {
+      await fs.writeFile(
+        path.join(testDir, 'config.json'),
+        JSON.stringify({ serviceAccount: { keyFile: '/keys/ci.json', subject: 'a@example.com' } })
+      );
+      reloadConfig();
+      process.env.MCP_GSLIDES_IMPERSONATE_USER = 'reports@example.com';
+
+      expect(getAuthMethod()).toEqual({
+        type: 'service-account',
+        keyFile: '/keys/ci.json',
+        subject: 'reports@example.com',
+      });
+    });
+
+    test('prefers an external access token over a service account', () => {
+      process.env.MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE = '/keys/ci.json';
+      process.env.MCP_GSLIDES_ACCESS_TOKEN_FILE = '/run/token';
+
+      expect(getAuthMethod()).toEqual({ type: 'external-token', tokenFile: '/run/token' });
+    });
+  });
+
+  describe('createServiceAccountClient', () => {
+    test('signs in with the key and impersonates the delegated user', async () => {
+      const claims = stubTokenEndpoint();
+      const keyFile = await writeServiceAccountKey();
+
+      const client = await createServiceAccountClient(
+        { type: 'service-account', keyFile, subject: 'reports@example.com' },
+        SCOPES
+      );
+
+      expect(client.credentials.access_token).toBe('sa-token-1');
+      expect(claims[0]).toMatchObject({
+        iss: 'reports@example.iam.gserviceaccount.com',
+        sub: 'reports@example.com',
+        scope: SCOPES[0],
+      });
+    });
+
+    test('refreshes through refreshClientCredentials', async () => {
+      stubTokenEndpoint();
+      const keyFile = await writeServiceAccountKey();
+      const client = await createServiceAccountClient({ type: 'service-account', keyFile }, SCOPES);
+
+      await refreshClientCredentials(client);
+
+      expect(client.credentials.access_token).toBe('sa-token-2');
+    });
+
+    test('rejects files that are not service account keys', async () => {
+      const keyFile = path.join(testDir, 'client.json');
+      await fs.writeFile(keyFile, JSON.stringify({ installed: { client_id: 'abc' } }));
+
+      await expect(
+        createServiceAccountClient({ type: 'service-account', keyFile }, SCOPES)
+      ).rejects.toThrow('is not a service account key');
+    });
+
+    test('is used by getAuthenticatedClient when a key is configured', async () => {
+      stubTokenEndpoint();
+      process.env.MCP_GSLIDES_SERVICE_ACCOUNT_KEY_FILE = await writeServiceAccountKey();
+
+      expect(await getAuthenticatedClient()).toBeInstanceOf(JWT);
+    });
+  });
+
+  describe('createExternalTokenClient', () => {
+    test('uses a token given directly', async () => {
+      const client = await createExternalTokenClient({ type: 'external-token', token: 'ya29.x' });
+      expect(client.credentials.access_token).toBe('ya29.x');
+    });
+
+    test('re-reads a rotated token file', async () => {
+      const tokenFile = path.join(testDir, 'token');
+      await fs.writeFile(tokenFile, 'first-token\n');
+      const client = await createExternalTokenClient({ type: 'external-token', tokenFile });
+      expect(client.credentials.access_token).toBe('first-token');
+
+      await fs.writeFile(tokenFile, 'second-token\n');
+      expect((await client.refreshHandler?.())?.access_token).toBe('second-token');
+    });
+
+    test('reads a token file again before its assumed expiry', async () => {
+      const tokenFile = path.join(testDir, 'token');
+      await fs.writeFile(tokenFile, 'first-token\n');
+      const client = await createExternalTokenClient({ type: 'external-token', tokenFile });
+      expect(client.credentials.expiry_date).toBeGreaterThan(Date.now());
+
+      await fs.writeFile(tokenFile, 'second-token\n');
+      await refreshClientCredentials(client);
+      expect(client.credentials.access_token).toBe('second-token');
+    });
+
+    test('reports an empty token file', async () => {
+      const tokenFile = path.join(testDir, 'token');
+      await fs.writeFile(tokenFile, '');
+
+      await expect(
+        createExternalTokenClient({ type: 'external-token', tokenFile })
+      ).rejects.toThrow('is empty');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Unit tests for the device and manual sign-in flows
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { OAuthCallbackError } from '../../src/auth/callback-server.js';
+import {
+  getOAuthConfig,
+  getOAuthFlow,
+  isBrowserAvailable,
+  OAUTH_ENDPOINTS,
+  OAUTH_SCOPES,
+} from '../../src/auth/config.js';
+import {
+  clearPendingSignIn,
+  continueDeviceSignIn,
+  SignInRequiredError,
+} from '../../src/auth/headless-flow.js';
+import {
+  AuthenticationError,
+  completeSignIn,
+  getAuthenticatedClient,
+} from '../../src/auth/oauth-client.js';
+import { loadTokens } from '../../src/auth/token-store.js';
+
+const ENV_NAMES = [
+  'MCP_GSLIDES_TOKEN_PATH',
+  'MCP_GSLIDES_CLIENT_ID',
+  'MCP_GSLIDES_CLIENT_SECRET',
+  'MCP_GSLIDES_OAUTH_FLOW',
+  'SSH_CONNECTION',
+];
+
+/**
+ * Request sent to a stubbed OAuth endpoint
+ */
+interface RecordedRequest {
+  url: string;
+  params: URLSearchParams;
+}
+
+describe('headless sign-in', () => {
+  const originalFetch = globalThis.fetch;
+  let testDir: string;
+  let savedEnv: Record<string, string | undefined>;
+  let requests: RecordedRequest[];
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-test-'));
+    savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+    process.env.MCP_GSLIDES_TOKEN_PATH = path.join(testDir, 'tokens.json');
+    process.env.MCP_GSLIDES_CLIENT_ID = 'test-client-id';
+    process.env.MCP_GSLIDES_CLIENT_SECRET = 'test-client-secret';
+    requests = [];
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    clearPendingSignIn('default');
+    clearPendingSignIn('work');
+    await fs.rm(testDir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  /**
+   * Answer OAuth requests with the next of the given responses, recording each request
+   */
+  function stubOAuthEndpoints(...responses: Array<{ status?: number; body: object }>) {
+    globalThis.fetch = Object.assign(
+      async (input: unknown, init?: RequestInit) => {
+        requests.push({ url: String(input), params: new URLSearchParams(String(init?.body)) });
+        const next = responses.shift();
+        if (!next) {
+          throw new Error(`Unexpected request to ${String(input)}`);
+        }
+        return new Response(JSON.stringify(next.body), {
+          status: next.status ?? 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      },
+      { preconnect: originalFetch.preconnect }
+    );
+  }
+
+  const TOKEN_RESPONSE = {
+    access_token: 'ya29.headless',
+    refresh_token: '1//0e-headless',
+    expires_in: 3599,
+    scope: OAUTH_SCOPES.join(' '),
+    token_type: 'Bearer',
+  };
+
+  describe('flow selection', () => {
+    test('detects machines without a browser', () => {
+      expect(isBrowserAvailable({ SSH_CONNECTION: '10.0.0.1 22 10.0.0.2 22' }, 'darwin')).toBe(
+        false
+      );
+      expect(isBrowserAvailable({}, 'linux')).toBe(false);
+      expect(isBrowserAvailable({ DISPLAY: ':0' }, 'linux')).toBe(true);
+      expect(isBrowserAvailable({}, 'win32')).toBe(true);
+    });
+
+    test('uses the configured flow, or manual when auto finds no browser', () => {
+      process.env.MCP_GSLIDES_OAUTH_FLOW = 'Device';
+      expect(getOAuthFlow()).toBe('device');
+
+      process.env.MCP_GSLIDES_OAUTH_FLOW = 'auto';
+      process.env.SSH_CONNECTION = '10.0.0.1 22 10.0.0.2 22';
+      expect(getOAuthFlow()).toBe('manual');
+    });
+  });
+
+  describe('manual flow', () => {
+    /**
+     * Start a manual sign-in and return the error carrying its instructions
+     */
+    async function startManualSignIn(): Promise<SignInRequiredError> {
+      process.env.MCP_GSLIDES_OAUTH_FLOW = 'manual';
+      const error = await getAuthenticatedClient().catch((thrown: unknown) => thrown);
+      expect(error).toBeInstanceOf(SignInRequiredError);
+      return error as SignInRequiredError;
+    }
+
+    test('returns the consent URL and repeats it until completed', async () => {
+      const error = await startManualSignIn();
+
+      expect(error.flow).toBe('manual');
+      expect(error.message).toContain('complete_sign_in');
+      const url = new URL(error.url);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('state')).toBeTruthy();
+
+      expect((await startManualSignIn()).url).toBe(error.url);
+    });
+
+    test('exchanges the pasted redirect URL for tokens', async () => {
+      const state = new URL((await startManualSignIn()).url).searchParams.get('state');
+      stubOAuthEndpoints({ body: TOKEN_RESPONSE });
+
+      const account = await completeSignIn(
+        `http://127.0.0.1:8085/callback?state=${state}&code=4%2F0Aabc&scope=presentations`
+      );
+
+      expect(account).toBe('default');
+      expect(requests[0]?.url).toBe(OAUTH_ENDPOINTS.token);
+      expect(requests[0]?.params.get('code')).toBe('4/0Aabc');
+      expect(requests[0]?.params.get('code_verifier')).toBeTruthy();
+      expect(await loadTokens()).toMatchObject({
+        accessToken: 'ya29.headless',
+        refreshToken: '1//0e-headless',
+      });
+
+      // The stored tokens are used from now on
+      const client = await getAuthenticatedClient();
+      expect(client.credentials.access_token).toBe('ya29.headless');
+    });
+
+    test('rejects URLs that belong to no pending sign-in', async () => {
+      await expect(completeSignIn('4/0Aabc')).rejects.toThrow('No sign-in is waiting for a code');
+
+      await startManualSignIn();
+      const attempt = completeSignIn('http://127.0.0.1:8085/callback?state=other&code=4%2F0Aabc');
+      await expect(attempt).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(attempt).rejects.toThrow('State parameter mismatch');
+    });
+
+    test('reports consent errors carried by the redirect URL', async () => {
+      await startManualSignIn();
+
+      await expect(
+        completeSignIn('http://127.0.0.1:8085/callback?error=access_denied')
+      ).rejects.toThrow('OAuth error: access_denied');
+    });
+  });
+
+  describe('device flow', () => {
+    const DEVICE_CODE_RESPONSE = {
+      device_code: 'AH-1Ng3',
+      user_code: 'GQVQ-JKEC',
+      verification_url: 'https://www.google.com/device',
+      expires_in: 1800,
+      interval: 0,
+    };
+
+    test('shows the code, then waits for approval', async () => {
+      const config = getOAuthConfig();
+      const now = () => 1000;
+      stubOAuthEndpoints(
+        { body: DEVICE_CODE_RESPONSE },
+        { status: 428, body: { error: 'authorization_pending' } },
+        { body: TOKEN_RESPONSE }
+      );
+
+      const first = await continueDeviceSignIn('work', config, now).catch(
+        (error: unknown) => error
+      );
+      expect(first).toBeInstanceOf(SignInRequiredError);
+      expect(first).toMatchObject({
+        flow: 'device',
+        url: 'https://www.google.com/device',
+        userCode: 'GQVQ-JKEC',
+      });
+      expect(requests[0]?.url).toBe(OAUTH_ENDPOINTS.deviceAuthorization);
+      expect(requests[0]?.params.get('scope')).toBe(config.scopes.join(' '));
+
+      await expect(continueDeviceSignIn('work', config, now)).rejects.toThrow('GQVQ-JKEC');
+      expect(requests[1]?.params.get('device_code')).toBe('AH-1Ng3');
+
+      const tokens = await continueDeviceSignIn('work', config, now);
+      expect(tokens).toMatchObject({
+        access_token: 'ya29.headless',
+        refresh_token: '1//0e-headless',
+        expiry_date: 1000 + 3599 * 1000,
+      });
+    });
+
+    test('stops when the user denies access', async () => {
+      stubOAuthEndpoints(
+        { body: DEVICE_CODE_RESPONSE },
+        { status: 428, body: { error: 'access_denied' } }
+      );
+
+      await expect(continueDeviceSignIn('work', getOAuthConfig())).rejects.toBeInstanceOf(
+        SignInRequiredError
+      );
+      await expect(continueDeviceSignIn('work', getOAuthConfig())).rejects.toBeInstanceOf(
+        OAuthCallbackError
+      );
+    });
+  });
+});
@@ -10,10 +10,15 @@ import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { OAuth2Client } from 'google-auth-library';
+import { getMissingScopes, OAUTH_READONLY_SCOPES, OAUTH_SCOPES } from '../../src/auth/config.js';
+import { clearPendingSignIn, SignInRequiredError } from '../../src/auth/headless-flow.js';
 import { AuthenticationError, getAuthenticatedClient } from '../../src/auth/oauth-client.js';
-import { saveTokens } from '../../src/auth/token-store.js';
+import { loadTokens, saveTokens } from '../../src/auth/token-store.js';
 import type { StoredTokens } from '../../src/types/common.js';
 
+/** Scopes of tokens that cover everything the server requests */
+const GRANTED_SCOPE = OAUTH_SCOPES.join(' ');
+
 describe('OAuth Client Integration', () => {
   let testDir: string;
   let originalEnv: {
@@ -75,7 +80,7 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.test-access-token',
         refreshToken: '1//test-refresh-token',
         expiresAt: Date.now() + 30 * 60 * 1000, // 30 minutes from now
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       await saveTokens(validTokens);
@@ -96,7 +101,7 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.stored-access-token',
         refreshToken: '1//stored-refresh-token',
         expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour from now
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       await saveTokens(validTokens);
@@ -113,7 +118,7 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.persistent-token',
         refreshToken: '1//persistent-refresh',
         expiresAt: Date.now() + 60 * 60 * 1000,
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       await saveTokens(validTokens);
@@ -135,14 +140,14 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.expiring-token',
         refreshToken: '1//expiring-refresh',
         expiresAt: Date.now() + 2 * 60 * 1000, // 2 minutes from now
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       const nonExpiringTokens: StoredTokens = {
         accessToken: 'ya29.valid-token',
         refreshToken: '1//valid-refresh',
         expiresAt: Date.now() + 30 * 60 * 1000, // 30 minutes from now
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       // With 5-minute buffer, 2-minute token should be expiring
@@ -152,6 +157,116 @@ describe('OAuth Client Integration', () => {
     });
   });
 
+  describe('Scope Drift', () => {
+    test('getMissingScopes accepts full scopes for read-only ones', () => {
+      expect(getMissingScopes(GRANTED_SCOPE, OAUTH_SCOPES)).toEqual([]);
+      expect(getMissingScopes(GRANTED_SCOPE, OAUTH_READONLY_SCOPES)).toEqual([]);
+      expect(getMissingScopes(OAUTH_READONLY_SCOPES.join(' '), OAUTH_SCOPES)).toEqual([
+        ...OAUTH_SCOPES,
+      ]);
+      expect(
+        getMissingScopes('https://www.googleapis.com/auth/presentations', OAUTH_SCOPES)
+      ).toEqual(['https://www.googleapis.com/auth/drive']);
+    });
+
+    test('asks for consent again when stored tokens lack a requested scope', async () => {
+      await saveTokens({
+        accessToken: 'ya29.narrow-token',
+        refreshToken: '1//narrow-refresh',
+        expiresAt: Date.now() + 30 * 60 * 1000,
+        scope: 'https://www.googleapis.com/auth/presentations',
+      });
+      const originalFlow = process.env.MCP_GSLIDES_OAUTH_FLOW;
+      process.env.MCP_GSLIDES_OAUTH_FLOW = 'manual';
+
+      try {
+        const error = await getAuthenticatedClient().catch((thrown: unknown) => thrown);
+
+        expect(error).toBeInstanceOf(SignInRequiredError);
+        const url = new URL((error as SignInRequiredError).url);
+        expect(url.searchParams.get('scope')).toBe(GRANTED_SCOPE);
+        expect(url.searchParams.get('include_granted_scopes')).toBe('true');
+      } finally {
+        clearPendingSignIn('default');
+        if (originalFlow === undefined) {
+          delete process.env.MCP_GSLIDES_OAUTH_FLOW;
+        } else {
+          process.env.MCP_GSLIDES_OAUTH_FLOW = originalFlow;
+        }
+      }
+    });
+  });
+
+  describe('Token Refresh', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    /**
+     * Save tokens that expire within the refresh margin
+     */
+    async function saveExpiringTokens(): Promise<void> {
+      await saveTokens({
+        accessToken: 'ya29.old-token',
+        refreshToken: '1//refresh',
+        expiresAt: Date.now() + 60 * 1000,
+        scope: GRANTED_SCOPE,
+      });
+    }
+
+    /**
+     * Answer token requests with a new access token and the given scope
+     */
+    function stubRefresh(scope?: string): void {
+      globalThis.fetch = Object.assign(
+        async () =>
+          Response.json({
+            access_token: 'ya29.new-token',
+            token_type: 'Bearer',
+            expires_in: 3600,
+            ...(scope !== undefined && { scope }),
+          }),
+        { preconnect: originalFetch.preconnect }
+      );
+    }
+
+    test('keeps the stored scope when the refresh response omits it', async () => {
+      await saveExpiringTokens();
+      stubRefresh();
+
+      const client = await getAuthenticatedClient();
+
+      expect(client.credentials.access_token).toBe('ya29.new-token');
+      expect(await loadTokens()).toMatchObject({
+        accessToken: 'ya29.new-token',
+        scope: GRANTED_SCOPE,
+      });
+    });
+
+    test('asks for consent again when refreshed tokens lack a requested scope', async () => {
+      await saveExpiringTokens();
+      stubRefresh('https://www.googleapis.com/auth/presentations');
+      const originalFlow = process.env.MCP_GSLIDES_OAUTH_FLOW;
+      process.env.MCP_GSLIDES_OAUTH_FLOW = 'manual';
+
+      try {
+        const error = await getAuthenticatedClient().catch((thrown: unknown) => thrown);
+
+        expect(error).toBeInstanceOf(SignInRequiredError);
+        expect(await loadTokens()).toMatchObject({ accessToken: 'ya29.old-token' });
+      } finally {
+        clearPendingSignIn('default');
+        if (originalFlow === undefined) {
+          delete process.env.MCP_GSLIDES_OAUTH_FLOW;
+        } else {
+          process.env.MCP_GSLIDES_OAUTH_FLOW = originalFlow;
+        }
+      }
+    });
+  });
+
   describe('Error Handling', () => {
     test('AuthenticationError has correct name', () => {
       const error = new AuthenticationError('test message');
@@ -174,7 +289,7 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.test-token',
         refreshToken: '1//test-refresh',
         expiresAt: Date.now() + 60 * 60 * 1000,
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       await saveTokens(validTokens);
@@ -191,7 +306,7 @@ describe('OAuth Client Integration', () => {
         accessToken: 'ya29.test-token',
         refreshToken: '1//test-refresh',
         expiresAt: Date.now() + 60 * 60 * 1000,
-        scope: 'https://www.googleapis.com/auth/presentations',
+        scope: GRANTED_SCOPE,
       };
 
       await saveTokens(validTokens);
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for token encryption at rest
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  decryptTokens,
+  type EncryptedTokenFile,
+  encryptTokens,
+  getTokenKeySource,
+  TokenDecryptionError,
+  type TokenKeySource,
+} from '../../src/auth/token-encryption.js';
+import { getTokenPath, loadTokens, saveTokens } from '../../src/auth/token-store.js';
+import type { StoredTokens } from '../../src/types/common.js';
+
+const ENV_NAMES = [
+  'MCP_GSLIDES_TOKEN_PATH',
+  'MCP_GSLIDES_TOKEN_PASSPHRASE',
+  'MCP_GSLIDES_TOKEN_KEY_FILE',
+];
+
+const TOKENS: StoredTokens = {
+  accessToken: 'ya29.a0...',
+  refreshToken: '1//0e...',
+  expiresAt: Date.now() + 3600000,
+  scope: 'https://www.googleapis.com/auth/presentations',
+};
+
+const PASSPHRASE: TokenKeySource = { type: 'passphrase', passphrase: 'correct horse' };
+
+describe('token encryption', () => {
+  let testDir: string;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-test-'));
+    savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+    process.env.MCP_GSLIDES_TOKEN_PATH = path.join(testDir, 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  /**
+   * Read the raw contents of the default token file
+   */
+  async function readTokenFile(): Promise<Record<string, unknown>> {
+    return JSON.parse(await fs.readFile(getTokenPath(), 'utf-8'));
+  }
+
+  describe('encryptTokens and decryptTokens', () => {
+    test('round-trips tokens without exposing them', async () => {
+      const file = await encryptTokens(TOKENS, PASSPHRASE, 'default');
+
+      expect(file).toMatchObject({ version: 1, algorithm: 'aes-256-gcm', kdf: 'scrypt' });
+      expect(JSON.stringify(file)).not.toContain(TOKENS.refreshToken);
+      expect(await decryptTokens(file, PASSPHRASE, 'default', 'tokens.json')).toEqual(TOKENS);
+    });
+
+    test('derives keys from key files with HKDF', async () => {
+      const key: TokenKeySource = { type: 'key-file', path: 'key', secret: Buffer.from('s3cret') };
+      const file = await encryptTokens(TOKENS, key, 'default');
+
+      expect(file.kdf).toBe('hkdf-sha256');
+      expect(await decryptTokens(file, key, 'default', 'tokens.json')).toEqual(TOKENS);
+      await expect(decryptTokens(file, PASSPHRASE, 'default', 'tokens.json')).rejects.toThrow(
+        'it was encrypted with a key file'
+      );
+    });
+
+    test('rejects modified files, wrong keys, and other accounts', async () => {
+      const file = await encryptTokens(TOKENS, PASSPHRASE, 'default');
+      const ciphertext = Buffer.from(file.ciphertext, 'base64');
+      ciphertext[0] = (ciphertext[0] ?? 0) ^ 1;
+      const tampered: EncryptedTokenFile = { ...file, ciphertext: ciphertext.toString('base64') };
+
+      for (const attempt of [
+        () => decryptTokens(tampered, PASSPHRASE, 'default', 'tokens.json'),
+        () =>
+          decryptTokens(
+            file,
+            { type: 'passphrase', passphrase: 'wrong' },
+            'default',
+            'tokens.json'
+          ),
+        () => decryptTokens(file, PASSPHRASE, 'work', 'tokens.json'),
+      ]) {
+        await expect(attempt()).rejects.toThrow(
+          new TokenDecryptionError(
+            'tokens.json',
+            'integrity check failed; the file was modified, belongs to another account, or was encrypted with a different key'
+          )
+        );
+      }
+    });
+
+    test('explains that a key is needed for encrypted files', async () => {
+      const file = await encryptTokens(TOKENS, PASSPHRASE, 'default');
+
+      await expect(decryptTokens(file, undefined, 'default', 'tokens.json')).rejects.toThrow(
+        'set MCP_GSLIDES_TOKEN_PASSPHRASE or MCP_GSLIDES_TOKEN_KEY_FILE'
+      );
+    });
+  });
+
+  describe('getTokenKeySource', () => {
+    test('stores tokens unencrypted without a key', async () => {
+      expect(await getTokenKeySource()).toBeUndefined();
+    });
+
+    test('prefers the passphrase over a key file', async () => {
+      process.env.MCP_GSLIDES_TOKEN_KEY_FILE = path.join(testDir, 'missing.key');
+      process.env.MCP_GSLIDES_TOKEN_PASSPHRASE = 'correct horse';
+
+      expect(await getTokenKeySource()).toEqual(PASSPHRASE);
+    });
+
+    test('reports unreadable and empty key files', async () => {
+      const keyFile = path.join(testDir, 'token.key');
+      process.env.MCP_GSLIDES_TOKEN_KEY_FILE = keyFile;
+      await expect(getTokenKeySource()).rejects.toThrow(
+        `Could not read the token key file at ${keyFile}`
+      );
+
+      await fs.writeFile(keyFile, '\n');
+      await expect(getTokenKeySource()).rejects.toThrow(
+        `The token key file at ${keyFile} is empty`
+      );
+    });
+  });
+
+  describe('token store', () => {
+    test('encrypts saved tokens when a key is configured', async () => {
+      process.env.MCP_GSLIDES_TOKEN_PASSPHRASE = 'correct horse';
+
+      await saveTokens(TOKENS);
+
+      expect(await readTokenFile()).toHaveProperty('ciphertext');
+      expect(await loadTokens()).toEqual(TOKENS);
+    });
+
+    test('encrypts existing plaintext files on load', async () => {
+      await saveTokens(TOKENS);
+      expect(await readTokenFile()).toEqual({ ...TOKENS });
+
+      const keyFile = path.join(testDir, 'token.key');
+      await fs.writeFile(keyFile, 'random key material');
+      process.env.MCP_GSLIDES_TOKEN_KEY_FILE = keyFile;
+
+      expect(await loadTokens()).toEqual(TOKENS);
+      expect(await readTokenFile()).toMatchObject({ kdf: 'hkdf-sha256' });
+      expect(await loadTokens()).toEqual(TOKENS);
+    });
+
+    test('rejects a plaintext file in place of one written encrypted', async () => {
+      process.env.MCP_GSLIDES_TOKEN_PASSPHRASE = 'correct horse';
+      await saveTokens(TOKENS);
+
+      await fs.writeFile(
+        getTokenPath(),
+        JSON.stringify({ ...TOKENS, refreshToken: 'attacker' }, null, 2)
+      );
+
+      await expect(loadTokens()).rejects.toBeInstanceOf(TokenDecryptionError);
+      expect(await readTokenFile()).toMatchObject({ refreshToken: 'attacker' });
+    });
+
+    test('rejects a tampered token file instead of signing in again', async () => {
+      process.env.MCP_GSLIDES_TOKEN_PASSPHRASE = 'correct horse';
+      await saveTokens(TOKENS);
+
+      const file = await readTokenFile();
+      await fs.writeFile(
+        getTokenPath(),
+        JSON.stringify({ ...file, tag: 'AAAAAAAAAAAAAAAAAAAAAA==' })
+      );
+
+      await expect(loadTokens()).rejects.toBeInstanceOf(TokenDecryptionError);
+    });
+  });
+});
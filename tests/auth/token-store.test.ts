@@ -8,7 +8,9 @@ import * as path from 'node:path';
 import {
   areTokensExpiring,
   deleteTokens,
+  getDefaultAccount,
   getTokenPath,
+  listAccounts,
   loadTokens,
   saveTokens,
 } from '../../src/auth/token-store.js';
@@ -172,6 +174,69 @@ describe('Token Storage', () => {
     });
   });
 
+  describe('account profiles', () => {
+    const workTokens: StoredTokens = {
+      accessToken: 'ya29.work',
+      refreshToken: '1//work',
+      expiresAt: Date.now() + 3600000,
+      scope: 'https://www.googleapis.com/auth/presentations',
+    };
+
+    test('stores named profiles next to the default token file', async () => {
+      expect(getTokenPath('work')).toBe(path.join(testDir, 'tokens.work.json'));
+
+      await saveTokens(workTokens, 'work');
+
+      expect(await loadTokens('work')).toEqual(workTokens);
+      expect(await loadTokens()).toBeNull();
+    });
+
+    test('rejects account names that are not safe file names', () => {
+      expect(() => getTokenPath('../work')).toThrow('Invalid account name: ../work');
+      expect(() => getTokenPath('Work')).toThrow('Invalid account name: Work');
+    });
+
+    test('lists profiles with the default first', async () => {
+      expect(await listAccounts()).toEqual([]);
+
+      await saveTokens(workTokens, 'work');
+      await saveTokens(workTokens, 'client-acme');
+      await saveTokens(workTokens);
+      await fs.writeFile(path.join(testDir, 'config.json'), '{}');
+
+      expect(await listAccounts()).toEqual(['default', 'client-acme', 'work']);
+    });
+
+    test('deletes one profile without touching the others', async () => {
+      await saveTokens(workTokens, 'work');
+      await saveTokens(workTokens);
+
+      await deleteTokens('work');
+
+      expect(await listAccounts()).toEqual(['default']);
+    });
+
+    test('reads the default account from MCP_GSLIDES_ACCOUNT', () => {
+      const original = process.env.MCP_GSLIDES_ACCOUNT;
+      try {
+        delete process.env.MCP_GSLIDES_ACCOUNT;
+        expect(getDefaultAccount()).toBe('default');
+
+        process.env.MCP_GSLIDES_ACCOUNT = 'work';
+        expect(getDefaultAccount()).toBe('work');
+
+        process.env.MCP_GSLIDES_ACCOUNT = 'Not Valid';
+        expect(() => getDefaultAccount()).toThrow('Invalid account name in MCP_GSLIDES_ACCOUNT');
+      } finally {
+        if (original === undefined) {
+          delete process.env.MCP_GSLIDES_ACCOUNT;
+        } else {
+          process.env.MCP_GSLIDES_ACCOUNT = original;
+        }
+      }
+    });
+  });
+
   describe('areTokensExpiring', () => {
     test('returns false for tokens expiring in more than buffer time', () => {
       const tokens: StoredTokens = {
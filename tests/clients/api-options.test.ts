@@ -0,0 +1,213 @@
+/**
+ * Unit tests for API endpoint, proxy, and timeout options
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import {
+  bypassesProxy,
+  createTransport,
+  getApiClientOptions,
+  getNetworkOptions,
+  type NetworkOptions,
+} from '../../src/clients/api-options.js';
+import { isTimeoutError } from '../../src/clients/retry.js';
+import { reloadConfig } from '../../src/config/index.js';
+
+const ENV_NAMES = [
+  'MCP_GSLIDES_API_ROOT_URL',
+  'MCP_GSLIDES_SLIDES_ROOT_URL',
+  'MCP_GSLIDES_DRIVE_ROOT_URL',
+  'MCP_GSLIDES_API_TIMEOUT_MS',
+  'MCP_GSLIDES_CA_FILE',
+  'HTTPS_PROXY',
+  'https_proxy',
+  'HTTP_PROXY',
+  'http_proxy',
+  'NO_PROXY',
+  'no_proxy',
+  'MCP_GSLIDES_CONFIG_PATH',
+  'MCP_GSLIDES_PROJECT_CONFIG_PATH',
+];
+
+const DIRECT: NetworkOptions = { timeoutMs: 0, noProxy: [] };
+
+describe('API client options', () => {
+  const originalFetch = globalThis.fetch;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  describe('getNetworkOptions', () => {
+    test('uses Google endpoints and a 60 second timeout by default', () => {
+      expect(getNetworkOptions()).toEqual({
+        slidesRootUrl: undefined,
+        driveRootUrl: undefined,
+        timeoutMs: 60000,
+        proxy: undefined,
+        noProxy: [],
+        caFile: undefined,
+      });
+    });
+
+    test('applies the shared root URL with per-API overrides', () => {
+      process.env.MCP_GSLIDES_API_ROOT_URL = 'http://localhost:9000';
+      process.env.MCP_GSLIDES_DRIVE_ROOT_URL = 'http://localhost:9001/';
+
+      expect(getApiClientOptions('slides').rootUrl).toBe('http://localhost:9000/');
+      expect(getApiClientOptions('drive').rootUrl).toBe('http://localhost:9001/');
+    });
+
+    test('reads the proxy, bypass list, and timeout', () => {
+      process.env.https_proxy = 'http://proxy.corp:3128';
+      process.env.NO_PROXY = 'localhost, .internal.corp';
+      process.env.MCP_GSLIDES_API_TIMEOUT_MS = '0';
+
+      expect(getNetworkOptions()).toMatchObject({
+        proxy: 'http://proxy.corp:3128',
+        noProxy: ['localhost', '.internal.corp'],
+        timeoutMs: 0,
+      });
+    });
+
+    test('falls back to the default timeout for invalid values', () => {
+      process.env.MCP_GSLIDES_API_TIMEOUT_MS = 'soon';
+      expect(getNetworkOptions().timeoutMs).toBe(60000);
+    });
+
+    test('falls back to the network section of config.json', () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'gslides-network-'));
+      process.env.MCP_GSLIDES_CONFIG_PATH = path.join(dir, 'config.json');
+      process.env.MCP_GSLIDES_PROJECT_CONFIG_PATH = path.join(dir, 'project.json');
+      writeFileSync(
+        process.env.MCP_GSLIDES_CONFIG_PATH,
+        JSON.stringify({
+          network: {
+            apiRootUrl: 'http://localhost:9000',
+            driveRootUrl: 'http://localhost:9001',
+            timeoutMs: 5000,
+            caFile: '/etc/ssl/corp.pem',
+            proxy: 'http://proxy.corp:3128',
+            noProxy: ['Localhost'],
+          },
+        })
+      );
+
+      try {
+        reloadConfig();
+        expect(getNetworkOptions()).toEqual({
+          slidesRootUrl: 'http://localhost:9000/',
+          driveRootUrl: 'http://localhost:9001/',
+          timeoutMs: 5000,
+          proxy: 'http://proxy.corp:3128',
+          noProxy: ['localhost'],
+          caFile: '/etc/ssl/corp.pem',
+        });
+
+        process.env.MCP_GSLIDES_API_ROOT_URL = 'http://localhost:9100';
+        process.env.MCP_GSLIDES_API_TIMEOUT_MS = '0';
+        expect(getNetworkOptions()).toMatchObject({
+          slidesRootUrl: 'http://localhost:9100/',
+          driveRootUrl: 'http://localhost:9100/',
+          timeoutMs: 0,
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+        delete process.env.MCP_GSLIDES_CONFIG_PATH;
+        delete process.env.MCP_GSLIDES_PROJECT_CONFIG_PATH;
+        reloadConfig();
+      }
+    });
+  });
+
+  describe('bypassesProxy', () => {
+    test('matches hosts, subdomains, and ports', () => {
+      const rules = ['localhost', '.internal.corp', 'api.example.com:8443'];
+
+      expect(bypassesProxy(new URL('http://localhost:8080/'), rules)).toBe(true);
+      expect(bypassesProxy(new URL('https://slides.internal.corp/'), rules)).toBe(true);
+      expect(bypassesProxy(new URL('https://api.example.com:8443/'), rules)).toBe(true);
+      expect(bypassesProxy(new URL('https://api.example.com/'), rules)).toBe(false);
+      expect(bypassesProxy(new URL('https://slides.googleapis.com/'), rules)).toBe(false);
+    });
+
+    test('bypasses every host for *', () => {
+      expect(bypassesProxy(new URL('https://slides.googleapis.com/'), ['*'])).toBe(true);
+    });
+  });
+
+  describe('createTransport', () => {
+    test('connects directly on Node without a proxy or CA bundle', () => {
+      expect(createTransport(DIRECT, 'node')).toEqual({});
+    });
+
+    test('routes Node requests through the proxy except bypassed hosts', () => {
+      const { agent } = createTransport(
+        { ...DIRECT, proxy: 'http://proxy.corp:3128', noProxy: ['localhost'] },
+        'node'
+      );
+
+      expect(agent?.(new URL('https://slides.googleapis.com/v1'))).toBeInstanceOf(HttpsProxyAgent);
+      expect(agent?.(new URL('http://localhost:9000/v1'))).not.toBeInstanceOf(HttpsProxyAgent);
+    });
+
+    test('sends Bun requests through fetch with the proxy', async () => {
+      let requestedProxy: unknown;
+      globalThis.fetch = Object.assign(
+        async (_input: unknown, init?: RequestInit & { proxy?: string }) => {
+          requestedProxy = init?.proxy;
+          return new Response('{}');
+        },
+        { preconnect: originalFetch.preconnect }
+      );
+      const { fetchImplementation } = createTransport(
+        { ...DIRECT, proxy: 'http://proxy.corp:3128', noProxy: ['localhost'] },
+        'bun'
+      );
+
+      await fetchImplementation?.('https://slides.googleapis.com/v1/presentations/a');
+      expect(requestedProxy).toBe('http://proxy.corp:3128');
+      await fetchImplementation?.('http://localhost:9000/v1/presentations/a');
+      expect(requestedProxy).toBeUndefined();
+    });
+
+    test('aborts Bun requests that exceed the timeout', async () => {
+      const { fetchImplementation } = createTransport(DIRECT, 'bun');
+      const server = Bun.serve({ port: 0, fetch: () => new Promise<Response>(() => {}) });
+
+      try {
+        const error = await fetchImplementation?.(server.url, { timeout: 50 }).catch(
+          (thrown: unknown) => thrown
+        );
+        expect(isTimeoutError(error)).toBe(true);
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test('reports an unreadable CA bundle', () => {
+      expect(() => createTransport({ ...DIRECT, caFile: '/nonexistent/ca.pem' })).toThrow(
+        'Could not read the CA bundle at /nonexistent/ca.pem'
+      );
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for the shared client manager
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { OAuth2Client } from 'google-auth-library';
+import {
+  AccountExistsError,
+  ClientManager,
+  UnknownAccountError,
+} from '../../src/clients/client-manager.js';
+import { createCallContext, runWithCallContext } from '../../src/utils/call-context.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Build a signed-in client expiring at the given time
+ */
+function signedInClient(expiresAt: number): OAuth2Client {
+  const client = new OAuth2Client();
+  client.setCredentials({ access_token: 'a', refresh_token: 'r', expiry_date: expiresAt });
+  return client;
+}
+
+/**
+ * Build a manager with counting authenticate/refresh stubs
+ */
+function createManager(expiresAt: number, refresh?: (client: OAuth2Client) => Promise<void>) {
+  const counts = { signIns: 0, refreshes: 0 };
+  const manager = new ClientManager({
+    now: () => 0,
+    authenticate: async () => {
+      counts.signIns++;
+      return signedInClient(expiresAt);
+    },
+    refresh: async (client) => {
+      counts.refreshes++;
+      if (refresh) {
+        await refresh(client);
+      } else {
+        client.setCredentials({ ...client.credentials, expiry_date: HOUR });
+      }
+    },
+  });
+  return { manager, counts };
+}
+
+describe('ClientManager', () => {
+  test('reuses the signed-in client across calls', async () => {
+    const { manager, counts } = createManager(HOUR);
+
+    const first = await manager.getSlidesClient();
+    const second = await manager.getSlidesClient();
+    await manager.getDriveClient();
+
+    expect(second).toBe(first);
+    expect(counts.signIns).toBe(1);
+    manager.reset();
+  });
+
+  test('shares one sign-in between concurrent calls', async () => {
+    const { manager, counts } = createManager(HOUR);
+
+    const clients = await Promise.all([
+      manager.getAuthClient(),
+      manager.getAuthClient(),
+      manager.getAuthClient(),
+    ]);
+
+    expect(new Set(clients).size).toBe(1);
+    expect(counts.signIns).toBe(1);
+    manager.reset();
+  });
+
+  test('dedupes concurrent refreshes of an expiring token', async () => {
+    const { manager, counts } = createManager(60 * 1000);
+
+    await Promise.all([manager.getAuthClient(), manager.getAuthClient(), manager.refresh()]);
+
+    expect(counts.signIns).toBe(1);
+    expect(counts.refreshes).toBe(1);
+    manager.reset();
+  });
+
+  test('signs in again after reset', async () => {
+    const { manager, counts } = createManager(HOUR);
+
+    const before = await manager.getAuthClient();
+    manager.reset();
+    const after = await manager.getAuthClient();
+
+    expect(after).not.toBe(before);
+    expect(counts.signIns).toBe(2);
+    manager.reset();
+  });
+
+  test('falls back to a full sign-in when refresh fails', async () => {
+    const { manager, counts } = createManager(60 * 1000, async () => {
+      throw new Error('invalid_grant');
+    });
+
+    await manager.getAuthClient();
+
+    expect(counts.refreshes).toBe(1);
+    expect(counts.signIns).toBe(2);
+    manager.reset();
+  });
+
+  test('retries a failed sign-in on the next call', async () => {
+    let attempts = 0;
+    const manager = new ClientManager({
+      authenticate: async () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('cancelled');
+        }
+        return signedInClient(Date.now() + HOUR);
+      },
+    });
+
+    await expect(manager.getAuthClient()).rejects.toThrow('cancelled');
+    await expect(manager.getAuthClient()).resolves.toBeInstanceOf(OAuth2Client);
+    manager.reset();
+  });
+
+  test('does not wait for a pending sign-in to look up the email', async () => {
+    let finishSignIn: (client: OAuth2Client) => void = () => {};
+    const { promise: started, resolve: signInStarted } = Promise.withResolvers<void>();
+    const manager = new ClientManager({
+      authenticate: () =>
+        new Promise<OAuth2Client>((resolve) => {
+          finishSignIn = resolve;
+          signInStarted();
+        }),
+    });
+
+    const signingIn = manager.getAuthClient();
+    await started;
+    expect(await manager.getAccountEmail()).toBeUndefined();
+
+    finishSignIn(signedInClient(Date.now() + HOUR));
+    await signingIn;
+    manager.reset();
+  });
+});
+
+describe('ClientManager accounts', () => {
+  /**
+   * Build a manager with stored profiles whose sign-ins are recorded by account
+   */
+  function createAccountsManager(stored: string[]) {
+    const signIns: string[] = [];
+    const manager = new ClientManager({
+      account: 'default',
+      listAccounts: async () => stored,
+      authenticate: async (account) => {
+        signIns.push(account);
+        return signedInClient(Date.now() + HOUR);
+      },
+    });
+    return { manager, signIns };
+  }
+
+  test('keeps a separate client per account', async () => {
+    const { manager, signIns } = createAccountsManager(['default', 'work']);
+
+    const defaultClient = await manager.getAuthClient();
+    const workClient = await manager.getAuthClient('work');
+
+    expect(workClient).not.toBe(defaultClient);
+    expect(await manager.getAuthClient('work')).toBe(workClient);
+    expect(signIns).toEqual(['default', 'work']);
+    manager.reset('default');
+    manager.reset('work');
+  });
+
+  test('acts as the account of the current tool call', async () => {
+    const { manager, signIns } = createAccountsManager(['work']);
+    const context = { ...createCallContext('get_presentation'), account: 'work' };
+
+    await runWithCallContext(context, async () => {
+      expect(manager.getCurrentAccount()).toBe('work');
+      await manager.getSlidesClient();
+    });
+
+    expect(manager.getCurrentAccount()).toBe('default');
+    expect(signIns).toEqual(['work']);
+    manager.reset('work');
+  });
+
+  test('rejects named accounts without stored tokens', async () => {
+    const { manager, signIns } = createAccountsManager([]);
+
+    await expect(manager.getAuthClient('work')).rejects.toBeInstanceOf(UnknownAccountError);
+    await expect(manager.switchAccount('work')).rejects.toBeInstanceOf(UnknownAccountError);
+    expect(signIns).toEqual([]);
+  });
+
+  test('switches the active account', async () => {
+    const { manager, signIns } = createAccountsManager(['default', 'work']);
+
+    await manager.switchAccount('work');
+    await manager.getDriveClient();
+
+    expect(manager.getActiveAccount()).toBe('work');
+    expect(signIns).toEqual(['work']);
+    manager.reset('work');
+  });
+
+  test('keeps a separate active account per MCP session', async () => {
+    const { manager } = createAccountsManager(['default', 'work']);
+    const first = createCallContext('switch_account', {});
+    const second = createCallContext('switch_account', {});
+
+    await runWithCallContext(first, () => manager.switchAccount('work'));
+
+    await runWithCallContext(first, async () => {
+      expect(manager.getActiveAccount()).toBe('work');
+      expect(manager.getCurrentAccount()).toBe('work');
+    });
+    await runWithCallContext(second, async () => {
+      expect(manager.getActiveAccount()).toBe('default');
+      expect(manager.getCurrentAccount()).toBe('default');
+    });
+    expect(manager.getActiveAccount()).toBe('default');
+  });
+
+  test('signs in to a new account without activating it', async () => {
+    const { manager, signIns } = createAccountsManager(['default']);
+
+    await manager.addAccount('work');
+
+    expect(signIns).toEqual(['work']);
+    expect(manager.getActiveAccount()).toBe('default');
+    await expect(manager.addAccount('default')).rejects.toBeInstanceOf(AccountExistsError);
+    manager.reset('work');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the revision-aware presentation cache
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { OAuth2Client } from 'google-auth-library';
+import type { slides_v1 } from 'googleapis';
+import { PresentationCache } from '../../src/clients/presentation-cache.js';
+import { SlidesClient } from '../../src/clients/slides-client.js';
+
+let now = 0;
+
+function createCache(ttlMs = 1000, maxEntries = 3): PresentationCache {
+  return new PresentationCache({ ttlMs, maxEntries, now: () => now });
+}
+
+function deck(presentationId: string, revisionId = 'rev1'): slides_v1.Schema$Presentation {
+  return { presentationId, revisionId, slides: [] };
+}
+
+beforeEach(() => {
+  now = 0;
+});
+
+describe('PresentationCache', () => {
+  test('returns fresh entries within the TTL', () => {
+    const cache = createCache();
+    cache.set(deck('p1'));
+
+    now = 999;
+    const cached = cache.get('p1');
+    expect(cached?.revisionId).toBe('rev1');
+    expect(cached?.stale).toBe(false);
+  });
+
+  test('marks entries stale after the TTL', () => {
+    const cache = createCache();
+    cache.set(deck('p1'));
+
+    now = 1000;
+    expect(cache.get('p1')?.stale).toBe(true);
+  });
+
+  test('revalidate renews a matching revision', () => {
+    const cache = createCache();
+    cache.set(deck('p1'));
+
+    now = 1500;
+    expect(cache.revalidate('p1', 'rev1')).toBe(true);
+    expect(cache.get('p1')?.stale).toBe(false);
+  });
+
+  test('revalidate drops an outdated revision', () => {
+    const cache = createCache();
+    cache.set(deck('p1'));
+
+    expect(cache.revalidate('p1', 'rev2')).toBe(false);
+    expect(cache.get('p1')).toBeUndefined();
+  });
+
+  test('ignores fetches that raced with an invalidation', () => {
+    const cache = createCache();
+    const version = cache.version;
+    cache.invalidate('p1');
+
+    cache.set(deck('p1'), version);
+    expect(cache.get('p1')).toBeUndefined();
+  });
+
+  test('evicts the least recently used entry', () => {
+    const cache = createCache(1000, 2);
+    cache.set(deck('p1'));
+    cache.set(deck('p2'));
+    cache.get('p1');
+    cache.set(deck('p3'));
+
+    expect(cache.get('p1')).toBeDefined();
+    expect(cache.get('p2')).toBeUndefined();
+    expect(cache.get('p3')).toBeDefined();
+  });
+
+  test('does not cache when the TTL is 0', () => {
+    const cache = createCache(0);
+    cache.set(deck('p1'));
+    expect(cache.size).toBe(0);
+  });
+
+  test('does not cache presentations without a revision', () => {
+    const cache = createCache();
+    cache.set({ presentationId: 'p1' });
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('SlidesClient with cache', () => {
+  /**
+   * Build a client whose Slides API records every get request
+   */
+  function createClient(cache: PresentationCache, revision: { current: string }) {
+    const gets: Array<{ fields?: string }> = [];
+    const slides = {
+      presentations: {
+        get: async (params: { presentationId: string; fields?: string }) => {
+          gets.push({ fields: params.fields });
+          return {
+            data: params.fields
+              ? { revisionId: revision.current }
+              : deck(params.presentationId, revision.current),
+          };
+        },
+        batchUpdate: async () => ({ data: { replies: [] } }),
+      },
+    };
+    const client = new SlidesClient(new OAuth2Client(), cache, {
+      slides: slides as unknown as slides_v1.Slides,
+    });
+    return { client, gets };
+  }
+
+  test('serves repeated reads from the cache', async () => {
+    const { client, gets } = createClient(createCache(), { current: 'rev1' });
+
+    await client.getPresentation('p1');
+    await client.getPresentation('p1');
+
+    expect(gets).toHaveLength(1);
+  });
+
+  test('checks only the revision once the TTL expires', async () => {
+    const { client, gets } = createClient(createCache(), { current: 'rev1' });
+
+    await client.getPresentation('p1');
+    now = 2000;
+    await client.getPresentation('p1');
+
+    expect(gets).toEqual([{ fields: undefined }, { fields: 'revisionId' }]);
+  });
+
+  test('refetches when the revision changed', async () => {
+    const revision = { current: 'rev1' };
+    const { client, gets } = createClient(createCache(), revision);
+
+    await client.getPresentation('p1');
+    now = 2000;
+    revision.current = 'rev2';
+    const presentation = await client.getPresentation('p1');
+
+    expect(presentation.revisionId).toBe('rev2');
+    expect(gets).toHaveLength(3);
+  });
+
+  test('checks the revision within the TTL when asked to revalidate', async () => {
+    const { client, gets } = createClient(createCache(), { current: 'rev1' });
+
+    await client.getPresentation('p1');
+    await client.getPresentation('p1', { revalidate: true });
+
+    expect(gets).toEqual([{ fields: undefined }, { fields: 'revisionId' }]);
+  });
+
+  test('batchUpdate invalidates the cached presentation', async () => {
+    const { client, gets } = createClient(createCache(), { current: 'rev1' });
+
+    await client.getPresentation('p1');
+    await client.batchUpdate('p1', []);
+    await client.getPresentation('p1');
+
+    expect(gets).toEqual([{ fields: undefined }, { fields: undefined }]);
+  });
+});
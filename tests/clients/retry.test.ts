@@ -0,0 +1,246 @@
+/**
+ * Unit tests for the Google API retry policy
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  computeBackoffDelay,
+  getRetryAfterMs,
+  isRateLimitError,
+  isRetryableError,
+  isTimeoutError,
+  type RetryPolicy,
+  withRetry,
+} from '../../src/clients/retry.js';
+import {
+  createCallContext,
+  getCallContext,
+  runWithCallContext,
+} from '../../src/utils/call-context.js';
+import { type LogEntry, logger } from '../../src/utils/logger.js';
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  maxElapsedMs: 60000,
+};
+
+function apiError(status: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    code: status,
+    response: { status, headers: {} },
+    ...extra,
+  });
+}
+
+/**
+ * Build an operation that fails with the given errors, then succeeds
+ */
+function failingThen<T>(errors: unknown[], value: T) {
+  let calls = 0;
+  const operation = async () => {
+    const error = errors[calls++];
+    if (error) {
+      throw error;
+    }
+    return value;
+  };
+  return { operation, calls: () => calls };
+}
+
+describe('isRateLimitError', () => {
+  test('detects 429', () => {
+    expect(isRateLimitError(apiError(429))).toBe(true);
+  });
+
+  test('detects 403 with a rate limit reason', () => {
+    const error = apiError(403, { errors: [{ reason: 'userRateLimitExceeded' }] });
+    expect(isRateLimitError(error)).toBe(true);
+  });
+
+  test('does not treat other 403s as rate limits', () => {
+    const error = apiError(403, { errors: [{ reason: 'forbidden' }] });
+    expect(isRateLimitError(error)).toBe(false);
+  });
+});
+
+describe('isRetryableError', () => {
+  test.each([500, 502, 503, 504])('retries %d when idempotent', (status) => {
+    expect(isRetryableError(apiError(status))).toBe(true);
+  });
+
+  test.each([400, 401, 404])('does not retry %d', (status) => {
+    expect(isRetryableError(apiError(status))).toBe(false);
+  });
+
+  test('retries network errors', () => {
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+  });
+
+  test('retries timed-out attempts', () => {
+    const fetchTimeout = Object.assign(new Error('network timeout'), { type: 'request-timeout' });
+    const abortTimeout = Object.assign(new Error('The operation timed out.'), {
+      name: 'TimeoutError',
+      code: 23,
+    });
+
+    for (const cause of [fetchTimeout, abortTimeout]) {
+      const error = Object.assign(new Error(cause.message), { code: 23, error: cause });
+      expect(isTimeoutError(error)).toBe(true);
+      expect(isRetryableError(error)).toBe(true);
+      expect(isRetryableError(error, false)).toBe(false);
+    }
+  });
+
+  test('only retries rate limits for non-idempotent requests', () => {
+    expect(isRetryableError(apiError(503), false)).toBe(false);
+    expect(isRetryableError(apiError(429), false)).toBe(true);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  test('parses seconds', () => {
+    const error = apiError(429, { response: { status: 429, headers: { 'retry-after': '3' } } });
+    expect(getRetryAfterMs(error)).toBe(3000);
+  });
+
+  test('parses HTTP dates relative to now', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    const error = apiError(429, {
+      response: { status: 429, headers: { 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' } },
+    });
+    expect(getRetryAfterMs(error, now)).toBe(5000);
+  });
+
+  test('returns undefined when absent', () => {
+    expect(getRetryAfterMs(apiError(429))).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  test('grows exponentially up to the cap', () => {
+    const max = () => 0.999999;
+    expect(computeBackoffDelay(0, policy, max)).toBe(99);
+    expect(computeBackoffDelay(2, policy, max)).toBe(399);
+    expect(computeBackoffDelay(10, policy, max)).toBe(999);
+  });
+
+  test('applies full jitter', () => {
+    expect(computeBackoffDelay(3, policy, () => 0)).toBe(0);
+    expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(400);
+  });
+});
+
+describe('withRetry', () => {
+  test('retries transient failures and returns the result', async () => {
+    const delays: number[] = [];
+    const { operation, calls } = failingThen([apiError(503), apiError(429)], 'ok');
+
+    const result = await withRetry(operation, {
+      policy,
+      random: () => 0.5,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    expect(result).toBe('ok');
+    expect(calls()).toBe(3);
+    expect(delays).toEqual([50, 100]);
+  });
+
+  test('prefers Retry-After over the computed backoff', async () => {
+    const delays: number[] = [];
+    const limited = apiError(429, { response: { status: 429, headers: { 'retry-after': '2' } } });
+    const { operation } = failingThen([limited], 'ok');
+
+    await withRetry(operation, {
+      policy,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    expect(delays).toEqual([2000]);
+  });
+
+  test('gives up after maxAttempts', async () => {
+    const errors = [apiError(503), apiError(503), apiError(503), apiError(503), apiError(503)];
+    const { operation, calls } = failingThen(errors, 'ok');
+
+    await expect(withRetry(operation, { policy, sleep: async () => {} })).rejects.toThrow(
+      'HTTP 503'
+    );
+    expect(calls()).toBe(4);
+  });
+
+  test('does not retry permanent errors', async () => {
+    const { operation, calls } = failingThen([apiError(404)], 'ok');
+
+    await expect(withRetry(operation, { policy, sleep: async () => {} })).rejects.toThrow(
+      'HTTP 404'
+    );
+    expect(calls()).toBe(1);
+  });
+
+  test('does not retry server errors for non-idempotent requests', async () => {
+    const { operation, calls } = failingThen([apiError(500)], 'ok');
+
+    await expect(
+      withRetry(operation, { policy, idempotent: false, sleep: async () => {} })
+    ).rejects.toThrow('HTTP 500');
+    expect(calls()).toBe(1);
+  });
+
+  test('stops when the next delay would exceed the time budget', async () => {
+    const limited = apiError(429, { response: { status: 429, headers: { 'retry-after': '120' } } });
+    const { operation, calls } = failingThen([limited], 'ok');
+
+    await expect(withRetry(operation, { policy, sleep: async () => {} })).rejects.toThrow(
+      'HTTP 429'
+    );
+    expect(calls()).toBe(1);
+  });
+
+  test('counts retries on the active call context', async () => {
+    const context = createCallContext('get_presentation');
+    const { operation } = failingThen([apiError(503), apiError(503)], 'ok');
+
+    await runWithCallContext(context, () =>
+      withRetry(operation, { policy, sleep: async () => {} })
+    );
+
+    expect(context.apiRetries).toBe(2);
+    expect(getCallContext()).toBeUndefined();
+  });
+
+  test('logs each attempt with its duration and request', async () => {
+    const entries: LogEntry[] = [];
+    const unsubscribe = logger.subscribe((entry) => entries.push(entry));
+    const response = {
+      status: 200,
+      config: { method: 'GET', url: 'https://slides.googleapis.com/v1/presentations/abc?fields=x' },
+    };
+    const { operation } = failingThen([apiError(503)], response);
+
+    try {
+      await withRetry(operation, { policy, sleep: async () => {}, random: () => 0.5 });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(entries.map((entry) => [entry.level, entry.message])).toEqual([
+      ['warn', 'Google API request failed; retrying'],
+      ['debug', 'Google API request'],
+    ]);
+    expect(entries[0]?.data).toMatchObject({ status: 503, attempt: 1, retryInMs: 50 });
+    expect(entries[1]?.data).toMatchObject({
+      method: 'GET',
+      path: '/v1/presentations/abc',
+      status: 200,
+      attempt: 2,
+    });
+    expect(typeof entries[1]?.data?.durationMs).toBe('number');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for SlidesClient write control
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OAuth2Client } from 'google-auth-library';
+import type { slides_v1 } from 'googleapis';
+import { PresentationCache } from '../../src/clients/presentation-cache.js';
+import {
+  ConcurrentModificationError,
+  QuotaExceededError,
+  SlidesClient,
+} from '../../src/clients/slides-client.js';
+
+/**
+ * Build a client whose batchUpdate records request bodies and runs the given implementation
+ */
+function createClient(batchUpdate: () => Promise<unknown>) {
+  const bodies: unknown[] = [];
+  const slides = {
+    presentations: {
+      batchUpdate: async (params: { requestBody: unknown }) => {
+        bodies.push(params.requestBody);
+        return batchUpdate();
+      },
+    },
+  };
+  const client = new SlidesClient(
+    new OAuth2Client(),
+    new PresentationCache({ ttlMs: 0, maxEntries: 1 }),
+    { slides: slides as unknown as slides_v1.Slides }
+  );
+  return { client, bodies };
+}
+
+/**
+ * Build an error shaped like a googleapis request failure
+ */
+function apiError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('SlidesClient.batchUpdate', () => {
+  let originalBaseDelay: string | undefined;
+
+  beforeEach(() => {
+    originalBaseDelay = process.env.MCP_GSLIDES_RETRY_BASE_DELAY_MS;
+    process.env.MCP_GSLIDES_RETRY_BASE_DELAY_MS = '0';
+  });
+
+  afterEach(() => {
+    if (originalBaseDelay === undefined) {
+      delete process.env.MCP_GSLIDES_RETRY_BASE_DELAY_MS;
+    } else {
+      process.env.MCP_GSLIDES_RETRY_BASE_DELAY_MS = originalBaseDelay;
+    }
+  });
+
+  test('sends requiredRevisionId as writeControl', async () => {
+    const { client, bodies } = createClient(async () => ({
+      data: { replies: [], writeControl: { requiredRevisionId: 'rev2' } },
+    }));
+
+    const response = await client.batchUpdate('p1', [], 'rev1');
+
+    expect(bodies).toEqual([{ requests: [], writeControl: { requiredRevisionId: 'rev1' } }]);
+    expect(response.writeControl?.requiredRevisionId).toBe('rev2');
+  });
+
+  test('omits writeControl without a required revision', async () => {
+    const { client, bodies } = createClient(async () => ({ data: { replies: [] } }));
+
+    await client.batchUpdate('p1', []);
+
+    expect(bodies).toEqual([{ requests: [] }]);
+  });
+
+  test('throws ConcurrentModificationError when the revision no longer matches', async () => {
+    const { client, bodies } = createClient(async () => {
+      throw apiError(400, 'The required revision ID rev1 does not match the latest revision.');
+    });
+
+    const error = await client.batchUpdate('p1', [], 'rev1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrentModificationError);
+    expect(error.expectedRevisionId).toBe('rev1');
+    expect(bodies).toHaveLength(1);
+  });
+
+  test('passes through other bad requests', async () => {
+    const { client } = createClient(async () => {
+      throw apiError(400, 'Invalid requests[0].insertText: object not found');
+    });
+
+    const error = await client.batchUpdate('p1', [], 'rev1').catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(ConcurrentModificationError);
+  });
+
+  test('does not repeat an unpinned write after a server error', async () => {
+    const { client, bodies } = createClient(async () => {
+      throw apiError(503, 'The service is currently unavailable.');
+    });
+
+    await expect(client.batchUpdate('p1', [])).rejects.toThrow('currently unavailable');
+    expect(bodies).toHaveLength(1);
+  });
+
+  test('repeats a write pinned to a revision after a server error', async () => {
+    let attempts = 0;
+    const { client, bodies } = createClient(async () => {
+      if (++attempts === 1) {
+        throw apiError(503, 'The service is currently unavailable.');
+      }
+      return { data: { replies: [] } };
+    });
+
+    await client.batchUpdate('p1', [], 'rev1');
+
+    expect(bodies).toHaveLength(2);
+  });
+
+  test('repeats a rate-limited write', async () => {
+    let attempts = 0;
+    const { client, bodies } = createClient(async () => {
+      if (++attempts === 1) {
+        throw apiError(429, 'Rate limit exceeded');
+      }
+      return { data: { replies: [] } };
+    });
+
+    await client.batchUpdate('p1', []);
+
+    expect(bodies).toHaveLength(2);
+  });
+
+  test('still reports quota errors', async () => {
+    const { client } = createClient(async () => {
+      throw apiError(403, 'Quota exceeded for quota metric');
+    });
+
+    await expect(client.batchUpdate('p1', [], 'rev1')).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+});
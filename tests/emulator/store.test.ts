@@ -0,0 +1,215 @@
+/**
+ * Unit tests for the API emulator's document model
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { slides_v1 } from 'googleapis';
+import { EmulatorApiError, EmulatorStore } from '../../src/emulator/index.js';
+
+describe('EmulatorStore', () => {
+  let store: EmulatorStore;
+  let presentationId: string;
+
+  /**
+   * Apply requests to the test presentation
+   */
+  function update(...requests: slides_v1.Schema$Request[]) {
+    return store.batchUpdate(presentationId, { requests });
+  }
+
+  /**
+   * Text of a shape, as returned by the API
+   */
+  function textOf(objectId: string): slides_v1.Schema$TextContent | undefined {
+    const slides = store.getPresentation(presentationId).slides ?? [];
+    const element = slides
+      .flatMap((slide) => slide.pageElements ?? [])
+      .find((candidate) => candidate.objectId === objectId);
+    return element?.shape?.text ?? undefined;
+  }
+
+  /**
+   * Add a text box with the given text to the first slide
+   */
+  function textBox(objectId: string, text: string) {
+    const slideId = store.getPresentation(presentationId).slides?.[0]?.objectId;
+    update(
+      {
+        createShape: {
+          objectId,
+          shapeType: 'TEXT_BOX',
+          elementProperties: { pageObjectId: slideId },
+        },
+      },
+      { insertText: { objectId, text } }
+    );
+  }
+
+  beforeEach(() => {
+    store = new EmulatorStore();
+    presentationId = store.createPresentation({ title: 'Deck' }).presentationId ?? '';
+  });
+
+  test('creates presentations with a title slide and layouts', () => {
+    const presentation = store.getPresentation(presentationId);
+
+    expect(presentation.title).toBe('Deck');
+    expect(presentation.revisionId).toBeTruthy();
+    expect(presentation.slides).toHaveLength(1);
+    expect(
+      presentation.slides?.[0]?.pageElements?.map((element) => element.shape?.placeholder?.type)
+    ).toEqual(['CENTERED_TITLE', 'SUBTITLE']);
+    expect(presentation.layouts?.map((layout) => layout.layoutProperties?.name)).toContain(
+      'TITLE_AND_BODY'
+    );
+  });
+
+  test('creates slides from a layout with requested placeholder IDs', () => {
+    const { replies } = update({
+      createSlide: {
+        objectId: 'slide_2',
+        slideLayoutReference: { predefinedLayout: 'TITLE_AND_BODY' },
+        placeholderIdMappings: [
+          { objectId: 'slide_2_title', layoutPlaceholder: { type: 'TITLE' } },
+        ],
+      },
+    });
+
+    expect(replies).toEqual([{ createSlide: { objectId: 'slide_2' } }]);
+    const slide = store.getPage(presentationId, 'slide_2');
+    expect(slide.pageElements?.[0]?.objectId).toBe('slide_2_title');
+    expect(slide.pageElements?.[1]?.shape?.placeholder?.type).toBe('BODY');
+    expect(slide.slideProperties?.notesPage?.notesProperties?.speakerNotesObjectId).toBeTruthy();
+  });
+
+  test('renders text as paragraphs and runs with API indices', () => {
+    textBox('box_1', 'Hello\nWorld');
+    update({
+      updateTextStyle: {
+        objectId: 'box_1',
+        textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 5 },
+        style: { bold: true },
+        fields: 'bold',
+      },
+    });
+
+    expect(textOf('box_1')?.textElements).toEqual([
+      { endIndex: 6, paragraphMarker: { style: {} } },
+      { endIndex: 5, textRun: { content: 'Hello', style: { bold: true } } },
+      { startIndex: 5, endIndex: 6, textRun: { content: '\n', style: {} } },
+      { startIndex: 6, endIndex: 12, paragraphMarker: { style: {} } },
+      { startIndex: 6, endIndex: 12, textRun: { content: 'World\n', style: {} } },
+    ]);
+  });
+
+  test('keeps the final newline and merges paragraphs on delete', () => {
+    textBox('box_1', 'One\nTwo');
+    update({
+      deleteText: {
+        objectId: 'box_1',
+        textRange: { type: 'FIXED_RANGE', startIndex: 2, endIndex: 8 },
+      },
+    });
+
+    const elements = textOf('box_1')?.textElements ?? [];
+    expect(elements.filter((element) => element.paragraphMarker)).toHaveLength(1);
+    expect(elements.map((element) => element.textRun?.content ?? '').join('')).toBe('On\n');
+  });
+
+  test('removes the text of a shape when all of it is deleted', () => {
+    textBox('box_1', 'Hello');
+    update({ deleteText: { objectId: 'box_1', textRange: { type: 'ALL' } } });
+
+    expect(textOf('box_1')).toBeUndefined();
+  });
+
+  test('counts replaced occurrences', () => {
+    textBox('box_1', 'cat and Cat');
+    const { replies } = update({
+      replaceAllText: { containsText: { text: 'cat', matchCase: false }, replaceText: 'dog' },
+    });
+
+    expect(replies).toEqual([{ replaceAllText: { occurrencesChanged: 2 } }]);
+  });
+
+  test('moves slides relative to the arrangement before the move', () => {
+    update(
+      { createSlide: { objectId: 'slide_b' } },
+      { createSlide: { objectId: 'slide_c' } },
+      { updateSlidesPosition: { slideObjectIds: ['slide_c'], insertionIndex: 1 } }
+    );
+
+    const ids = store.getPresentation(presentationId).slides?.map((slide) => slide.objectId);
+    expect(ids?.slice(1)).toEqual(['slide_c', 'slide_b']);
+  });
+
+  test('gives duplicated slides new IDs throughout', () => {
+    const slideId = store.getPresentation(presentationId).slides?.[0]?.objectId ?? '';
+    const reply = update({ duplicateObject: { objectId: slideId } }).replies?.[0];
+    const copy = store.getPage(presentationId, reply?.duplicateObject?.objectId ?? '');
+    const original = store.getPage(presentationId, slideId);
+
+    expect(copy.objectId).not.toBe(slideId);
+    expect(copy.pageElements?.[0]?.objectId).not.toBe(original.pageElements?.[0]?.objectId);
+    const notes = copy.slideProperties?.notesPage;
+    expect(
+      notes?.pageElements?.some(
+        (element) => element.objectId === notes.notesProperties?.speakerNotesObjectId
+      )
+    ).toBe(true);
+  });
+
+  test('applies nothing when a request fails', () => {
+    const before = store.getPresentation(presentationId);
+
+    expect(() =>
+      update({ createSlide: { objectId: 'slide_2' } }, { deleteObject: { objectId: 'missing' } })
+    ).toThrow('Invalid requests[1].deleteObject: The object (missing) could not be found.');
+    expect(store.getPresentation(presentationId)).toEqual(before);
+  });
+
+  test('rejects duplicate and malformed object IDs', () => {
+    update({ createSlide: { objectId: 'slide_2' } });
+
+    expect(() => update({ createSlide: { objectId: 'slide_2' } })).toThrow('should be unique');
+    expect(() => update({ createSlide: { objectId: 'ab' } })).toThrow('5-50 characters');
+  });
+
+  test('enforces the required revision', () => {
+    const { revisionId } = store.getPresentation(presentationId);
+    const response = store.batchUpdate(presentationId, {
+      requests: [{ createSlide: {} }],
+      writeControl: { requiredRevisionId: revisionId },
+    });
+
+    expect(response.writeControl?.requiredRevisionId).not.toBe(revisionId);
+    expect(() =>
+      store.batchUpdate(presentationId, {
+        requests: [{ createSlide: {} }],
+        writeControl: { requiredRevisionId: revisionId },
+      })
+    ).toThrow('revision');
+  });
+
+  test('rejects request types it does not emulate', () => {
+    expect(() => update({ groupObjects: { childrenObjectIds: ['a', 'b'] } })).toThrow(
+      'does not support this request type'
+    );
+  });
+
+  test('reports missing presentations as 404', () => {
+    expect(() => store.getPresentation('missing')).toThrow(EmulatorApiError);
+    expect(() => store.getPresentation('missing')).toThrow('Requested entity was not found.');
+  });
+
+  test('copies presentations with their object IDs', () => {
+    const file = store.copyFile(presentationId, { name: 'Copy' });
+    const copy = store.getPresentation(file.id ?? '');
+
+    expect(copy.title).toBe('Copy');
+    expect(copy.slides?.[0]?.objectId).toBe(
+      store.getPresentation(presentationId).slides?.[0]?.objectId
+    );
+    expect(store.listFiles().map((listed) => listed.name)).toContain('Copy');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * End-to-end tests: tools run against the API emulator over HTTP
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { clientManager, PresentationNotFoundError } from '../../src/clients/index.js';
+import { type EmulatorHandle, startEmulator } from '../../src/emulator/index.js';
+import {
+  type AddSlideOutput,
+  addSlide,
+  createPresentation,
+  deleteSlide,
+  duplicatePresentation,
+  formatText,
+  getPresentation,
+  getSlide,
+  insertText,
+  listPresentations,
+  reorderSlides,
+  setSpeakerNotes,
+  toToolError,
+  type UndoLastOutput,
+  undoJournal,
+  undoLast,
+} from '../../src/tools/index.js';
+
+describe('tools against the API emulator', () => {
+  let emulator: EmulatorHandle;
+  let presentationId: string;
+
+  /**
+   * Concatenated text of a shape on a slide
+   */
+  function shapeText(slideId: string, objectId: string): string {
+    const slide = emulator.store.getPage(presentationId, slideId);
+    const element = slide.pageElements?.find((candidate) => candidate.objectId === objectId);
+    return (element?.shape?.text?.textElements ?? [])
+      .map((textElement) => textElement.textRun?.content ?? '')
+      .join('');
+  }
+
+  beforeAll(async () => {
+    emulator = await startEmulator();
+    clientManager.useEmulator(emulator.url);
+  });
+
+  afterAll(async () => {
+    clientManager.useEmulator(undefined);
+    await emulator.close();
+  });
+
+  beforeEach(async () => {
+    undoJournal.clear();
+    ({ presentationId } = await createPresentation({ title: 'Quarterly review' }));
+  });
+
+  test('creates and lists presentations', async () => {
+    const presentation = await getPresentation({ presentationId });
+    expect(presentation.title).toBe('Quarterly review');
+    expect(presentation.slideCount).toBe(1);
+
+    const { presentations } = await listPresentations({ limit: 50 });
+    expect(presentations.map((summary) => summary.presentationId)).toContain(presentationId);
+  });
+
+  test('adds a slide and fills its placeholders', async () => {
+    const slide = (await addSlide({ presentationId, layout: 'TITLE_AND_BODY' })) as AddSlideOutput;
+    expect(slide.index).toBe(1);
+    expect(slide.placeholders.map((placeholder) => placeholder.type)).toEqual(['TITLE', 'BODY']);
+
+    const title = slide.placeholders[0]?.objectId ?? '';
+    await insertText({
+      presentationId,
+      slideId: slide.slideId,
+      placeholderId: title,
+      text: 'Goals',
+    });
+    await formatText({ presentationId, objectId: title, style: { bold: true } });
+    await setSpeakerNotes({ presentationId, slideId: slide.slideId, notes: 'Keep it short' });
+
+    expect(shapeText(slide.slideId, title)).toBe('Goals\n');
+    const { elements } = await getSlide({ presentationId, slideId: slide.slideId });
+    expect(elements.map((element) => element.objectId)).toContain(title);
+  });
+
+  test('reorders and deletes slides', async () => {
+    const first = (await getPresentation({ presentationId })).slides[0]?.objectId ?? '';
+    const second = (await addSlide({ presentationId, layout: 'BLANK' })) as AddSlideOutput;
+
+    await reorderSlides({ presentationId, slideIds: [second.slideId], insertionIndex: 0 });
+    expect((await getPresentation({ presentationId })).slides.map((s) => s.objectId)).toEqual([
+      second.slideId,
+      first,
+    ]);
+
+    await deleteSlide({ presentationId, slideId: first });
+    expect((await getPresentation({ presentationId })).slideCount).toBe(1);
+  });
+
+  test('reports bad slide arguments as invalid arguments', async () => {
+    const only = (await getPresentation({ presentationId })).slides[0]?.objectId ?? '';
+
+    const errors = await Promise.all([
+      insertText({ presentationId, slideId: only, text: 'Nowhere' }).catch((e) => e),
+      deleteSlide({ presentationId, slideId: only }).catch((e) => e),
+      reorderSlides({ presentationId, slideIds: [only, 'missing'], insertionIndex: 0 }).catch(
+        (e) => e
+      ),
+    ]);
+
+    expect(errors.map((error) => toToolError(error).code)).toEqual([
+      'INVALID_ARGUMENTS',
+      'INVALID_ARGUMENTS',
+      'INVALID_ARGUMENTS',
+    ]);
+    expect(errors.map((error) => toToolError(error).issues?.[0]?.path)).toEqual([
+      'position',
+      'slideId',
+      'slideIds.1',
+    ]);
+  });
+
+  test('undoes a deleted slide', async () => {
+    const slide = (await addSlide({ presentationId, layout: 'TITLE_ONLY' })) as AddSlideOutput;
+    const title = slide.placeholders[0]?.objectId ?? '';
+    await insertText({
+      presentationId,
+      slideId: slide.slideId,
+      placeholderId: title,
+      text: 'Keep',
+    });
+    await deleteSlide({ presentationId, slideId: slide.slideId });
+
+    const result = (await undoLast({ presentationId })) as UndoLastOutput;
+    expect(result.undone).toBe(1);
+    expect(shapeText(slide.slideId, title)).toBe('Keep\n');
+  });
+
+  test('duplicates presentations', async () => {
+    const copy = await duplicatePresentation({ presentationId, title: 'Copy' });
+    expect((await getPresentation({ presentationId: copy.presentationId })).title).toBe('Copy');
+  });
+
+  test('reports unknown presentations as not found', async () => {
+    await expect(getPresentation({ presentationId: 'missing_deck' })).rejects.toBeInstanceOf(
+      PresentationNotFoundError
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the prompt registry and bundled prompts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  PromptArgumentsError,
+  promptRegistry,
+  UnknownPromptError,
+} from '../../src/prompts/index.js';
+
+function renderText(name: string, args?: Record<string, string>): string {
+  const result = promptRegistry.get(name, args);
+  const [message] = result.messages;
+  if (message?.content.type !== 'text') {
+    throw new Error('Expected a text message');
+  }
+  return message.content.text;
+}
+
+describe('PromptRegistry', () => {
+  describe('list', () => {
+    test('advertises the bundled prompts with their arguments', () => {
+      const prompts = promptRegistry.list();
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'build_pitch_deck',
+        'summarize_presentation',
+        'restyle_deck',
+      ]);
+
+      const pitchDeck = prompts[0];
+      expect(pitchDeck?.arguments).toContainEqual({
+        name: 'company',
+        description: 'Company or product being pitched',
+        required: true,
+      });
+      expect(pitchDeck?.arguments?.find((arg) => arg.name === 'audience')?.required).toBe(false);
+    });
+  });
+
+  describe('get', () => {
+    test('renders a single user message', () => {
+      const result = promptRegistry.get('build_pitch_deck', { company: 'Acme' });
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]?.role).toBe('user');
+    });
+
+    test('throws UnknownPromptError for unregistered prompts', () => {
+      expect(() => promptRegistry.get('missing', {})).toThrow(UnknownPromptError);
+    });
+
+    test('throws PromptArgumentsError when required arguments are missing', () => {
+      expect(() => promptRegistry.get('summarize_presentation', {})).toThrow(PromptArgumentsError);
+    });
+
+    test('rejects invalid enum arguments', () => {
+      expect(() =>
+        promptRegistry.get('summarize_presentation', { presentationId: 'p1', length: 'huge' })
+      ).toThrow(/length/);
+    });
+  });
+});
+
+describe('Bundled prompts', () => {
+  test('build_pitch_deck references the deck-building tools', () => {
+    const text = renderText('build_pitch_deck', {
+      company: 'Acme',
+      slideCount: '8',
+      keyPoints: '$2M ARR',
+    });
+
+    expect(text).toContain('8-slide pitch deck for Acme');
+    expect(text).toContain('$2M ARR');
+    for (const tool of ['add_slide', 'insert_text', 'create_bullets', 'format_text']) {
+      expect(text).toContain(tool);
+    }
+  });
+
+  test('summarize_presentation points at the presentation resource', () => {
+    const text = renderText('summarize_presentation', { presentationId: 'p1', length: 'short' });
+    expect(text).toContain('gslides://presentation/p1');
+    expect(text).toContain('three to five sentences');
+  });
+
+  test('restyle_deck lists only the brand values provided', () => {
+    const text = renderText('restyle_deck', { presentationId: 'p1', headingFont: 'Montserrat' });
+    expect(text).toContain('Heading font: Montserrat');
+    expect(text).not.toContain('Body font');
+    expect(text).toContain('format_text');
+  });
+
+  test('restyle_deck asks for brand values when none are given', () => {
+    const text = renderText('restyle_deck', { presentationId: 'p1' });
+    expect(text).toContain('ask for them before editing');
+  });
+});
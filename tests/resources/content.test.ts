@@ -0,0 +1,110 @@
+/**
+ * Unit tests for presentation content extraction
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { slides_v1 } from 'googleapis';
+import {
+  buildPresentationOutline,
+  extractSpeakerNotes,
+  summarizeSlide,
+} from '../../src/resources/content.js';
+
+function textShape(
+  objectId: string,
+  content: string,
+  placeholderType?: string
+): slides_v1.Schema$PageElement {
+  return {
+    objectId,
+    shape: {
+      ...(placeholderType && { placeholder: { type: placeholderType } }),
+      text: { textElements: [{ paragraphMarker: {} }, { textRun: { content: `${content}\n` } }] },
+    },
+  };
+}
+
+const slide: slides_v1.Schema$Page = {
+  objectId: 'slide_1',
+  pageElements: [
+    textShape('title_1', 'Quarterly Review', 'TITLE'),
+    textShape('body_1', 'Revenue up 20%', 'BODY'),
+    {
+      objectId: 'group_1',
+      elementGroup: { children: [textShape('label_1', 'Grouped label')] },
+    },
+    {
+      objectId: 'table_1',
+      table: {
+        tableRows: [
+          {
+            tableCells: [
+              { text: { textElements: [{ textRun: { content: 'Q1' } }] } },
+              { text: { textElements: [{ textRun: { content: '$1M' } }] } },
+            ],
+          },
+        ],
+      },
+    },
+    { objectId: 'image_1', image: { contentUrl: 'https://example.com/a.png' } },
+    textShape('empty_1', ''),
+  ],
+  slideProperties: {
+    notesPage: {
+      notesProperties: { speakerNotesObjectId: 'notes_1' },
+      pageElements: [textShape('notes_1', 'Mention the new hires')],
+    },
+  },
+};
+
+describe('Presentation content', () => {
+  describe('summarizeSlide', () => {
+    test('separates the title from the remaining text', () => {
+      expect(summarizeSlide(slide)).toEqual({
+        slideId: 'slide_1',
+        title: 'Quarterly Review',
+        text: ['Revenue up 20%', 'Grouped label', 'Q1 | $1M'],
+        notes: 'Mention the new hires',
+      });
+    });
+
+    test('omits title and notes when absent', () => {
+      expect(summarizeSlide({ objectId: 'blank' })).toEqual({ slideId: 'blank', text: [] });
+    });
+  });
+
+  describe('extractSpeakerNotes', () => {
+    test('returns undefined when the notes shape is empty', () => {
+      const page: slides_v1.Schema$Page = {
+        slideProperties: {
+          notesPage: {
+            notesProperties: { speakerNotesObjectId: 'notes_1' },
+            pageElements: [{ objectId: 'notes_1', shape: {} }],
+          },
+        },
+      };
+      expect(extractSpeakerNotes(page)).toBeUndefined();
+    });
+  });
+
+  describe('buildPresentationOutline', () => {
+    test('includes slide indices and presentation metadata', () => {
+      const outline = buildPresentationOutline({
+        presentationId: 'pres_1',
+        title: 'Deck',
+        revisionId: 'rev_1',
+        slides: [slide, { objectId: 'slide_2' }],
+      });
+
+      expect(outline.presentationId).toBe('pres_1');
+      expect(outline.title).toBe('Deck');
+      expect(outline.revisionId).toBe('rev_1');
+      expect(outline.slideCount).toBe(2);
+      expect(outline.slides.map((s) => [s.slideId, s.index])).toEqual([
+        ['slide_1', 0],
+        ['slide_2', 1],
+      ]);
+      expect(outline.link).toBe('https://docs.google.com/presentation/d/pres_1/edit');
+    });
+  });
+});
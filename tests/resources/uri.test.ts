@@ -0,0 +1,69 @@
+/**
+ * Unit tests for resource URI helpers
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  InvalidResourceUriError,
+  parseResourceUri,
+  presentationUri,
+  slideUri,
+} from '../../src/resources/uri.js';
+
+describe('Resource URIs', () => {
+  describe('presentationUri / slideUri', () => {
+    test('builds presentation URIs', () => {
+      expect(presentationUri('abc123')).toBe('gslides://presentation/abc123');
+    });
+
+    test('builds slide URIs', () => {
+      expect(slideUri('abc123', 'slide_1')).toBe('gslides://presentation/abc123/slide/slide_1');
+    });
+
+    test('percent-encodes reserved characters', () => {
+      expect(slideUri('a/b', 'c d')).toBe('gslides://presentation/a%2Fb/slide/c%20d');
+    });
+  });
+
+  describe('parseResourceUri', () => {
+    test('parses presentation URIs', () => {
+      expect(parseResourceUri('gslides://presentation/abc123')).toEqual({
+        kind: 'presentation',
+        presentationId: 'abc123',
+      });
+    });
+
+    test('parses slide URIs', () => {
+      expect(parseResourceUri('gslides://presentation/abc123/slide/slide_1')).toEqual({
+        kind: 'slide',
+        presentationId: 'abc123',
+        slideId: 'slide_1',
+      });
+    });
+
+    test('round-trips encoded identifiers', () => {
+      expect(parseResourceUri(slideUri('a/b', 'c d'))).toEqual({
+        kind: 'slide',
+        presentationId: 'a/b',
+        slideId: 'c d',
+      });
+    });
+
+    test('tolerates a trailing slash', () => {
+      expect(parseResourceUri('gslides://presentation/abc123/')).toEqual({
+        kind: 'presentation',
+        presentationId: 'abc123',
+      });
+    });
+
+    test.each([
+      'https://docs.google.com/presentation/d/abc123',
+      'gslides://presentation/',
+      'gslides://presentation/abc123/page/p1',
+      'gslides://presentation/abc123/slide/',
+      'gslides://presentation/%E0%A4%A',
+    ])('rejects %s', (uri) => {
+      expect(() => parseResourceUri(uri)).toThrow(InvalidResourceUriError);
+    });
+  });
+});
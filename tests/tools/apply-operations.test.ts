@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the apply_operations compiler
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  ApplyOperationsInputSchema,
+  applyOperations,
+  compileOperations,
+  type Operation,
+  OperationCompileError,
+} from '../../src/tools/batch/apply-operations.js';
+import type { DryRunOutput } from '../../src/tools/mutation.js';
+
+/**
+ * Parse operations the way the tool does, applying schema defaults
+ */
+function parseOperations(operations: unknown[]): Operation[] {
+  return ApplyOperationsInputSchema.parse({ presentationId: 'p1', operations }).operations;
+}
+
+describe('compileOperations', () => {
+  test('compiles operations into one request list in order', () => {
+    const { requests } = compileOperations(
+      parseOperations([
+        { op: 'format_text', objectId: 't1', style: { bold: true } },
+        { op: 'create_bullets', objectId: 't2' },
+      ])
+    );
+
+    expect(requests.map((r) => Object.keys(r)[0])).toEqual([
+      'updateTextStyle',
+      'createParagraphBullets',
+    ]);
+  });
+
+  test('resolves references to objects created earlier', () => {
+    const { requests, references } = compileOperations(
+      parseOperations([
+        { op: 'add_slide', id: 'intro' },
+        {
+          op: 'create_shape',
+          id: 'box',
+          slideId: '$intro',
+          shapeType: 'RECTANGLE',
+          position: { x: 0, y: 0, width: 1, height: 1 },
+        },
+        { op: 'format_text', objectId: '$box', style: { italic: true } },
+      ])
+    );
+
+    const slideId = references.intro;
+    expect(slideId).toMatch(/^slide_/);
+    expect(requests[1]?.createShape?.elementProperties?.pageObjectId).toBe(slideId);
+    expect(requests[2]?.updateTextStyle?.objectId).toBe(references.box);
+  });
+
+  test('maps referenced placeholders through placeholderIdMappings', () => {
+    const { requests, references } = compileOperations(
+      parseOperations([
+        { op: 'add_slide', id: 'cols', layout: 'TITLE_AND_TWO_COLUMNS' },
+        {
+          op: 'insert_text',
+          slideId: '$cols',
+          placeholderId: '$cols.placeholders.TITLE',
+          text: 'Q3',
+        },
+        {
+          op: 'insert_text',
+          slideId: '$cols',
+          placeholderId: '$cols.placeholders.BODY.1',
+          text: 'Right',
+        },
+      ])
+    );
+
+    const titleId = references['cols.placeholders.TITLE'];
+    const bodyId = references['cols.placeholders.BODY.1'];
+    expect(requests[0]?.createSlide?.placeholderIdMappings).toEqual([
+      { layoutPlaceholder: { type: 'TITLE', index: 0 }, objectId: titleId },
+      { layoutPlaceholder: { type: 'BODY', index: 1 }, objectId: bodyId },
+    ]);
+    expect(requests[1]?.insertText?.objectId).toBe(titleId);
+    expect(requests[2]?.insertText?.objectId).toBe(bodyId);
+  });
+
+  test('resolves references inside slideIds arrays', () => {
+    const { requests, references } = compileOperations(
+      parseOperations([
+        { op: 'add_slide', id: 'a' },
+        { op: 'reorder_slides', slideIds: ['$a', 'existing'], insertionIndex: 0 },
+      ])
+    );
+
+    expect(requests[1]?.updateSlidesPosition?.slideObjectIds).toEqual([references.a, 'existing']);
+  });
+
+  test('rejects references to later or unknown operations', () => {
+    const operations = parseOperations([
+      { op: 'format_text', objectId: '$box', style: { bold: true } },
+      {
+        op: 'create_shape',
+        id: 'box',
+        slideId: 's1',
+        shapeType: 'RECTANGLE',
+        position: { x: 0, y: 0, width: 1, height: 1 },
+      },
+    ]);
+
+    expect(() => compileOperations(operations)).toThrow(OperationCompileError);
+    expect(() => compileOperations(operations)).toThrow('Operation 0: Unknown reference $box');
+  });
+
+  test('rejects placeholder references to slides without a layout', () => {
+    const operations = parseOperations([
+      { op: 'add_slide', id: 'blank' },
+      {
+        op: 'insert_text',
+        slideId: '$blank',
+        placeholderId: '$blank.placeholders.TITLE',
+        text: 'x',
+      },
+    ]);
+
+    expect(() => compileOperations(operations)).toThrow('not an add_slide operation with a layout');
+  });
+
+  test('rejects duplicate ids', () => {
+    const operations = parseOperations([
+      { op: 'add_slide', id: 'a' },
+      { op: 'add_slide', id: 'a' },
+    ]);
+
+    expect(() => compileOperations(operations)).toThrow('Operation 1: Duplicate id: a');
+  });
+
+  test('reports builder errors with the operation index', () => {
+    const operations = parseOperations([
+      { op: 'add_slide' },
+      { op: 'insert_text', slideId: 's1', text: 'no position' },
+    ]);
+
+    expect(() => compileOperations(operations)).toThrow(
+      'Operation 1: Invalid arguments for insert_text: position: Required when placeholderId is not provided'
+    );
+  });
+});
+
+describe('applyOperations', () => {
+  test('dry run returns the compiled requests and references', async () => {
+    const result = (await applyOperations({
+      presentationId: 'p1',
+      operations: parseOperations([
+        { op: 'add_slide', id: 'intro', layout: 'TITLE' },
+        {
+          op: 'insert_text',
+          slideId: '$intro',
+          placeholderId: '$intro.placeholders.TITLE',
+          text: 'Hi',
+        },
+      ]),
+      dryRun: true,
+    })) as DryRunOutput & { references: Record<string, string> };
+
+    expect(result.dryRun).toBe(true);
+    expect(result.requests).toHaveLength(2);
+    expect(result.summary[1]).toBe(
+      `Insert "Hi" into ${result.references['intro.placeholders.TITLE']}`
+    );
+  });
+
+  test('rejects unknown operation types', () => {
+    expect(() => parseOperations([{ op: 'explode' }])).toThrow();
+  });
+});
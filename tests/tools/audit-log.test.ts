@@ -0,0 +1,267 @@
+/**
+ * Unit tests for the persistent audit log
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  type AuditEntry,
+  AuditLog,
+  type AuditLogOptions,
+  getAuditLogOptions,
+} from '../../src/tools/audit/audit-log.js';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    tool: 'insert_text',
+    presentationId: 'p1',
+    input: { presentationId: 'p1', objectId: 'box_1', text: 'Secret plan' },
+    batchUpdates: [
+      {
+        presentationId: 'p1',
+        requests: [{ insertText: { objectId: 'box_1', text: 'Secret plan' } }],
+        replies: [{}],
+      },
+    ],
+    durationMs: 12,
+    success: true,
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let testDir: string;
+
+  function createLog(options: Partial<AuditLogOptions> = {}): AuditLog {
+    return new AuditLog({
+      mode: 'all',
+      filePath: path.join(testDir, 'audit.jsonl'),
+      maxBytes: 1024 * 1024,
+      maxFiles: 2,
+      redact: [],
+      ...options,
+    });
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('appends one JSON line per entry', async () => {
+    const log = createLog();
+    await log.record(entry());
+    await log.record(entry({ tool: 'delete_slide' }));
+
+    const lines = (await fs.readFile(path.join(testDir, 'audit.jsonl'), 'utf-8'))
+      .trim()
+      .split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1] ?? '')).toMatchObject({ tool: 'delete_slide' });
+  });
+
+  test('creates the log file readable by the owner only', async () => {
+    await createLog().record(entry());
+
+    const stats = await fs.stat(path.join(testDir, 'audit.jsonl'));
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  test('rotates the log and drops the oldest file', async () => {
+    const log = createLog({ maxBytes: 600, maxFiles: 1 });
+    for (let i = 0; i < 4; i++) {
+      await log.record(entry({ tool: `tool_${i}` }));
+    }
+
+    const files = (await fs.readdir(testDir)).sort();
+    expect(files).toEqual(['audit.1.jsonl', 'audit.jsonl']);
+    expect((await log.query({ limit: 10 })).map((e) => e.tool)).toEqual(['tool_3', 'tool_2']);
+  });
+
+  test('queries newest first by presentation, tool, and time range', async () => {
+    const log = createLog();
+    await log.record(entry({ timestamp: '2026-01-01T00:00:00.000Z' }));
+    await log.record(entry({ timestamp: '2026-01-02T00:00:00.000Z', presentationId: 'p2' }));
+    await log.record(entry({ timestamp: '2026-01-03T00:00:00.000Z', tool: 'delete_slide' }));
+    await log.record(entry({ timestamp: '2026-01-04T00:00:00.000Z' }));
+
+    const byPresentation = await log.query({ presentationId: 'p1', limit: 10 });
+    expect(byPresentation.map((e) => e.timestamp.slice(0, 10))).toEqual([
+      '2026-01-04',
+      '2026-01-03',
+      '2026-01-01',
+    ]);
+
+    const inRange = await log.query({
+      tool: 'insert_text',
+      since: new Date('2026-01-02T00:00:00Z'),
+      until: new Date('2026-01-04T00:00:00Z'),
+      limit: 10,
+    });
+    expect(inRange.map((e) => e.presentationId)).toEqual(['p1', 'p2']);
+
+    expect(await log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  test('queries only the calls of one account profile', async () => {
+    const log = createLog();
+    await log.record(entry({ profile: 'default' }));
+    await log.record(entry({ profile: 'work', tool: 'delete_slide' }));
+
+    const entries = await log.query({ profile: 'default', limit: 10 });
+    expect(entries.map((e) => e.tool)).toEqual(['insert_text']);
+  });
+
+  test('always redacts sign-in secrets', async () => {
+    const log = createLog();
+    await log.record(
+      entry({
+        tool: 'complete_sign_in',
+        input: { redirectUrl: 'http://127.0.0.1:3000/?code=4/secret&scope=slides' },
+        batchUpdates: undefined,
+      })
+    );
+
+    const [recorded] = await log.query({ limit: 1 });
+    expect(recorded?.input).toEqual({ redirectUrl: '[redacted]' });
+    const file = await fs.readFile(path.join(testDir, 'audit.jsonl'), 'utf-8');
+    expect(file).not.toContain('4/secret');
+  });
+
+  test('skips malformed lines', async () => {
+    const log = createLog();
+    await log.record(entry());
+    await fs.appendFile(path.join(testDir, 'audit.jsonl'), '{"truncated\n');
+
+    expect(await log.query({ limit: 10 })).toHaveLength(1);
+  });
+
+  test('redacts text, URLs, and replies', async () => {
+    const log = createLog({ redact: ['text', 'urls', 'replies'] });
+    await log.record(
+      entry({
+        input: { presentationId: 'p1', text: 'Secret plan', imageUrl: 'https://example.com/a.png' },
+      })
+    );
+
+    const [recorded] = await log.query({ limit: 1 });
+    expect(recorded?.input).toEqual({
+      presentationId: 'p1',
+      text: '[redacted]',
+      imageUrl: '[redacted]',
+    });
+    expect(recorded?.batchUpdates).toEqual([
+      {
+        presentationId: 'p1',
+        requests: [{ insertText: { objectId: 'box_1', text: '[redacted]' } }],
+      },
+    ]);
+  });
+
+  test('records only mutations in mutations mode', () => {
+    const log = createLog({ mode: 'mutations' });
+
+    expect(log.shouldRecord(true)).toBe(false);
+    expect(log.shouldRecord(false)).toBe(true);
+  });
+
+  test('writes nothing when off', async () => {
+    const log = createLog({ mode: 'off' });
+    await log.record(entry());
+
+    expect(log.enabled).toBe(false);
+    expect(await fs.readdir(testDir)).toEqual([]);
+  });
+});
+
+describe('getAuditLogOptions', () => {
+  const keys = [
+    'MCP_GSLIDES_AUDIT_LOG',
+    'MCP_GSLIDES_AUDIT_PATH',
+    'MCP_GSLIDES_AUDIT_REDACT',
+    'MCP_GSLIDES_TOKEN_PATH',
+  ];
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of keys) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of keys) {
+      if (saved[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = saved[key];
+      }
+    }
+  });
+
+  test('stores the log next to tokens.json by default', () => {
+    process.env.MCP_GSLIDES_TOKEN_PATH = '/tmp/gslides/tokens.json';
+
+    const options = getAuditLogOptions();
+    expect(options.mode).toBe('all');
+    expect(options.filePath).toBe(path.resolve('/tmp/gslides/audit.jsonl'));
+    expect(options.redact).toEqual([]);
+  });
+
+  test('parses mode and redactions', () => {
+    process.env.MCP_GSLIDES_AUDIT_LOG = 'Mutations';
+    process.env.MCP_GSLIDES_AUDIT_REDACT = 'text, urls,bogus';
+
+    const options = getAuditLogOptions();
+    expect(options.mode).toBe('mutations');
+    expect(options.redact).toEqual(['text', 'urls']);
+  });
+
+  test('redacts create_table cell text when text is redacted', async () => {
+    const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-audit-'));
+    process.env.MCP_GSLIDES_AUDIT_PATH = path.join(testDir, 'audit.jsonl');
+    process.env.MCP_GSLIDES_AUDIT_REDACT = 'text';
+
+    try {
+      const log = new AuditLog(getAuditLogOptions());
+      await log.record(
+        entry({
+          tool: 'create_table',
+          input: { presentationId: 'p1', rows: 1, columns: 2, data: [['Revenue', '$4.2M']] },
+          batchUpdates: [
+            {
+              presentationId: 'p1',
+              requests: [
+                {
+                  insertText: {
+                    objectId: 'table_1',
+                    cellLocation: { rowIndex: 0, columnIndex: 1 },
+                    text: '$4.2M',
+                  },
+                },
+              ],
+            },
+          ],
+        })
+      );
+
+      const [recorded] = await log.query({ limit: 1 });
+      expect(recorded?.input).toEqual({
+        presentationId: 'p1',
+        rows: 1,
+        columns: 2,
+        data: '[redacted]',
+      });
+      expect(JSON.stringify(recorded?.batchUpdates)).not.toContain('$4.2M');
+    } finally {
+      await fs.rm(testDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the auth_status tool
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { OAUTH_SCOPES } from '../../src/auth/config.js';
+import { saveTokens } from '../../src/auth/token-store.js';
+import { clientManager } from '../../src/clients/index.js';
+import { authStatus } from '../../src/tools/auth/auth-status.js';
+import type { StoredTokens } from '../../src/types/common.js';
+
+const TOKENS: StoredTokens = {
+  accessToken: 'ya29.a0...',
+  refreshToken: '1//0e-refresh',
+  expiresAt: Date.now() + 30 * 60 * 1000,
+  scope: OAUTH_SCOPES.join(' '),
+};
+
+describe('auth_status', () => {
+  const originalFetch = globalThis.fetch;
+  let testDir: string;
+  let originalTokenPath: string | undefined;
+  let requestedUrls: string[];
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-test-'));
+    originalTokenPath = process.env.MCP_GSLIDES_TOKEN_PATH;
+    process.env.MCP_GSLIDES_TOKEN_PATH = path.join(testDir, 'tokens.json');
+    requestedUrls = [];
+    globalThis.fetch = Object.assign(
+      async (input: unknown) => {
+        requestedUrls.push(String(input));
+        return new Response(JSON.stringify({ user: { emailAddress: 'ada@example.com' } }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      },
+      { preconnect: originalFetch.preconnect }
+    );
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    clientManager.reset('default');
+    if (originalTokenPath === undefined) {
+      delete process.env.MCP_GSLIDES_TOKEN_PATH;
+    } else {
+      process.env.MCP_GSLIDES_TOKEN_PATH = originalTokenPath;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('reports the signed-in account without starting a sign-in', async () => {
+    await saveTokens(TOKENS);
+
+    const status = await authStatus({});
+
+    expect(status).toMatchObject({
+      account: 'default',
+      activeAccount: 'default',
+      method: 'oauth',
+      signedIn: true,
+      email: 'ada@example.com',
+      scopes: [...OAUTH_SCOPES],
+      missingScopes: [],
+      expiresAt: new Date(TOKENS.expiresAt).toISOString(),
+    });
+    expect(requestedUrls).toHaveLength(1);
+    expect(requestedUrls[0]).toContain('/drive/v3/about');
+  });
+
+  test('reports scopes the stored credentials lack', async () => {
+    await saveTokens({ ...TOKENS, scope: 'https://www.googleapis.com/auth/presentations' });
+
+    const status = await authStatus({});
+
+    expect(status.signedIn).toBe(true);
+    expect(status.missingScopes).toEqual(['https://www.googleapis.com/auth/drive']);
+    expect(status.message).toContain('asks for consent');
+    expect(status).not.toHaveProperty('email');
+    expect(requestedUrls).toEqual([]);
+  });
+
+  test('reports when no credentials are stored', async () => {
+    const status = await authStatus({});
+
+    expect(status).toMatchObject({ signedIn: false, scopes: [], missingScopes: [] });
+    expect(status.message).toContain('Not signed in');
+    expect(requestedUrls).toEqual([]);
+  });
+});
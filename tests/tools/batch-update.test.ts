@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the batch_update tool and its request model
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  BatchUpdateInputSchema,
+  batchUpdate,
+  isBatchUpdateEnabled,
+} from '../../src/tools/batch/batch-update.js';
+import { SlidesRequestSchema } from '../../src/tools/batch/request-schema.js';
+import type { DryRunOutput } from '../../src/tools/mutation.js';
+
+describe('SlidesRequestSchema', () => {
+  test('accepts supported request types', () => {
+    const requests = [
+      { insertText: { objectId: 'shape1', text: 'Hello', insertionIndex: 0 } },
+      {
+        deleteText: {
+          objectId: 'shape1',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 5 },
+        },
+      },
+      {
+        updateShapeProperties: {
+          objectId: 'shape1',
+          shapeProperties: { contentAlignment: 'MIDDLE' },
+          fields: 'contentAlignment',
+        },
+      },
+      { duplicateObject: { objectId: 'slide1' } },
+      {
+        insertTableRows: {
+          tableObjectId: 'table1',
+          cellLocation: { rowIndex: 0, columnIndex: 0 },
+          insertBelow: true,
+        },
+      },
+    ];
+
+    for (const request of requests) {
+      expect(SlidesRequestSchema.safeParse(request).success).toBe(true);
+    }
+  });
+
+  test('rejects unsupported request types', () => {
+    const result = SlidesRequestSchema.safeParse({ createVideo: { source: 'YOUTUBE' } });
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects requests with more or fewer than one request type', () => {
+    expect(SlidesRequestSchema.safeParse({}).success).toBe(false);
+    expect(
+      SlidesRequestSchema.safeParse({
+        deleteObject: { objectId: 'a' },
+        insertText: { objectId: 'b', text: 'x' },
+      }).success
+    ).toBe(false);
+  });
+
+  test('reports the path of invalid fields', () => {
+    const result = SlidesRequestSchema.safeParse({
+      updateTextStyle: { objectId: 'shape1', style: { bold: true } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(['updateTextStyle', 'fields']);
+  });
+
+  test('rejects unknown fields and incomplete ranges', () => {
+    expect(
+      SlidesRequestSchema.safeParse({ deleteObject: { objectId: 'a', force: true } }).success
+    ).toBe(false);
+    expect(
+      SlidesRequestSchema.safeParse({
+        deleteText: { objectId: 'a', textRange: { type: 'FIXED_RANGE', startIndex: 0 } },
+      }).success
+    ).toBe(false);
+  });
+
+  test('validates caller-chosen object IDs', () => {
+    expect(SlidesRequestSchema.safeParse({ createSlide: { objectId: 'ab' } }).success).toBe(false);
+    expect(
+      SlidesRequestSchema.safeParse({ createSlide: { objectId: 'slide_intro' } }).success
+    ).toBe(true);
+  });
+});
+
+describe('batchUpdate', () => {
+  test('requires at least one request', () => {
+    expect(BatchUpdateInputSchema.safeParse({ presentationId: 'p1', requests: [] }).success).toBe(
+      false
+    );
+  });
+
+  test('returns the requests and summary on dryRun', async () => {
+    const result = (await batchUpdate({
+      presentationId: 'p1',
+      requests: [{ deleteObject: { objectId: 'shape1' } }],
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.dryRun).toBe(true);
+    expect(result.summary).toEqual(['Delete shape1']);
+    expect(result.requests).toEqual([{ deleteObject: { objectId: 'shape1' } }]);
+  });
+});
+
+describe('isBatchUpdateEnabled', () => {
+  const original = process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE;
+    } else {
+      process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE = original;
+    }
+  });
+
+  test('is enabled by default', () => {
+    delete process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE;
+    expect(isBatchUpdateEnabled()).toBe(true);
+  });
+
+  test('is disabled by MCP_GSLIDES_DISABLE_BATCH_UPDATE', () => {
+    process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE = 'true';
+    expect(isBatchUpdateEnabled()).toBe(false);
+    process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE = '1';
+    expect(isBatchUpdateEnabled()).toBe(false);
+    process.env.MCP_GSLIDES_DISABLE_BATCH_UPDATE = 'false';
+    expect(isBatchUpdateEnabled()).toBe(true);
+  });
+});
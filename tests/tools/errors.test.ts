@@ -0,0 +1,98 @@
+/**
+ * Unit tests for structured tool errors
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import {
+  AuthenticationError,
+  AuthFlowCancelledError,
+  SignInRequiredError,
+  TokenDecryptionError,
+  TokenRefreshFailedError,
+} from '../../src/auth/index.js';
+import {
+  AccountExistsError,
+  ConcurrentModificationError,
+  PermissionDeniedError,
+  PresentationNotFoundError,
+  QuotaExceededError,
+  UnknownAccountError,
+} from '../../src/clients/index.js';
+import { toToolError } from '../../src/tools/errors.js';
+import {
+  ToolInputValidationError,
+  ToolNotPermittedError,
+  UnknownToolError,
+} from '../../src/tools/registry.js';
+import { UndoUnavailableError } from '../../src/tools/undo/undo-last.js';
+import { ColorParseError } from '../../src/utils/colors.js';
+
+describe('toToolError', () => {
+  test.each([
+    [new PresentationNotFoundError('p1'), 'PRESENTATION_NOT_FOUND', false],
+    [new PermissionDeniedError('p1'), 'PERMISSION_DENIED', false],
+    [new QuotaExceededError(), 'QUOTA_EXCEEDED', true],
+    [new ConcurrentModificationError('p1', 'rev1'), 'CONCURRENT_MODIFICATION', false],
+    [new AuthenticationError('Failed'), 'AUTHENTICATION_FAILED', true],
+    [new TokenRefreshFailedError(), 'TOKEN_REFRESH_FAILED', true],
+    [
+      new SignInRequiredError('default', 'device', 'https://www.google.com/device', 'ABCD-EFGH'),
+      'SIGN_IN_REQUIRED',
+      true,
+    ],
+    [new AuthFlowCancelledError(), 'AUTH_FLOW_CANCELLED', true],
+    [new TokenDecryptionError('tokens.json', 'tampered'), 'TOKEN_DECRYPTION_FAILED', false],
+    [new UnknownToolError('nope'), 'UNKNOWN_TOOL', false],
+    [new ToolNotPermittedError('delete_slide', 'denied'), 'TOOL_NOT_PERMITTED', false],
+    [new UndoUnavailableError('Nothing to undo'), 'UNDO_UNAVAILABLE', false],
+    [new UnknownAccountError('work'), 'ACCOUNT_NOT_FOUND', false],
+    [new AccountExistsError('work'), 'ACCOUNT_EXISTS', false],
+    [new ColorParseError('blurple'), 'INVALID_ARGUMENTS', false],
+    [new Error('Something broke'), 'INTERNAL_ERROR', false],
+  ])('maps %p to %s', (error, code, retryable) => {
+    const result = toToolError(error);
+    expect(result.code).toBe(code);
+    expect(result.retryable).toBe(retryable);
+    expect(result.message).toBe(error.message);
+    expect(result.hint.length).toBeGreaterThan(0);
+  });
+
+  test('classifies wrapped consent cancellation', () => {
+    const error = new AuthenticationError('Failed', new AuthFlowCancelledError());
+    expect(toToolError(error).code).toBe('AUTH_FLOW_CANCELLED');
+  });
+
+  test('includes argument paths for registry validation errors', () => {
+    const error = new ToolInputValidationError('add_slide', [
+      { path: 'insertionIndex', message: 'Number must be greater than or equal to 0' },
+    ]);
+
+    expect(toToolError(error)).toMatchObject({
+      code: 'INVALID_ARGUMENTS',
+      retryable: false,
+      issues: [{ path: 'insertionIndex', message: 'Number must be greater than or equal to 0' }],
+    });
+  });
+
+  test('includes argument paths for zod errors thrown by handlers', () => {
+    const schema = z.object({ position: z.object({ x: z.number() }) });
+    const parsed = schema.safeParse({ position: { x: 'left' } });
+    if (parsed.success) throw new Error('Expected parse to fail');
+
+    const result = toToolError(parsed.error);
+    expect(result.code).toBe('INVALID_ARGUMENTS');
+    expect(result.issues?.[0]?.path).toBe('position.x');
+  });
+
+  test('omits issues for non-input errors', () => {
+    expect(toToolError(new QuotaExceededError())).not.toHaveProperty('issues');
+  });
+
+  test('handles non-Error values', () => {
+    expect(toToolError('boom')).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'Unknown error occurred',
+    });
+  });
+});
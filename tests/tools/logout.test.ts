@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the logout tool
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { OAUTH_ENDPOINTS } from '../../src/auth/config.js';
+import { loadTokens, saveTokens } from '../../src/auth/token-store.js';
+import { logout } from '../../src/tools/auth/logout.js';
+import { type UndoEntry, undoJournal } from '../../src/tools/undo/journal.js';
+import type { StoredTokens } from '../../src/types/common.js';
+
+const TOKENS: StoredTokens = {
+  accessToken: 'ya29.a0...',
+  refreshToken: '1//0e-refresh',
+  expiresAt: Date.now() + 3600000,
+  scope: 'https://www.googleapis.com/auth/presentations',
+};
+
+describe('logout', () => {
+  const originalFetch = globalThis.fetch;
+  let testDir: string;
+  let originalTokenPath: string | undefined;
+  let revokeRequests: Array<{ url: string; body: string }>;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-gslides-test-'));
+    originalTokenPath = process.env.MCP_GSLIDES_TOKEN_PATH;
+    process.env.MCP_GSLIDES_TOKEN_PATH = path.join(testDir, 'tokens.json');
+    await saveTokens(TOKENS);
+    revokeRequests = [];
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    if (originalTokenPath === undefined) {
+      delete process.env.MCP_GSLIDES_TOKEN_PATH;
+    } else {
+      process.env.MCP_GSLIDES_TOKEN_PATH = originalTokenPath;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Answer revocation requests with the given handler, recording each one
+   */
+  function stubRevokeEndpoint(respond: () => Response) {
+    globalThis.fetch = Object.assign(
+      async (input: unknown, init?: RequestInit) => {
+        revokeRequests.push({ url: String(input), body: String(init?.body) });
+        return respond();
+      },
+      { preconnect: originalFetch.preconnect }
+    );
+  }
+
+  test('revokes the refresh token before clearing local credentials', async () => {
+    stubRevokeEndpoint(() => new Response('{}'));
+
+    const result = await logout({});
+
+    expect(result).toMatchObject({ success: true, account: 'default', revoked: true });
+    expect(result.message).toContain('revoked at Google');
+    expect(revokeRequests).toEqual([
+      { url: OAUTH_ENDPOINTS.revoke, body: 'token=1%2F%2F0e-refresh' },
+    ]);
+    expect(await loadTokens()).toBeNull();
+  });
+
+  test('still clears local credentials when Google cannot be reached', async () => {
+    stubRevokeEndpoint(() => {
+      throw new TypeError('Unable to connect');
+    });
+
+    const result = await logout({});
+
+    expect(result.revoked).toBe(false);
+    expect(result.revocationError).toContain('Unable to connect');
+    expect(result.message).toContain('could not be revoked');
+    expect(await loadTokens()).toBeNull();
+  });
+
+  test('reports a rejected revocation', async () => {
+    stubRevokeEndpoint(
+      () => new Response(JSON.stringify({ error: 'invalid_token' }), { status: 400 })
+    );
+
+    const result = await logout({});
+
+    expect(result.revoked).toBe(false);
+    expect(result.revocationError).toBeDefined();
+    expect(await loadTokens()).toBeNull();
+  });
+
+  test('keeps the undo history of other accounts', async () => {
+    stubRevokeEndpoint(() => new Response('{}'));
+    const entry = (account: string): UndoEntry => ({
+      toolName: 'create_shape',
+      account,
+      summary: ['Create RECTANGLE shape_1 on s1'],
+      inverse: [{ deleteObject: { objectId: 'shape_1' } }],
+      unsupported: [],
+      notRestored: [],
+      recordedAt: 0,
+    });
+    undoJournal.clear();
+    undoJournal.record('p1', entry('default'));
+    undoJournal.record('p1', entry('work'));
+
+    await logout({});
+
+    expect(undoJournal.peek('p1', 5).map((recorded) => recorded.account)).toEqual(['work']);
+    undoJournal.clear();
+  });
+
+  test('skips revocation when revoke is false', async () => {
+    stubRevokeEndpoint(() => new Response('{}'));
+
+    const result = await logout({ revoke: false });
+
+    expect(result).toMatchObject({ revoked: false });
+    expect(result).not.toHaveProperty('revocationError');
+    expect(revokeRequests).toEqual([]);
+    expect(await loadTokens()).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for dry-run support in mutating tools
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createShape } from '../../src/tools/content/create-shape.js';
+import { insertText } from '../../src/tools/content/insert-text.js';
+import { formatText } from '../../src/tools/formatting/format-text.js';
+import { toolRegistry } from '../../src/tools/index.js';
+import {
+  type DryRunOutput,
+  describeRequest,
+  dryRunResult,
+  revisionIdOf,
+} from '../../src/tools/mutation.js';
+import { addSlide } from '../../src/tools/slides/add-slide.js';
+
+describe('describeRequest', () => {
+  test.each([
+    [
+      { createSlide: { objectId: 's1', slideLayoutReference: { predefinedLayout: 'TITLE' } } },
+      'Create slide s1 with layout TITLE at the end',
+    ],
+    [{ createSlide: { objectId: 's1', insertionIndex: 2 } }, 'Create slide s1 at index 2'],
+    [{ deleteObject: { objectId: 's1' } }, 'Delete s1'],
+    [
+      { updateSlidesPosition: { slideObjectIds: ['a', 'b'], insertionIndex: 0 } },
+      'Move slides a, b to index 0',
+    ],
+    [{ insertText: { objectId: 't1', text: 'Hello' } }, 'Insert "Hello" into t1'],
+    [
+      { insertText: { objectId: 'tbl', cellLocation: { rowIndex: 1, columnIndex: 2 }, text: 'x' } },
+      'Insert "x" into cell (1, 2) of tbl',
+    ],
+    [{ deleteText: { objectId: 't1', textRange: { type: 'ALL' } } }, 'Delete all text in t1'],
+    [
+      {
+        updateTextStyle: {
+          objectId: 't1',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 5 },
+          fields: 'bold',
+        },
+      },
+      'Set text style (bold) on characters 0-5 in t1',
+    ],
+    [{ replaceAllText: { replaceText: 'x' } }, 'replaceAllText request'],
+  ])('describes %j', (request, expected) => {
+    expect(describeRequest(request)).toBe(expected);
+  });
+
+  test('truncates long text', () => {
+    const summary = describeRequest({ insertText: { objectId: 't1', text: 'a'.repeat(100) } });
+    expect(summary.length).toBeLessThan(60);
+    expect(summary).toContain('…');
+  });
+});
+
+describe('dryRunResult', () => {
+  test('returns the requests with one summary line each', () => {
+    const requests = [{ deleteObject: { objectId: 's1' } }, { deleteObject: { objectId: 's2' } }];
+    expect(dryRunResult(requests)).toEqual({
+      dryRun: true,
+      summary: ['Delete s1', 'Delete s2'],
+      requests,
+    });
+  });
+});
+
+describe('revisionIdOf', () => {
+  test('returns the revision reported in writeControl', () => {
+    expect(revisionIdOf({ writeControl: { requiredRevisionId: 'rev2' } })).toBe('rev2');
+  });
+
+  test('returns undefined when the API reports no revision', () => {
+    expect(revisionIdOf({ replies: [] })).toBeUndefined();
+  });
+});
+
+describe('dryRun option', () => {
+  test('is accepted with expectedRevisionId by every tool that calls batchUpdate', () => {
+    const mutating = [
+      'add_slide',
+      'delete_slide',
+      'reorder_slides',
+      'insert_text',
+      'insert_image',
+      'create_shape',
+      'create_table',
+      'set_speaker_notes',
+      'replace_text',
+      'format_text',
+      'format_paragraph',
+      'create_bullets',
+    ];
+    const tools = toolRegistry.list().filter((t) => mutating.includes(t.name));
+    expect(tools).toHaveLength(mutating.length);
+    for (const tool of tools) {
+      expect(tool.inputSchema.properties).toHaveProperty('dryRun');
+      expect(tool.inputSchema.properties).toHaveProperty('expectedRevisionId');
+    }
+  });
+
+  test('add_slide returns the createSlide request', async () => {
+    const result = (await addSlide({
+      presentationId: 'p1',
+      layout: 'TITLE',
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.dryRun).toBe(true);
+    expect(result.requests).toHaveLength(1);
+    expect(result.requests[0]?.createSlide?.slideLayoutReference?.predefinedLayout).toBe('TITLE');
+  });
+
+  test('insert_text returns the text box requests', async () => {
+    const result = (await insertText({
+      presentationId: 'p1',
+      slideId: 's1',
+      text: 'Hello',
+      position: { x: 1, y: 1, width: 4, height: 1 },
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.requests.map((r) => Object.keys(r)[0])).toEqual(['createShape', 'insertText']);
+    expect(result.summary[1]).toMatch(/^Insert "Hello" into text_/);
+  });
+
+  test('create_shape includes the fill color request', async () => {
+    const result = (await createShape({
+      presentationId: 'p1',
+      slideId: 's1',
+      shapeType: 'RECTANGLE',
+      position: { x: 0, y: 0, width: 1, height: 1 },
+      fillColor: '#FF0000',
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.requests[1]?.updateShapeProperties?.fields).toBe(
+      'shapeBackgroundFill.solidFill.color'
+    );
+  });
+
+  test('format_text returns the updateTextStyle request', async () => {
+    const result = (await formatText({
+      presentationId: 'p1',
+      objectId: 't1',
+      style: { bold: true },
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.summary).toEqual(['Set text style (bold) on all text in t1']);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for the tool registry
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import { toolRegistry } from '../../src/tools/index.js';
+import {
+  defineTool,
+  ToolInputValidationError,
+  ToolNotPermittedError,
+  ToolRegistry,
+  UnknownToolError,
+} from '../../src/tools/registry.js';
+import { getCallContext } from '../../src/utils/call-context.js';
+
+const echoTool = defineTool({
+  name: 'echo',
+  description: 'Echo the input back',
+  inputSchema: z.object({
+    message: z.string().describe('Message to echo'),
+    repeat: z.number().int().positive().default(1).describe('Number of repetitions'),
+  }),
+  annotations: { readOnlyHint: true },
+  handler: async (input) => ({ echoed: input.message.repeat(input.repeat) }),
+});
+
+describe('ToolRegistry', () => {
+  describe('list', () => {
+    test('generates JSON Schema from the zod schema', () => {
+      const registry = new ToolRegistry([echoTool]);
+      const [tool] = registry.list();
+
+      expect(tool?.name).toBe('echo');
+      expect(tool?.description).toBe('Echo the input back');
+      expect(tool?.annotations).toEqual({ readOnlyHint: true });
+      expect(tool?.inputSchema.type).toBe('object');
+      expect(tool?.inputSchema.properties).toEqual({
+        message: { type: 'string', description: 'Message to echo' },
+        repeat: {
+          type: 'integer',
+          exclusiveMinimum: 0,
+          default: 1,
+          description: 'Number of repetitions',
+        },
+        account: {
+          type: 'string',
+          pattern: '^[a-z0-9][a-z0-9_-]{0,31}$',
+          description: 'Account profile to act as (default: the active account; see list_accounts)',
+        },
+      });
+      expect(tool?.inputSchema.required).toEqual(['message']);
+      expect(tool?.inputSchema).not.toHaveProperty('$schema');
+    });
+
+    test('omits annotations when none are declared', () => {
+      const registry = new ToolRegistry([{ ...echoTool, annotations: undefined }]);
+      expect(registry.list()[0]).not.toHaveProperty('annotations');
+    });
+  });
+
+  describe('register', () => {
+    test('rejects duplicate tool names', () => {
+      const registry = new ToolRegistry([echoTool]);
+      expect(() => registry.register(echoTool)).toThrow('Tool already registered: echo');
+    });
+  });
+
+  describe('call', () => {
+    test('passes validated input with defaults applied to the handler', async () => {
+      const registry = new ToolRegistry([echoTool]);
+      const result = await registry.call('echo', { message: 'hi', repeat: 2 });
+      expect(result).toEqual({ echoed: 'hihi' });
+
+      const defaulted = await registry.call('echo', { message: 'hi' });
+      expect(defaulted).toEqual({ echoed: 'hi' });
+    });
+
+    test('throws UnknownToolError for unregistered tools', async () => {
+      const registry = new ToolRegistry([echoTool]);
+      await expect(registry.call('missing', {})).rejects.toBeInstanceOf(UnknownToolError);
+    });
+
+    test('reports field-level validation issues', async () => {
+      const registry = new ToolRegistry([echoTool]);
+
+      try {
+        await registry.call('echo', { repeat: -1 });
+        throw new Error('Expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ToolInputValidationError);
+        const issues = (error as ToolInputValidationError).issues;
+        expect(issues.map((issue) => issue.path).sort()).toEqual(['message', 'repeat']);
+        expect((error as ToolInputValidationError).message).toContain('Invalid arguments for echo');
+      }
+    });
+
+    test('treats missing arguments as an empty object', async () => {
+      const registry = new ToolRegistry([echoTool]);
+      await expect(registry.call('echo', undefined)).rejects.toBeInstanceOf(
+        ToolInputValidationError
+      );
+    });
+
+    test('records the account argument in the call context', async () => {
+      const strictTool = defineTool({
+        name: 'whoami',
+        description: 'Report the account of the call',
+        inputSchema: z.object({ message: z.string() }).strict(),
+        handler: async () => ({ account: getCallContext()?.account }),
+      });
+      const registry = new ToolRegistry([strictTool]);
+
+      await expect(registry.call('whoami', { message: 'hi', account: 'work' })).resolves.toEqual({
+        account: 'work',
+      });
+      await expect(registry.call('whoami', { message: 'hi' })).resolves.toEqual({
+        account: undefined,
+      });
+    });
+
+    test('rejects invalid account names', async () => {
+      const registry = new ToolRegistry([echoTool]);
+
+      try {
+        await registry.call('echo', { message: 'hi', account: '../work' });
+        throw new Error('Expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ToolInputValidationError);
+        expect((error as ToolInputValidationError).issues.map((issue) => issue.path)).toEqual([
+          'account',
+        ]);
+      }
+    });
+  });
+});
+
+describe('permissions', () => {
+  const tools = [
+    defineTool({ ...echoTool, name: 'read_deck', annotations: { readOnlyHint: true } }),
+    defineTool({ ...echoTool, name: 'edit_deck', annotations: { destructiveHint: false } }),
+    defineTool({ ...echoTool, name: 'delete_deck', annotations: { destructiveHint: true } }),
+  ];
+
+  /**
+   * Names of the tools a registry lists
+   */
+  function listed(registry: ToolRegistry): string[] {
+    return registry.list().map((tool) => tool.name);
+  }
+
+  test('lists every tool under the full profile', () => {
+    expect(listed(new ToolRegistry(tools))).toEqual(['read_deck', 'edit_deck', 'delete_deck']);
+  });
+
+  test('keeps only read-only tools under the read-only profile', () => {
+    expect(listed(new ToolRegistry(tools, { profile: 'read-only' }))).toEqual(['read_deck']);
+  });
+
+  test('hides destructive tools under the no-delete profile', () => {
+    expect(listed(new ToolRegistry(tools, { profile: 'no-delete' }))).toEqual([
+      'read_deck',
+      'edit_deck',
+    ]);
+  });
+
+  test('applies the enabled and disabled lists on top of the profile', () => {
+    const registry = new ToolRegistry(tools, {
+      profile: 'no-delete',
+      enabledTools: ['read_deck', 'edit_deck', 'delete_deck'],
+      disabledTools: ['edit_deck'],
+    });
+    expect(listed(registry)).toEqual(['read_deck']);
+  });
+
+  test('rejects calls to tools that are not permitted', async () => {
+    const registry = new ToolRegistry(tools, { profile: 'read-only' });
+
+    await expect(registry.call('read_deck', { message: 'hi' })).resolves.toEqual({
+      echoed: 'hi',
+    });
+    await expect(registry.call('delete_deck', { message: 'hi' })).rejects.toThrow(
+      new ToolNotPermittedError(
+        'delete_deck',
+        'the read-only permission profile allows only tools that do not make changes'
+      )
+    );
+  });
+});
+
+describe('toolRegistry', () => {
+  test('registers every server tool exactly once', () => {
+    const names = toolRegistry.list().map((tool) => tool.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toContain('add_slide');
+    expect(names).toContain('logout');
+    expect(names).toContain('switch_account');
+    expect(names).toContain('complete_sign_in');
+    expect(names).toContain('auth_status');
+    expect(names).toHaveLength(28);
+  });
+
+  test('advertises object schemas for every tool', () => {
+    for (const tool of toolRegistry.list()) {
+      expect(tool.inputSchema.type).toBe('object');
+    }
+  });
+});
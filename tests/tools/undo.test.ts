@@ -0,0 +1,418 @@
+/**
+ * Unit tests for the undo journal, inverse requests, and undo_last
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { slides_v1 } from 'googleapis';
+import type { DryRunOutput } from '../../src/tools/mutation.js';
+import { invertRequests, needsSnapshot } from '../../src/tools/undo/inverse.js';
+import { type UndoEntry, UndoJournal, undoJournal } from '../../src/tools/undo/journal.js';
+import { UndoUnavailableError, undoLast } from '../../src/tools/undo/undo-last.js';
+
+/**
+ * Build shape text content from runs
+ */
+function text(...runs: Array<{ content: string; style?: slides_v1.Schema$TextStyle }>) {
+  let index = 0;
+  return {
+    textElements: runs.map(({ content, style }) => {
+      const element = {
+        startIndex: index,
+        endIndex: index + content.length,
+        textRun: { content, style: style ?? {} },
+      };
+      index += content.length;
+      return element;
+    }),
+  };
+}
+
+/**
+ * Build a deck whose slides hold the given page elements
+ */
+function deck(
+  ...slides: Array<{ id: string; elements?: slides_v1.Schema$PageElement[] }>
+): slides_v1.Schema$Presentation {
+  return {
+    presentationId: 'p1',
+    revisionId: 'rev1',
+    slides: slides.map(({ id, elements }) => ({
+      objectId: id,
+      slideProperties: { layoutObjectId: 'layout1' },
+      pageElements: elements ?? [],
+    })),
+  };
+}
+
+/**
+ * Build a text box page element
+ */
+function textBox(
+  objectId: string,
+  ...runs: Array<{ content: string; style?: slides_v1.Schema$TextStyle }>
+): slides_v1.Schema$PageElement {
+  return { objectId, shape: { shapeType: 'TEXT_BOX', text: text(...runs) } };
+}
+
+function entry(overrides: Partial<UndoEntry> = {}): UndoEntry {
+  return {
+    toolName: 'create_shape',
+    account: 'default',
+    summary: ['Create RECTANGLE shape_1 on s1'],
+    inverse: [{ deleteObject: { objectId: 'shape_1' } }],
+    unsupported: [],
+    notRestored: [],
+    revisionId: 'rev2',
+    recordedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('needsSnapshot', () => {
+  test('is false for requests that only create objects or insert text', () => {
+    expect(
+      needsSnapshot([
+        { createShape: { objectId: 'box_1', shapeType: 'TEXT_BOX' } },
+        { insertText: { objectId: 'box_1', text: 'Hi' } },
+      ])
+    ).toBe(false);
+  });
+
+  test('is true for requests that remove or overwrite content', () => {
+    expect(needsSnapshot([{ deleteObject: { objectId: 's1' } }])).toBe(true);
+  });
+});
+
+describe('invertRequests', () => {
+  test('deletes created objects and ignores edits to them', () => {
+    const { requests, unsupported } = invertRequests(
+      [
+        { createShape: { objectId: 'box_1', shapeType: 'TEXT_BOX' } },
+        { insertText: { objectId: 'box_1', text: 'Hi' } },
+        { updateTextStyle: { objectId: 'box_1', style: { bold: true }, fields: 'bold' } },
+      ],
+      []
+    );
+
+    expect(requests).toEqual([{ deleteObject: { objectId: 'box_1' } }]);
+    expect(unsupported).toEqual([]);
+  });
+
+  test('uses generated IDs from the replies', () => {
+    const { requests } = invertRequests(
+      [{ duplicateObject: { objectId: 's1' } }],
+      [{ duplicateObject: { objectId: 's1_copy' } }]
+    );
+
+    expect(requests).toEqual([{ deleteObject: { objectId: 's1_copy' } }]);
+  });
+
+  test('restores replaced text in reverse order', () => {
+    const before = deck({
+      id: 's1',
+      elements: [
+        textBox('s1_box', { content: 'Old ', style: { bold: true } }, { content: 'title\n' }),
+      ],
+    });
+
+    const { requests } = invertRequests(
+      [
+        { deleteText: { objectId: 's1_box', textRange: { type: 'ALL' } } },
+        { insertText: { objectId: 's1_box', text: 'New', insertionIndex: 0 } },
+      ],
+      [],
+      before
+    );
+
+    expect(requests).toEqual([
+      {
+        deleteText: {
+          objectId: 's1_box',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 3 },
+        },
+      },
+      { insertText: { objectId: 's1_box', text: 'Old title', insertionIndex: 0 } },
+      {
+        updateTextStyle: {
+          objectId: 's1_box',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 4 },
+          style: { bold: true },
+          fields: 'bold',
+        },
+      },
+    ]);
+  });
+
+  test('refuses to restore text deleted after an earlier request changed it', () => {
+    const before = deck({ id: 's1', elements: [textBox('s1_box', { content: 'Title\n' })] });
+
+    const { requests, unsupported } = invertRequests(
+      [
+        { insertText: { objectId: 's1_box', text: 'New ', insertionIndex: 0 } },
+        {
+          deleteText: {
+            objectId: 's1_box',
+            textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 6 },
+          },
+        },
+      ],
+      [],
+      before
+    );
+
+    // The snapshot holds "Title", not the "New Ti" the second request deleted
+    expect(unsupported).toEqual(['deleteText']);
+    expect(requests).toEqual([
+      {
+        deleteText: {
+          objectId: 's1_box',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 4 },
+        },
+      },
+    ]);
+  });
+
+  test('refuses to recreate a deleted slide whose elements were changed first', () => {
+    const before = deck({ id: 's1', elements: [textBox('s1_box', { content: 'Title\n' })] });
+
+    const { unsupported } = invertRequests(
+      [
+        { insertText: { objectId: 's1_box', text: 'New ', insertionIndex: 0 } },
+        { deleteObject: { objectId: 's1' } },
+      ],
+      [],
+      before
+    );
+
+    expect(unsupported).toEqual(['deleteObject']);
+  });
+
+  test('restores every occurrence changed by replaceAllText', () => {
+    const { requests } = invertRequests(
+      [
+        {
+          replaceAllText: {
+            containsText: { text: 'cat', matchCase: false },
+            replaceText: 'dog!',
+          },
+        },
+      ],
+      [],
+      deck({ id: 's1', elements: [textBox('s1_box', { content: 'Cat and cat\n' })] })
+    );
+
+    // "Cat and cat" became "dog! and dog!"; the second occurrence moved by one
+    expect(requests).toEqual([
+      {
+        deleteText: {
+          objectId: 's1_box',
+          textRange: { type: 'FIXED_RANGE', startIndex: 9, endIndex: 13 },
+        },
+      },
+      { insertText: { objectId: 's1_box', text: 'cat', insertionIndex: 9 } },
+      {
+        deleteText: {
+          objectId: 's1_box',
+          textRange: { type: 'FIXED_RANGE', startIndex: 0, endIndex: 4 },
+        },
+      },
+      { insertText: { objectId: 's1_box', text: 'Cat', insertionIndex: 0 } },
+    ]);
+  });
+
+  test('moves reordered slides back to their previous indexes', () => {
+    const { requests } = invertRequests(
+      [{ updateSlidesPosition: { slideObjectIds: ['s2'], insertionIndex: 0 } }],
+      [],
+      deck({ id: 's1' }, { id: 's2' })
+    );
+
+    expect(requests).toEqual([
+      { updateSlidesPosition: { slideObjectIds: ['s1'], insertionIndex: 0 } },
+      { updateSlidesPosition: { slideObjectIds: ['s2'], insertionIndex: 1 } },
+    ]);
+  });
+
+  test('recreates a deleted slide with its layout, placeholders, and shapes', () => {
+    const before = deck(
+      { id: 's1' },
+      {
+        id: 's2',
+        elements: [
+          textBox('s2_box', { content: 'Notes\n' }),
+          {
+            objectId: 's2_title',
+            shape: {
+              placeholder: { type: 'TITLE', parentObjectId: 'layout1_title' },
+              text: text({ content: 'Agenda\n' }),
+            },
+          },
+        ],
+      }
+    );
+
+    const { requests, notRestored } = invertRequests(
+      [{ deleteObject: { objectId: 's2' } }],
+      [],
+      before
+    );
+
+    expect(requests[0]).toEqual({
+      createSlide: {
+        objectId: 's2',
+        insertionIndex: 1,
+        slideLayoutReference: { layoutId: 'layout1' },
+        placeholderIdMappings: [
+          { objectId: 's2_title', layoutPlaceholderObjectId: 'layout1_title' },
+        ],
+      },
+    });
+    expect(requests.slice(1)).toContainEqual({
+      createShape: {
+        objectId: 's2_box',
+        shapeType: 'TEXT_BOX',
+        elementProperties: { pageObjectId: 's2' },
+      },
+    });
+    expect(requests.slice(1)).toContainEqual({
+      insertText: { objectId: 's2_title', text: 'Agenda', insertionIndex: 0 },
+    });
+    expect(notRestored).toEqual([]);
+  });
+
+  test('reports page elements that cannot be recreated', () => {
+    const before = deck({
+      id: 's1',
+      elements: [{ objectId: 'video_1', video: { source: 'YOUTUBE' } }],
+    });
+
+    const { notRestored } = invertRequests([{ deleteObject: { objectId: 's1' } }], [], before);
+
+    expect(notRestored).toEqual(['video_1']);
+  });
+
+  test('reports requests without an inverse', () => {
+    const { unsupported } = invertRequests(
+      [{ groupObjects: { childrenObjectIds: ['a', 'b'] } }],
+      [],
+      deck({ id: 's1' })
+    );
+
+    expect(unsupported).toEqual(['groupObjects']);
+  });
+});
+
+describe('UndoJournal', () => {
+  test('keeps the most recent entries per presentation', () => {
+    const journal = new UndoJournal(2);
+    journal.record('p1', entry({ toolName: 'a' }));
+    journal.record('p1', entry({ toolName: 'b' }));
+    journal.record('p1', entry({ toolName: 'c' }));
+
+    expect(journal.peek('p1', 5).map((e) => e.toolName)).toEqual(['c', 'b']);
+    expect(journal.size('p2')).toBe(0);
+  });
+
+  test('pops the newest entries', () => {
+    const journal = new UndoJournal(5);
+    journal.record('p1', entry({ toolName: 'a' }));
+    journal.record('p1', entry({ toolName: 'b' }));
+    journal.pop('p1', 1);
+
+    expect(journal.peek('p1', 5).map((e) => e.toolName)).toEqual(['a']);
+  });
+
+  test('peeks and pops only the actions of one account', () => {
+    const journal = new UndoJournal(5);
+    journal.record('p1', entry({ toolName: 'a' }));
+    journal.record('p1', entry({ toolName: 'b', account: 'work' }));
+    journal.record('p1', entry({ toolName: 'c' }));
+
+    expect(journal.peek('p1', 2, 'default').map((e) => e.toolName)).toEqual(['c', 'a']);
+    journal.pop('p1', 1, 'work');
+
+    expect(journal.peek('p1', 5).map((e) => e.toolName)).toEqual(['c', 'a']);
+    expect(journal.size('p1', 'work')).toBe(0);
+  });
+
+  test('forgets only the actions of one account', () => {
+    const journal = new UndoJournal(5);
+    journal.record('p1', entry());
+    journal.record('p1', entry({ account: 'work' }));
+    journal.record('p2', entry({ account: 'work' }));
+
+    journal.clear('work');
+
+    expect(journal.size('p1')).toBe(1);
+    expect(journal.peek('p1', 1)[0]?.account).toBe('default');
+    expect(journal.size('p2')).toBe(0);
+  });
+
+  test('records nothing when disabled', () => {
+    const journal = new UndoJournal(0);
+    journal.record('p1', entry());
+
+    expect(journal.enabled).toBe(false);
+    expect(journal.size('p1')).toBe(0);
+  });
+});
+
+describe('undoLast', () => {
+  beforeEach(() => {
+    undoJournal.clear();
+  });
+
+  test('fails when nothing was recorded', async () => {
+    await expect(undoLast({ presentationId: 'p1' })).rejects.toBeInstanceOf(UndoUnavailableError);
+  });
+
+  test('ignores actions applied as other accounts', async () => {
+    undoJournal.record('p1', entry({ account: 'someone-else' }));
+
+    await expect(undoLast({ presentationId: 'p1', dryRun: true })).rejects.toBeInstanceOf(
+      UndoUnavailableError
+    );
+    expect(undoJournal.size('p1')).toBe(1);
+  });
+
+  test('previews the inverses of the newest actions first', async () => {
+    undoJournal.record('p1', entry({ inverse: [{ deleteObject: { objectId: 'first' } }] }));
+    undoJournal.record('p1', entry({ inverse: [{ deleteObject: { objectId: 'second' } }] }));
+
+    const result = (await undoLast({
+      presentationId: 'p1',
+      steps: 2,
+      dryRun: true,
+    })) as DryRunOutput;
+
+    expect(result.requests).toEqual([
+      { deleteObject: { objectId: 'second' } },
+      { deleteObject: { objectId: 'first' } },
+    ]);
+    expect(undoJournal.size('p1')).toBe(2);
+  });
+
+  test('refuses actions with unsupported requests', async () => {
+    undoJournal.record('p1', entry({ toolName: 'batch_update', unsupported: ['groupObjects'] }));
+
+    await expect(undoLast({ presentationId: 'p1', dryRun: true })).rejects.toThrow(
+      'cannot be undone: unsupported groupObjects requests'
+    );
+  });
+
+  test('refuses to undo across edits made elsewhere unless forced', async () => {
+    undoJournal.record('p1', entry({ revisionId: 'rev2' }));
+    undoJournal.record('p1', entry({ baseRevisionId: 'rev3', revisionId: 'rev4' }));
+
+    await expect(undoLast({ presentationId: 'p1', steps: 2, dryRun: true })).rejects.toThrow(
+      'edited between actions 1 and 2'
+    );
+    const result = (await undoLast({
+      presentationId: 'p1',
+      steps: 2,
+      force: true,
+      dryRun: true,
+    })) as DryRunOutput;
+    expect(result.requests).toHaveLength(2);
+  });
+});
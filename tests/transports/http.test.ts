@@ -0,0 +1,209 @@
+/**
+ * Integration tests for the HTTP transport
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createServer } from '../../src/server.js';
+import {
+  getHttpTransportConfig,
+  type HttpTransportHandle,
+  isAuthorized,
+  startHttpTransport,
+} from '../../src/transports/http.js';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+describe('HTTP transport', () => {
+  describe('getHttpTransportConfig', () => {
+    let originalEnv: Record<string, string | undefined>;
+
+    beforeEach(() => {
+      originalEnv = {
+        host: process.env.MCP_GSLIDES_HTTP_HOST,
+        port: process.env.MCP_GSLIDES_HTTP_PORT,
+        token: process.env.MCP_GSLIDES_HTTP_TOKEN,
+      };
+      delete process.env.MCP_GSLIDES_HTTP_HOST;
+      delete process.env.MCP_GSLIDES_HTTP_PORT;
+      delete process.env.MCP_GSLIDES_HTTP_TOKEN;
+    });
+
+    afterEach(() => {
+      const restore = (key: string, value: string | undefined) => {
+        if (value !== undefined) process.env[key] = value;
+        else delete process.env[key];
+      };
+      restore('MCP_GSLIDES_HTTP_HOST', originalEnv.host);
+      restore('MCP_GSLIDES_HTTP_PORT', originalEnv.port);
+      restore('MCP_GSLIDES_HTTP_TOKEN', originalEnv.token);
+    });
+
+    test('defaults to localhost:3000 without authentication', () => {
+      expect(getHttpTransportConfig()).toEqual({
+        host: '127.0.0.1',
+        port: 3000,
+        authToken: undefined,
+      });
+    });
+
+    test('reads environment variables', () => {
+      process.env.MCP_GSLIDES_HTTP_HOST = '0.0.0.0';
+      process.env.MCP_GSLIDES_HTTP_PORT = '8080';
+      process.env.MCP_GSLIDES_HTTP_TOKEN = 'secret';
+      expect(getHttpTransportConfig()).toEqual({
+        host: '0.0.0.0',
+        port: 8080,
+        authToken: 'secret',
+      });
+    });
+
+    test('CLI overrides take precedence', () => {
+      process.env.MCP_GSLIDES_HTTP_PORT = '8080';
+      expect(getHttpTransportConfig({ port: 9090 }).port).toBe(9090);
+    });
+
+    test('rejects invalid ports', () => {
+      expect(() => getHttpTransportConfig({ port: 70000 })).toThrow('Invalid HTTP port');
+      process.env.MCP_GSLIDES_HTTP_PORT = 'abc';
+      expect(() => getHttpTransportConfig()).toThrow('Invalid HTTP port');
+    });
+  });
+
+  describe('isAuthorized', () => {
+    test('accepts the matching bearer token', () => {
+      expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+      expect(isAuthorized('bearer secret', 'secret')).toBe(true);
+    });
+
+    test('rejects missing, malformed, or wrong tokens', () => {
+      expect(isAuthorized(undefined, 'secret')).toBe(false);
+      expect(isAuthorized('secret', 'secret')).toBe(false);
+      expect(isAuthorized('Bearer wrong!', 'secret')).toBe(false);
+      expect(isAuthorized('Bearer secre', 'secret')).toBe(false);
+    });
+  });
+
+  describe('startHttpTransport', () => {
+    let handle: HttpTransportHandle;
+
+    beforeEach(async () => {
+      handle = await startHttpTransport(createServer, {
+        host: '127.0.0.1',
+        port: 0,
+        authToken: 'secret',
+      });
+    });
+
+    afterEach(async () => {
+      await handle.close();
+    });
+
+    test('rejects requests without the bearer token', async () => {
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: mcpHeaders,
+        body: JSON.stringify(initializeRequest),
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    });
+
+    test('creates a separate session per initialize request', async () => {
+      const initialize = () =>
+        fetch(`${handle.url}/mcp`, {
+          method: 'POST',
+          headers: { ...mcpHeaders, Authorization: 'Bearer secret' },
+          body: JSON.stringify(initializeRequest),
+        });
+
+      const first = await initialize();
+      const second = await initialize();
+      await first.text();
+      await second.text();
+
+      const firstSession = first.headers.get('mcp-session-id');
+      const secondSession = second.headers.get('mcp-session-id');
+      expect(first.status).toBe(200);
+      expect(firstSession).toBeTruthy();
+      expect(secondSession).toBeTruthy();
+      expect(firstSession).not.toBe(secondSession);
+      expect(handle.sessionCount()).toBe(2);
+    });
+
+    test('routes follow-up requests to the session', async () => {
+      const init = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: { ...mcpHeaders, Authorization: 'Bearer secret' },
+        body: JSON.stringify(initializeRequest),
+      });
+      await init.text();
+      const sessionId = init.headers.get('mcp-session-id') ?? '';
+
+      const list = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: {
+          ...mcpHeaders,
+          Authorization: 'Bearer secret',
+          'mcp-session-id': sessionId,
+          'mcp-protocol-version': '2025-03-26',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'prompts/list', params: {} }),
+      });
+
+      expect(list.status).toBe(200);
+      expect(await list.text()).toContain('build_pitch_deck');
+    });
+
+    test('rejects non-initialize requests without a session', async () => {
+      const response = await fetch(`${handle.url}/mcp`, {
+        method: 'POST',
+        headers: { ...mcpHeaders, Authorization: 'Bearer secret' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('serves the legacy SSE transport', async () => {
+      const controller = new AbortController();
+      const response = await fetch(`${handle.url}/sse`, {
+        headers: { Authorization: 'Bearer secret', Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+      const reader = response.body?.getReader();
+      const chunk = await reader?.read();
+      const event = new TextDecoder().decode(chunk?.value);
+      expect(event).toContain('event: endpoint');
+      expect(event).toContain('/messages?sessionId=');
+      expect(handle.sessionCount()).toBe(1);
+
+      controller.abort();
+    });
+
+    test('returns 404 for unknown paths', async () => {
+      const response = await fetch(`${handle.url}/other`, {
+        headers: { Authorization: 'Bearer secret' },
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+});
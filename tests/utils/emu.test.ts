@@ -10,8 +10,10 @@ import {
   emuToCm,
   emuToInches,
   emuToPoints,
+  fromEmu,
   inchesToEmu,
   pointsToEmu,
+  toEmu,
 } from '../../src/utils/emu.js';
 
 describe('EMU Conversion Constants', () => {
@@ -225,3 +227,18 @@ describe('Cross-unit conversions', () => {
     expect(pointsInEmu).toBe(cmInEmu);
   });
 });
+
+describe('toEmu and fromEmu', () => {
+  test('convert each supported unit', () => {
+    expect(toEmu(1, 'in')).toBe(EMU_PER_INCH);
+    expect(toEmu(2, 'cm')).toBe(2 * EMU_PER_CM);
+    expect(toEmu(12, 'pt')).toBe(12 * EMU_PER_POINT);
+    expect(toEmu(1000.4, 'emu')).toBe(1000);
+  });
+
+  test('round-trip through EMU', () => {
+    expect(fromEmu(toEmu(2.5, 'cm'), 'cm')).toBeCloseTo(2.5);
+    expect(fromEmu(toEmu(18, 'pt'), 'pt')).toBeCloseTo(18);
+    expect(fromEmu(EMU_PER_INCH, 'in')).toBe(1);
+  });
+});
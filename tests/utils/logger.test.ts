@@ -0,0 +1,178 @@
+/**
+ * Unit tests for structured logging
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  type LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createServer, type ServerOptions } from '../../src/server.js';
+import { createCallContext, runWithCallContext } from '../../src/utils/call-context.js';
+import {
+  formatLogEntry,
+  getLoggerSettings,
+  type LogEntry,
+  Logger,
+  logger,
+} from '../../src/utils/logger.js';
+
+const entry: LogEntry = {
+  timestamp: '2026-01-02T03:04:05.000Z',
+  level: 'warn',
+  message: 'Google API request failed; retrying',
+  callId: 'call-1',
+  tool: 'get_presentation',
+  data: { status: 503, path: '/v1/presentations/abc', error: new Error('Backend error') },
+};
+
+describe('formatLogEntry', () => {
+  test('formats text lines with the call and details', () => {
+    expect(formatLogEntry(entry, 'text')).toBe(
+      '2026-01-02T03:04:05.000Z WARN [get_presentation call-1] Google API request failed; retrying' +
+        ' status=503 path=/v1/presentations/abc error={"name":"Error","message":"Backend error"}'
+    );
+  });
+
+  test('formats JSON lines with errors expanded', () => {
+    expect(JSON.parse(formatLogEntry(entry, 'json'))).toEqual({
+      ...entry,
+      data: { ...entry.data, error: { name: 'Error', message: 'Backend error' } },
+    });
+  });
+});
+
+describe('Logger', () => {
+  test('writes entries at or above the configured level', () => {
+    const lines: string[] = [];
+    const log = new Logger((line) => lines.push(line), { level: 'warn', format: 'json' });
+
+    log.info('Skipped');
+    log.warn('Written');
+    log.error('Also written');
+
+    expect(lines.map((line) => JSON.parse(line).message)).toEqual(['Written', 'Also written']);
+  });
+
+  test('tags entries with the active tool call', async () => {
+    const lines: string[] = [];
+    const log = new Logger((line) => lines.push(line), { level: 'debug', format: 'json' });
+    const context = createCallContext('add_slide');
+
+    await runWithCallContext(context, async () => log.debug('Inside'));
+    log.debug('Outside');
+
+    expect(JSON.parse(lines[0] ?? '')).toMatchObject({ callId: context.callId, tool: 'add_slide' });
+    expect(JSON.parse(lines[1] ?? '').callId).toBeUndefined();
+  });
+
+  test('passes every entry to subscribers regardless of level', () => {
+    const log = new Logger(() => {}, { level: 'error', format: 'text' });
+    const received: string[] = [];
+    const unsubscribe = log.subscribe((logged) => received.push(logged.message));
+
+    log.debug('First');
+    unsubscribe();
+    log.debug('Second');
+
+    expect(received).toEqual(['First']);
+  });
+});
+
+describe('getLoggerSettings', () => {
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = {
+      level: process.env.MCP_GSLIDES_LOG_LEVEL,
+      format: process.env.MCP_GSLIDES_LOG_FORMAT,
+    };
+  });
+
+  afterEach(() => {
+    const restore = (key: string, value: string | undefined) => {
+      if (value !== undefined) process.env[key] = value;
+      else delete process.env[key];
+    };
+    restore('MCP_GSLIDES_LOG_LEVEL', saved.level);
+    restore('MCP_GSLIDES_LOG_FORMAT', saved.format);
+  });
+
+  test('reads the level and format from the environment', () => {
+    process.env.MCP_GSLIDES_LOG_LEVEL = 'DEBUG';
+    process.env.MCP_GSLIDES_LOG_FORMAT = 'json';
+    expect(getLoggerSettings()).toEqual({ level: 'debug', format: 'json' });
+  });
+
+  test('ignores unknown values', () => {
+    process.env.MCP_GSLIDES_LOG_LEVEL = 'verbose';
+    delete process.env.MCP_GSLIDES_LOG_FORMAT;
+    expect(getLoggerSettings()).toEqual({ level: 'info', format: 'text' });
+  });
+});
+
+describe('MCP logging', () => {
+  /**
+   * Connect a client to a new server, collecting the log notifications it receives
+   */
+  async function connect(options?: ServerOptions) {
+    const server = createServer(options);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const messages: LoggingMessageNotification['params'][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return { server, client, messages };
+  }
+
+  test('sends entries at or above the level the client sets', async () => {
+    const { client, messages } = await connect({ forwardProcessLogs: true });
+
+    try {
+      await client.setLoggingLevel('warning');
+      logger.info('Not sent');
+      logger.warn('Sent', { attempt: 2 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(messages).toEqual([
+        {
+          level: 'warning',
+          logger: 'mcp-google-slides',
+          data: { message: 'Sent', data: { attempt: 2 } },
+        },
+      ]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  test('sends each client only the entries of its own tool calls', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    try {
+      const context = createCallContext('get_presentation', first.server);
+      await runWithCallContext(context, async () => {
+        logger.warn('Sign-in required: open https://www.google.com/device');
+      });
+      logger.warn('Token refreshed in the background');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(first.messages.map((message) => message.data)).toEqual([
+        {
+          message: 'Sign-in required: open https://www.google.com/device',
+          callId: context.callId,
+          tool: 'get_presentation',
+        },
+      ]);
+      expect(second.messages).toEqual([]);
+    } finally {
+      await Promise.all([first.client.close(), second.client.close()]);
+    }
+  });
+});